@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SlaStage" AS ENUM ('ACKNOWLEDGE', 'DISPATCH', 'ARRIVE');
+
+-- CreateTable
+CREATE TABLE "incident_sla_breaches" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "stage" "SlaStage" NOT NULL,
+    "targetMinutes" INTEGER NOT NULL,
+    "elapsedMinutes" INTEGER NOT NULL,
+    "previousPriority" "IncidentPriority" NOT NULL,
+    "newPriority" "IncidentPriority" NOT NULL,
+    "breachedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_sla_breaches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incident_sla_breaches_breachedAt_idx" ON "incident_sla_breaches"("breachedAt");
+
+-- CreateIndex
+CREATE INDEX "incident_sla_breaches_stage_idx" ON "incident_sla_breaches"("stage");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_sla_breaches_incidentId_stage_key" ON "incident_sla_breaches"("incidentId", "stage");
+
+-- AddForeignKey
+ALTER TABLE "incident_sla_breaches" ADD CONSTRAINT "incident_sla_breaches_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "IncidentStatus" ADD VALUE 'MERGED';
+
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "mergedAt" TIMESTAMP(3),
+ADD COLUMN     "mergedIntoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "incident_reporter_contacts" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "email" TEXT,
+    "sourceIncidentId" TEXT,
+    "reportedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_reporter_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incident_reporter_contacts_incidentId_idx" ON "incident_reporter_contacts"("incidentId");
+
+-- CreateIndex
+CREATE INDEX "incidents_mergedIntoId_idx" ON "incidents"("mergedIntoId");
+
+-- AddForeignKey
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "incidents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_reporter_contacts" ADD CONSTRAINT "incident_reporter_contacts_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
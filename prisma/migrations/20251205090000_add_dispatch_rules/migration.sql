@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "dispatch_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "incidentType" "IncidentType",
+    "incidentPriority" "IncidentPriority",
+    "barangayId" TEXT,
+    "requirements" JSONB NOT NULL,
+    "maxDistanceKm" DOUBLE PRECISION,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "dispatch_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dispatch_rules_isActive_order_idx" ON "dispatch_rules"("isActive", "order");
+
+-- AddForeignKey
+ALTER TABLE "dispatch_rules" ADD CONSTRAINT "dispatch_rules_barangayId_fkey" FOREIGN KEY ("barangayId") REFERENCES "barangays"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dispatch_rules" ADD CONSTRAINT "dispatch_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
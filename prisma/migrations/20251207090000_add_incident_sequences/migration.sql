@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "incident_sequences" (
+    "year" INTEGER NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "incident_sequences_pkey" PRIMARY KEY ("year")
+);
+
+-- Seed sequences from existing incidents so new numbers continue after them
+INSERT INTO "incident_sequences" ("year", "lastValue", "updatedAt")
+SELECT EXTRACT(YEAR FROM "createdAt")::INTEGER, COUNT(*), CURRENT_TIMESTAMP
+FROM "incidents"
+GROUP BY 1;
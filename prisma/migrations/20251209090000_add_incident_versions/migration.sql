@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "incident_resolutions" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedById" TEXT,
+ADD COLUMN     "deletionReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "incidents_deletedAt_idx" ON "incidents"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "incidents_archivedAt_idx" ON "incidents"("archivedAt");
+
+-- AddForeignKey
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "MajorEventStatus" AS ENUM ('ACTIVE', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "majorEventId" TEXT,
+ADD COLUMN     "parentIncidentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "major_events" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT,
+    "description" TEXT,
+    "status" "MajorEventStatus" NOT NULL DEFAULT 'ACTIVE',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "closedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "major_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_links" (
+    "id" TEXT NOT NULL,
+    "sourceIncidentId" TEXT NOT NULL,
+    "targetIncidentId" TEXT NOT NULL,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incidents_majorEventId_idx" ON "incidents"("majorEventId");
+
+-- CreateIndex
+CREATE INDEX "incidents_parentIncidentId_idx" ON "incidents"("parentIncidentId");
+
+-- CreateIndex
+CREATE INDEX "major_events_status_idx" ON "major_events"("status");
+
+-- CreateIndex
+CREATE INDEX "incident_links_targetIncidentId_idx" ON "incident_links"("targetIncidentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_links_sourceIncidentId_targetIncidentId_key" ON "incident_links"("sourceIncidentId", "targetIncidentId");
+
+-- AddForeignKey
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_majorEventId_fkey" FOREIGN KEY ("majorEventId") REFERENCES "major_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_parentIncidentId_fkey" FOREIGN KEY ("parentIncidentId") REFERENCES "incidents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "major_events" ADD CONSTRAINT "major_events_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "major_events" ADD CONSTRAINT "major_events_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_links" ADD CONSTRAINT "incident_links_sourceIncidentId_fkey" FOREIGN KEY ("sourceIncidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_links" ADD CONSTRAINT "incident_links_targetIncidentId_fkey" FOREIGN KEY ("targetIncidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_links" ADD CONSTRAINT "incident_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "TriageCategory" AS ENUM ('RED', 'YELLOW', 'GREEN', 'BLACK');
+
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "isMci" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mciDeclaredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "incident_patients" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "tagNumber" TEXT,
+    "triageCategory" "TriageCategory" NOT NULL,
+    "name" TEXT,
+    "age" INTEGER,
+    "sex" TEXT,
+    "description" TEXT,
+    "vitals" JSONB,
+    "treatmentNotes" TEXT,
+    "outcome" "ResolutionOutcome",
+    "destinationHospital" TEXT,
+    "transportedAt" TIMESTAMP(3),
+    "recordedById" TEXT,
+    "recordedByPersonnelId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "incident_patients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incident_patients_incidentId_triageCategory_idx" ON "incident_patients"("incidentId", "triageCategory");
+
+-- AddForeignKey
+ALTER TABLE "incident_patients" ADD CONSTRAINT "incident_patients_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_patients" ADD CONSTRAINT "incident_patients_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_patients" ADD CONSTRAINT "incident_patients_recordedByPersonnelId_fkey" FOREIGN KEY ("recordedByPersonnelId") REFERENCES "personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
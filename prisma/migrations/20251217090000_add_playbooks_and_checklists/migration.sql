@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "playbooks" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "incidentType" "IncidentType",
+    "incidentPriority" "IncidentPriority",
+    "requiredForResolution" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "playbooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "playbook_items" (
+    "id" TEXT NOT NULL,
+    "playbookId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "isRequired" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "playbook_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_checklist_items" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "playbookId" TEXT,
+    "order" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "blocksResolution" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "completedById" TEXT,
+    "completedByPersonnelId" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_checklist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "playbooks_isActive_incidentType_idx" ON "playbooks"("isActive", "incidentType");
+
+-- CreateIndex
+CREATE INDEX "playbook_items_playbookId_order_idx" ON "playbook_items"("playbookId", "order");
+
+-- CreateIndex
+CREATE INDEX "incident_checklist_items_incidentId_idx" ON "incident_checklist_items"("incidentId");
+
+-- AddForeignKey
+ALTER TABLE "playbooks" ADD CONSTRAINT "playbooks_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "playbook_items" ADD CONSTRAINT "playbook_items_playbookId_fkey" FOREIGN KEY ("playbookId") REFERENCES "playbooks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_checklist_items" ADD CONSTRAINT "incident_checklist_items_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_checklist_items" ADD CONSTRAINT "incident_checklist_items_playbookId_fkey" FOREIGN KEY ("playbookId") REFERENCES "playbooks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_checklist_items" ADD CONSTRAINT "incident_checklist_items_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_checklist_items" ADD CONSTRAINT "incident_checklist_items_completedByPersonnelId_fkey" FOREIGN KEY ("completedByPersonnelId") REFERENCES "personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'BOOLEAN', 'DATE', 'SELECT', 'MULTI_SELECT');
+
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "customFields" JSONB;
+
+-- CreateTable
+CREATE TABLE "incident_custom_fields" (
+    "id" TEXT NOT NULL,
+    "incidentType" "IncidentType" NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "description" TEXT,
+    "fieldType" "CustomFieldType" NOT NULL,
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "options" TEXT[],
+    "min" DOUBLE PRECISION,
+    "max" DOUBLE PRECISION,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "incident_custom_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incident_custom_fields_incidentType_isActive_idx" ON "incident_custom_fields"("incidentType", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_custom_fields_incidentType_key_key" ON "incident_custom_fields"("incidentType", "key");
@@ -0,0 +1,110 @@
+-- CreateTable
+CREATE TABLE "incident_comments" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "body" TEXT NOT NULL,
+    "authorUserId" TEXT,
+    "authorPersonnelId" TEXT,
+    "editedAt" TIMESTAMP(3),
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "incident_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_comment_revisions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_comment_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_comment_mentions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "userId" TEXT,
+    "personnelId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_comment_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_read_markers" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "userId" TEXT,
+    "personnelId" TEXT,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "incident_read_markers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incident_comments_incidentId_createdAt_idx" ON "incident_comments"("incidentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "incident_comments_parentId_idx" ON "incident_comments"("parentId");
+
+-- CreateIndex
+CREATE INDEX "incident_comment_revisions_commentId_idx" ON "incident_comment_revisions"("commentId");
+
+-- CreateIndex
+CREATE INDEX "incident_comment_mentions_commentId_idx" ON "incident_comment_mentions"("commentId");
+
+-- CreateIndex
+CREATE INDEX "incident_comment_mentions_userId_idx" ON "incident_comment_mentions"("userId");
+
+-- CreateIndex
+CREATE INDEX "incident_comment_mentions_personnelId_idx" ON "incident_comment_mentions"("personnelId");
+
+-- CreateIndex
+CREATE INDEX "incident_read_markers_userId_idx" ON "incident_read_markers"("userId");
+
+-- CreateIndex
+CREATE INDEX "incident_read_markers_personnelId_idx" ON "incident_read_markers"("personnelId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_read_markers_incidentId_userId_key" ON "incident_read_markers"("incidentId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_read_markers_incidentId_personnelId_key" ON "incident_read_markers"("incidentId", "personnelId");
+
+-- AddForeignKey
+ALTER TABLE "incident_comments" ADD CONSTRAINT "incident_comments_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comments" ADD CONSTRAINT "incident_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "incident_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comments" ADD CONSTRAINT "incident_comments_authorUserId_fkey" FOREIGN KEY ("authorUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comments" ADD CONSTRAINT "incident_comments_authorPersonnelId_fkey" FOREIGN KEY ("authorPersonnelId") REFERENCES "personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comment_revisions" ADD CONSTRAINT "incident_comment_revisions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "incident_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comment_mentions" ADD CONSTRAINT "incident_comment_mentions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "incident_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comment_mentions" ADD CONSTRAINT "incident_comment_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_comment_mentions" ADD CONSTRAINT "incident_comment_mentions_personnelId_fkey" FOREIGN KEY ("personnelId") REFERENCES "personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_read_markers" ADD CONSTRAINT "incident_read_markers_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_read_markers" ADD CONSTRAINT "incident_read_markers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_read_markers" ADD CONSTRAINT "incident_read_markers_personnelId_fkey" FOREIGN KEY ("personnelId") REFERENCES "personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "incident_chat_messages" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "senderUserId" TEXT,
+    "senderPersonnelId" TEXT,
+    "clientMessageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_chat_receipts" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT,
+    "personnelId" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+    "readAt" TIMESTAMP(3),
+
+    CONSTRAINT "incident_chat_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incident_chat_messages_incidentId_createdAt_idx" ON "incident_chat_messages"("incidentId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_chat_messages_incidentId_clientMessageId_key" ON "incident_chat_messages"("incidentId", "clientMessageId");
+
+-- CreateIndex
+CREATE INDEX "incident_chat_receipts_personnelId_deliveredAt_idx" ON "incident_chat_receipts"("personnelId", "deliveredAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_chat_receipts_messageId_userId_key" ON "incident_chat_receipts"("messageId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incident_chat_receipts_messageId_personnelId_key" ON "incident_chat_receipts"("messageId", "personnelId");
+
+-- AddForeignKey
+ALTER TABLE "incident_chat_messages" ADD CONSTRAINT "incident_chat_messages_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_chat_messages" ADD CONSTRAINT "incident_chat_messages_senderUserId_fkey" FOREIGN KEY ("senderUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_chat_messages" ADD CONSTRAINT "incident_chat_messages_senderPersonnelId_fkey" FOREIGN KEY ("senderPersonnelId") REFERENCES "personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_chat_receipts" ADD CONSTRAINT "incident_chat_receipts_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "incident_chat_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_chat_receipts" ADD CONSTRAINT "incident_chat_receipts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_chat_receipts" ADD CONSTRAINT "incident_chat_receipts_personnelId_fkey" FOREIGN KEY ("personnelId") REFERENCES "personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
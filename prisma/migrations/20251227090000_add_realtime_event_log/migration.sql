@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "realtime_events" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "room" TEXT NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "event" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "requiresAck" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "realtime_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "realtime_event_acks" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "ackedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "realtime_event_acks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "realtime_events_eventId_idx" ON "realtime_events"("eventId");
+
+-- CreateIndex
+CREATE INDEX "realtime_events_requiresAck_createdAt_idx" ON "realtime_events"("requiresAck", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtime_events_room_seq_key" ON "realtime_events"("room", "seq");
+
+-- CreateIndex
+CREATE INDEX "realtime_event_acks_ackedAt_idx" ON "realtime_event_acks"("ackedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtime_event_acks_eventId_recipient_key" ON "realtime_event_acks"("eventId", "recipient");
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "CertificationCategory" AS ENUM ('CERTIFICATION', 'LICENSE', 'SKILL');
+
+-- CreateTable
+CREATE TABLE "certification_types" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "CertificationCategory" NOT NULL DEFAULT 'CERTIFICATION',
+    "description" TEXT,
+    "validityMonths" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "certification_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "personnel_certifications" (
+    "id" TEXT NOT NULL,
+    "personnelId" TEXT NOT NULL,
+    "typeId" TEXT NOT NULL,
+    "certificateNumber" TEXT,
+    "issuingBody" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "scanUrl" TEXT,
+    "notes" TEXT,
+    "lastReminderDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "personnel_certifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "certification_types_code_key" ON "certification_types"("code");
+
+-- CreateIndex
+CREATE INDEX "personnel_certifications_expiresAt_idx" ON "personnel_certifications"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "personnel_certifications_typeId_idx" ON "personnel_certifications"("typeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "personnel_certifications_personnelId_typeId_key" ON "personnel_certifications"("personnelId", "typeId");
+
+-- AddForeignKey
+ALTER TABLE "personnel_certifications" ADD CONSTRAINT "personnel_certifications_personnelId_fkey" FOREIGN KEY ("personnelId") REFERENCES "personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "personnel_certifications" ADD CONSTRAINT "personnel_certifications_typeId_fkey" FOREIGN KEY ("typeId") REFERENCES "certification_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "TeamStatus" AS ENUM ('AVAILABLE', 'DEPLOYED', 'STANDBY', 'OFF_DUTY');
+
+-- AlterTable
+ALTER TABLE "teams" ADD COLUMN "leaderId" TEXT,
+ADD COLUMN "status" "TeamStatus" NOT NULL DEFAULT 'AVAILABLE';
+
+-- AlterTable
+ALTER TABLE "incident_assignments" ADD COLUMN "teamId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "incident_assignments_teamId_idx" ON "incident_assignments"("teamId");
+
+-- AddForeignKey
+ALTER TABLE "teams" ADD CONSTRAINT "teams_leaderId_fkey" FOREIGN KEY ("leaderId") REFERENCES "personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_assignments" ADD CONSTRAINT "incident_assignments_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
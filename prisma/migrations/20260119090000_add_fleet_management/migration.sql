@@ -0,0 +1,164 @@
+-- CreateEnum
+CREATE TYPE "VehicleType" AS ENUM ('AMBULANCE', 'FIRE_TRUCK', 'RESCUE_BOAT', 'RESCUE_VEHICLE', 'PATROL_VEHICLE', 'RADIO', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "VehicleStatus" AS ENUM ('AVAILABLE', 'EN_ROUTE', 'ON_SCENE', 'MAINTENANCE');
+
+-- CreateEnum
+CREATE TYPE "MaintenanceStatus" AS ENUM ('SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "vehicles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "VehicleType" NOT NULL,
+    "plateNumber" TEXT,
+    "description" TEXT,
+    "capacity" INTEGER,
+    "status" "VehicleStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "odometerKm" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "barangayId" TEXT,
+    "defaultDriverId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vehicle_fuel_logs" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "liters" DOUBLE PRECISION NOT NULL,
+    "cost" DOUBLE PRECISION,
+    "odometerKm" DOUBLE PRECISION,
+    "station" TEXT,
+    "notes" TEXT,
+    "filledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vehicle_fuel_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vehicle_odometer_logs" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "readingKm" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedById" TEXT,
+
+    CONSTRAINT "vehicle_odometer_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vehicle_maintenance" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "MaintenanceStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "dueAt" TIMESTAMP(3),
+    "dueOdometerKm" DOUBLE PRECISION,
+    "intervalDays" INTEGER,
+    "intervalKm" DOUBLE PRECISION,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "completedOdometerKm" DOUBLE PRECISION,
+    "cost" DOUBLE PRECISION,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicle_maintenance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_vehicles" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "assignedById" TEXT,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "arrivedAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "odometerStartKm" DOUBLE PRECISION,
+    "odometerEndKm" DOUBLE PRECISION,
+    "notes" TEXT,
+
+    CONSTRAINT "incident_vehicles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vehicles_name_key" ON "vehicles"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vehicles_plateNumber_key" ON "vehicles"("plateNumber");
+
+-- CreateIndex
+CREATE INDEX "vehicles_status_idx" ON "vehicles"("status");
+
+-- CreateIndex
+CREATE INDEX "vehicles_type_idx" ON "vehicles"("type");
+
+-- CreateIndex
+CREATE INDEX "vehicle_fuel_logs_vehicleId_filledAt_idx" ON "vehicle_fuel_logs"("vehicleId", "filledAt");
+
+-- CreateIndex
+CREATE INDEX "vehicle_odometer_logs_vehicleId_recordedAt_idx" ON "vehicle_odometer_logs"("vehicleId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "vehicle_maintenance_vehicleId_status_idx" ON "vehicle_maintenance"("vehicleId", "status");
+
+-- CreateIndex
+CREATE INDEX "vehicle_maintenance_dueAt_idx" ON "vehicle_maintenance"("dueAt");
+
+-- CreateIndex
+CREATE INDEX "incident_vehicles_incidentId_idx" ON "incident_vehicles"("incidentId");
+
+-- CreateIndex
+CREATE INDEX "incident_vehicles_vehicleId_releasedAt_idx" ON "incident_vehicles"("vehicleId", "releasedAt");
+
+-- CreateIndex
+CREATE INDEX "incident_vehicles_driverId_releasedAt_idx" ON "incident_vehicles"("driverId", "releasedAt");
+
+-- AddForeignKey
+ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_barangayId_fkey" FOREIGN KEY ("barangayId") REFERENCES "barangays"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicles" ADD CONSTRAINT "vehicles_defaultDriverId_fkey" FOREIGN KEY ("defaultDriverId") REFERENCES "personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_fuel_logs" ADD CONSTRAINT "vehicle_fuel_logs_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_fuel_logs" ADD CONSTRAINT "vehicle_fuel_logs_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_odometer_logs" ADD CONSTRAINT "vehicle_odometer_logs_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_odometer_logs" ADD CONSTRAINT "vehicle_odometer_logs_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_maintenance" ADD CONSTRAINT "vehicle_maintenance_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_maintenance" ADD CONSTRAINT "vehicle_maintenance_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_vehicles" ADD CONSTRAINT "incident_vehicles_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_vehicles" ADD CONSTRAINT "incident_vehicles_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_vehicles" ADD CONSTRAINT "incident_vehicles_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_vehicles" ADD CONSTRAINT "incident_vehicles_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "SosTrigger" AS ENUM ('MANUAL', 'NO_LOCATION', 'NO_MOVEMENT');
+
+-- CreateEnum
+CREATE TYPE "SosStatus" AS ENUM ('ACTIVE', 'ACKNOWLEDGED', 'RESOLVED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "sos_alerts" (
+    "id" TEXT NOT NULL,
+    "personnelId" TEXT NOT NULL,
+    "incidentId" TEXT,
+    "trigger" "SosTrigger" NOT NULL,
+    "status" "SosStatus" NOT NULL DEFAULT 'ACTIVE',
+    "message" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "accuracy" DOUBLE PRECISION,
+    "locationAt" TIMESTAMP(3),
+    "acknowledgedById" TEXT,
+    "acknowledgedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolutionNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sos_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sos_alerts_status_createdAt_idx" ON "sos_alerts"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "sos_alerts_personnelId_status_idx" ON "sos_alerts"("personnelId", "status");
+
+-- CreateIndex
+CREATE INDEX "sos_alerts_incidentId_idx" ON "sos_alerts"("incidentId");
+
+-- AddForeignKey
+ALTER TABLE "sos_alerts" ADD CONSTRAINT "sos_alerts_personnelId_fkey" FOREIGN KEY ("personnelId") REFERENCES "personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sos_alerts" ADD CONSTRAINT "sos_alerts_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "incidents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sos_alerts" ADD CONSTRAINT "sos_alerts_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sos_alerts" ADD CONSTRAINT "sos_alerts_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
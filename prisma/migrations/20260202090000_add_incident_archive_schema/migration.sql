@@ -0,0 +1,159 @@
+-- Archived incidents move out of the hot tables into the "archive" schema,
+-- together with every row that belongs to them. The "reporting" schema
+-- unions the two back together for search and reports.
+--
+-- The reporting views depend on the public tables: a migration that drops or
+-- retypes a column must start with SELECT "archive"."drop_views"();. Any
+-- migration that changes a table should end with SELECT "archive"."sync"();,
+-- which the application also runs on start-up.
+--
+-- Incidents archived in place before this migration move on the archive
+-- job's next run.
+
+CREATE SCHEMA IF NOT EXISTS "archive";
+CREATE SCHEMA IF NOT EXISTS "reporting";
+
+-- The hot table no longer holds archived rows
+DROP INDEX "incidents_archivedAt_idx";
+
+-- Tables whose rows move with an archived incident, and which of their rows
+-- belong to the incidents in $1
+CREATE FUNCTION "archive"."tables"() RETURNS TABLE ("name" TEXT, "owned" TEXT)
+LANGUAGE sql IMMUTABLE AS $$
+  VALUES
+    ('incidents', '"id" = ANY($1)'),
+    ('incident_links', '"sourceIncidentId" = ANY($1) OR "targetIncidentId" = ANY($1)'),
+    ('incident_patients', '"incidentId" = ANY($1)'),
+    ('incident_reporter_contacts', '"incidentId" = ANY($1)'),
+    ('incident_photos', '"incidentId" = ANY($1)'),
+    ('incident_assignments', '"incidentId" = ANY($1)'),
+    ('incident_updates', '"incidentId" = ANY($1)'),
+    ('incident_notification_acks', '"incidentId" = ANY($1)'),
+    ('incident_responders', '"incidentId" = ANY($1)'),
+    ('incident_timeline', '"incidentId" = ANY($1)'),
+    ('incident_resolutions', '"incidentId" = ANY($1)'),
+    ('incident_sla_breaches', '"incidentId" = ANY($1)'),
+    ('incident_checklist_items', '"incidentId" = ANY($1)'),
+    ('incident_tags', '"incidentId" = ANY($1)'),
+    ('incident_comments', '"incidentId" = ANY($1)'),
+    ('incident_comment_revisions', '"commentId" IN (SELECT "id" FROM "public"."incident_comments" WHERE "incidentId" = ANY($1))'),
+    ('incident_comment_mentions', '"commentId" IN (SELECT "id" FROM "public"."incident_comments" WHERE "incidentId" = ANY($1))'),
+    ('incident_read_markers', '"incidentId" = ANY($1)'),
+    ('incident_chat_messages', '"incidentId" = ANY($1)'),
+    ('incident_chat_receipts', '"messageId" IN (SELECT "id" FROM "public"."incident_chat_messages" WHERE "incidentId" = ANY($1))'),
+    ('incident_vehicles', '"incidentId" = ANY($1)')
+$$;
+
+-- Quoted column list of a table, in column order
+CREATE FUNCTION "archive"."columns"(_table REGCLASS) RETURNS TEXT
+LANGUAGE sql STABLE AS $$
+  SELECT string_agg(quote_ident("attname"), ', ' ORDER BY "attnum")
+  FROM "pg_attribute"
+  WHERE "attrelid" = _table AND "attnum" > 0 AND NOT "attisdropped"
+$$;
+
+CREATE FUNCTION "archive"."drop_views"() RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  _view RECORD;
+BEGIN
+  FOR _view IN SELECT "viewname" FROM "pg_views" WHERE "schemaname" = 'reporting' LOOP
+    EXECUTE format('DROP VIEW "reporting".%I', _view."viewname");
+  END LOOP;
+END;
+$$;
+
+-- Bring the archive tables and reporting views in step with the public schema
+CREATE FUNCTION "archive"."sync"() RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  _type RECORD;
+  _table RECORD;
+  _column RECORD;
+  _columns TEXT;
+BEGIN
+  -- Instances starting together must not rebuild the views concurrently
+  PERFORM pg_advisory_xact_lock(hashtext('archive.sync'));
+
+  -- Prisma qualifies enum casts with the schema it connects to
+  FOR _type IN
+    SELECT t."typname" FROM "pg_type" t JOIN "pg_namespace" n ON n."oid" = t."typnamespace"
+    WHERE n."nspname" = 'public' AND t."typtype" = 'e'
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM "pg_type" t JOIN "pg_namespace" n ON n."oid" = t."typnamespace"
+      WHERE n."nspname" = 'reporting' AND t."typname" = _type."typname"
+    ) THEN
+      EXECUTE format('CREATE DOMAIN "reporting".%I AS "public".%I', _type."typname", _type."typname");
+    END IF;
+  END LOOP;
+
+  FOR _table IN
+    SELECT "tablename" FROM "pg_tables" WHERE "schemaname" = 'public' AND "tablename" <> '_prisma_migrations'
+  LOOP
+    EXECUTE format('DROP VIEW IF EXISTS "reporting".%I', _table."tablename");
+
+    IF _table."tablename" IN (SELECT "name" FROM "archive"."tables"()) THEN
+      -- No foreign keys: archived rows outlive what they pointed at
+      EXECUTE format(
+        'CREATE TABLE IF NOT EXISTS "archive".%I (LIKE "public".%I INCLUDING DEFAULTS INCLUDING INDEXES)',
+        _table."tablename", _table."tablename"
+      );
+
+      -- Columns added to the hot table since; nullable, as old rows lack them
+      FOR _column IN
+        SELECT a."attname", format_type(a."atttypid", a."atttypmod") AS "type"
+        FROM "pg_attribute" a
+        WHERE a."attrelid" = format('"public".%I', _table."tablename")::REGCLASS
+          AND a."attnum" > 0 AND NOT a."attisdropped"
+          AND NOT EXISTS (
+            SELECT 1 FROM "pg_attribute" b
+            WHERE b."attrelid" = format('"archive".%I', _table."tablename")::REGCLASS
+              AND b."attname" = a."attname" AND NOT b."attisdropped"
+          )
+      LOOP
+        EXECUTE format(
+          'ALTER TABLE "archive".%I ADD COLUMN %I %s',
+          _table."tablename", _column."attname", _column."type"
+        );
+      END LOOP;
+
+      _columns := "archive"."columns"(format('"public".%I', _table."tablename")::REGCLASS);
+      EXECUTE format(
+        'CREATE VIEW "reporting".%I AS SELECT %s FROM "public".%I UNION ALL SELECT %s FROM "archive".%I',
+        _table."tablename", _columns, _table."tablename", _columns, _table."tablename"
+      );
+    ELSE
+      EXECUTE format('CREATE VIEW "reporting".%I AS SELECT * FROM "public".%I', _table."tablename", _table."tablename");
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Move incidents and the rows that belong to them into the archive. The
+-- delete cascades to the hot child rows copied above.
+CREATE FUNCTION "archive"."move_incidents"(_ids TEXT[], _archived_at TIMESTAMP(3)) RETURNS INTEGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  _table RECORD;
+  _columns TEXT;
+  _moved INTEGER;
+BEGIN
+  FOR _table IN SELECT * FROM "archive"."tables"() LOOP
+    _columns := "archive"."columns"(format('"public".%I', _table."name")::REGCLASS);
+    EXECUTE format(
+      'INSERT INTO "archive".%I (%s) SELECT %s FROM "public".%I WHERE %s',
+      _table."name", _columns, _columns, _table."name", _table."owned"
+    ) USING _ids;
+  END LOOP;
+
+  UPDATE "archive"."incidents" SET "archivedAt" = COALESCE("archivedAt", _archived_at) WHERE "id" = ANY(_ids);
+
+  DELETE FROM "public"."incidents" WHERE "id" = ANY(_ids);
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  RETURN _moved;
+END;
+$$;
+
+SELECT "archive"."sync"();
@@ -1,7 +1,7 @@
 import Fastify, { FastifyInstance } from 'fastify';
 import helmet from '@fastify/helmet';
 import { errorHandler } from './core/middleware';
-import { corsPlugin, websocketPlugin, multipartPlugin, staticPlugin, rateLimitPlugin, jwtPlugin, cookiePlugin, prismaPlugin } from './plugins';
+import { corsPlugin, websocketPlugin, multipartPlugin, staticPlugin, rateLimitPlugin, jwtPlugin, cookiePlugin, prismaPlugin, schedulerPlugin, domainEventsPlugin } from './plugins';
 import { securityHeadersMiddleware, requestSecurityMiddleware, denyAccessMiddleware } from './core/middleware/security.middleware';
 import { logger } from './core/utils/logger';
 import { env } from './config/environment';
@@ -71,6 +71,12 @@ export async function buildApp(): Promise<FastifyInstance> {
   // Register WebSocket plugin BEFORE routes so io is available in controllers
   await app.register(websocketPlugin);
 
+  // Domain event subscribers (broadcasts, notifications, audit, webhooks)
+  await app.register(domainEventsPlugin);
+
+  // Background jobs (SLA monitor) need both Prisma and Socket.IO
+  await app.register(schedulerPlugin);
+
   // Health check endpoint
   app.get('/health', async () => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -82,6 +88,16 @@ export async function buildApp(): Promise<FastifyInstance> {
   const { personnelRoutes } = await import('./features/personnel/personnel.routes.js');
   const { barangaysRoutes } = await import('./features/barangays/barangays.routes.js');
   const { incidentsRoutes } = await import('./features/incidents/incidents.routes.js');
+  const { dispatchRoutes } = await import('./features/dispatch/dispatch.routes.js');
+  const { eventsRoutes } = await import('./features/events/events.routes.js');
+  const { playbooksRoutes } = await import('./features/playbooks/playbooks.routes.js');
+  const { customFieldsRoutes } = await import('./features/custom-fields/custom-fields.routes.js');
+  const { tagsRoutes } = await import('./features/tags/tags.routes.js');
+  const { teamsRoutes } = await import('./features/teams/teams.routes.js');
+  const { rosterRoutes } = await import('./features/roster/roster.routes.js');
+  const { certificationsRoutes } = await import('./features/certifications/certifications.routes.js');
+  const { fleetRoutes } = await import('./features/fleet/fleet.routes.js');
+  const { sosRoutes } = await import('./features/sos/sos.routes.js');
   const { dashboardRoutes } = await import('./features/dashboard/dashboard.routes.js');
   const { photosRoutes } = await import('./features/photos/photos.routes.js');
   const { auditRoutes } = await import('./features/audit/audit.routes.js');
@@ -102,6 +118,16 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(personnelRoutes, { prefix: '/api/v1/personnel' });
   await app.register(barangaysRoutes, { prefix: '/api/v1/barangays' });
   await app.register(incidentsRoutes, { prefix: '/api/v1/incidents' });
+  await app.register(dispatchRoutes, { prefix: '/api/v1/dispatch' });
+  await app.register(eventsRoutes, { prefix: '/api/v1/events' });
+  await app.register(playbooksRoutes, { prefix: '/api/v1/playbooks' });
+  await app.register(customFieldsRoutes, { prefix: '/api/v1/custom-fields' });
+  await app.register(tagsRoutes, { prefix: '/api/v1/tags' });
+  await app.register(teamsRoutes, { prefix: '/api/v1/teams' });
+  await app.register(rosterRoutes, { prefix: '/api/v1/roster' });
+  await app.register(certificationsRoutes, { prefix: '/api/v1/certifications' });
+  await app.register(fleetRoutes, { prefix: '/api/v1/fleet' });
+  await app.register(sosRoutes, { prefix: '/api/v1/sos' });
   await app.register(dashboardRoutes, { prefix: '/api/v1/dashboard' });
   await app.register(photosRoutes, { prefix: '/api/v1/photos' });
   await app.register(auditRoutes, { prefix: '/api/v1/audit' });
@@ -19,6 +19,152 @@ export const CONSTANTS = {
   // Incident
   INCIDENT_NUMBER_PREFIX: 'INC',
 
+  // Incident SLA targets in minutes, measured from verification (or report time)
+  SLA_TARGETS: {
+    CRITICAL: { ACKNOWLEDGE: 2, DISPATCH: 5, ARRIVE: 15 },
+    HIGH: { ACKNOWLEDGE: 5, DISPATCH: 10, ARRIVE: 20 },
+    MEDIUM: { ACKNOWLEDGE: 10, DISPATCH: 20, ARRIVE: 40 },
+    LOW: { ACKNOWLEDGE: 30, DISPATCH: 60, ARRIVE: 120 },
+  },
+
+  // Per-type overrides, merged over SLA_TARGETS for the incident's priority
+  SLA_TYPE_OVERRIDES: {
+    FIRE: {
+      CRITICAL: { ARRIVE: 10 },
+      HIGH: { ARRIVE: 15 },
+    },
+    MEDICAL: {
+      CRITICAL: { ARRIVE: 10 },
+      HIGH: { ARRIVE: 15 },
+    },
+  },
+
+  // Duplicate report detection. A candidate must fall inside both windows;
+  // its score is the weighted sum of the per-signal scores (0-1).
+  DUPLICATE_DETECTION: {
+    MAX_DISTANCE_METERS: 300,
+    TIME_WINDOW_MINUTES: 60,
+    MIN_SCORE: 0.6,
+    MAX_SUGGESTIONS: 5,
+    WEIGHTS: {
+      DISTANCE: 0.35,
+      TIME: 0.25,
+      TYPE: 0.25,
+      DESCRIPTION: 0.15,
+    },
+  },
+
+  // Responder recommendation
+  RESPONDER_RECOMMENDATION: {
+    MAX_CANDIDATES: 10,
+    MAX_DISTANCE_KM: 20, // Distance score drops to 0 at this range
+    AVERAGE_SPEED_KMH: 30, // City traffic
+    LOCATION_STALE_MINUTES: 30,
+    MAX_OPEN_INCIDENTS: 3, // Workload score drops to 0 at this many open incidents
+    WEIGHTS: {
+      DISTANCE: 0.4,
+      STATUS: 0.25,
+      ROLE: 0.2,
+      WORKLOAD: 0.15,
+    },
+    // Specialist role preferred for each incident type
+    ROLE_MATCH: {
+      FIRE: 'FIREFIGHTER',
+      MEDICAL: 'MEDIC',
+      CRIME: 'POLICE',
+    },
+    // Personnel in statuses not listed here are never recommended
+    STATUS_SCORES: {
+      AVAILABLE: 1,
+      ON_DUTY: 0.8,
+      ON_BREAK: 0.4,
+      RESPONDING: 0.2,
+      ON_SCENE: 0.1,
+    },
+  },
+
+  // START (Simple Triage and Rapid Treatment) thresholds
+  START_TRIAGE: {
+    MAX_RESPIRATORY_RATE: 30, // Breaths per minute, above this is RED
+    MAX_CAPILLARY_REFILL_SECONDS: 2, // Above this is RED
+  },
+
+  // POST /incidents/bulk
+  BULK_OPERATIONS: {
+    MAX_INCIDENTS: 200, // Per request, whether listed by ID or matched by a filter
+  },
+
+  // Incident archive job
+  INCIDENT_ARCHIVE: {
+    BATCH_SIZE: 500, // Incidents moved per transaction
+  },
+
+  // Per-incident chat rooms
+  INCIDENT_CHAT: {
+    MAX_MESSAGE_LENGTH: 2000,
+    HISTORY_PAGE_SIZE: 50,
+    MAX_HISTORY_PAGE_SIZE: 200,
+    MAX_OFFLINE_REPLAY: 200, // Undelivered messages pushed on reconnect
+    MESSAGES_PER_MINUTE: 30,
+  },
+
+  // Outgoing webhooks
+  WEBHOOKS: {
+    TIMEOUT_MS: 5000,
+  },
+
+  // Socket.IO event log used for replay after reconnect
+  REALTIME_EVENTS: {
+    MAX_EVENTS_PER_TYPE: 200, // Kept per room and event name
+    RETENTION_HOURS: 24,
+    MAX_REPLAY_EVENTS: 500,
+    REDELIVERY_WINDOW_MINUTES: 30, // Unacked critical events are resent this long
+    // Dispatch events and distress alerts recipients must acknowledge
+    CRITICAL_EVENTS: ['incident:personnel-assigned', 'incident:verified', 'notification:new', 'personnel:sos:alert'],
+    // Not logged: ephemeral, or delivered by their own mechanism (chat)
+    UNLOGGED_EVENTS: [
+      'incident:typing',
+      'incident:marker_clicked',
+      'incident:message',
+      'incident:message:receipt',
+      'system:websocket_stats',
+      'presence:changed',
+    ],
+  },
+
+  // Online personnel and admins
+  PRESENCE: {
+    STALE_LOCATION_MINUTES: 5, // Flag ON_DUTY/RESPONDING personnel without a newer fix
+  },
+
+  // Duty roster
+  ROSTER: {
+    MAX_SHIFT_HOURS: 24,
+    MAX_RANGE_DAYS: 62, // Longest period listed, checked for gaps or exported at once
+    DEFAULT_RANGE_DAYS: 7,
+    COVERAGE_SLOT_MINUTES: 60, // Coverage is checked per slot of this length
+  },
+
+  // Personnel certifications and skills
+  CERTIFICATIONS: {
+    REMINDER_DAYS: [30, 7], // Expiry reminders, days ahead; the first is also the "expiring" window
+    MAX_SCAN_SIZE: 10 * 1024 * 1024, // 10MB
+    SCAN_TYPES: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
+  },
+
+  // Vehicles and equipment
+  FLEET: {
+    MAINTENANCE_DUE_SOON_DAYS: 7, // Maintenance listed as due this far ahead
+    MAINTENANCE_DUE_SOON_KM: 500,
+    MAX_REPORT_DAYS: 366,
+  },
+
+  // Responder distress alerts
+  SOS: {
+    ALERTS_PER_MINUTE: 5, // Manual SOS raised over the websocket
+    MAN_DOWN_MIN_FIXES: 2, // Fixes within the stationary window before no movement is judged
+  },
+
   // Audit log actions
   AUDIT_ACTIONS: {
     CREATE: 'CREATE',
@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { applySoftDeleteMiddleware } from '../core/middleware/soft-delete.middleware';
+import { applyEncryptionMiddleware } from '../core/middleware/encryption.middleware';
 
 const globalForPrisma = global as unknown as { prisma: PrismaClient };
 
@@ -44,17 +46,42 @@ prisma.$on('error', (e) => {
   console.error('[DATABASE ERROR]', e);
 });
 
+// Hide soft-deleted incidents from regular reads
+applySoftDeleteMiddleware(prisma);
+
+/**
+ * Read-only client over the "reporting" schema, whose views union the hot
+ * incident tables with their archived rows. Search and reports read through
+ * it so archived incidents stay searchable and reportable.
+ */
+export const reportingPrisma = new PrismaClient({
+  datasources: { db: { url: withSchema(process.env.DATABASE_URL, 'reporting') } },
+  log: ['error'],
+});
+
+// Decrypt sensitive fields like the application client does
+applyEncryptionMiddleware(reportingPrisma);
+applySoftDeleteMiddleware(reportingPrisma);
+
+function withSchema(databaseUrl: string | undefined, schema: string) {
+  if (!databaseUrl) return undefined;
+
+  const url = new URL(databaseUrl);
+  url.searchParams.set('schema', schema);
+  return url.toString();
+}
+
 if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
 }
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  await prisma.$disconnect();
+  await Promise.all([prisma.$disconnect(), reportingPrisma.$disconnect()]);
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
-  await prisma.$disconnect();
+  await Promise.all([prisma.$disconnect(), reportingPrisma.$disconnect()]);
   process.exit(0);
 });
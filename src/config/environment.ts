@@ -38,6 +38,32 @@ const envSchema = z.object({
   TWILIO_ACCOUNT_SID: z.string().optional(),
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_PHONE_NUMBER: z.string().optional(),
+  // Incident numbers, tokens: {PREFIX} {YEAR} {SEQ} or {SEQ:n} for zero padding to n digits
+  INCIDENT_NUMBER_FORMAT: z.string()
+    .refine((val) => /\{SEQ(:\d+)?\}/.test(val), 'INCIDENT_NUMBER_FORMAT must contain {SEQ}')
+    .default('{PREFIX}{YEAR}-{SEQ:4}'),
+  // Background jobs
+  SLA_MONITOR_ENABLED: z.string().default('true'),
+  SLA_CHECK_INTERVAL_MS: z.string().default('60000'), // 1 minute
+  INCIDENT_ARCHIVE_ENABLED: z.string().default('true'),
+  INCIDENT_ARCHIVE_AFTER_MONTHS: z.string().default('12'),
+  INCIDENT_ARCHIVE_INTERVAL_MS: z.string().default('86400000'), // 1 day
+  REALTIME_REDELIVERY_INTERVAL_MS: z.string().default('15000'), // Resend unacked critical events
+  REALTIME_EVENT_PRUNE_INTERVAL_MS: z.string().default('3600000'), // 1 hour
+  PRESENCE_CHECK_INTERVAL_MS: z.string().default('60000'), // Stale personnel locations
+  ROSTER_AUTOMATION_ENABLED: z.string().default('true'),
+  ROSTER_CHECK_INTERVAL_MS: z.string().default('60000'), // Shift start/end status changes
+  CERTIFICATION_REMINDER_ENABLED: z.string().default('true'),
+  CERTIFICATION_REMINDER_INTERVAL_MS: z.string().default('3600000'), // 1 hour
+  MAN_DOWN_DETECTION_ENABLED: z.string().default('true'),
+  MAN_DOWN_CHECK_INTERVAL_MS: z.string().default('60000'),
+  MAN_DOWN_NO_LOCATION_MINUTES: z.string().default('10'), // RESPONDING/ON_SCENE without a newer fix
+  MAN_DOWN_NO_MOVEMENT_MINUTES: z.string().default('15'), // Every fix in this window within the radius
+  MAN_DOWN_MOVEMENT_RADIUS_METERS: z.string().default('15'),
+  // Outgoing webhooks for domain events (comma-separated)
+  WEBHOOK_URLS: z.string().optional(),
+  WEBHOOK_SECRET: z.string().optional(),
+  WEBHOOK_EVENTS: z.string().default('IncidentCreated,IncidentStatusChanged,ResponderJoined,ResolutionSubmitted'),
 });
 
 export type Environment = z.infer<typeof envSchema>;
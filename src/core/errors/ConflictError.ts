@@ -0,0 +1,11 @@
+import { AppError } from './AppError';
+
+export class ConflictError extends AppError {
+  constructor(
+    message: string = 'Resource conflict',
+    public current?: unknown
+  ) {
+    super(message, 409);
+    this.current = current;
+  }
+}
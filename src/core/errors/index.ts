@@ -3,3 +3,4 @@ export { NotFoundError } from './NotFoundError';
 export { ValidationError } from './ValidationError';
 export { UnauthorizedError } from './UnauthorizedError';
 export { ForbiddenError } from './ForbiddenError';
+export { ConflictError } from './ConflictError';
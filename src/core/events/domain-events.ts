@@ -0,0 +1,133 @@
+import { Incident, IncidentPriority, IncidentStatus, IncidentUpdate, PersonnelStatus } from '@prisma/client';
+import { SosAlertEvent } from '../../features/sos/sos.types';
+
+export interface DomainEventActor {
+  role: 'ADMIN' | 'PERSONNEL';
+  id: string;
+}
+
+/**
+ * Payload of every domain event, keyed by event name. Adding an event here
+ * makes it available to publishers and subscribers with full typing.
+ */
+export interface DomainEventMap {
+  IncidentCreated: {
+    incident: Incident;
+    source: 'ADMIN' | 'PUBLIC';
+    createdBy?: string;
+  };
+  IncidentStatusChanged: {
+    incidentId: string;
+    incidentNumber: string;
+    previousStatus: IncidentStatus;
+    status: IncidentStatus;
+    priority: IncidentPriority;
+    actor: DomainEventActor;
+    notes?: string;
+  };
+  IncidentUpdated: {
+    incident: Incident;
+  };
+  IncidentVerified: {
+    incident: Incident;
+    verifiedBy: string;
+  };
+  IncidentResolved: {
+    incidentId: string;
+    resolvedBy: string;
+    incident?: Incident;
+  };
+  IncidentsMerged: {
+    incident: Incident;
+    mergedIncidentIds: string[];
+  };
+  IncidentDeleted: {
+    incidentId: string;
+    deletedBy: string;
+  };
+  IncidentRestored: {
+    incident: Incident;
+    restoredBy: string;
+  };
+  IncidentUpdateAdded: {
+    incidentId: string;
+    update: IncidentUpdate;
+  };
+  IncidentAcknowledged: {
+    incidentId: string;
+    personnelId: string;
+    acknowledgedCount: number;
+    totalPersonnelNotified: number;
+    acknowledgmentPercentage: number;
+  };
+  PersonnelAssigned: {
+    incidentId: string;
+    personnelIds: string[];
+    teamId?: string;
+    vehicleIds: string[];
+    // Set when a dispatch rule picked the personnel
+    dispatchRule?: { id: string; name: string };
+  };
+  ResponderJoined: {
+    incidentId: string;
+    personnelId: string;
+    totalResponders: number;
+    isPrimaryResponder: boolean;
+  };
+  ResponderLeft: {
+    incidentId: string;
+    personnelId: string;
+  };
+  ResolutionSubmitted: {
+    incidentId: string;
+    resolutionId: string;
+    personnelId: string;
+  };
+  PersonnelStatusChanged: {
+    personnelId: string;
+    status: PersonnelStatus;
+    // Set when a roster shift starting or ending changed the status
+    shiftId?: string;
+    reason?: string;
+  };
+  PersonnelLocationUpdated: {
+    personnelId: string;
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    timestamp: Date;
+    source: 'api' | 'websocket';
+  };
+  // recipientIds: personnel told besides admins
+  SosRaised: {
+    alert: SosAlertEvent;
+    recipientIds: string[];
+    // Raised again while the alert was open
+    escalated: boolean;
+  };
+  SosAcknowledged: {
+    alert: SosAlertEvent;
+    recipientIds: string[];
+    acknowledgedBy: string;
+  };
+  SosResolved: {
+    alert: SosAlertEvent;
+    recipientIds: string[];
+    resolvedBy: string;
+    notes?: string;
+  };
+  SosCancelled: {
+    alert: SosAlertEvent;
+    recipientIds: string[];
+    cancelledBy: DomainEventActor;
+    notes?: string;
+  };
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+export interface DomainEvent<K extends DomainEventName = DomainEventName> {
+  type: K;
+  payload: DomainEventMap[K];
+  occurredAt: Date;
+}
@@ -0,0 +1,57 @@
+import { logger } from '../utils/logger';
+import { DomainEvent, DomainEventMap, DomainEventName } from './domain-events';
+
+type Handler<K extends DomainEventName> = (event: DomainEvent<K>) => void | Promise<void>;
+type AnyHandler = (event: DomainEvent) => void | Promise<void>;
+
+/**
+ * In-process publish/subscribe for domain events. publish() calls handlers
+ * synchronously, before the publisher continues; async handlers are not
+ * awaited. Errors thrown by a handler and rejections of its promise are
+ * logged, never thrown, so a broken subscriber cannot fail the request that
+ * published the event.
+ */
+export class DomainEventBus {
+  private handlers = new Map<DomainEventName, Set<AnyHandler>>();
+  private anyHandlers = new Set<AnyHandler>();
+
+  /**
+   * Returns a function that removes the subscription
+   */
+  subscribe<K extends DomainEventName>(type: K, handler: Handler<K>): () => void {
+    const handlers = this.handlers.get(type) ?? new Set<AnyHandler>();
+    const registered = handler as unknown as AnyHandler;
+    handlers.add(registered);
+    this.handlers.set(type, handlers);
+
+    return () => handlers.delete(registered);
+  }
+
+  /**
+   * Receive every event, e.g. to forward them all to webhooks
+   */
+  subscribeAll(handler: AnyHandler): () => void {
+    this.anyHandlers.add(handler);
+    return () => this.anyHandlers.delete(handler);
+  }
+
+  publish<K extends DomainEventName>(type: K, payload: DomainEventMap[K]) {
+    const event: DomainEvent<K> = { type, payload, occurredAt: new Date() };
+    const handlers = [...(this.handlers.get(type) ?? []), ...this.anyHandlers];
+
+    handlers.forEach((handler) => {
+      try {
+        Promise.resolve(handler(event)).catch((error) => this.handlerFailed(type, error));
+      } catch (error) {
+        this.handlerFailed(type, error);
+      }
+    });
+  }
+
+  private handlerFailed(type: DomainEventName, error: unknown) {
+    logger.error(`[DomainEvents] ${type} handler failed:`, error);
+  }
+}
+
+// Shared by the application; tests and scripts can create their own bus
+export const domainEvents = new DomainEventBus();
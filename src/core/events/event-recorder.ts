@@ -0,0 +1,74 @@
+import { AssertionError } from 'assert';
+import { DomainEventBus } from './event-bus';
+import { DomainEvent, DomainEventMap, DomainEventName } from './domain-events';
+
+/**
+ * Records what a bus published, for asserting which domain events a service
+ * call produced:
+ *
+ *   const bus = new DomainEventBus();
+ *   const { events } = await recordDomainEvents(bus, () =>
+ *     new IncidentsService(prisma, undefined, bus).joinIncidentResponse(id, personnelId)
+ *   );
+ *   events.assertPublished('ResponderJoined');
+ */
+export class DomainEventRecorder {
+  readonly events: DomainEvent[] = [];
+  private unsubscribe: () => void;
+
+  constructor(bus: DomainEventBus) {
+    this.unsubscribe = bus.subscribeAll((event) => {
+      this.events.push(event);
+    });
+  }
+
+  types(): DomainEventName[] {
+    return this.events.map((event) => event.type);
+  }
+
+  payloads<K extends DomainEventName>(type: K): DomainEventMap[K][] {
+    return this.events
+      .filter((event): event is DomainEvent<K> => event.type === type)
+      .map((event) => event.payload);
+  }
+
+  /**
+   * Exactly these events, in this order
+   */
+  assertPublished(...expected: DomainEventName[]) {
+    const actual = this.types();
+    if (actual.length !== expected.length || actual.some((type, i) => type !== expected[i])) {
+      throw new AssertionError({
+        message: `Expected domain events [${expected.join(', ')}], got [${actual.join(', ')}]`,
+        actual,
+        expected,
+        operator: 'assertPublished',
+      });
+    }
+  }
+
+  assertNotPublished(type: DomainEventName) {
+    if (this.types().includes(type)) {
+      throw new AssertionError({
+        message: `Expected no ${type} event to be published`,
+        actual: this.types(),
+        operator: 'assertNotPublished',
+      });
+    }
+  }
+
+  stop() {
+    this.unsubscribe();
+  }
+}
+
+export async function recordDomainEvents<T>(bus: DomainEventBus, run: () => Promise<T>) {
+  const events = new DomainEventRecorder(bus);
+
+  try {
+    const result = await run();
+    return { result, events };
+  } finally {
+    events.stop();
+  }
+}
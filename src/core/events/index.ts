@@ -0,0 +1,3 @@
+export { DomainEventBus, domainEvents } from './event-bus';
+export { DomainEventRecorder, recordDomainEvents } from './event-recorder';
+export type { DomainEvent, DomainEventMap, DomainEventName, DomainEventActor } from './domain-events';
@@ -6,7 +6,8 @@ const SENSITIVE_FIELDS = {
   User: ['phone'],
   Personnel: ['phone', 'address'],
   Incident: ['reporterPhone'],
-  EmergencyContact: ['phone']
+  EmergencyContact: ['phone'],
+  IncidentReporterContact: ['phone']
 } as const;
 
 export function createEncryptionMiddleware() {
@@ -1,5 +1,5 @@
 import { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
-import { AppError } from '../errors';
+import { AppError, ConflictError } from '../errors';
 import { logger } from '../utils/logger';
 import { env } from '../../config/environment';
 import { randomBytes } from 'crypto';
@@ -76,6 +76,11 @@ export async function errorHandler(
       response.error.details = error.errors;
     }
 
+    // Stale writes get the current server state so the client can merge or reload
+    if (error instanceof ConflictError && error.current) {
+      response.error.current = error.current;
+    }
+
     return reply.status(error.statusCode).send(response);
   }
 
@@ -0,0 +1,43 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+// Models whose rows are soft deleted via a deletedAt column
+const SOFT_DELETE_MODELS: Prisma.ModelName[] = ['Incident'];
+
+const READ_ACTIONS: Prisma.PrismaAction[] = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+];
+
+/**
+ * Hide soft-deleted rows from top-level reads.
+ * Queries that filter on deletedAt themselves (e.g. the deleted incidents list) are left alone.
+ */
+export function createSoftDeleteMiddleware() {
+  return async (params: Prisma.MiddlewareParams, next: (params: Prisma.MiddlewareParams) => Promise<unknown>) => {
+    if (
+      params.model &&
+      SOFT_DELETE_MODELS.includes(params.model) &&
+      READ_ACTIONS.includes(params.action)
+    ) {
+      params.args = params.args || {};
+      const where = params.args.where || {};
+
+      if (!('deletedAt' in where)) {
+        params.args.where = { ...where, deletedAt: null };
+      }
+    }
+
+    return next(params);
+  };
+}
+
+// Helper function to apply soft delete middleware to Prisma client
+export function applySoftDeleteMiddleware(prisma: PrismaClient) {
+  prisma.$use(createSoftDeleteMiddleware());
+}
@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { ConflictError, ValidationError } from '../errors';
+
+/**
+ * Optimistic concurrency helpers for versioned records (ETag / If-Match)
+ */
+export class ConcurrencyService {
+  /**
+   * Strong ETag for a record version
+   */
+  static etag(version: number): string {
+    return `"${version}"`;
+  }
+
+  /**
+   * Version expected by an If-Match header. Missing header or "*" means any version.
+   */
+  static parseIfMatch(header: string | string[] | undefined): number | undefined {
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value || value.trim() === '*') return undefined;
+
+    const match = value.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+    if (!match) {
+      throw new ValidationError('If-Match must be an ETag returned by the server');
+    }
+
+    return parseInt(match[1]);
+  }
+
+  /**
+   * Reject a write made against an older version, returning the current record to the client
+   */
+  static assertVersion<T extends { version: number }>(
+    current: T,
+    expectedVersion: number | undefined,
+    resource: string
+  ) {
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      throw ConcurrencyService.conflict(resource, current);
+    }
+  }
+
+  static conflict(resource: string, current: unknown): ConflictError {
+    return new ConflictError(`${resource} was modified by someone else. Reload and try again.`, current);
+  }
+
+  /**
+   * Whether a version-guarded update matched no row because the record changed underneath it
+   */
+  static isStaleWrite(error: unknown): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+  }
+}
@@ -0,0 +1,115 @@
+const EARTH_RADIUS_KM = 6371;
+
+// GeoJSON positions are [longitude, latitude]
+export type GeoJsonPosition = number[];
+
+export type GeoJsonPolygon = {
+  type: 'Polygon';
+  coordinates: GeoJsonPosition[][];
+};
+
+export type GeoJsonMultiPolygon = {
+  type: 'MultiPolygon';
+  coordinates: GeoJsonPosition[][][];
+};
+
+export type GeoJsonArea = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+/**
+ * Geographic helpers shared across features
+ */
+export class GeoService {
+  /**
+   * Great-circle distance between two coordinates in kilometers (Haversine formula)
+   */
+  static distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const dLat = GeoService.toRad(lat2 - lat1);
+    const dLon = GeoService.toRad(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(GeoService.toRad(lat1)) *
+        Math.cos(GeoService.toRad(lat2)) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return EARTH_RADIUS_KM * c;
+  }
+
+  /**
+   * Great-circle distance between two coordinates in meters
+   */
+  static distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    return GeoService.distanceKm(lat1, lon1, lat2, lon2) * 1000;
+  }
+
+  /**
+   * Latitude/longitude deltas bounding a radius around a point, for coarse DB filtering
+   */
+  static boundingBox(lat: number, lon: number, radiusMeters: number) {
+    const latDelta = (radiusMeters / 1000 / EARTH_RADIUS_KM) * (180 / Math.PI);
+    const lonDelta = latDelta / Math.max(Math.cos(GeoService.toRad(lat)), 0.01);
+
+    return {
+      minLat: lat - latDelta,
+      maxLat: lat + latDelta,
+      minLon: lon - lonDelta,
+      maxLon: lon + lonDelta,
+    };
+  }
+
+  /**
+   * Whether a point falls inside a GeoJSON Polygon or MultiPolygon.
+   * Holes (inner rings) are excluded.
+   */
+  static containsPoint(area: GeoJsonArea, lat: number, lon: number): boolean {
+    const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+
+    return polygons.some(([outer, ...holes]) =>
+      !!outer &&
+      GeoService.ringContains(outer, lat, lon) &&
+      !holes.some((hole) => GeoService.ringContains(hole, lat, lon))
+    );
+  }
+
+  /**
+   * Parse stored JSON into a GeoJSON area, unwrapping a Feature if present.
+   * Returns null for anything that is not a Polygon or MultiPolygon.
+   */
+  static toArea(value: unknown): GeoJsonArea | null {
+    if (!value || typeof value !== 'object') return null;
+
+    const geometry = (value as { type?: string; geometry?: unknown }).type === 'Feature'
+      ? (value as { geometry?: unknown }).geometry
+      : value;
+
+    if (!geometry || typeof geometry !== 'object') return null;
+
+    const { type, coordinates } = geometry as { type?: string; coordinates?: unknown };
+    if ((type === 'Polygon' || type === 'MultiPolygon') && Array.isArray(coordinates)) {
+      return geometry as GeoJsonArea;
+    }
+
+    return null;
+  }
+
+  /**
+   * Ray casting test against a single linear ring
+   */
+  private static ringContains(ring: GeoJsonPosition[], lat: number, lon: number): boolean {
+    let inside = false;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+
+      const intersects = yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+      if (intersects) inside = !inside;
+    }
+
+    return inside;
+  }
+
+  static toRad(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+}
@@ -2,3 +2,7 @@ export { JWTService } from './jwt';
 export { PasswordService } from './password';
 export { logger } from './logger';
 export { AuditLogger } from './audit-logger';
+export { GeoService } from './geo';
+export { ConcurrencyService } from './concurrency';
+export { handleSocketEvent } from './socket-handler';
+export type { SocketAck, RateLimitCheck } from './socket-handler';
@@ -0,0 +1,38 @@
+import { Socket } from 'socket.io';
+import { z, ZodTypeAny } from 'zod';
+import { AppError } from '../errors';
+import { logger } from './logger';
+
+export type SocketAck = (response: { success: boolean; data?: unknown; message?: string }) => void;
+
+export type RateLimitCheck = (userId: string, action: string, limit: number, windowMs: number) => boolean;
+
+/**
+ * Listen for a client event whose payload is validated against `schema`.
+ * The result, or the AppError message, goes back through the ack callback;
+ * other errors are logged and reported as a generic failure.
+ */
+export function handleSocketEvent<S extends ZodTypeAny>(
+  socket: Socket,
+  event: string,
+  schema: S,
+  run: (data: z.infer<S>) => Promise<unknown>
+) {
+  socket.on(event, async (payload: unknown, callback?: SocketAck) => {
+    const ack: SocketAck = typeof callback === 'function' ? callback : () => undefined;
+
+    const parsed = schema.safeParse(payload ?? {});
+    if (!parsed.success) {
+      return ack({ success: false, message: parsed.error.errors[0]?.message || 'Invalid payload' });
+    }
+
+    try {
+      ack({ success: true, data: await run(parsed.data) });
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        logger.error(`[WebSocket] ${event} failed for ${socket.data.userId}:`, error);
+      }
+      ack({ success: false, message: error instanceof AppError ? error.message : 'Request failed' });
+    }
+  });
+}
@@ -0,0 +1,123 @@
+import { PrismaClient } from '@prisma/client';
+import { DomainEventBus, DomainEventActor } from '../../core/events';
+import { AuditService } from './audit.service';
+import { AuditAction } from './audit.types';
+
+// Audit log users are admin accounts; personnel actors go in the details
+function auditUser(actor: DomainEventActor) {
+  return actor.role === 'ADMIN' ? { userId: actor.id } : {};
+}
+
+/**
+ * Location updates are not audited, PersonnelLocation already keeps them
+ */
+export function registerAuditSubscriber(bus: DomainEventBus, prisma: PrismaClient): () => void {
+  const auditService = new AuditService(prisma);
+
+  const subscriptions = [
+    bus.subscribe('IncidentCreated', ({ payload: { incident, source, createdBy } }) =>
+      auditService.createLog({
+        userId: createdBy,
+        action: AuditAction.INCIDENT_CREATED,
+        resourceType: 'INCIDENT',
+        resourceId: incident.id,
+        details: {
+          incidentNumber: incident.incidentNumber,
+          type: incident.type,
+          priority: incident.priority,
+          source,
+        },
+      })
+    ),
+
+    bus.subscribe('IncidentStatusChanged', ({ payload }) =>
+      auditService.createLog({
+        ...auditUser(payload.actor),
+        action: AuditAction.INCIDENT_STATUS_CHANGED,
+        resourceType: 'INCIDENT',
+        resourceId: payload.incidentId,
+        details: {
+          incidentNumber: payload.incidentNumber,
+          from: payload.previousStatus,
+          to: payload.status,
+          notes: payload.notes,
+          actor: payload.actor,
+        },
+      })
+    ),
+
+    bus.subscribe('ResponderJoined', ({ payload }) =>
+      auditService.createLog({
+        action: AuditAction.PERSONNEL_ASSIGNED,
+        resourceType: 'INCIDENT',
+        resourceId: payload.incidentId,
+        details: {
+          personnelId: payload.personnelId,
+          selfAssigned: true,
+          isPrimaryResponder: payload.isPrimaryResponder,
+        },
+      })
+    ),
+
+    bus.subscribe('ResolutionSubmitted', ({ payload }) =>
+      auditService.createLog({
+        action: AuditAction.RESOLUTION_SUBMITTED,
+        resourceType: 'INCIDENT',
+        resourceId: payload.incidentId,
+        details: {
+          resolutionId: payload.resolutionId,
+          personnelId: payload.personnelId,
+        },
+      })
+    ),
+
+    bus.subscribe('SosRaised', async ({ payload: { alert, escalated } }) => {
+      if (escalated) return;
+
+      await auditService.createLog({
+        action: AuditAction.SOS_RAISED,
+        resourceType: 'SOS_ALERT',
+        resourceId: alert.alertId,
+        details: {
+          personnelId: alert.personnel.id,
+          incidentId: alert.incident?.id ?? null,
+          trigger: alert.trigger,
+          latitude: alert.location?.latitude ?? null,
+          longitude: alert.location?.longitude ?? null,
+        },
+      });
+    }),
+
+    bus.subscribe('SosAcknowledged', ({ payload: { alert, acknowledgedBy } }) =>
+      auditService.createLog({
+        userId: acknowledgedBy,
+        action: AuditAction.SOS_ACKNOWLEDGED,
+        resourceType: 'SOS_ALERT',
+        resourceId: alert.alertId,
+        details: { personnelId: alert.personnel.id, incidentId: alert.incident?.id ?? null },
+      })
+    ),
+
+    bus.subscribe('SosResolved', ({ payload: { alert, resolvedBy, notes } }) =>
+      auditService.createLog({
+        userId: resolvedBy,
+        action: AuditAction.SOS_RESOLVED,
+        resourceType: 'SOS_ALERT',
+        resourceId: alert.alertId,
+        details: { personnelId: alert.personnel.id, incidentId: alert.incident?.id ?? null, notes },
+      })
+    ),
+
+    bus.subscribe('SosCancelled', ({ payload: { alert, cancelledBy, notes } }) =>
+      auditService.createLog({
+        ...auditUser(cancelledBy),
+        action: AuditAction.SOS_CANCELLED,
+        resourceType: 'SOS_ALERT',
+        resourceId: alert.alertId,
+        details: { personnelId: alert.personnel.id, cancelledBy: cancelledBy.id, notes },
+      })
+    ),
+  ];
+
+  return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+}
@@ -31,6 +31,31 @@ export enum AuditAction {
   INCIDENT_STATUS_CHANGED = 'INCIDENT_STATUS_CHANGED',
   PERSONNEL_ASSIGNED = 'PERSONNEL_ASSIGNED',
   INCIDENT_UPDATE_ADDED = 'INCIDENT_UPDATE_ADDED',
+  INCIDENT_MERGED = 'INCIDENT_MERGED',
+  INCIDENT_RESTORED = 'INCIDENT_RESTORED',
+  INCIDENTS_ARCHIVED = 'INCIDENTS_ARCHIVED',
+  RESOLUTION_SUBMITTED = 'RESOLUTION_SUBMITTED',
+
+  // Duty roster
+  SHIFT_SWAP_APPROVED = 'SHIFT_SWAP_APPROVED',
+  SHIFT_SWAP_REJECTED = 'SHIFT_SWAP_REJECTED',
+  SHIFT_STATUS_APPLIED = 'SHIFT_STATUS_APPLIED',
+
+  // Fleet
+  VEHICLE_ASSIGNED = 'VEHICLE_ASSIGNED',
+  VEHICLE_RELEASED = 'VEHICLE_RELEASED',
+  VEHICLE_STATUS_CHANGED = 'VEHICLE_STATUS_CHANGED',
+  VEHICLE_MAINTENANCE_COMPLETED = 'VEHICLE_MAINTENANCE_COMPLETED',
+
+  // Responder distress
+  SOS_RAISED = 'SOS_RAISED',
+  SOS_ACKNOWLEDGED = 'SOS_ACKNOWLEDGED',
+  SOS_RESOLVED = 'SOS_RESOLVED',
+  SOS_CANCELLED = 'SOS_CANCELLED',
+
+  // Major events
+  MAJOR_EVENT_CREATED = 'MAJOR_EVENT_CREATED',
+  MAJOR_EVENT_CLOSED = 'MAJOR_EVENT_CLOSED',
 
   // Photos
   PHOTO_UPLOADED = 'PHOTO_UPLOADED',
@@ -5,6 +5,7 @@ import {
   UpdateBarangayDTO,
   BarangayListQuery,
   NearbyQuery,
+  LocateQuery,
 } from './barangays.types';
 import { SuccessResponse } from '../../types';
 
@@ -101,6 +102,20 @@ export class BarangaysController {
     return reply.status(200).send(response);
   }
 
+  async locate(
+    request: FastifyRequest<{ Querystring: LocateQuery }>,
+    reply: FastifyReply
+  ) {
+    const location = await this.barangaysService.locateBarangay(request.query.lat, request.query.lng);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: location,
+    };
+
+    return reply.status(200).send(response);
+  }
+
   async getStats(request: FastifyRequest, reply: FastifyReply) {
     const stats = await this.barangaysService.getBarangayStats();
 
@@ -1,7 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { BarangaysController } from './barangays.controller';
 import { BarangaysService } from './barangays.service';
-import { NearbyQuery, BarangayListQuery, CreateBarangayDTO, UpdateBarangayDTO } from './barangays.types';
+import { NearbyQuery, LocateQuery, BarangayListQuery, CreateBarangayDTO, UpdateBarangayDTO } from './barangays.types';
 import { prisma } from '../../config/database';
 import { validate, authMiddleware, requireRole } from '../../core/middleware';
 import {
@@ -9,6 +9,7 @@ import {
   updateBarangaySchema,
   barangayListQuerySchema,
   nearbyQuerySchema,
+  locateQuerySchema,
 } from './barangays.schema';
 
 export async function barangaysRoutes(app: FastifyInstance) {
@@ -30,6 +31,15 @@ export async function barangaysRoutes(app: FastifyInstance) {
     barangaysController.getNearby.bind(barangaysController)
   );
 
+  // Locate the barangay covering a point
+  app.get<{ Querystring: LocateQuery }>(
+    '/locate',
+    {
+      preHandler: [validate(locateQuerySchema, 'query')],
+    },
+    barangaysController.locate.bind(barangaysController)
+  );
+
   // List barangays
   app.get<{ Querystring: BarangayListQuery }>(
     '/',
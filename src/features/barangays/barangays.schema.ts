@@ -7,6 +7,34 @@ const emergencyContactSchema = z.object({
   isPrimary: z.boolean().optional(),
 });
 
+// GeoJSON position: [longitude, latitude]
+const positionSchema = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]).rest(z.number());
+
+// Closed linear ring with at least 3 distinct corners
+const linearRingSchema = z
+  .array(positionSchema)
+  .min(4, 'Polygon rings need at least 4 positions')
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    'Polygon rings must be closed (first and last positions equal)'
+  );
+
+const polygonCoordinatesSchema = z.array(linearRingSchema).min(1, 'Polygon needs an outer ring');
+
+export const coverageAreaSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('Polygon'),
+    coordinates: polygonCoordinatesSchema,
+  }),
+  z.object({
+    type: z.literal('MultiPolygon'),
+    coordinates: z.array(polygonCoordinatesSchema).min(1, 'MultiPolygon needs at least one polygon'),
+  }),
+]);
+
 export const createBarangaySchema = z.object({
   name: z.string().min(1, 'Name is required'),
   code: z.string().optional(),
@@ -20,6 +48,7 @@ export const createBarangaySchema = z.object({
   emergencyContacts: z.array(emergencyContactSchema).optional(),
   operatingHours: z.string().optional(),
   landmarks: z.string().optional(),
+  coverageArea: coverageAreaSchema.optional(),
 });
 
 export const updateBarangaySchema = z.object({
@@ -36,6 +65,7 @@ export const updateBarangaySchema = z.object({
   emergencyContacts: z.array(emergencyContactSchema).optional(),
   operatingHours: z.string().optional(),
   landmarks: z.string().optional(),
+  coverageArea: coverageAreaSchema.nullable().optional(),
 });
 
 export const barangayListQuerySchema = z.object({
@@ -50,3 +80,8 @@ export const nearbyQuerySchema = z.object({
   longitude: z.string().transform(Number).pipe(z.number().min(-180).max(180)),
   radiusKm: z.string().transform(Number).pipe(z.number().min(0.1).max(100)).optional(),
 });
+
+export const locateQuerySchema = z.object({
+  lat: z.string().transform(Number).pipe(z.number().min(-90).max(90)),
+  lng: z.string().transform(Number).pipe(z.number().min(-180).max(180)),
+});
@@ -1,10 +1,13 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { NotFoundError, ValidationError } from '../../core/errors';
+import { GeoService } from '../../core/utils/geo';
 import {
   CreateBarangayDTO,
   UpdateBarangayDTO,
   BarangayListQuery,
   NearbyQuery,
+  BarangayLocation,
+  LocatableBarangay,
 } from './barangays.types';
 import { CONSTANTS } from '../../config/constants';
 import { PaginatedResponse } from '../../types';
@@ -167,8 +170,8 @@ export class BarangaysService {
       }
     }
 
-    // Extract emergency contacts from data
-    const { emergencyContacts, ...barangayData } = data;
+    // Extract emergency contacts and coverage area from data
+    const { emergencyContacts, coverageArea, ...barangayData } = data;
 
     // If emergency contacts are provided, replace all existing contacts
     if (emergencyContacts !== undefined) {
@@ -182,6 +185,8 @@ export class BarangaysService {
       where: { id },
       data: {
         ...barangayData,
+        // null clears the polygon, undefined leaves it untouched
+        coverageArea: coverageArea === null ? Prisma.JsonNull : coverageArea,
         emergencyContacts: emergencyContacts
           ? {
               create: emergencyContacts.map((contact) => ({
@@ -282,6 +287,59 @@ export class BarangaysService {
     return barangaysWithDistance;
   }
 
+  /**
+   * Find the barangay responsible for a location.
+   * A coverage polygon containing the point wins; when several overlap the closest
+   * centroid is taken. Points outside every polygon fall back to the nearest centroid.
+   */
+  async locateBarangay(lat: number, lng: number): Promise<BarangayLocation> {
+    const barangays = await this.getLocatableBarangays();
+    return this.matchBarangay(barangays, lat, lng);
+  }
+
+  /**
+   * Active barangays with the fields needed for location matching
+   */
+  async getLocatableBarangays(): Promise<LocatableBarangay[]> {
+    return this.prisma.barangay.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        name: true,
+        code: true,
+        latitude: true,
+        longitude: true,
+        coverageArea: true,
+      },
+    });
+  }
+
+  /**
+   * Match a point against a preloaded list of barangays, for bulk use
+   */
+  matchBarangay(barangays: LocatableBarangay[], lat: number, lng: number): BarangayLocation {
+    const withDistance = barangays
+      .map(({ coverageArea, ...barangay }) => ({
+        barangay,
+        area: GeoService.toArea(coverageArea),
+        distanceKm: GeoService.distanceKm(lat, lng, barangay.latitude, barangay.longitude),
+      }))
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+
+    const containing = withDistance.find((b) => b.area && GeoService.containsPoint(b.area, lat, lng));
+    const match = containing || withDistance[0];
+
+    if (!match) {
+      return { barangay: null, method: null, distanceKm: null };
+    }
+
+    return {
+      barangay: match.barangay,
+      method: containing ? 'POLYGON' : 'NEAREST_CENTROID',
+      distanceKm: Math.round(match.distanceKm * 100) / 100,
+    };
+  }
+
   private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
     // Haversine formula
     const R = 6371; // Earth's radius in km
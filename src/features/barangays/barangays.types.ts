@@ -1,3 +1,6 @@
+import { Prisma } from '@prisma/client';
+import { GeoJsonArea } from '../../core/utils/geo';
+
 export interface EmergencyContactDTO {
   name: string;
   phone: string;
@@ -18,6 +21,7 @@ export interface CreateBarangayDTO {
   emergencyContacts?: EmergencyContactDTO[];
   operatingHours?: string;
   landmarks?: string;
+  coverageArea?: GeoJsonArea;
 }
 
 export interface UpdateBarangayDTO {
@@ -34,6 +38,7 @@ export interface UpdateBarangayDTO {
   emergencyContacts?: EmergencyContactDTO[];
   operatingHours?: string;
   landmarks?: string;
+  coverageArea?: GeoJsonArea | null;
 }
 
 export interface BarangayListQuery {
@@ -48,3 +53,25 @@ export interface NearbyQuery {
   longitude: number;
   radiusKm?: number;
 }
+
+export interface LocateQuery {
+  lat: number;
+  lng: number;
+}
+
+export interface LocatableBarangay {
+  id: string;
+  name: string;
+  code: string;
+  latitude: number;
+  longitude: number;
+  coverageArea: Prisma.JsonValue;
+}
+
+export type BarangayMatchMethod = 'POLYGON' | 'NEAREST_CENTROID';
+
+export interface BarangayLocation {
+  barangay: Omit<LocatableBarangay, 'coverageArea'> | null;
+  method: BarangayMatchMethod | null;
+  distanceKm: number | null;
+}
@@ -0,0 +1,173 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { CertificationsService } from './certifications.service';
+import {
+  CreateCertificationTypeDTO,
+  UpdateCertificationTypeDTO,
+  CertificationTypeListQuery,
+  AddPersonnelCertificationDTO,
+  UpdatePersonnelCertificationDTO,
+  ExpiringCertificationsQuery,
+} from './certifications.types';
+import { SuccessResponse } from '../../types';
+
+export class CertificationsController {
+  constructor(private certificationsService: CertificationsService) {}
+
+  // ========================================
+  // CERTIFICATION TYPES
+  // ========================================
+
+  async createType(
+    request: FastifyRequest<{ Body: CreateCertificationTypeDTO }>,
+    reply: FastifyReply
+  ) {
+    const type = await this.certificationsService.createType(request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: type,
+      message: 'Certification type created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getTypes(
+    request: FastifyRequest<{ Querystring: CertificationTypeListQuery }>,
+    reply: FastifyReply
+  ) {
+    const types = await this.certificationsService.getTypes(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: types,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateType(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateCertificationTypeDTO }>,
+    reply: FastifyReply
+  ) {
+    const type = await this.certificationsService.updateType(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: type,
+      message: 'Certification type updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteType(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.certificationsService.deleteType(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Certification type deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // PERSONNEL CERTIFICATIONS
+  // ========================================
+
+  async getPersonnelCertifications(
+    request: FastifyRequest<{ Params: { personnelId: string } }>,
+    reply: FastifyReply
+  ) {
+    const certifications = await this.certificationsService.getPersonnelCertifications(request.params.personnelId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: certifications,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async addCertification(
+    request: FastifyRequest<{ Params: { personnelId: string }; Body: AddPersonnelCertificationDTO }>,
+    reply: FastifyReply
+  ) {
+    const certification = await this.certificationsService.addCertification(
+      request.params.personnelId,
+      request.body
+    );
+
+    const response: SuccessResponse = {
+      success: true,
+      data: certification,
+      message: 'Certification added successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async updateCertification(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdatePersonnelCertificationDTO }>,
+    reply: FastifyReply
+  ) {
+    const certification = await this.certificationsService.updateCertification(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: certification,
+      message: 'Certification updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteCertification(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.certificationsService.deleteCertification(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Certification deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async uploadScan(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const certification = await this.certificationsService.uploadScan(request.params.id, request);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: certification,
+      message: 'Certificate scan uploaded successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getExpiring(
+    request: FastifyRequest<{ Querystring: ExpiringCertificationsQuery }>,
+    reply: FastifyReply
+  ) {
+    const certifications = await this.certificationsService.getExpiring(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: certifications,
+    };
+
+    return reply.status(200).send(response);
+  }
+}
@@ -0,0 +1,128 @@
+import { FastifyInstance } from 'fastify';
+import { CertificationsController } from './certifications.controller';
+import { CertificationsService } from './certifications.service';
+import {
+  CreateCertificationTypeDTO,
+  UpdateCertificationTypeDTO,
+  CertificationTypeListQuery,
+  AddPersonnelCertificationDTO,
+  UpdatePersonnelCertificationDTO,
+  ExpiringCertificationsQuery,
+} from './certifications.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import { requireOwnershipOrRole } from '../../core/middleware/auth.middleware';
+import {
+  createCertificationTypeSchema,
+  updateCertificationTypeSchema,
+  certificationTypeListQuerySchema,
+  addPersonnelCertificationSchema,
+  updatePersonnelCertificationSchema,
+  expiringCertificationsQuerySchema,
+} from './certifications.schema';
+
+export async function certificationsRoutes(app: FastifyInstance) {
+  const certificationsService = new CertificationsService(prisma, app.io);
+  const certificationsController = new CertificationsController(certificationsService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // ========================================
+  // CERTIFICATION TYPES
+  // ========================================
+
+  // List certification and skill types
+  app.get<{ Querystring: CertificationTypeListQuery }>(
+    '/types',
+    {
+      preHandler: [validate(certificationTypeListQuerySchema, 'query')],
+    },
+    certificationsController.getTypes.bind(certificationsController)
+  );
+
+  // Create certification type (Admin only)
+  app.post<{ Body: CreateCertificationTypeDTO }>(
+    '/types',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createCertificationTypeSchema)],
+    },
+    certificationsController.createType.bind(certificationsController)
+  );
+
+  // Update certification type (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateCertificationTypeDTO }>(
+    '/types/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateCertificationTypeSchema)],
+    },
+    certificationsController.updateType.bind(certificationsController)
+  );
+
+  // Delete certification type (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/types/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    certificationsController.deleteType.bind(certificationsController)
+  );
+
+  // ========================================
+  // PERSONNEL CERTIFICATIONS
+  // ========================================
+
+  // Certifications expiring soon (Admin only)
+  app.get<{ Querystring: ExpiringCertificationsQuery }>(
+    '/expiring',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(expiringCertificationsQuerySchema, 'query')],
+    },
+    certificationsController.getExpiring.bind(certificationsController)
+  );
+
+  // Certifications of a personnel (own or admin)
+  app.get<{ Params: { personnelId: string } }>(
+    '/personnel/:personnelId',
+    {
+      preHandler: [requireOwnershipOrRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    certificationsController.getPersonnelCertifications.bind(certificationsController)
+  );
+
+  // Record a certification for a personnel (Admin only)
+  app.post<{ Params: { personnelId: string }; Body: AddPersonnelCertificationDTO }>(
+    '/personnel/:personnelId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(addPersonnelCertificationSchema)],
+    },
+    certificationsController.addCertification.bind(certificationsController)
+  );
+
+  // Update or renew a certification (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdatePersonnelCertificationDTO }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updatePersonnelCertificationSchema)],
+    },
+    certificationsController.updateCertification.bind(certificationsController)
+  );
+
+  // Delete a certification (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    certificationsController.deleteCertification.bind(certificationsController)
+  );
+
+  // Upload a scan of the certificate (own or admin)
+  app.post<{ Params: { id: string } }>(
+    '/:id/scan',
+    {
+      preHandler: [requireRole('PERSONNEL', 'ADMIN', 'SUPER_ADMIN')],
+    },
+    certificationsController.uploadScan.bind(certificationsController)
+  );
+}
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { CertificationCategory } from '@prisma/client';
+
+export const createCertificationTypeSchema = z.object({
+  code: z
+    .string()
+    .regex(/^[A-Z0-9][A-Z0-9_-]{0,29}$/, 'Code must be uppercase letters, digits, dashes or underscores'),
+  name: z.string().min(1, 'Name is required').max(100),
+  category: z.nativeEnum(CertificationCategory).optional(),
+  description: z.string().max(500).optional(),
+  validityMonths: z.number().int().min(1).max(240).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateCertificationTypeSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  category: z.nativeEnum(CertificationCategory).optional(),
+  description: z.string().max(500).nullable().optional(),
+  validityMonths: z.number().int().min(1).max(240).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const certificationTypeListQuerySchema = z.object({
+  category: z.nativeEnum(CertificationCategory).optional(),
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+});
+
+export const addPersonnelCertificationSchema = z
+  .object({
+    typeId: z.string().min(1, 'Certification type is required'),
+    certificateNumber: z.string().max(100).optional(),
+    issuingBody: z.string().max(200).optional(),
+    issuedAt: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+    expiresAt: z.string().datetime({ offset: true }).or(z.string().date()).optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((data) => !data.issuedAt || !data.expiresAt || new Date(data.issuedAt) < new Date(data.expiresAt), {
+    message: 'Expiry date must be after the issue date',
+    path: ['expiresAt'],
+  });
+
+export const updatePersonnelCertificationSchema = z.object({
+  certificateNumber: z.string().max(100).nullable().optional(),
+  issuingBody: z.string().max(200).nullable().optional(),
+  issuedAt: z.string().datetime({ offset: true }).or(z.string().date()).nullable().optional(),
+  expiresAt: z.string().datetime({ offset: true }).or(z.string().date()).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+export const expiringCertificationsQuerySchema = z.object({
+  days: z.string().transform(Number).pipe(z.number().int().min(1).max(365)).optional(),
+  includeExpired: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+});
@@ -0,0 +1,431 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FastifyRequest } from 'fastify';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { env } from '../../config/environment';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError, ConflictError, ForbiddenError } from '../../core/errors';
+import { logger } from '../../core/utils/logger';
+import { FileUploadSecurityService } from '../../core/utils/file-upload-security';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  CertificationStatus,
+  CertificationFilter,
+  CreateCertificationTypeDTO,
+  UpdateCertificationTypeDTO,
+  CertificationTypeListQuery,
+  AddPersonnelCertificationDTO,
+  UpdatePersonnelCertificationDTO,
+  ExpiringCertificationsQuery,
+} from './certifications.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_DAYS = [...CONSTANTS.CERTIFICATIONS.REMINDER_DAYS].sort((a, b) => b - a);
+const EXPIRING_WINDOW_DAYS = REMINDER_DAYS[0];
+const SCAN_TYPES: readonly string[] = CONSTANTS.CERTIFICATIONS.SCAN_TYPES;
+
+const CERTIFICATION_INCLUDE = {
+  type: { select: { id: true, code: true, name: true, category: true } },
+} satisfies Prisma.PersonnelCertificationInclude;
+
+/**
+ * Condition on Personnel.certifications for one certification status
+ */
+function statusWhere(status: CertificationStatus, now: Date): Prisma.PersonnelCertificationWhereInput {
+  switch (status) {
+    case CertificationStatus.EXPIRED:
+      return { expiresAt: { lte: now } };
+    case CertificationStatus.EXPIRING:
+      return { expiresAt: { gt: now, lte: new Date(now.getTime() + EXPIRING_WINDOW_DAYS * DAY_MS) } };
+    default:
+      return { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+  }
+}
+
+/**
+ * Personnel conditions for a certification filter: every code held in the
+ * given status, or any certification in that status when no codes are given
+ */
+export function certificationFilterWhere(filter: CertificationFilter, now = new Date()): Prisma.PersonnelWhereInput[] {
+  const codes = filter.codes ?? [];
+  if (codes.length === 0 && !filter.status) return [];
+
+  const status = statusWhere(filter.status ?? CertificationStatus.VALID, now);
+
+  if (codes.length === 0) {
+    return [{ certifications: { some: status } }];
+  }
+
+  return codes.map((code) => ({
+    certifications: { some: { ...status, type: { code } } },
+  }));
+}
+
+export class CertificationsService {
+  private notificationsService: NotificationsService;
+
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {
+    this.notificationsService = new NotificationsService(prisma);
+  }
+
+  // ========================================
+  // CERTIFICATION TYPES
+  // ========================================
+
+  async createType(data: CreateCertificationTypeDTO) {
+    const existing = await this.prisma.certificationType.findUnique({ where: { code: data.code } });
+
+    if (existing) {
+      throw new ConflictError(`Certification "${data.code}" already exists`);
+    }
+
+    return this.prisma.certificationType.create({ data });
+  }
+
+  async getTypes(query: CertificationTypeListQuery) {
+    return this.prisma.certificationType.findMany({
+      where: {
+        ...(query.category && { category: query.category }),
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+      },
+      include: { _count: { select: { certifications: true } } },
+      orderBy: [{ category: 'asc' }, { code: 'asc' }],
+    });
+  }
+
+  async getTypeById(id: string) {
+    const type = await this.prisma.certificationType.findUnique({ where: { id } });
+
+    if (!type) {
+      throw new NotFoundError('Certification type not found');
+    }
+
+    return type;
+  }
+
+  async updateType(id: string, data: UpdateCertificationTypeDTO) {
+    await this.getTypeById(id);
+    return this.prisma.certificationType.update({ where: { id }, data });
+  }
+
+  /**
+   * Removes the certification from every personnel holding it
+   */
+  async deleteType(id: string) {
+    await this.getTypeById(id);
+    await this.prisma.certificationType.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Normalize comma-separated codes, rejecting unknown ones so a typo does
+   * not silently match nobody
+   */
+  async resolveCodes(raw: string | string[] | undefined): Promise<string[]> {
+    const codes = Array.from(new Set(
+      (Array.isArray(raw) ? raw : (raw ?? '').split(','))
+        .map((code) => code.trim().toUpperCase())
+        .filter(Boolean)
+    ));
+
+    if (codes.length === 0) return [];
+
+    const known = await this.prisma.certificationType.findMany({
+      where: { code: { in: codes } },
+      select: { code: true },
+    });
+
+    const unknown = codes.filter((code) => !known.some((type) => type.code === code));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown certification ${unknown.join(', ')}`);
+    }
+
+    return codes;
+  }
+
+  // ========================================
+  // PERSONNEL CERTIFICATIONS
+  // ========================================
+
+  async getPersonnelCertifications(personnelId: string) {
+    await this.assertPersonnelExists(personnelId);
+
+    const certifications = await this.prisma.personnelCertification.findMany({
+      where: { personnelId },
+      include: CERTIFICATION_INCLUDE,
+      orderBy: [{ expiresAt: { sort: 'asc', nulls: 'last' } }],
+    });
+
+    const now = new Date();
+    return certifications.map((certification) => this.withStatus(certification, now));
+  }
+
+  async addCertification(personnelId: string, data: AddPersonnelCertificationDTO) {
+    await this.assertPersonnelExists(personnelId);
+    const type = await this.getTypeById(data.typeId);
+
+    const existing = await this.prisma.personnelCertification.findUnique({
+      where: { personnelId_typeId: { personnelId, typeId: type.id } },
+    });
+
+    if (existing) {
+      throw new ConflictError(`Personnel already holds ${type.code}, update it to record a renewal`);
+    }
+
+    const issuedAt = data.issuedAt ? new Date(data.issuedAt) : undefined;
+
+    const certification = await this.prisma.personnelCertification.create({
+      data: {
+        personnelId,
+        typeId: type.id,
+        certificateNumber: data.certificateNumber,
+        issuingBody: data.issuingBody,
+        issuedAt,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : this.defaultExpiry(issuedAt, type.validityMonths),
+        notes: data.notes,
+      },
+      include: CERTIFICATION_INCLUDE,
+    });
+
+    return this.withStatus(certification);
+  }
+
+  /**
+   * A new expiry date is a renewal, so expiry reminders start over
+   */
+  async updateCertification(id: string, data: UpdatePersonnelCertificationDTO) {
+    const current = await this.getCertificationById(id);
+
+    const issuedAt = data.issuedAt === undefined ? current.issuedAt : this.toDate(data.issuedAt);
+    const expiresAt = data.expiresAt === undefined ? current.expiresAt : this.toDate(data.expiresAt);
+
+    if (issuedAt && expiresAt && expiresAt <= issuedAt) {
+      throw new ValidationError('Expiry date must be after the issue date');
+    }
+
+    const renewed = expiresAt?.getTime() !== current.expiresAt?.getTime();
+
+    const certification = await this.prisma.personnelCertification.update({
+      where: { id },
+      data: {
+        ...data,
+        issuedAt,
+        expiresAt,
+        ...(renewed && { lastReminderDays: null }),
+      },
+      include: CERTIFICATION_INCLUDE,
+    });
+
+    return this.withStatus(certification);
+  }
+
+  async deleteCertification(id: string) {
+    const certification = await this.getCertificationById(id);
+    await this.prisma.personnelCertification.delete({ where: { id } });
+    await this.removeScan(certification.scanUrl);
+    return { id };
+  }
+
+  async getCertificationById(id: string) {
+    const certification = await this.prisma.personnelCertification.findUnique({
+      where: { id },
+      include: CERTIFICATION_INCLUDE,
+    });
+
+    if (!certification) {
+      throw new NotFoundError('Certification not found');
+    }
+
+    return certification;
+  }
+
+  /**
+   * Store a scan of the certificate (image or PDF), replacing the previous one
+   */
+  async uploadScan(id: string, request: FastifyRequest) {
+    const certification = await this.getCertificationById(id);
+
+    // Personnel may upload the scan of their own certificates
+    if (request.user!.role === 'PERSONNEL' && request.user!.userId !== certification.personnelId) {
+      throw new ForbiddenError('You can only upload scans of your own certifications');
+    }
+
+    if (!request.isMultipart()) {
+      throw new ValidationError('Request must be multipart/form-data');
+    }
+
+    const data = await request.file();
+    if (!data) {
+      throw new ValidationError('No file uploaded');
+    }
+
+    if (!SCAN_TYPES.includes(data.mimetype)) {
+      throw new ValidationError('Invalid file type. Only JPEG, PNG, WebP and PDF are allowed');
+    }
+
+    const buffer = await data.toBuffer();
+    if (buffer.length > CONSTANTS.CERTIFICATIONS.MAX_SCAN_SIZE) {
+      throw new ValidationError('Scan is too large');
+    }
+
+    if (data.mimetype === 'application/pdf') {
+      if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+        throw new ValidationError('File signature does not match claimed type: application/pdf');
+      }
+    } else {
+      const validation = FileUploadSecurityService.validateFileSecure(data.filename, data.mimetype, buffer);
+      if (!validation.valid) {
+        throw new ValidationError(validation.error || 'Invalid file');
+      }
+    }
+
+    const fileExt = data.mimetype === 'application/pdf' ? '.pdf' : path.extname(data.filename).toLowerCase();
+    const filename = `certification-${certification.personnelId}-${crypto.randomBytes(8).toString('hex')}${fileExt}`;
+    const uploadDir = path.join(env.UPLOAD_DIR || './uploads', 'certifications');
+
+    await fs.mkdir(uploadDir, { recursive: true });
+    await fs.writeFile(path.join(uploadDir, filename), buffer);
+
+    const updated = await this.prisma.personnelCertification.update({
+      where: { id },
+      data: { scanUrl: `/uploads/certifications/${filename}` },
+      include: CERTIFICATION_INCLUDE,
+    });
+
+    await this.removeScan(certification.scanUrl);
+    return this.withStatus(updated);
+  }
+
+  // ========================================
+  // EXPIRY
+  // ========================================
+
+  /**
+   * Certifications expiring within the given number of days, soonest first
+   */
+  async getExpiring(query: ExpiringCertificationsQuery) {
+    const now = new Date();
+    const until = new Date(now.getTime() + (query.days ?? EXPIRING_WINDOW_DAYS) * DAY_MS);
+
+    const certifications = await this.prisma.personnelCertification.findMany({
+      where: {
+        expiresAt: { lte: until, ...(!query.includeExpired && { gt: now }) },
+      },
+      include: {
+        ...CERTIFICATION_INCLUDE,
+        personnel: { select: { id: true, employeeId: true, firstName: true, lastName: true, role: true } },
+      },
+      orderBy: { expiresAt: 'asc' },
+    });
+
+    return certifications.map((certification) => this.withStatus(certification, now));
+  }
+
+  /**
+   * Remind personnel of certifications expiring within each reminder window.
+   * Each window is sent once; a certification added late only gets the
+   * reminders still ahead of it. Run by the scheduler.
+   */
+  async sendExpiryReminders(now = new Date()): Promise<number> {
+    const due = await this.prisma.personnelCertification.findMany({
+      where: {
+        expiresAt: { gt: now, lte: new Date(now.getTime() + EXPIRING_WINDOW_DAYS * DAY_MS) },
+        OR: [{ lastReminderDays: null }, { lastReminderDays: { gt: REMINDER_DAYS[REMINDER_DAYS.length - 1] } }],
+      },
+      include: CERTIFICATION_INCLUDE,
+    });
+
+    let sent = 0;
+
+    for (const certification of due) {
+      const daysLeft = Math.ceil((certification.expiresAt!.getTime() - now.getTime()) / DAY_MS);
+      const window = [...REMINDER_DAYS].reverse().find((days) => daysLeft <= days)!;
+
+      if (certification.lastReminderDays !== null && certification.lastReminderDays <= window) continue;
+
+      await this.prisma.personnelCertification.update({
+        where: { id: certification.id },
+        data: { lastReminderDays: window },
+      });
+
+      const reminder = {
+        certificationId: certification.id,
+        personnelId: certification.personnelId,
+        code: certification.type.code,
+        name: certification.type.name,
+        expiresAt: certification.expiresAt!,
+        daysLeft,
+      };
+
+      try {
+        await this.notificationsService.notifyCertificationExpiring(
+          certification.personnelId,
+          { code: reminder.code, name: reminder.name, expiresAt: reminder.expiresAt },
+          daysLeft
+        );
+      } catch (error) {
+        logger.error(`[Certifications] Failed to notify ${certification.personnelId}:`, error);
+      }
+
+      this.io?.to(`personnel:${certification.personnelId}`).emit('notification:new', {
+        title: `${reminder.code} expires in ${daysLeft} days`,
+        message: `Your ${reminder.name} expires on ${reminder.expiresAt.toLocaleDateString()}. Please renew it.`,
+        type: 'reminder',
+        certificationId: certification.id,
+      });
+      this.io?.to('admin').emit('certification:expiring', reminder);
+
+      sent++;
+    }
+
+    if (sent > 0) {
+      logger.info(`[Certifications] Sent ${sent} expiry reminders`);
+    }
+
+    return sent;
+  }
+
+  static statusOf(expiresAt: Date | null, now = new Date()): CertificationStatus {
+    if (!expiresAt || expiresAt.getTime() > now.getTime() + EXPIRING_WINDOW_DAYS * DAY_MS) {
+      return CertificationStatus.VALID;
+    }
+    return expiresAt > now ? CertificationStatus.EXPIRING : CertificationStatus.EXPIRED;
+  }
+
+  private withStatus<T extends { expiresAt: Date | null }>(certification: T, now = new Date()) {
+    return { ...certification, status: CertificationsService.statusOf(certification.expiresAt, now) };
+  }
+
+  private toDate(value: string | null): Date | null {
+    return value ? new Date(value) : null;
+  }
+
+  private defaultExpiry(issuedAt: Date | undefined, validityMonths: number | null): Date | undefined {
+    if (!issuedAt || !validityMonths) return undefined;
+
+    const expiresAt = new Date(issuedAt);
+    expiresAt.setMonth(expiresAt.getMonth() + validityMonths);
+    return expiresAt;
+  }
+
+  private async removeScan(scanUrl: string | null) {
+    if (!scanUrl) return;
+
+    const filepath = path.join(env.UPLOAD_DIR || './uploads', scanUrl.replace(/^\/uploads\//, ''));
+    try {
+      await fs.unlink(filepath);
+    } catch (error) {
+      logger.warn(`[Certifications] Could not remove scan ${scanUrl}:`, error);
+    }
+  }
+
+  private async assertPersonnelExists(personnelId: string) {
+    const personnel = await this.prisma.personnel.findUnique({ where: { id: personnelId }, select: { id: true } });
+
+    if (!personnel) {
+      throw new NotFoundError('Personnel not found');
+    }
+  }
+}
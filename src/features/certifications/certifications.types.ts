@@ -0,0 +1,60 @@
+import { CertificationCategory } from '@prisma/client';
+
+export enum CertificationStatus {
+  VALID = 'VALID', // Not expired, includes EXPIRING
+  EXPIRING = 'EXPIRING', // Expires within the first reminder window
+  EXPIRED = 'EXPIRED',
+}
+
+export interface CreateCertificationTypeDTO {
+  code: string;
+  name: string;
+  category?: CertificationCategory;
+  description?: string;
+  validityMonths?: number;
+  isActive?: boolean;
+}
+
+// The code is fixed once filters and dispatch rules may refer to it
+export interface UpdateCertificationTypeDTO {
+  name?: string;
+  category?: CertificationCategory;
+  description?: string | null;
+  validityMonths?: number | null;
+  isActive?: boolean;
+}
+
+export interface CertificationTypeListQuery {
+  category?: CertificationCategory;
+  isActive?: boolean;
+}
+
+export interface AddPersonnelCertificationDTO {
+  typeId: string;
+  certificateNumber?: string;
+  issuingBody?: string;
+  issuedAt?: string;
+  expiresAt?: string; // Defaults to issuedAt plus the type's validity
+  notes?: string;
+}
+
+export interface UpdatePersonnelCertificationDTO {
+  certificateNumber?: string | null;
+  issuingBody?: string | null;
+  issuedAt?: string | null;
+  expiresAt?: string | null;
+  notes?: string | null;
+}
+
+export interface ExpiringCertificationsQuery {
+  days?: number;
+  includeExpired?: boolean;
+}
+
+/**
+ * Certification filters shared by the personnel list and responder recommendation
+ */
+export interface CertificationFilter {
+  codes?: string[]; // Every code must be held
+  status?: CertificationStatus; // Defaults to VALID when codes are given
+}
@@ -0,0 +1,85 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { CustomFieldsService } from './custom-fields.service';
+import {
+  CreateCustomFieldDTO,
+  UpdateCustomFieldDTO,
+  CustomFieldListQuery,
+} from './custom-fields.types';
+import { SuccessResponse } from '../../types';
+
+export class CustomFieldsController {
+  constructor(private customFieldsService: CustomFieldsService) {}
+
+  async createField(
+    request: FastifyRequest<{ Body: CreateCustomFieldDTO }>,
+    reply: FastifyReply
+  ) {
+    const field = await this.customFieldsService.createField(request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: field,
+      message: 'Custom field created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getFields(
+    request: FastifyRequest<{ Querystring: CustomFieldListQuery }>,
+    reply: FastifyReply
+  ) {
+    const fields = await this.customFieldsService.getFields(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: fields,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getFieldById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const field = await this.customFieldsService.getFieldById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: field,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateField(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateCustomFieldDTO }>,
+    reply: FastifyReply
+  ) {
+    const field = await this.customFieldsService.updateField(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: field,
+      message: 'Custom field updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteField(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.customFieldsService.deleteField(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Custom field deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
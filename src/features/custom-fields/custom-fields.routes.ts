@@ -0,0 +1,62 @@
+import { FastifyInstance } from 'fastify';
+import { CustomFieldsController } from './custom-fields.controller';
+import { CustomFieldsService } from './custom-fields.service';
+import {
+  CreateCustomFieldDTO,
+  UpdateCustomFieldDTO,
+  CustomFieldListQuery,
+} from './custom-fields.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createCustomFieldSchema,
+  updateCustomFieldSchema,
+  customFieldListQuerySchema,
+} from './custom-fields.schema';
+
+export async function customFieldsRoutes(app: FastifyInstance) {
+  const customFieldsService = new CustomFieldsService(prisma);
+  const customFieldsController = new CustomFieldsController(customFieldsService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // List custom field definitions (used to render incident forms)
+  app.get<{ Querystring: CustomFieldListQuery }>(
+    '/',
+    {
+      preHandler: [validate(customFieldListQuerySchema, 'query')],
+    },
+    customFieldsController.getFields.bind(customFieldsController)
+  );
+
+  // Get custom field by ID
+  app.get('/:id', customFieldsController.getFieldById.bind(customFieldsController));
+
+  // Create custom field (Admin only)
+  app.post<{ Body: CreateCustomFieldDTO }>(
+    '/',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createCustomFieldSchema)],
+    },
+    customFieldsController.createField.bind(customFieldsController)
+  );
+
+  // Update custom field (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateCustomFieldDTO }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateCustomFieldSchema)],
+    },
+    customFieldsController.updateField.bind(customFieldsController)
+  );
+
+  // Delete custom field (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    customFieldsController.deleteField.bind(customFieldsController)
+  );
+}
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { CustomFieldType, IncidentType } from '@prisma/client';
+
+const OPTION_TYPES: CustomFieldType[] = [CustomFieldType.SELECT, CustomFieldType.MULTI_SELECT];
+
+export const createCustomFieldSchema = z
+  .object({
+    incidentType: z.nativeEnum(IncidentType),
+    key: z
+      .string()
+      .regex(/^[a-z][a-zA-Z0-9_]{0,49}$/, 'Key must start with a lowercase letter and contain only letters, digits and underscores'),
+    label: z.string().min(1, 'Label is required'),
+    description: z.string().optional(),
+    fieldType: z.nativeEnum(CustomFieldType),
+    isRequired: z.boolean().optional(),
+    options: z.array(z.string().min(1)).max(100).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    order: z.number().int().min(0).optional(),
+    isActive: z.boolean().optional(),
+    isPublic: z.boolean().optional(),
+  })
+  .refine((data) => !OPTION_TYPES.includes(data.fieldType) || (data.options?.length ?? 0) > 0, {
+    message: 'Options are required for SELECT and MULTI_SELECT fields',
+    path: ['options'],
+  })
+  .refine((data) => data.min === undefined || data.max === undefined || data.min <= data.max, {
+    message: 'Minimum cannot be greater than maximum',
+    path: ['min'],
+  });
+
+export const updateCustomFieldSchema = z.object({
+  label: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  isRequired: z.boolean().optional(),
+  options: z.array(z.string().min(1)).max(100).optional(),
+  min: z.number().nullable().optional(),
+  max: z.number().nullable().optional(),
+  order: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  isPublic: z.boolean().optional(),
+});
+
+export const customFieldListQuerySchema = z.object({
+  incidentType: z.nativeEnum(IncidentType).optional(),
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+});
+
+/**
+ * Shape check for incoming values. The per-type rules are applied at runtime
+ * by CustomFieldsService.validateValues.
+ */
+export const customFieldValuesSchema = z.record(
+  z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()])
+);
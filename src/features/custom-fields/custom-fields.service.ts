@@ -0,0 +1,256 @@
+import { z, ZodTypeAny } from 'zod';
+import {
+  PrismaClient,
+  Prisma,
+  CustomFieldType,
+  IncidentCustomField,
+  IncidentType,
+} from '@prisma/client';
+import { NotFoundError, ValidationError } from '../../core/errors';
+import {
+  CreateCustomFieldDTO,
+  UpdateCustomFieldDTO,
+  CustomFieldListQuery,
+  CustomFieldValues,
+  CustomFieldValidationMode,
+} from './custom-fields.types';
+
+const OPTION_TYPES: CustomFieldType[] = [CustomFieldType.SELECT, CustomFieldType.MULTI_SELECT];
+
+export class CustomFieldsService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createField(data: CreateCustomFieldDTO) {
+    const existing = await this.prisma.incidentCustomField.findUnique({
+      where: { incidentType_key: { incidentType: data.incidentType, key: data.key } },
+    });
+
+    if (existing) {
+      throw new ValidationError(`Custom field "${data.key}" already exists for ${data.incidentType}`);
+    }
+
+    return this.prisma.incidentCustomField.create({
+      data: { ...data, options: data.options ?? [] },
+    });
+  }
+
+  async getFields(query: CustomFieldListQuery) {
+    return this.prisma.incidentCustomField.findMany({
+      where: {
+        ...(query.incidentType && { incidentType: query.incidentType }),
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+      },
+      orderBy: [{ incidentType: 'asc' }, { order: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async getFieldById(id: string) {
+    const field = await this.prisma.incidentCustomField.findUnique({ where: { id } });
+
+    if (!field) {
+      throw new NotFoundError('Custom field not found');
+    }
+
+    return field;
+  }
+
+  async updateField(id: string, data: UpdateCustomFieldDTO) {
+    const field = await this.getFieldById(id);
+
+    if (OPTION_TYPES.includes(field.fieldType) && data.options && data.options.length === 0) {
+      throw new ValidationError('Options are required for SELECT and MULTI_SELECT fields');
+    }
+
+    return this.prisma.incidentCustomField.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Values already stored on incidents are kept, they are just no longer validated or exported
+   */
+  async deleteField(id: string) {
+    await this.getFieldById(id);
+    await this.prisma.incidentCustomField.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Active field definitions for an incident type, in form order
+   */
+  async getDefinitions(incidentType: IncidentType, publicOnly = false) {
+    return this.prisma.incidentCustomField.findMany({
+      where: {
+        incidentType,
+        isActive: true,
+        ...(publicOnly && { isPublic: true }),
+      },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Active field definitions of several incident types, used as export columns
+   */
+  async getExportColumns(incidentTypes: IncidentType[]) {
+    if (incidentTypes.length === 0) return [];
+
+    return this.prisma.incidentCustomField.findMany({
+      where: { incidentType: { in: incidentTypes }, isActive: true },
+      orderBy: [{ incidentType: 'asc' }, { order: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Spreadsheet-friendly rendering of a stored value
+   */
+  formatValue(values: Prisma.JsonValue, key: string): string {
+    const value = values && typeof values === 'object' && !Array.isArray(values)
+      ? (values as Prisma.JsonObject)[key]
+      : undefined;
+
+    if (value === undefined || value === null || value === '') return 'N/A';
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  }
+
+  /**
+   * Validate submitted values against the definitions of the incident type.
+   * In update mode the result is merged over the existing values.
+   */
+  async validateValues(
+    incidentType: IncidentType,
+    values: Record<string, unknown> | undefined,
+    mode: CustomFieldValidationMode,
+    existing?: Prisma.JsonValue
+  ): Promise<CustomFieldValues | undefined> {
+    const definitions = await this.getDefinitions(incidentType, mode === 'public');
+
+    // Nothing to check when the type has no fields and none were sent
+    if (definitions.length === 0 && (!values || Object.keys(values).length === 0)) {
+      return mode === 'update' ? (existing as CustomFieldValues | undefined) ?? undefined : undefined;
+    }
+
+    const result = this.buildSchema(definitions, mode).safeParse(values ?? {});
+
+    if (!result.success) {
+      throw new ValidationError(
+        'Validation failed. Please check your input.',
+        result.error.errors.map((err) => ({
+          field: ['customFields', ...err.path].join('.'),
+          message: err.message,
+        }))
+      );
+    }
+
+    const merged: Record<string, unknown> = {
+      ...(mode === 'update' && existing && typeof existing === 'object' && !Array.isArray(existing) ? existing : {}),
+      ...result.data,
+    };
+
+    // null clears a value
+    Object.keys(merged).forEach((key) => {
+      if (merged[key] === null || merged[key] === undefined) delete merged[key];
+    });
+
+    return merged as CustomFieldValues;
+  }
+
+  /**
+   * Turn `key:value,key:value` into JSON path conditions on Incident.customFields
+   */
+  async buildFilters(raw: string, incidentTypes?: IncidentType[]): Promise<Prisma.IncidentWhereInput[]> {
+    const pairs = raw
+      .split(',')
+      .map((pair) => pair.trim())
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf(':');
+        if (separator <= 0) {
+          throw new ValidationError(`Invalid custom field filter "${pair}", expected key:value`);
+        }
+        return { key: pair.slice(0, separator).trim(), value: pair.slice(separator + 1).trim() };
+      });
+
+    if (pairs.length === 0) return [];
+
+    const definitions = await this.prisma.incidentCustomField.findMany({
+      where: {
+        key: { in: pairs.map((pair) => pair.key) },
+        ...(incidentTypes && incidentTypes.length > 0 && { incidentType: { in: incidentTypes } }),
+      },
+    });
+
+    return pairs.map(({ key, value }) => {
+      const definition = definitions.find((field) => field.key === key);
+      if (!definition) {
+        throw new ValidationError(`Unknown custom field "${key}"`);
+      }
+
+      return { customFields: this.filterCondition(definition, value) };
+    });
+  }
+
+  private filterCondition(definition: IncidentCustomField, value: string): Prisma.JsonNullableFilter<'Incident'> {
+    const path = [definition.key];
+
+    switch (definition.fieldType) {
+      case CustomFieldType.NUMBER: {
+        const number = Number(value);
+        if (Number.isNaN(number)) {
+          throw new ValidationError(`Custom field "${definition.key}" must be filtered by a number`);
+        }
+        return { path, equals: number };
+      }
+      case CustomFieldType.BOOLEAN:
+        return { path, equals: value === 'true' };
+      case CustomFieldType.MULTI_SELECT:
+        return { path, array_contains: [value] };
+      default:
+        return { path, equals: value };
+    }
+  }
+
+  private buildSchema(definitions: IncidentCustomField[], mode: CustomFieldValidationMode) {
+    const shape: Record<string, ZodTypeAny> = {};
+
+    definitions.forEach((definition) => {
+      const schema = this.valueSchema(definition);
+      shape[definition.key] = mode !== 'update' && definition.isRequired
+        ? schema
+        : schema.nullable().optional();
+    });
+
+    // Unknown keys are rejected so typos are not silently stored
+    return z.object(shape).strict();
+  }
+
+  private valueSchema(definition: IncidentCustomField): ZodTypeAny {
+    const { min, max, label } = definition;
+
+    switch (definition.fieldType) {
+      case CustomFieldType.NUMBER: {
+        let schema = z.number({ invalid_type_error: `${label} must be a number` });
+        if (min !== null) schema = schema.min(min);
+        if (max !== null) schema = schema.max(max);
+        return schema;
+      }
+      case CustomFieldType.BOOLEAN:
+        return z.boolean({ invalid_type_error: `${label} must be true or false` });
+      case CustomFieldType.DATE:
+        return z.string().refine((val) => !Number.isNaN(Date.parse(val)), `${label} must be a valid date`);
+      case CustomFieldType.SELECT:
+        return z.enum(definition.options as [string, ...string[]]);
+      case CustomFieldType.MULTI_SELECT:
+        return z.array(z.enum(definition.options as [string, ...string[]]));
+      default: {
+        let schema = z.string();
+        if (min !== null) schema = schema.min(min);
+        schema = schema.max(max ?? 1000);
+        return schema;
+      }
+    }
+  }
+}
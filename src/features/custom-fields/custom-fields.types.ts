@@ -0,0 +1,45 @@
+import { CustomFieldType, IncidentType } from '@prisma/client';
+
+export interface CreateCustomFieldDTO {
+  incidentType: IncidentType;
+  key: string;
+  label: string;
+  description?: string;
+  fieldType: CustomFieldType;
+  isRequired?: boolean;
+  options?: string[];
+  min?: number;
+  max?: number;
+  order?: number;
+  isActive?: boolean;
+  isPublic?: boolean;
+}
+
+// The type and key are fixed once values may have been stored under them
+export interface UpdateCustomFieldDTO {
+  label?: string;
+  description?: string | null;
+  isRequired?: boolean;
+  options?: string[];
+  min?: number | null;
+  max?: number | null;
+  order?: number;
+  isActive?: boolean;
+  isPublic?: boolean;
+}
+
+export interface CustomFieldListQuery {
+  incidentType?: IncidentType;
+  isActive?: boolean;
+}
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/**
+ * create: required fields are enforced
+ * update: only the given fields are checked, null clears a value
+ * public: only public fields are accepted, required public fields are enforced
+ */
+export type CustomFieldValidationMode = 'create' | 'update' | 'public';
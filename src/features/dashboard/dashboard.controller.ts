@@ -1,13 +1,16 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { DashboardService } from './dashboard.service';
-import { TimeRangeQuery } from './dashboard.types';
+import { TimeRangeQuery, OverviewQuery } from './dashboard.types';
 import { SuccessResponse } from '../../types';
 
 export class DashboardController {
   constructor(private dashboardService: DashboardService) {}
 
-  async getOverview(request: FastifyRequest, reply: FastifyReply) {
-    const overview = await this.dashboardService.getOverview();
+  async getOverview(
+    request: FastifyRequest<{ Querystring: OverviewQuery }>,
+    reply: FastifyReply
+  ) {
+    const overview = await this.dashboardService.getOverview(request.query);
 
     const response: SuccessResponse = {
       success: true,
@@ -1,10 +1,10 @@
 import { FastifyInstance } from 'fastify';
 import { DashboardController } from './dashboard.controller';
 import { DashboardService } from './dashboard.service';
-import { TimeRangeQuery } from './dashboard.types';
+import { TimeRangeQuery, OverviewQuery } from './dashboard.types';
 import { prisma } from '../../config/database';
 import { validate, authMiddleware } from '../../core/middleware';
-import { timeRangeQuerySchema } from './dashboard.schema';
+import { timeRangeQuerySchema, overviewQuerySchema } from './dashboard.schema';
 
 export async function dashboardRoutes(app: FastifyInstance) {
   const dashboardService = new DashboardService(prisma);
@@ -13,8 +13,14 @@ export async function dashboardRoutes(app: FastifyInstance) {
   // All routes require authentication
   app.addHook('preHandler', authMiddleware);
 
-  // Overview - main dashboard stats
-  app.get('/overview', dashboardController.getOverview.bind(dashboardController));
+  // Overview - main dashboard stats, optionally scoped to a major event
+  app.get<{ Querystring: OverviewQuery }>(
+    '/overview',
+    {
+      preHandler: [validate(overviewQuerySchema, 'query')],
+    },
+    dashboardController.getOverview.bind(dashboardController)
+  );
 
   // Incident trends with time range
   app.get<{ Querystring: TimeRangeQuery }>(
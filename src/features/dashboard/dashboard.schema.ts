@@ -5,3 +5,7 @@ export const timeRangeQuerySchema = z.object({
   to: z.string().optional(),
   period: z.enum(['day', 'week', 'month', 'year']).optional(),
 });
+
+export const overviewQuerySchema = z.object({
+  eventId: z.string().optional(),
+});
@@ -1,13 +1,16 @@
-import { PrismaClient, IncidentStatus, PersonnelStatus } from '@prisma/client';
-import { DashboardOverview, IncidentTrends, HeatMapData, TimeRangeQuery } from './dashboard.types';
+import { PrismaClient, Prisma, IncidentStatus, PersonnelStatus, SlaStage } from '@prisma/client';
+import { DashboardOverview, IncidentTrends, HeatMapData, TimeRangeQuery, OverviewQuery } from './dashboard.types';
 
 export class DashboardService {
   constructor(private prisma: PrismaClient) {}
 
-  async getOverview(): Promise<DashboardOverview> {
+  async getOverview(query: OverviewQuery = {}): Promise<DashboardOverview> {
     const now = new Date();
     const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
+    // Optionally scope incident figures to a single major event
+    const incidentScope = query.eventId ? { majorEventId: query.eventId } : {};
+
     const [
       totalIncidents,
       activeIncidents,
@@ -22,19 +25,21 @@ export class DashboardService {
       responseTimes,
     ] = await Promise.all([
       // Incidents
-      this.prisma.incident.count(),
+      this.prisma.incident.count({ where: incidentScope }),
       this.prisma.incident.count({
         where: {
+          ...incidentScope,
           status: {
             in: [IncidentStatus.REPORTED, IncidentStatus.IN_PROGRESS],
           },
         },
       }),
       this.prisma.incident.count({
-        where: { status: IncidentStatus.RESOLVED },
+        where: { ...incidentScope, status: IncidentStatus.RESOLVED },
       }),
       this.prisma.incident.count({
         where: {
+          ...incidentScope,
           reportedAt: { gte: todayStart },
         },
       }),
@@ -58,7 +63,7 @@ export class DashboardService {
       }),
 
       // Response times
-      this.getResponseTimes(),
+      this.getResponseTimes(incidentScope),
     ]);
 
     return {
@@ -212,6 +217,10 @@ export class DashboardService {
     }));
   }
 
+  /**
+   * Most assigned personnel, with the teams they belong to and how many of
+   * their assignments came through a team
+   */
   async getTopPersonnel(limit: number = 10) {
     const personnel = await this.prisma.personnel.findMany({
       select: {
@@ -220,6 +229,9 @@ export class DashboardService {
         firstName: true,
         lastName: true,
         role: true,
+        teamMemberships: {
+          select: { team: { select: { id: true, name: true, status: true } } },
+        },
         _count: {
           select: {
             assignments: true,
@@ -234,12 +246,21 @@ export class DashboardService {
       take: limit,
     });
 
+    const teamCounts = await this.prisma.incidentAssignment.groupBy({
+      by: ['personnelId'],
+      where: { personnelId: { in: personnel.map((p) => p.id) }, teamId: { not: null } },
+      _count: { _all: true },
+    });
+    const teamAssignments = new Map(teamCounts.map((c) => [c.personnelId, c._count._all]));
+
     return personnel.map((p) => ({
       id: p.id,
       employeeId: p.employeeId,
       name: `${p.firstName} ${p.lastName}`,
       role: p.role,
       assignmentCount: p._count.assignments,
+      teams: p.teamMemberships.map((m) => m.team),
+      teamAssignmentCount: teamAssignments.get(p.id) ?? 0,
     }));
   }
 
@@ -287,6 +308,7 @@ export class DashboardService {
       resolvedIncidents,
       averageResolutionTime,
       assignedPersonnel,
+      slaBreachesByStage,
     ] = await Promise.all([
       this.prisma.incident.count({
         where: {
@@ -305,8 +327,28 @@ export class DashboardService {
           assignedAt: { gte: thirtyDaysAgo },
         },
       }),
+      this.prisma.incidentSlaBreach.groupBy({
+        by: ['stage'],
+        where: {
+          breachedAt: { gte: thirtyDaysAgo },
+        },
+        _count: true,
+      }),
     ]);
 
+    const slaBreaches = {
+      total: 0,
+      byStage: {
+        [SlaStage.ACKNOWLEDGE]: 0,
+        [SlaStage.DISPATCH]: 0,
+        [SlaStage.ARRIVE]: 0,
+      },
+    };
+    slaBreachesByStage.forEach((group) => {
+      slaBreaches.byStage[group.stage] = group._count;
+      slaBreaches.total += group._count;
+    });
+
     const resolutionRate =
       totalIncidents > 0 ? Math.round((resolvedIncidents / totalIncidents) * 100) : 0;
 
@@ -319,12 +361,14 @@ export class DashboardService {
       totalAssignments: assignedPersonnel,
       averagePersonnelPerIncident:
         totalIncidents > 0 ? Math.round((assignedPersonnel / totalIncidents) * 10) / 10 : 0,
+      slaBreaches,
     };
   }
 
-  private async getResponseTimes() {
+  private async getResponseTimes(scope: Prisma.IncidentWhereInput = {}) {
     const incidents = await this.prisma.incident.findMany({
       where: {
+        ...scope,
         assignments: {
           some: {},
         },
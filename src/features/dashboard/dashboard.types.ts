@@ -53,3 +53,7 @@ export interface TimeRangeQuery {
   to?: string;
   period?: 'day' | 'week' | 'month' | 'year';
 }
+
+export interface OverviewQuery {
+  eventId?: string;
+}
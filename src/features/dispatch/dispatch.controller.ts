@@ -0,0 +1,100 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { DispatchService } from './dispatch.service';
+import {
+  CreateDispatchRuleDTO,
+  UpdateDispatchRuleDTO,
+  DispatchRuleListQuery,
+  DispatchDryRunDTO,
+} from './dispatch.types';
+import { SuccessResponse } from '../../types';
+
+export class DispatchController {
+  constructor(private dispatchService: DispatchService) {}
+
+  async createRule(
+    request: FastifyRequest<{ Body: CreateDispatchRuleDTO }>,
+    reply: FastifyReply
+  ) {
+    const rule = await this.dispatchService.createRule(request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: rule,
+      message: 'Dispatch rule created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getRules(
+    request: FastifyRequest<{ Querystring: DispatchRuleListQuery }>,
+    reply: FastifyReply
+  ) {
+    const rules = await this.dispatchService.getRules(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: rules,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getRuleById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const rule = await this.dispatchService.getRuleById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: rule,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateRule(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateDispatchRuleDTO }>,
+    reply: FastifyReply
+  ) {
+    const rule = await this.dispatchService.updateRule(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: rule,
+      message: 'Dispatch rule updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteRule(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.dispatchService.deleteRule(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Dispatch rule deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async dryRun(
+    request: FastifyRequest<{ Params: { id: string }; Body: DispatchDryRunDTO }>,
+    reply: FastifyReply
+  ) {
+    const plan = await this.dispatchService.dryRun(request.params.id, request.body.incidentId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: plan,
+    };
+
+    return reply.status(200).send(response);
+  }
+}
@@ -0,0 +1,71 @@
+import { FastifyInstance } from 'fastify';
+import { DispatchController } from './dispatch.controller';
+import { DispatchService } from './dispatch.service';
+import {
+  CreateDispatchRuleDTO,
+  UpdateDispatchRuleDTO,
+  DispatchRuleListQuery,
+  DispatchDryRunDTO,
+} from './dispatch.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createDispatchRuleSchema,
+  updateDispatchRuleSchema,
+  dispatchRuleListQuerySchema,
+  dispatchDryRunSchema,
+} from './dispatch.schema';
+
+export async function dispatchRoutes(app: FastifyInstance) {
+  const dispatchService = new DispatchService(prisma, app.io);
+  const dispatchController = new DispatchController(dispatchService);
+
+  // Dispatch rules are managed by admins only
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireRole('ADMIN', 'SUPER_ADMIN'));
+
+  // List dispatch rules
+  app.get<{ Querystring: DispatchRuleListQuery }>(
+    '/rules',
+    {
+      preHandler: [validate(dispatchRuleListQuerySchema, 'query')],
+    },
+    dispatchController.getRules.bind(dispatchController)
+  );
+
+  // Get dispatch rule by ID
+  app.get('/rules/:id', dispatchController.getRuleById.bind(dispatchController));
+
+  // Create dispatch rule
+  app.post<{ Body: CreateDispatchRuleDTO }>(
+    '/rules',
+    {
+      preHandler: [validate(createDispatchRuleSchema)],
+    },
+    dispatchController.createRule.bind(dispatchController)
+  );
+
+  // Update dispatch rule
+  app.put<{ Params: { id: string }; Body: UpdateDispatchRuleDTO }>(
+    '/rules/:id',
+    {
+      preHandler: [validate(updateDispatchRuleSchema)],
+    },
+    dispatchController.updateRule.bind(dispatchController)
+  );
+
+  // Delete dispatch rule
+  app.delete<{ Params: { id: string } }>(
+    '/rules/:id',
+    dispatchController.deleteRule.bind(dispatchController)
+  );
+
+  // Preview what a rule would dispatch for an incident
+  app.post<{ Params: { id: string }; Body: DispatchDryRunDTO }>(
+    '/rules/:id/dry-run',
+    {
+      preHandler: [validate(dispatchDryRunSchema)],
+    },
+    dispatchController.dryRun.bind(dispatchController)
+  );
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { IncidentPriority, IncidentType, PersonnelRole } from '@prisma/client';
+
+const requirementSchema = z.object({
+  role: z.nativeEnum(PersonnelRole),
+  count: z.number().int().min(1).max(20),
+  certifications: z.array(z.string().min(1)).max(10).optional(),
+});
+
+export const createDispatchRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  isActive: z.boolean().optional(),
+  order: z.number().int().min(0).optional(),
+  incidentType: z.nativeEnum(IncidentType).optional(),
+  incidentPriority: z.nativeEnum(IncidentPriority).optional(),
+  barangayId: z.string().optional(),
+  requirements: z.array(requirementSchema).min(1, 'At least one requirement is needed'),
+  maxDistanceKm: z.number().positive().max(200).optional(),
+});
+
+export const updateDispatchRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  isActive: z.boolean().optional(),
+  order: z.number().int().min(0).optional(),
+  incidentType: z.nativeEnum(IncidentType).nullable().optional(),
+  incidentPriority: z.nativeEnum(IncidentPriority).nullable().optional(),
+  barangayId: z.string().nullable().optional(),
+  requirements: z.array(requirementSchema).min(1, 'At least one requirement is needed').optional(),
+  maxDistanceKm: z.number().positive().max(200).nullable().optional(),
+});
+
+export const dispatchRuleListQuerySchema = z.object({
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+  incidentType: z.nativeEnum(IncidentType).optional(),
+});
+
+export const dispatchDryRunSchema = z.object({
+  incidentId: z.string().min(1, 'Incident ID is required'),
+});
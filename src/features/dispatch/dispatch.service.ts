@@ -0,0 +1,327 @@
+import { PrismaClient, Prisma, DispatchRule, Incident, PersonnelStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { NotFoundError, ValidationError } from '../../core/errors';
+import { DomainEventBus, domainEvents } from '../../core/events';
+import { logger } from '../../core/utils/logger';
+import { ResponderRecommendationService } from '../incidents/recommendation.service';
+import { TimelineService } from '../incidents/timeline.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CertificationsService } from '../certifications/certifications.service';
+import {
+  CreateDispatchRuleDTO,
+  UpdateDispatchRuleDTO,
+  DispatchRuleListQuery,
+  DispatchRequirement,
+  DispatchPlan,
+  DispatchSelection,
+} from './dispatch.types';
+
+// Only personnel free to leave right away are auto-dispatched
+const DISPATCHABLE_STATUSES: PersonnelStatus[] = [PersonnelStatus.AVAILABLE, PersonnelStatus.ON_DUTY];
+
+type DispatchableIncident = Pick<Incident, 'id' | 'type' | 'priority' | 'barangayId'>;
+
+export class DispatchService {
+  private recommendations: ResponderRecommendationService;
+  private timelineService: TimelineService;
+  private notificationsService: NotificationsService;
+  private certifications: CertificationsService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private io?: SocketIOServer,
+    private bus: DomainEventBus = domainEvents
+  ) {
+    this.recommendations = new ResponderRecommendationService(prisma);
+    this.timelineService = new TimelineService(prisma);
+    this.notificationsService = new NotificationsService(prisma);
+    this.certifications = new CertificationsService(prisma);
+  }
+
+  async createRule(data: CreateDispatchRuleDTO, userId: string) {
+    if (data.barangayId) {
+      await this.assertBarangayExists(data.barangayId);
+    }
+
+    const { requirements, ...ruleData } = data;
+    const normalized = await this.normalizeRequirements(requirements);
+
+    return this.prisma.dispatchRule.create({
+      data: {
+        ...ruleData,
+        requirements: normalized as unknown as Prisma.InputJsonValue,
+        createdById: userId,
+      },
+      include: { barangay: { select: { id: true, name: true } } },
+    });
+  }
+
+  async getRules(query: DispatchRuleListQuery) {
+    return this.prisma.dispatchRule.findMany({
+      where: {
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+        ...(query.incidentType && { incidentType: query.incidentType }),
+      },
+      include: { barangay: { select: { id: true, name: true } } },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async getRuleById(id: string) {
+    const rule = await this.prisma.dispatchRule.findUnique({
+      where: { id },
+      include: { barangay: { select: { id: true, name: true } } },
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Dispatch rule not found');
+    }
+
+    return rule;
+  }
+
+  async updateRule(id: string, data: UpdateDispatchRuleDTO) {
+    await this.getRuleById(id);
+
+    if (data.barangayId) {
+      await this.assertBarangayExists(data.barangayId);
+    }
+
+    const { requirements, ...ruleData } = data;
+    const normalized = requirements && await this.normalizeRequirements(requirements);
+
+    return this.prisma.dispatchRule.update({
+      where: { id },
+      data: {
+        ...ruleData,
+        requirements: normalized as unknown as Prisma.InputJsonValue | undefined,
+      },
+      include: { barangay: { select: { id: true, name: true } } },
+    });
+  }
+
+  async deleteRule(id: string) {
+    await this.getRuleById(id);
+    await this.prisma.dispatchRule.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Show what a rule would do for an incident without assigning anyone
+   */
+  async dryRun(ruleId: string, incidentId: string): Promise<DispatchPlan> {
+    const rule = await this.getRuleById(ruleId);
+    const incident = await this.prisma.incident.findUnique({ where: { id: incidentId } });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    return this.buildPlan(rule, incident);
+  }
+
+  /**
+   * Run the first matching rule against a newly verified incident.
+   * Returns null when no rule matches, leaving the incident for manual dispatch.
+   */
+  async autoDispatch(incidentId: string, userId: string): Promise<DispatchPlan | null> {
+    const incident = await this.prisma.incident.findUnique({ where: { id: incidentId } });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    const rule = await this.findMatchingRule(incident);
+    if (!rule) return null;
+
+    const plan = await this.buildPlan(rule, incident);
+
+    if (plan.fallbackToManual) {
+      await this.timelineService.addEntry({
+        incidentId,
+        status: incident.status,
+        userId,
+        notes: `Auto-dispatch rule "${rule.name}" found no available personnel. Manual dispatch required.`,
+        metadata: { dispatchRuleId: rule.id, unfilled: plan.unfilled },
+      });
+
+      this.io?.to('admin').emit('incident:dispatch-fallback', {
+        incidentId,
+        incidentNumber: incident.incidentNumber,
+        rule: plan.rule,
+        unfilled: plan.unfilled,
+      });
+
+      return plan;
+    }
+
+    const personnelIds = plan.selections.map((s) => s.personnelId);
+    const primaryResponderId = incident.primaryResponderId || personnelIds[0];
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.incidentAssignment.createMany({
+        data: personnelIds.map((personnelId) => ({ incidentId, personnelId, assignedAt: now })),
+        skipDuplicates: true,
+      }),
+      this.prisma.incidentResponder.createMany({
+        data: personnelIds.map((personnelId) => ({
+          incidentId,
+          personnelId,
+          isPrimary: personnelId === primaryResponderId,
+          notes: `Auto-dispatched by rule "${rule.name}"`,
+        })),
+        skipDuplicates: true,
+      }),
+      this.prisma.incident.update({
+        where: { id: incidentId },
+        data: {
+          primaryResponderId,
+          dispatchedAt: incident.dispatchedAt || now,
+          version: { increment: 1 },
+        },
+      }),
+      this.prisma.incidentUpdate.create({
+        data: {
+          incidentId,
+          userId,
+          message: `Auto-dispatched ${personnelIds.length} personnel by rule "${rule.name}"`,
+          updateType: 'PERSONNEL_ASSIGNED',
+        },
+      }),
+    ]);
+
+    await this.timelineService.addEntry({
+      incidentId,
+      status: incident.status,
+      userId,
+      notes: `Auto-dispatched ${plan.selections.map((s) => `${s.name} (${s.role})`).join(', ')}`,
+      metadata: { dispatchRuleId: rule.id, personnelIds, unfilled: plan.unfilled },
+    });
+
+    try {
+      await this.notificationsService.notifyPersonnelAssigned(incidentId, personnelIds);
+    } catch (error) {
+      logger.error(`[Dispatch] Failed to notify personnel for incident ${incidentId}:`, error);
+    }
+
+    this.bus.publish('PersonnelAssigned', {
+      incidentId,
+      personnelIds,
+      vehicleIds: [],
+      dispatchRule: { id: rule.id, name: rule.name },
+    });
+
+    personnelIds.forEach((personnelId) => {
+      this.io?.to(`personnel:${personnelId}`).emit('notification:new', {
+        title: `🚨 DISPATCHED: ${incident.incidentNumber}`,
+        message: `${incident.type} at ${incident.address}. Priority: ${incident.priority}. Respond immediately!`,
+        type: 'alert',
+        incidentId,
+        priority: incident.priority,
+      });
+    });
+
+    return plan;
+  }
+
+  /**
+   * Active rule with the lowest order whose criteria all match the incident
+   */
+  private async findMatchingRule(incident: DispatchableIncident): Promise<DispatchRule | null> {
+    const rules = await this.prisma.dispatchRule.findMany({
+      where: { isActive: true },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.find((rule) => this.ruleMatches(rule, incident)) || null;
+  }
+
+  private ruleMatches(rule: DispatchRule, incident: DispatchableIncident): boolean {
+    return (
+      (!rule.incidentType || rule.incidentType === incident.type) &&
+      (!rule.incidentPriority || rule.incidentPriority === incident.priority) &&
+      (!rule.barangayId || rule.barangayId === incident.barangayId)
+    );
+  }
+
+  /**
+   * Pick the nearest dispatchable personnel for each role the rule requires
+   */
+  private async buildPlan(rule: DispatchRule, incident: DispatchableIncident): Promise<DispatchPlan> {
+    const requirements = rule.requirements as unknown as DispatchRequirement[];
+
+    const candidates = (await this.recommendations.rankCandidates(incident.id))
+      .filter(
+        (c) =>
+          DISPATCHABLE_STATUSES.includes(c.status) &&
+          c.distanceKm !== null &&
+          (rule.maxDistanceKm === null || c.distanceKm <= rule.maxDistanceKm)
+      )
+      .sort((a, b) => a.distanceKm! - b.distanceKm!);
+
+    const selections: DispatchSelection[] = [];
+    const unfilled: DispatchPlan['unfilled'] = [];
+    const picked = new Set<string>();
+
+    for (const requirement of requirements) {
+      const required = requirement.certifications ?? [];
+      const matches = candidates
+        .filter(
+          (c) =>
+            c.role === requirement.role &&
+            !picked.has(c.personnelId) &&
+            required.every((code) => c.certifications.includes(code))
+        )
+        .slice(0, requirement.count);
+
+      matches.forEach((c) => {
+        picked.add(c.personnelId);
+        selections.push({
+          personnelId: c.personnelId,
+          name: c.name,
+          role: c.role,
+          distanceKm: c.distanceKm!,
+          etaMinutes: c.etaMinutes!,
+        });
+      });
+
+      if (matches.length < requirement.count) {
+        unfilled.push({
+          role: requirement.role,
+          missing: requirement.count - matches.length,
+          ...(required.length > 0 && { certifications: required }),
+        });
+      }
+    }
+
+    return {
+      incidentId: incident.id,
+      rule: { id: rule.id, name: rule.name },
+      matches: this.ruleMatches(rule, incident),
+      selections,
+      unfilled,
+      fallbackToManual: selections.length === 0,
+    };
+  }
+
+  /**
+   * Certification codes are upper-cased and must exist
+   */
+  private async normalizeRequirements(requirements: DispatchRequirement[]): Promise<DispatchRequirement[]> {
+    return Promise.all(
+      requirements.map(async (requirement) => {
+        const certifications = await this.certifications.resolveCodes(requirement.certifications);
+        return { role: requirement.role, count: requirement.count, ...(certifications.length > 0 && { certifications }) };
+      })
+    );
+  }
+
+  private async assertBarangayExists(barangayId: string) {
+    const barangay = await this.prisma.barangay.findUnique({ where: { id: barangayId } });
+
+    if (!barangay) {
+      throw new ValidationError('Barangay not found');
+    }
+  }
+}
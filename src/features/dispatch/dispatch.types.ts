@@ -0,0 +1,59 @@
+import { IncidentPriority, IncidentType, PersonnelRole } from '@prisma/client';
+
+export interface DispatchRequirement {
+  role: PersonnelRole;
+  count: number;
+  certifications?: string[]; // Codes every selected person must hold, e.g. ["BLS"]
+}
+
+export interface CreateDispatchRuleDTO {
+  name: string;
+  description?: string;
+  isActive?: boolean;
+  order?: number;
+  incidentType?: IncidentType;
+  incidentPriority?: IncidentPriority;
+  barangayId?: string;
+  requirements: DispatchRequirement[];
+  maxDistanceKm?: number;
+}
+
+export interface UpdateDispatchRuleDTO {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  order?: number;
+  incidentType?: IncidentType | null;
+  incidentPriority?: IncidentPriority | null;
+  barangayId?: string | null;
+  requirements?: DispatchRequirement[];
+  maxDistanceKm?: number | null;
+}
+
+export interface DispatchRuleListQuery {
+  isActive?: boolean;
+  incidentType?: IncidentType;
+}
+
+export interface DispatchDryRunDTO {
+  incidentId: string;
+}
+
+export interface DispatchSelection {
+  personnelId: string;
+  name: string;
+  role: PersonnelRole;
+  distanceKm: number;
+  etaMinutes: number;
+}
+
+export interface DispatchPlan {
+  incidentId: string;
+  rule: { id: string; name: string } | null;
+  // Whether the rule's criteria match the incident (always true for auto-dispatch)
+  matches: boolean;
+  selections: DispatchSelection[];
+  unfilled: { role: PersonnelRole; missing: number; certifications?: string[] }[];
+  // No personnel could be selected, the incident is left for manual dispatch
+  fallbackToManual: boolean;
+}
@@ -0,0 +1,131 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { EventsService } from './events.service';
+import {
+  CreateMajorEventDTO,
+  UpdateMajorEventDTO,
+  MajorEventListQuery,
+  CloseMajorEventDTO,
+  LinkEventIncidentsDTO,
+} from './events.types';
+import { SuccessResponse } from '../../types';
+
+export class EventsController {
+  constructor(private eventsService: EventsService) {}
+
+  async createEvent(
+    request: FastifyRequest<{ Body: CreateMajorEventDTO }>,
+    reply: FastifyReply
+  ) {
+    const event = await this.eventsService.createEvent(request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: event,
+      message: 'Major event created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getEvents(
+    request: FastifyRequest<{ Querystring: MajorEventListQuery }>,
+    reply: FastifyReply
+  ) {
+    const events = await this.eventsService.getEvents(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: events,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getEventById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const event = await this.eventsService.getEventById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: event,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateEvent(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateMajorEventDTO }>,
+    reply: FastifyReply
+  ) {
+    const event = await this.eventsService.updateEvent(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: event,
+      message: 'Major event updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async closeEvent(
+    request: FastifyRequest<{ Params: { id: string }; Body: CloseMajorEventDTO }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.eventsService.closeEvent(
+      request.params.id,
+      request.body || {},
+      request.user!.userId
+    );
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: result.openIncidents.length > 0
+        ? `Major event closed with ${result.openIncidents.length} incident(s) still open`
+        : 'Major event closed successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async linkIncidents(
+    request: FastifyRequest<{ Params: { id: string }; Body: LinkEventIncidentsDTO }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.eventsService.linkIncidents(
+      request.params.id,
+      request.body.incidentIds,
+      request.user!.userId
+    );
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Incidents linked to major event',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async unlinkIncident(
+    request: FastifyRequest<{ Params: { id: string; incidentId: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.eventsService.unlinkIncident(
+      request.params.id,
+      request.params.incidentId,
+      request.user!.userId
+    );
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Incident unlinked from major event',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
@@ -0,0 +1,84 @@
+import { FastifyInstance } from 'fastify';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+import {
+  CreateMajorEventDTO,
+  UpdateMajorEventDTO,
+  MajorEventListQuery,
+  CloseMajorEventDTO,
+  LinkEventIncidentsDTO,
+} from './events.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createMajorEventSchema,
+  updateMajorEventSchema,
+  majorEventListQuerySchema,
+  closeMajorEventSchema,
+  linkEventIncidentsSchema,
+} from './events.schema';
+
+export async function eventsRoutes(app: FastifyInstance) {
+  const eventsService = new EventsService(prisma);
+  const eventsController = new EventsController(eventsService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // List major events
+  app.get<{ Querystring: MajorEventListQuery }>(
+    '/',
+    {
+      preHandler: [validate(majorEventListQuerySchema, 'query')],
+    },
+    eventsController.getEvents.bind(eventsController)
+  );
+
+  // Get major event with incident breakdown
+  app.get('/:id', eventsController.getEventById.bind(eventsController));
+
+  // Create major event (Admin only)
+  app.post<{ Body: CreateMajorEventDTO }>(
+    '/',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createMajorEventSchema)],
+    },
+    eventsController.createEvent.bind(eventsController)
+  );
+
+  // Update major event (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateMajorEventDTO }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateMajorEventSchema)],
+    },
+    eventsController.updateEvent.bind(eventsController)
+  );
+
+  // Close major event, open incidents are returned as warnings (Admin only)
+  app.post<{ Params: { id: string }; Body: CloseMajorEventDTO }>(
+    '/:id/close',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(closeMajorEventSchema)],
+    },
+    eventsController.closeEvent.bind(eventsController)
+  );
+
+  // Link incidents to major event (Admin only)
+  app.post<{ Params: { id: string }; Body: LinkEventIncidentsDTO }>(
+    '/:id/incidents',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(linkEventIncidentsSchema)],
+    },
+    eventsController.linkIncidents.bind(eventsController)
+  );
+
+  // Unlink incident from major event (Admin only)
+  app.delete<{ Params: { id: string; incidentId: string } }>(
+    '/:id/incidents/:incidentId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    eventsController.unlinkIncident.bind(eventsController)
+  );
+}
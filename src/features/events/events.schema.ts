@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { MajorEventStatus } from '@prisma/client';
+
+export const createMajorEventSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  type: z.string().min(1).optional(),
+  description: z.string().optional(),
+  startedAt: z.string().datetime().optional(),
+});
+
+export const updateMajorEventSchema = z.object({
+  name: z.string().min(1).optional(),
+  type: z.string().min(1).nullable().optional(),
+  description: z.string().nullable().optional(),
+  startedAt: z.string().datetime().optional(),
+});
+
+export const majorEventListQuerySchema = z.object({
+  status: z.nativeEnum(MajorEventStatus).optional(),
+  search: z.string().optional(),
+});
+
+export const closeMajorEventSchema = z.object({
+  notes: z.string().optional(),
+});
+
+export const linkEventIncidentsSchema = z.object({
+  incidentIds: z.array(z.string()).min(1, 'At least one incident must be linked'),
+});
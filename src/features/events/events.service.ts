@@ -0,0 +1,271 @@
+import { PrismaClient, IncidentStatus, MajorEventStatus } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../../core/errors';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+import {
+  CreateMajorEventDTO,
+  UpdateMajorEventDTO,
+  MajorEventListQuery,
+  CloseMajorEventDTO,
+  EventIncidentSummary,
+} from './events.types';
+
+// Incidents in these statuses no longer need attention when an event is closed
+const FINISHED_STATUSES: IncidentStatus[] = [
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+const incidentSummarySelect = {
+  id: true,
+  incidentNumber: true,
+  type: true,
+  priority: true,
+  status: true,
+  title: true,
+  reportedAt: true,
+} as const;
+
+export class EventsService {
+  private auditService: AuditService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  async createEvent(data: CreateMajorEventDTO, userId: string) {
+    const event = await this.prisma.majorEvent.create({
+      data: {
+        ...data,
+        startedAt: data.startedAt ? new Date(data.startedAt) : undefined,
+        createdById: userId,
+      },
+    });
+
+    await this.auditService.createLog({
+      userId,
+      action: AuditAction.MAJOR_EVENT_CREATED,
+      resourceType: 'MAJOR_EVENT',
+      resourceId: event.id,
+      details: { name: event.name, type: event.type },
+    });
+
+    return event;
+  }
+
+  async getEvents(query: MajorEventListQuery) {
+    return this.prisma.majorEvent.findMany({
+      where: {
+        ...(query.status && { status: query.status }),
+        ...(query.search && { name: { contains: query.search, mode: 'insensitive' as const } }),
+      },
+      include: {
+        _count: { select: { incidents: true } },
+      },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Event detail with a per-status breakdown of its incidents
+   */
+  async getEventById(id: string) {
+    const event = await this.prisma.majorEvent.findUnique({
+      where: { id },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        closedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundError('Major event not found');
+    }
+
+    const [byStatus, byType, openIncidents] = await Promise.all([
+      this.prisma.incident.groupBy({
+        by: ['status'],
+        where: { majorEventId: id },
+        _count: true,
+      }),
+      this.prisma.incident.groupBy({
+        by: ['type'],
+        where: { majorEventId: id },
+        _count: true,
+      }),
+      this.getOpenIncidents(id),
+    ]);
+
+    return {
+      ...event,
+      incidents: {
+        total: byStatus.reduce((sum, row) => sum + row._count, 0),
+        open: openIncidents.length,
+        byStatus: Object.fromEntries(byStatus.map((row) => [row.status, row._count])),
+        byType: Object.fromEntries(byType.map((row) => [row.type, row._count])),
+      },
+      openIncidents,
+    };
+  }
+
+  async updateEvent(id: string, data: UpdateMajorEventDTO) {
+    await this.findEvent(id);
+
+    return this.prisma.majorEvent.update({
+      where: { id },
+      data: {
+        ...data,
+        startedAt: data.startedAt ? new Date(data.startedAt) : undefined,
+      },
+    });
+  }
+
+  /**
+   * Close an event. Incidents that are still open are not touched; they are
+   * returned as warnings so the operator can follow up on them.
+   */
+  async closeEvent(id: string, data: CloseMajorEventDTO, userId: string) {
+    const existing = await this.findEvent(id);
+
+    if (existing.status === MajorEventStatus.CLOSED) {
+      throw new ValidationError('Major event is already closed');
+    }
+
+    const openIncidents = await this.getOpenIncidents(id);
+
+    const event = await this.prisma.majorEvent.update({
+      where: { id },
+      data: {
+        status: MajorEventStatus.CLOSED,
+        closedAt: new Date(),
+        closedById: userId,
+      },
+    });
+
+    await this.auditService.createLog({
+      userId,
+      action: AuditAction.MAJOR_EVENT_CLOSED,
+      resourceType: 'MAJOR_EVENT',
+      resourceId: id,
+      details: {
+        name: event.name,
+        notes: data.notes,
+        openIncidentIds: openIncidents.map((incident) => incident.id),
+      },
+    });
+
+    return {
+      event,
+      openIncidents,
+      warnings: openIncidents.map(
+        (incident) => `Incident ${incident.incidentNumber} is still ${incident.status}`
+      ),
+    };
+  }
+
+  /**
+   * Attach incidents to an active event
+   */
+  async linkIncidents(id: string, incidentIds: string[], userId: string) {
+    const event = await this.assertAcceptsIncidents(id);
+
+    const incidents = await this.prisma.incident.findMany({
+      where: { id: { in: incidentIds } },
+      select: { id: true, majorEventId: true },
+    });
+
+    const foundIds = incidents.map((incident) => incident.id);
+    const missing = incidentIds.filter((incidentId) => !foundIds.includes(incidentId));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Incidents not found: ${missing.join(', ')}`);
+    }
+
+    const toLink = incidents.filter((incident) => incident.majorEventId !== id).map((incident) => incident.id);
+
+    if (toLink.length > 0) {
+      await this.prisma.$transaction([
+        this.prisma.incident.updateMany({
+          where: { id: { in: toLink } },
+          data: { majorEventId: id, version: { increment: 1 } },
+        }),
+        this.prisma.incidentUpdate.createMany({
+          data: toLink.map((incidentId) => ({
+            incidentId,
+            userId,
+            message: `Linked to major event "${event.name}"`,
+            updateType: 'INFO',
+            metadata: { majorEventId: id },
+          })),
+        }),
+      ]);
+    }
+
+    return { eventId: id, linkedIncidentIds: toLink };
+  }
+
+  async unlinkIncident(id: string, incidentId: string, userId: string) {
+    const event = await this.findEvent(id);
+
+    const incident = await this.prisma.incident.findFirst({
+      where: { id: incidentId, majorEventId: id },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident is not linked to this event');
+    }
+
+    await this.prisma.incident.update({
+      where: { id: incidentId },
+      data: { majorEventId: null, version: { increment: 1 } },
+    });
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId,
+        userId,
+        message: `Unlinked from major event "${event.name}"`,
+        updateType: 'INFO',
+        metadata: { majorEventId: id },
+      },
+    });
+
+    return { eventId: id, incidentId };
+  }
+
+  /**
+   * Incidents can only be added to events that are still active
+   */
+  async assertAcceptsIncidents(id: string) {
+    const event = await this.findEvent(id);
+
+    if (event.status !== MajorEventStatus.ACTIVE) {
+      throw new ValidationError('Incidents cannot be linked to a closed major event');
+    }
+
+    return event;
+  }
+
+  private async findEvent(id: string) {
+    const event = await this.prisma.majorEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundError('Major event not found');
+    }
+
+    return event;
+  }
+
+  private async getOpenIncidents(eventId: string): Promise<EventIncidentSummary[]> {
+    return this.prisma.incident.findMany({
+      where: {
+        majorEventId: eventId,
+        status: { notIn: FINISHED_STATUSES },
+      },
+      select: incidentSummarySelect,
+      orderBy: { reportedAt: 'asc' },
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { IncidentPriority, IncidentStatus, IncidentType, MajorEventStatus } from '@prisma/client';
+
+export interface CreateMajorEventDTO {
+  name: string;
+  type?: string;
+  description?: string;
+  startedAt?: string;
+}
+
+export interface UpdateMajorEventDTO {
+  name?: string;
+  type?: string | null;
+  description?: string | null;
+  startedAt?: string;
+}
+
+export interface MajorEventListQuery {
+  status?: MajorEventStatus;
+  search?: string;
+}
+
+export interface CloseMajorEventDTO {
+  notes?: string;
+}
+
+export interface LinkEventIncidentsDTO {
+  incidentIds: string[];
+}
+
+export interface EventIncidentSummary {
+  id: string;
+  incidentNumber: string;
+  type: IncidentType;
+  priority: IncidentPriority;
+  status: IncidentStatus;
+  title: string;
+  reportedAt: Date;
+}
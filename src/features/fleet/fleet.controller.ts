@@ -0,0 +1,325 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { FleetService } from './fleet.service';
+import { VehicleMaintenanceService } from './maintenance.service';
+import {
+  CreateVehicleDTO,
+  UpdateVehicleDTO,
+  VehicleListQuery,
+  UpdateVehicleStatusDTO,
+  CreateFuelLogDTO,
+  RecordOdometerDTO,
+  FleetPeriodQuery,
+  CreateMaintenanceDTO,
+  UpdateMaintenanceDTO,
+  CompleteMaintenanceDTO,
+  MaintenanceListQuery,
+} from './fleet.types';
+import { SuccessResponse } from '../../types';
+
+export class FleetController {
+  constructor(
+    private fleetService: FleetService,
+    private maintenanceService: VehicleMaintenanceService
+  ) {}
+
+  // ========================================
+  // VEHICLES
+  // ========================================
+
+  async createVehicle(
+    request: FastifyRequest<{ Body: CreateVehicleDTO }>,
+    reply: FastifyReply
+  ) {
+    const vehicle = await this.fleetService.createVehicle(request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: vehicle,
+      message: 'Vehicle registered successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getVehicles(
+    request: FastifyRequest<{ Querystring: VehicleListQuery }>,
+    reply: FastifyReply
+  ) {
+    const vehicles = await this.fleetService.getVehicles(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: vehicles,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getVehicleById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const vehicle = await this.fleetService.getVehicleById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: vehicle,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateVehicle(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateVehicleDTO }>,
+    reply: FastifyReply
+  ) {
+    const vehicle = await this.fleetService.updateVehicle(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: vehicle,
+      message: 'Vehicle updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteVehicle(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.fleetService.deleteVehicle(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Vehicle deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateStatus(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateVehicleStatusDTO }>,
+    reply: FastifyReply
+  ) {
+    const vehicle = await this.fleetService.updateStatus(request.params.id, request.body, request.user!);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: vehicle,
+      message: 'Vehicle status updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getVehicleLocation(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const location = await this.fleetService.getVehicleLocation(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: location,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getFleetLocations(_request: FastifyRequest, reply: FastifyReply) {
+    const locations = await this.fleetService.getFleetLocations();
+
+    const response: SuccessResponse = {
+      success: true,
+      data: locations,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // FUEL AND ODOMETER
+  // ========================================
+
+  async addFuelLog(
+    request: FastifyRequest<{ Params: { id: string }; Body: CreateFuelLogDTO }>,
+    reply: FastifyReply
+  ) {
+    const fuelLog = await this.fleetService.addFuelLog(request.params.id, request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: fuelLog,
+      message: 'Fuel log recorded successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getFuelLogs(
+    request: FastifyRequest<{ Params: { id: string }; Querystring: FleetPeriodQuery }>,
+    reply: FastifyReply
+  ) {
+    const fuelLogs = await this.fleetService.getFuelLogs(request.params.id, request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: fuelLogs,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async recordOdometer(
+    request: FastifyRequest<{ Params: { id: string }; Body: RecordOdometerDTO }>,
+    reply: FastifyReply
+  ) {
+    const reading = await this.fleetService.recordOdometer(request.params.id, request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: reading,
+      message: 'Odometer reading recorded successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getOdometerLogs(
+    request: FastifyRequest<{ Params: { id: string }; Querystring: FleetPeriodQuery }>,
+    reply: FastifyReply
+  ) {
+    const readings = await this.fleetService.getOdometerLogs(request.params.id, request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: readings,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getUtilisation(
+    request: FastifyRequest<{ Querystring: FleetPeriodQuery }>,
+    reply: FastifyReply
+  ) {
+    const utilisation = await this.fleetService.getUtilisation(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: utilisation,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // MAINTENANCE
+  // ========================================
+
+  async createMaintenance(
+    request: FastifyRequest<{ Params: { id: string }; Body: CreateMaintenanceDTO }>,
+    reply: FastifyReply
+  ) {
+    const item = await this.maintenanceService.createMaintenance(request.params.id, request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: item,
+      message: 'Maintenance scheduled successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getMaintenance(
+    request: FastifyRequest<{ Querystring: MaintenanceListQuery }>,
+    reply: FastifyReply
+  ) {
+    const items = await this.maintenanceService.getMaintenance(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: items,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getDueMaintenance(_request: FastifyRequest, reply: FastifyReply) {
+    const items = await this.maintenanceService.getDueMaintenance();
+
+    const response: SuccessResponse = {
+      success: true,
+      data: items,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateMaintenance(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateMaintenanceDTO }>,
+    reply: FastifyReply
+  ) {
+    const item = await this.maintenanceService.updateMaintenance(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: item,
+      message: 'Maintenance updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async startMaintenance(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const item = await this.maintenanceService.startMaintenance(request.params.id, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: item,
+      message: 'Maintenance started; vehicle is out of service',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async completeMaintenance(
+    request: FastifyRequest<{ Params: { id: string }; Body: CompleteMaintenanceDTO }>,
+    reply: FastifyReply
+  ) {
+    const item = await this.maintenanceService.completeMaintenance(
+      request.params.id,
+      request.body,
+      request.user!.userId
+    );
+
+    const response: SuccessResponse = {
+      success: true,
+      data: item,
+      message: 'Maintenance completed successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async cancelMaintenance(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const item = await this.maintenanceService.cancelMaintenance(request.params.id, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: item,
+      message: 'Maintenance cancelled',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
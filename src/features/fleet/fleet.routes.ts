@@ -0,0 +1,217 @@
+import { FastifyInstance } from 'fastify';
+import { FleetController } from './fleet.controller';
+import { FleetService } from './fleet.service';
+import { VehicleMaintenanceService } from './maintenance.service';
+import {
+  CreateVehicleDTO,
+  UpdateVehicleDTO,
+  VehicleListQuery,
+  UpdateVehicleStatusDTO,
+  CreateFuelLogDTO,
+  RecordOdometerDTO,
+  FleetPeriodQuery,
+  CreateMaintenanceDTO,
+  UpdateMaintenanceDTO,
+  CompleteMaintenanceDTO,
+  MaintenanceListQuery,
+} from './fleet.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createVehicleSchema,
+  updateVehicleSchema,
+  vehicleListQuerySchema,
+  updateVehicleStatusSchema,
+  createFuelLogSchema,
+  recordOdometerSchema,
+  fleetPeriodQuerySchema,
+  createMaintenanceSchema,
+  updateMaintenanceSchema,
+  completeMaintenanceSchema,
+  maintenanceListQuerySchema,
+} from './fleet.schema';
+
+export async function fleetRoutes(app: FastifyInstance) {
+  const fleetService = new FleetService(prisma, app.io);
+  const maintenanceService = new VehicleMaintenanceService(prisma, fleetService);
+  const fleetController = new FleetController(fleetService, maintenanceService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // ========================================
+  // VEHICLES
+  // ========================================
+
+  // List vehicles
+  app.get<{ Querystring: VehicleListQuery }>(
+    '/vehicles',
+    {
+      preHandler: [validate(vehicleListQuerySchema, 'query')],
+    },
+    fleetController.getVehicles.bind(fleetController)
+  );
+
+  // Where every active vehicle is, from its driver's location (Admin only, MUST be before /vehicles/:id)
+  app.get(
+    '/vehicles/locations',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    fleetController.getFleetLocations.bind(fleetController)
+  );
+
+  // Get vehicle
+  app.get('/vehicles/:id', fleetController.getVehicleById.bind(fleetController));
+
+  // Register vehicle (Admin only)
+  app.post<{ Body: CreateVehicleDTO }>(
+    '/vehicles',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createVehicleSchema)],
+    },
+    fleetController.createVehicle.bind(fleetController)
+  );
+
+  // Update vehicle (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateVehicleDTO }>(
+    '/vehicles/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateVehicleSchema)],
+    },
+    fleetController.updateVehicle.bind(fleetController)
+  );
+
+  // Delete vehicle (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/vehicles/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    fleetController.deleteVehicle.bind(fleetController)
+  );
+
+  // Update vehicle status (current driver or admin)
+  app.patch<{ Params: { id: string }; Body: UpdateVehicleStatusDTO }>(
+    '/vehicles/:id/status',
+    {
+      preHandler: [requireRole('PERSONNEL', 'ADMIN', 'SUPER_ADMIN'), validate(updateVehicleStatusSchema)],
+    },
+    fleetController.updateStatus.bind(fleetController)
+  );
+
+  // Vehicle location (Admin only)
+  app.get<{ Params: { id: string } }>(
+    '/vehicles/:id/location',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    fleetController.getVehicleLocation.bind(fleetController)
+  );
+
+  // ========================================
+  // FUEL AND ODOMETER (Admin only)
+  // ========================================
+
+  app.get<{ Params: { id: string }; Querystring: FleetPeriodQuery }>(
+    '/vehicles/:id/fuel-logs',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(fleetPeriodQuerySchema, 'query')],
+    },
+    fleetController.getFuelLogs.bind(fleetController)
+  );
+
+  app.post<{ Params: { id: string }; Body: CreateFuelLogDTO }>(
+    '/vehicles/:id/fuel-logs',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createFuelLogSchema)],
+    },
+    fleetController.addFuelLog.bind(fleetController)
+  );
+
+  app.get<{ Params: { id: string }; Querystring: FleetPeriodQuery }>(
+    '/vehicles/:id/odometer',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(fleetPeriodQuerySchema, 'query')],
+    },
+    fleetController.getOdometerLogs.bind(fleetController)
+  );
+
+  app.post<{ Params: { id: string }; Body: RecordOdometerDTO }>(
+    '/vehicles/:id/odometer',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(recordOdometerSchema)],
+    },
+    fleetController.recordOdometer.bind(fleetController)
+  );
+
+  // Per-vehicle utilisation over a period (Admin only)
+  app.get<{ Querystring: FleetPeriodQuery }>(
+    '/utilisation',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(fleetPeriodQuerySchema, 'query')],
+    },
+    fleetController.getUtilisation.bind(fleetController)
+  );
+
+  // ========================================
+  // MAINTENANCE (Admin only)
+  // ========================================
+
+  app.get<{ Querystring: MaintenanceListQuery }>(
+    '/maintenance',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(maintenanceListQuerySchema, 'query')],
+    },
+    fleetController.getMaintenance.bind(fleetController)
+  );
+
+  // Overdue or due soon
+  app.get(
+    '/maintenance/due',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    fleetController.getDueMaintenance.bind(fleetController)
+  );
+
+  app.post<{ Params: { id: string }; Body: CreateMaintenanceDTO }>(
+    '/vehicles/:id/maintenance',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createMaintenanceSchema)],
+    },
+    fleetController.createMaintenance.bind(fleetController)
+  );
+
+  app.put<{ Params: { id: string }; Body: UpdateMaintenanceDTO }>(
+    '/maintenance/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateMaintenanceSchema)],
+    },
+    fleetController.updateMaintenance.bind(fleetController)
+  );
+
+  app.post<{ Params: { id: string } }>(
+    '/maintenance/:id/start',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    fleetController.startMaintenance.bind(fleetController)
+  );
+
+  app.post<{ Params: { id: string }; Body: CompleteMaintenanceDTO }>(
+    '/maintenance/:id/complete',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(completeMaintenanceSchema)],
+    },
+    fleetController.completeMaintenance.bind(fleetController)
+  );
+
+  app.post<{ Params: { id: string } }>(
+    '/maintenance/:id/cancel',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    fleetController.cancelMaintenance.bind(fleetController)
+  );
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { VehicleType, VehicleStatus, MaintenanceStatus } from '@prisma/client';
+
+const dateTime = z.string().datetime({ offset: true }).or(z.string().date());
+const kilometres = z.number().min(0).max(10_000_000);
+
+// ========================================
+// VEHICLES
+// ========================================
+
+export const createVehicleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  type: z.nativeEnum(VehicleType),
+  plateNumber: z.string().min(1).max(20).optional(),
+  description: z.string().max(500).optional(),
+  capacity: z.number().int().min(1).max(100).optional(),
+  odometerKm: kilometres.optional(),
+  barangayId: z.string().min(1).optional(),
+  defaultDriverId: z.string().min(1).optional(),
+});
+
+export const updateVehicleSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  type: z.nativeEnum(VehicleType).optional(),
+  plateNumber: z.string().min(1).max(20).nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+  capacity: z.number().int().min(1).max(100).nullable().optional(),
+  barangayId: z.string().min(1).nullable().optional(),
+  defaultDriverId: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const vehicleListQuerySchema = z.object({
+  type: z.nativeEnum(VehicleType).optional(),
+  status: z.nativeEnum(VehicleStatus).optional(),
+  barangayId: z.string().optional(),
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+  search: z.string().optional(),
+});
+
+export const updateVehicleStatusSchema = z.object({
+  status: z.nativeEnum(VehicleStatus),
+  notes: z.string().max(500).optional(),
+});
+
+// ========================================
+// FUEL AND ODOMETER LOGS
+// ========================================
+
+export const createFuelLogSchema = z.object({
+  liters: z.number().positive().max(10_000),
+  cost: z.number().min(0).optional(),
+  odometerKm: kilometres.optional(),
+  station: z.string().max(200).optional(),
+  notes: z.string().max(500).optional(),
+  filledAt: dateTime.optional(),
+});
+
+export const recordOdometerSchema = z.object({
+  readingKm: kilometres,
+  notes: z.string().max(500).optional(),
+});
+
+export const fleetPeriodQuerySchema = z.object({
+  from: dateTime.optional(),
+  to: dateTime.optional(),
+});
+
+// ========================================
+// MAINTENANCE
+// ========================================
+
+export const createMaintenanceSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required').max(200),
+    description: z.string().max(1000).optional(),
+    dueAt: dateTime.optional(),
+    dueOdometerKm: kilometres.optional(),
+    intervalDays: z.number().int().min(1).max(3650).optional(),
+    intervalKm: z.number().positive().max(1_000_000).optional(),
+  })
+  .refine((data) => data.dueAt || data.dueOdometerKm !== undefined, {
+    message: 'Provide a due date, a due odometer reading, or both',
+    path: ['dueAt'],
+  });
+
+export const updateMaintenanceSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  dueAt: dateTime.nullable().optional(),
+  dueOdometerKm: kilometres.nullable().optional(),
+  intervalDays: z.number().int().min(1).max(3650).nullable().optional(),
+  intervalKm: z.number().positive().max(1_000_000).nullable().optional(),
+});
+
+export const completeMaintenanceSchema = z.object({
+  odometerKm: kilometres.optional(),
+  cost: z.number().min(0).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const maintenanceListQuerySchema = z.object({
+  vehicleId: z.string().optional(),
+  status: z.nativeEnum(MaintenanceStatus).optional(),
+});
+
+// ========================================
+// INCIDENT VEHICLES
+// ========================================
+
+export const incidentVehicleSchema = z.object({
+  vehicleId: z.string().min(1, 'Vehicle is required'),
+  driverId: z.string().min(1).optional(),
+});
+
+export const releaseVehicleSchema = z.object({
+  odometerKm: kilometres.optional(),
+  notes: z.string().max(500).optional(),
+});
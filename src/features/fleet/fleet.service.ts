@@ -0,0 +1,735 @@
+import { PrismaClient, Prisma, VehicleStatus, MaintenanceStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError, ConflictError, ForbiddenError } from '../../core/errors';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+import {
+  CreateVehicleDTO,
+  UpdateVehicleDTO,
+  VehicleListQuery,
+  UpdateVehicleStatusDTO,
+  CreateFuelLogDTO,
+  RecordOdometerDTO,
+  FleetPeriodQuery,
+  IncidentVehicleDTO,
+  ReleaseVehicleDTO,
+  FleetActor,
+  VehicleLocation,
+  VehicleUtilisation,
+} from './fleet.types';
+
+const DRIVER_SELECT = { id: true, employeeId: true, firstName: true, lastName: true } satisfies Prisma.PersonnelSelect;
+
+const LATEST_LOCATION = {
+  orderBy: { timestamp: 'desc' as const },
+  take: 1,
+  select: { latitude: true, longitude: true, accuracy: true, speed: true, heading: true, timestamp: true },
+};
+
+export const VEHICLE_INCLUDE = {
+  barangay: { select: { id: true, name: true } },
+  defaultDriver: { select: DRIVER_SELECT },
+  incidents: {
+    where: { releasedAt: null },
+    select: {
+      id: true,
+      assignedAt: true,
+      arrivedAt: true,
+      driver: { select: DRIVER_SELECT },
+      incident: { select: { id: true, incidentNumber: true, title: true, status: true } },
+    },
+  },
+} satisfies Prisma.VehicleInclude;
+
+// Committed to an incident; only release returns the vehicle to AVAILABLE
+const DEPLOYED_STATUSES: VehicleStatus[] = [VehicleStatus.EN_ROUTE, VehicleStatus.ON_SCENE];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Vehicles and equipment: registry, status, fuel and odometer logs, and
+ * their assignment to incidents. A vehicle has no tracker of its own; it is
+ * where its driver's phone last reported.
+ */
+export class FleetService {
+  private auditService: AuditService;
+
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  // ========================================
+  // VEHICLES
+  // ========================================
+
+  async createVehicle(data: CreateVehicleDTO) {
+    await this.assertUnique(data.name, data.plateNumber);
+    if (data.barangayId) await this.assertBarangayExists(data.barangayId);
+    if (data.defaultDriverId) await this.assertPersonnelExists(data.defaultDriverId);
+
+    return this.prisma.vehicle.create({
+      data,
+      include: VEHICLE_INCLUDE,
+    });
+  }
+
+  async getVehicles(query: VehicleListQuery) {
+    return this.prisma.vehicle.findMany({
+      where: {
+        ...(query.type && { type: query.type }),
+        ...(query.status && { status: query.status }),
+        ...(query.barangayId && { barangayId: query.barangayId }),
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+        ...(query.search && {
+          OR: [
+            { name: { contains: query.search, mode: 'insensitive' } },
+            { plateNumber: { contains: query.search, mode: 'insensitive' } },
+          ],
+        }),
+      },
+      include: VEHICLE_INCLUDE,
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async getVehicleById(id: string) {
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id },
+      include: VEHICLE_INCLUDE,
+    });
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    return vehicle;
+  }
+
+  async updateVehicle(id: string, data: UpdateVehicleDTO) {
+    const vehicle = await this.getVehicleById(id);
+
+    await this.assertUnique(
+      data.name !== vehicle.name ? data.name : undefined,
+      data.plateNumber !== vehicle.plateNumber ? data.plateNumber ?? undefined : undefined
+    );
+    if (data.barangayId) await this.assertBarangayExists(data.barangayId);
+    if (data.defaultDriverId) await this.assertPersonnelExists(data.defaultDriverId);
+
+    if (data.isActive === false && DEPLOYED_STATUSES.includes(vehicle.status)) {
+      throw new ValidationError('Release the vehicle from its incident before deactivating it');
+    }
+
+    return this.prisma.vehicle.update({
+      where: { id },
+      data,
+      include: VEHICLE_INCLUDE,
+    });
+  }
+
+  /**
+   * Deleting also drops the vehicle's logs and incident history; retire
+   * vehicles by deactivating them instead to keep the utilisation figures
+   */
+  async deleteVehicle(id: string) {
+    const vehicle = await this.getVehicleById(id);
+
+    if (DEPLOYED_STATUSES.includes(vehicle.status)) {
+      throw new ValidationError('Cannot delete a vehicle that is out on an incident');
+    }
+
+    await this.prisma.vehicle.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Manual status change. While on an incident a vehicle moves between
+   * EN_ROUTE and ON_SCENE, and its driver may report that; otherwise admins
+   * move it between AVAILABLE and MAINTENANCE.
+   */
+  async updateStatus(id: string, data: UpdateVehicleStatusDTO, actor: FleetActor) {
+    const vehicle = await this.getVehicleById(id);
+    const assignment = vehicle.incidents[0];
+
+    if (actor.role === 'PERSONNEL' && assignment?.driver.id !== actor.userId) {
+      throw new ForbiddenError('Only the current driver can update this vehicle');
+    }
+
+    if (assignment && !DEPLOYED_STATUSES.includes(data.status)) {
+      throw new ValidationError('Release the vehicle from its incident first');
+    }
+
+    if (!assignment && DEPLOYED_STATUSES.includes(data.status)) {
+      throw new ValidationError('Assign the vehicle to an incident to set it en route or on scene');
+    }
+
+    if (data.status === vehicle.status) {
+      return vehicle;
+    }
+
+    if (assignment && data.status === VehicleStatus.ON_SCENE && !assignment.arrivedAt) {
+      await this.prisma.incidentVehicle.update({
+        where: { id: assignment.id },
+        data: { arrivedAt: new Date() },
+      });
+    }
+
+    await this.setStatus(vehicle.id, vehicle.status, data.status, {
+      userId: actor.role === 'PERSONNEL' ? undefined : actor.userId,
+      incidentId: assignment?.incident.id,
+      notes: data.notes,
+    });
+
+    return this.getVehicleById(id);
+  }
+
+  // ========================================
+  // FUEL AND ODOMETER
+  // ========================================
+
+  /**
+   * A reading at the pump that is ahead of the odometer also advances it;
+   * older readings are kept on the fuel log only
+   */
+  async addFuelLog(vehicleId: string, data: CreateFuelLogDTO, userId?: string) {
+    const vehicle = await this.getVehicleById(vehicleId);
+
+    const fuelLog = await this.prisma.vehicleFuelLog.create({
+      data: {
+        vehicleId,
+        liters: data.liters,
+        cost: data.cost,
+        odometerKm: data.odometerKm,
+        station: data.station,
+        notes: data.notes,
+        recordedById: userId,
+        ...(data.filledAt && { filledAt: new Date(data.filledAt) }),
+      },
+    });
+
+    if (data.odometerKm !== undefined && data.odometerKm > vehicle.odometerKm) {
+      await this.recordOdometer(vehicleId, { readingKm: data.odometerKm, notes: 'Fuel log' }, userId);
+    }
+
+    return fuelLog;
+  }
+
+  async getFuelLogs(vehicleId: string, query: FleetPeriodQuery) {
+    await this.getVehicleById(vehicleId);
+
+    return this.prisma.vehicleFuelLog.findMany({
+      where: { vehicleId, filledAt: this.period(query) },
+      include: { recordedBy: { select: { id: true, firstName: true, lastName: true } } },
+      orderBy: { filledAt: 'desc' },
+    });
+  }
+
+  /**
+   * Odometers only go forward
+   */
+  async recordOdometer(vehicleId: string, data: RecordOdometerDTO, userId?: string) {
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      select: { id: true, odometerKm: true },
+    });
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    if (data.readingKm < vehicle.odometerKm) {
+      throw new ValidationError(`Reading is below the current odometer of ${vehicle.odometerKm} km`);
+    }
+
+    const [log] = await this.prisma.$transaction([
+      this.prisma.vehicleOdometerLog.create({
+        data: { vehicleId, readingKm: data.readingKm, notes: data.notes, recordedById: userId },
+      }),
+      this.prisma.vehicle.update({
+        where: { id: vehicleId },
+        data: { odometerKm: data.readingKm },
+      }),
+    ]);
+
+    return log;
+  }
+
+  async getOdometerLogs(vehicleId: string, query: FleetPeriodQuery) {
+    await this.getVehicleById(vehicleId);
+
+    return this.prisma.vehicleOdometerLog.findMany({
+      where: { vehicleId, recordedAt: this.period(query) },
+      include: { recordedBy: { select: { id: true, firstName: true, lastName: true } } },
+      orderBy: { recordedAt: 'desc' },
+    });
+  }
+
+  // ========================================
+  // LOCATION
+  // ========================================
+
+  async getVehicleLocation(id: string): Promise<VehicleLocation> {
+    const [location] = await this.locate({ id });
+
+    if (!location) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    return location;
+  }
+
+  async getFleetLocations(): Promise<VehicleLocation[]> {
+    return this.locate({ isActive: true });
+  }
+
+  /**
+   * Vehicle currently driven by the person, if any
+   */
+  async getDrivenVehicle(personnelId: string) {
+    return this.prisma.incidentVehicle.findFirst({
+      where: { driverId: personnelId, releasedAt: null },
+      select: {
+        incidentId: true,
+        vehicle: { select: { id: true, name: true, type: true, status: true } },
+      },
+    });
+  }
+
+  // ========================================
+  // INCIDENTS
+  // ========================================
+
+  /**
+   * Checks the vehicles can be sent and settles each one's driver, so the
+   * drivers can be assigned to the incident along with the other personnel
+   */
+  async prepareAssignment(vehicles: IncidentVehicleDTO[]): Promise<{ vehicleId: string; driverId: string }[]> {
+    const ids = vehicles.map((v) => v.vehicleId);
+    if (new Set(ids).size !== ids.length) {
+      throw new ValidationError('A vehicle can only be listed once');
+    }
+
+    const found = await this.prisma.vehicle.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true, status: true, isActive: true, defaultDriverId: true },
+    });
+
+    const resolved = vehicles.map(({ vehicleId, driverId }) => {
+      const vehicle = found.find((v) => v.id === vehicleId);
+
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle not found');
+      }
+
+      if (!vehicle.isActive || vehicle.status !== VehicleStatus.AVAILABLE) {
+        throw new ValidationError(`${vehicle.name} is not available (${vehicle.status.toLowerCase()})`);
+      }
+
+      const driver = driverId ?? vehicle.defaultDriverId;
+      if (!driver) {
+        throw new ValidationError(`${vehicle.name} has no default driver; name one`);
+      }
+
+      return { vehicleId, driverId: driver };
+    });
+
+    const drivers = resolved.map((r) => r.driverId);
+    if (new Set(drivers).size !== drivers.length) {
+      throw new ValidationError('A driver can only drive one vehicle');
+    }
+
+    const busy = await this.prisma.incidentVehicle.findFirst({
+      where: { driverId: { in: drivers }, releasedAt: null },
+      select: { driver: { select: { firstName: true, lastName: true } } },
+    });
+
+    if (busy) {
+      throw new ConflictError(`${busy.driver.firstName} ${busy.driver.lastName} is already driving another vehicle`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Commit prepared vehicles to an incident. Each vehicle is claimed only if
+   * it is still AVAILABLE, so two dispatchers cannot send the same one.
+   */
+  async assignToIncident(incidentId: string, vehicles: { vehicleId: string; driverId: string }[], userId?: string) {
+    const assigned = await this.prisma.$transaction((tx) => this.claimForIncident(tx, incidentId, vehicles, userId));
+    await this.announceAssignments(assigned, userId);
+    return assigned;
+  }
+
+  /**
+   * Claim vehicles inside the caller's transaction, so a vehicle taken in the
+   * meantime rolls back the caller's other writes too. Call
+   * `announceAssignments` once the transaction has committed.
+   */
+  async claimForIncident(
+    tx: Prisma.TransactionClient,
+    incidentId: string,
+    vehicles: { vehicleId: string; driverId: string }[],
+    userId?: string
+  ) {
+    const assigned = [];
+
+    for (const { vehicleId, driverId } of vehicles) {
+      const claimed = await tx.vehicle.updateMany({
+        where: { id: vehicleId, status: VehicleStatus.AVAILABLE, isActive: true },
+        data: { status: VehicleStatus.EN_ROUTE },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictError('Vehicle was assigned elsewhere in the meantime');
+      }
+
+      const vehicle = await tx.vehicle.findUniqueOrThrow({
+        where: { id: vehicleId },
+        select: { odometerKm: true },
+      });
+
+      assigned.push(
+        await tx.incidentVehicle.create({
+          data: {
+            incidentId,
+            vehicleId,
+            driverId,
+            assignedById: userId,
+            odometerStartKm: vehicle.odometerKm,
+          },
+          include: { vehicle: { select: { id: true, name: true, type: true } }, driver: { select: DRIVER_SELECT } },
+        })
+      );
+    }
+
+    return assigned;
+  }
+
+  async announceAssignments(
+    assigned: { incidentId: string; vehicleId: string; driverId: string }[],
+    userId?: string
+  ) {
+    for (const assignment of assigned) {
+      const { incidentId, vehicleId, driverId } = assignment;
+
+      await this.auditService.createLog({
+        userId,
+        action: AuditAction.VEHICLE_ASSIGNED,
+        resourceType: 'VEHICLE',
+        resourceId: vehicleId,
+        details: { incidentId, driverId },
+      });
+
+      this.emitStatus(vehicleId, VehicleStatus.EN_ROUTE, incidentId);
+      this.io?.to(`personnel:${driverId}`).emit('fleet:vehicle:assigned', assignment);
+    }
+  }
+
+  async getIncidentVehicles(incidentId: string) {
+    return this.prisma.incidentVehicle.findMany({
+      where: { incidentId },
+      include: {
+        vehicle: { select: { id: true, name: true, type: true, plateNumber: true, status: true } },
+        driver: { select: DRIVER_SELECT },
+        assignedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { assignedAt: 'asc' },
+    });
+  }
+
+  async releaseVehicle(incidentId: string, vehicleId: string, data: ReleaseVehicleDTO, actor: FleetActor) {
+    const assignment = await this.prisma.incidentVehicle.findFirst({
+      where: { incidentId, vehicleId, releasedAt: null },
+    });
+
+    if (!assignment) {
+      throw new NotFoundError('Vehicle is not assigned to this incident');
+    }
+
+    if (actor.role === 'PERSONNEL' && assignment.driverId !== actor.userId) {
+      throw new ForbiddenError('Only the driver can release this vehicle');
+    }
+
+    const userId = actor.role === 'PERSONNEL' ? undefined : actor.userId;
+    if (data.odometerKm !== undefined) {
+      await this.recordOdometer(vehicleId, { readingKm: data.odometerKm, notes: 'Released from incident' }, userId);
+    }
+
+    return this.release(assignment.id, userId, data.notes);
+  }
+
+  /**
+   * Closing an incident frees every vehicle still on it
+   */
+  async releaseIncidentVehicles(incidentId: string) {
+    const open = await this.prisma.incidentVehicle.findMany({
+      where: { incidentId, releasedAt: null },
+      select: { id: true },
+    });
+
+    for (const assignment of open) {
+      await this.release(assignment.id, undefined, 'Incident closed');
+    }
+
+    return open.length;
+  }
+
+  /**
+   * Reassigning an incident frees the vehicles of drivers who were dropped
+   * from it
+   */
+  async releaseUnassignedDrivers(incidentId: string, driverIds: string[], userId?: string) {
+    const open = await this.prisma.incidentVehicle.findMany({
+      where: { incidentId, releasedAt: null, driverId: { notIn: driverIds } },
+      select: { id: true },
+    });
+
+    for (const assignment of open) {
+      await this.release(assignment.id, userId, 'Driver unassigned');
+    }
+
+    return open.length;
+  }
+
+  /**
+   * Vehicles still en route when responders reach the scene arrive with them
+   */
+  async markArrived(incidentId: string) {
+    const open = await this.prisma.incidentVehicle.findMany({
+      where: { incidentId, releasedAt: null, arrivedAt: null },
+      select: { id: true, vehicleId: true, vehicle: { select: { status: true } } },
+    });
+
+    for (const assignment of open) {
+      await this.prisma.incidentVehicle.update({
+        where: { id: assignment.id },
+        data: { arrivedAt: new Date() },
+      });
+
+      if (assignment.vehicle.status === VehicleStatus.EN_ROUTE) {
+        await this.setStatus(assignment.vehicleId, VehicleStatus.EN_ROUTE, VehicleStatus.ON_SCENE, { incidentId });
+      }
+    }
+  }
+
+  // ========================================
+  // UTILISATION
+  // ========================================
+
+  /**
+   * Per-vehicle use over a period: time committed to incidents, distance
+   * driven on them, fuel, and maintenance downtime
+   */
+  async getUtilisation(query: FleetPeriodQuery): Promise<VehicleUtilisation[]> {
+    // Last 30 days by default, like the statistics report
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from ? new Date(query.from) : new Date(to.getTime() - 30 * 24 * HOUR_MS);
+
+    if (to <= from) {
+      throw new ValidationError('The end of the period must be after its start');
+    }
+
+    if (to.getTime() - from.getTime() > CONSTANTS.FLEET.MAX_REPORT_DAYS * 24 * HOUR_MS) {
+      throw new ValidationError(`Period cannot exceed ${CONSTANTS.FLEET.MAX_REPORT_DAYS} days`);
+    }
+
+    const now = new Date();
+    const overlaps = { lt: to };
+
+    const vehicles = await this.prisma.vehicle.findMany({
+      include: {
+        incidents: {
+          where: { assignedAt: overlaps, OR: [{ releasedAt: null }, { releasedAt: { gt: from } }] },
+          select: { incidentId: true, assignedAt: true, releasedAt: true, odometerStartKm: true, odometerEndKm: true },
+        },
+        fuelLogs: {
+          where: { filledAt: { gte: from, lt: to } },
+          select: { liters: true, cost: true },
+        },
+        maintenance: {
+          where: {
+            status: { in: [MaintenanceStatus.IN_PROGRESS, MaintenanceStatus.COMPLETED] },
+            startedAt: overlaps,
+            OR: [{ completedAt: null }, { completedAt: { gt: from } }],
+          },
+          select: { startedAt: true, completedAt: true, cost: true, status: true },
+        },
+      },
+      orderBy: [{ type: 'asc' }, { name: 'asc' }],
+    });
+
+    const periodHours = (to.getTime() - from.getTime()) / HOUR_MS;
+    const clippedHours = (start: Date, end: Date | null) =>
+      Math.max(0, Math.min((end ?? now).getTime(), to.getTime()) - Math.max(start.getTime(), from.getTime())) / HOUR_MS;
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return vehicles.map((vehicle) => {
+      const deployedHours = vehicle.incidents.reduce((sum, a) => sum + clippedHours(a.assignedAt, a.releasedAt), 0);
+      const completed = vehicle.maintenance.filter((m) => m.status === MaintenanceStatus.COMPLETED);
+
+      return {
+        vehicleId: vehicle.id,
+        name: vehicle.name,
+        type: vehicle.type,
+        plateNumber: vehicle.plateNumber,
+        status: vehicle.status,
+        incidents: new Set(vehicle.incidents.map((a) => a.incidentId)).size,
+        deployedHours: round(deployedHours),
+        utilisationPercent: round((deployedHours / periodHours) * 100),
+        distanceKm: round(
+          vehicle.incidents.reduce(
+            (sum, a) => sum + (a.odometerEndKm !== null && a.odometerStartKm !== null ? a.odometerEndKm - a.odometerStartKm : 0),
+            0
+          )
+        ),
+        fuelLiters: round(vehicle.fuelLogs.reduce((sum, f) => sum + f.liters, 0)),
+        fuelCost: round(vehicle.fuelLogs.reduce((sum, f) => sum + (f.cost ?? 0), 0)),
+        maintenanceCount: completed.length,
+        maintenanceCost: round(completed.reduce((sum, m) => sum + (m.cost ?? 0), 0)),
+        downtimeHours: round(
+          vehicle.maintenance.reduce((sum, m) => sum + (m.startedAt ? clippedHours(m.startedAt, m.completedAt) : 0), 0)
+        ),
+        odometerKm: vehicle.odometerKm,
+      };
+    });
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  /**
+   * Vehicle status change, audited and broadcast to admins
+   */
+  async setStatus(
+    vehicleId: string,
+    oldStatus: VehicleStatus,
+    status: VehicleStatus,
+    context: { userId?: string; incidentId?: string; notes?: string } = {}
+  ) {
+    await this.prisma.vehicle.update({
+      where: { id: vehicleId },
+      data: { status },
+    });
+
+    await this.auditService.createLog({
+      userId: context.userId,
+      action: AuditAction.VEHICLE_STATUS_CHANGED,
+      resourceType: 'VEHICLE',
+      resourceId: vehicleId,
+      details: { field: 'status', oldValue: oldStatus, newValue: status, incidentId: context.incidentId, notes: context.notes },
+    });
+
+    this.emitStatus(vehicleId, status, context.incidentId);
+  }
+
+  private async release(assignmentId: string, userId?: string, notes?: string) {
+    const assignment = await this.prisma.incidentVehicle.findUniqueOrThrow({
+      where: { id: assignmentId },
+      include: { vehicle: { select: { status: true, odometerKm: true } } },
+    });
+
+    const released = await this.prisma.incidentVehicle.update({
+      where: { id: assignmentId },
+      data: {
+        releasedAt: new Date(),
+        odometerEndKm: assignment.vehicle.odometerKm,
+        ...(notes && { notes }),
+      },
+    });
+
+    await this.auditService.createLog({
+      userId,
+      action: AuditAction.VEHICLE_RELEASED,
+      resourceType: 'VEHICLE',
+      resourceId: assignment.vehicleId,
+      details: { incidentId: assignment.incidentId, driverId: assignment.driverId, notes },
+    });
+
+    if (DEPLOYED_STATUSES.includes(assignment.vehicle.status)) {
+      await this.setStatus(assignment.vehicleId, assignment.vehicle.status, VehicleStatus.AVAILABLE, {
+        userId,
+        incidentId: assignment.incidentId,
+      });
+    }
+
+    return released;
+  }
+
+  private async locate(where: Prisma.VehicleWhereInput): Promise<VehicleLocation[]> {
+    const driver = { select: { ...DRIVER_SELECT, locations: LATEST_LOCATION } };
+
+    const vehicles = await this.prisma.vehicle.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        status: true,
+        defaultDriver: driver,
+        incidents: { where: { releasedAt: null }, select: { incidentId: true, driver } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const staleBefore = Date.now() - CONSTANTS.PRESENCE.STALE_LOCATION_MINUTES * 60 * 1000;
+
+    return vehicles.map((vehicle) => {
+      const assignment = vehicle.incidents[0];
+      const current = assignment?.driver ?? vehicle.defaultDriver;
+      const fix = current?.locations[0];
+
+      return {
+        vehicleId: vehicle.id,
+        name: vehicle.name,
+        type: vehicle.type,
+        status: vehicle.status,
+        incidentId: assignment?.incidentId ?? null,
+        driver: current && { id: current.id, firstName: current.firstName, lastName: current.lastName },
+        location: fix ? { ...fix, isStale: fix.timestamp.getTime() < staleBefore } : null,
+      };
+    });
+  }
+
+  private emitStatus(vehicleId: string, status: VehicleStatus, incidentId?: string) {
+    this.io?.to('admin').emit('fleet:vehicle:status', {
+      vehicleId,
+      status,
+      incidentId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private period(query: FleetPeriodQuery): Prisma.DateTimeFilter | undefined {
+    if (!query.from && !query.to) return undefined;
+
+    return {
+      ...(query.from && { gte: new Date(query.from) }),
+      ...(query.to && { lte: new Date(query.to) }),
+    };
+  }
+
+  private async assertUnique(name?: string, plateNumber?: string) {
+    if (name && (await this.prisma.vehicle.findUnique({ where: { name }, select: { id: true } }))) {
+      throw new ConflictError(`Vehicle "${name}" already exists`);
+    }
+
+    if (plateNumber && (await this.prisma.vehicle.findUnique({ where: { plateNumber }, select: { id: true } }))) {
+      throw new ConflictError(`Plate number ${plateNumber} is already registered`);
+    }
+  }
+
+  private async assertBarangayExists(barangayId: string) {
+    const barangay = await this.prisma.barangay.findUnique({ where: { id: barangayId }, select: { id: true } });
+    if (!barangay) {
+      throw new NotFoundError('Barangay not found');
+    }
+  }
+
+  private async assertPersonnelExists(personnelId: string) {
+    const personnel = await this.prisma.personnel.findUnique({ where: { id: personnelId }, select: { id: true } });
+    if (!personnel) {
+      throw new NotFoundError('Driver not found');
+    }
+  }
+}
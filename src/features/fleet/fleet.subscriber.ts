@@ -0,0 +1,51 @@
+import { PrismaClient, IncidentStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { DomainEventBus } from '../../core/events';
+import { FleetService } from './fleet.service';
+
+// Vehicles still on an incident are freed when it reaches one of these
+const CLOSED_STATUSES: IncidentStatus[] = [
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+/**
+ * Keeps vehicle status in step with the incidents they are on, and moves
+ * vehicles on the admin map as their drivers report locations
+ */
+export function registerFleetSubscriber(bus: DomainEventBus, prisma: PrismaClient, io: SocketIOServer): () => void {
+  const fleetService = new FleetService(prisma, io);
+
+  const subscriptions = [
+    bus.subscribe('IncidentStatusChanged', async ({ payload }) => {
+      if (payload.status === IncidentStatus.ARRIVED) {
+        await fleetService.markArrived(payload.incidentId);
+      } else if (CLOSED_STATUSES.includes(payload.status)) {
+        await fleetService.releaseIncidentVehicles(payload.incidentId);
+      }
+    }),
+
+    bus.subscribe('PersonnelLocationUpdated', async ({ payload }) => {
+      const driven = await fleetService.getDrivenVehicle(payload.personnelId);
+      if (!driven) return;
+
+      io.to('admin').emit('fleet:vehicle:location', {
+        vehicleId: driven.vehicle.id,
+        name: driven.vehicle.name,
+        type: driven.vehicle.type,
+        status: driven.vehicle.status,
+        incidentId: driven.incidentId,
+        driverId: payload.personnelId,
+        latitude: payload.latitude,
+        longitude: payload.longitude,
+        accuracy: payload.accuracy,
+        timestamp: payload.timestamp,
+      });
+    }),
+  ];
+
+  return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+}
@@ -0,0 +1,139 @@
+import { VehicleType, VehicleStatus, MaintenanceStatus } from '@prisma/client';
+
+export interface CreateVehicleDTO {
+  name: string;
+  type: VehicleType;
+  plateNumber?: string;
+  description?: string;
+  capacity?: number;
+  odometerKm?: number;
+  barangayId?: string;
+  defaultDriverId?: string;
+}
+
+export interface UpdateVehicleDTO {
+  name?: string;
+  type?: VehicleType;
+  plateNumber?: string | null;
+  description?: string | null;
+  capacity?: number | null;
+  barangayId?: string | null;
+  defaultDriverId?: string | null;
+  isActive?: boolean;
+}
+
+export interface VehicleListQuery {
+  type?: VehicleType;
+  status?: VehicleStatus;
+  barangayId?: string;
+  isActive?: boolean;
+  search?: string;
+}
+
+export interface UpdateVehicleStatusDTO {
+  status: VehicleStatus;
+  notes?: string;
+}
+
+export interface CreateFuelLogDTO {
+  liters: number;
+  cost?: number;
+  odometerKm?: number;
+  station?: string;
+  notes?: string;
+  filledAt?: string;
+}
+
+export interface RecordOdometerDTO {
+  readingKm: number;
+  notes?: string;
+}
+
+export interface FleetPeriodQuery {
+  from?: string;
+  to?: string;
+}
+
+export interface CreateMaintenanceDTO {
+  title: string;
+  description?: string;
+  dueAt?: string;
+  dueOdometerKm?: number;
+  intervalDays?: number;
+  intervalKm?: number;
+}
+
+export interface UpdateMaintenanceDTO {
+  title?: string;
+  description?: string | null;
+  dueAt?: string | null;
+  dueOdometerKm?: number | null;
+  intervalDays?: number | null;
+  intervalKm?: number | null;
+}
+
+export interface CompleteMaintenanceDTO {
+  odometerKm?: number;
+  cost?: number;
+  notes?: string;
+}
+
+export interface MaintenanceListQuery {
+  vehicleId?: string;
+  status?: MaintenanceStatus;
+}
+
+/**
+ * A vehicle sent to an incident; the driver defaults to the vehicle's
+ * default driver and is assigned to the incident with it
+ */
+export interface IncidentVehicleDTO {
+  vehicleId: string;
+  driverId?: string;
+}
+
+export interface ReleaseVehicleDTO {
+  odometerKm?: number;
+  notes?: string;
+}
+
+export interface FleetActor {
+  userId: string;
+  role: string;
+}
+
+export interface VehicleLocation {
+  vehicleId: string;
+  name: string;
+  type: VehicleType;
+  status: VehicleStatus;
+  incidentId: string | null;
+  driver: { id: string; firstName: string; lastName: string } | null;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    speed: number | null;
+    heading: number | null;
+    timestamp: Date;
+    isStale: boolean;
+  } | null;
+}
+
+export interface VehicleUtilisation {
+  vehicleId: string;
+  name: string;
+  type: VehicleType;
+  plateNumber: string | null;
+  status: VehicleStatus;
+  incidents: number;
+  deployedHours: number;
+  utilisationPercent: number; // Deployed hours over the hours in the period
+  distanceKm: number;
+  fuelLiters: number;
+  fuelCost: number;
+  maintenanceCount: number;
+  maintenanceCost: number;
+  downtimeHours: number;
+  odometerKm: number;
+}
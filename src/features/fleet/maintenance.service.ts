@@ -0,0 +1,242 @@
+import { PrismaClient, Prisma, MaintenanceStatus, VehicleStatus } from '@prisma/client';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError } from '../../core/errors';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+import { FleetService } from './fleet.service';
+import {
+  CreateMaintenanceDTO,
+  UpdateMaintenanceDTO,
+  CompleteMaintenanceDTO,
+  MaintenanceListQuery,
+} from './fleet.types';
+
+const MAINTENANCE_INCLUDE = {
+  vehicle: { select: { id: true, name: true, type: true, plateNumber: true, odometerKm: true, status: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.VehicleMaintenanceInclude;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maintenance schedules. Items fall due at a date, an odometer reading or
+ * both; recurring items schedule their successor when completed. A vehicle
+ * is in MAINTENANCE while one of its items is in progress.
+ */
+export class VehicleMaintenanceService {
+  private auditService: AuditService;
+
+  constructor(private prisma: PrismaClient, private fleet: FleetService) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  async createMaintenance(vehicleId: string, data: CreateMaintenanceDTO, userId?: string) {
+    await this.fleet.getVehicleById(vehicleId);
+
+    return this.prisma.vehicleMaintenance.create({
+      data: {
+        ...data,
+        vehicleId,
+        dueAt: data.dueAt ? new Date(data.dueAt) : undefined,
+        createdById: userId,
+      },
+      include: MAINTENANCE_INCLUDE,
+    });
+  }
+
+  async getMaintenance(query: MaintenanceListQuery) {
+    return this.prisma.vehicleMaintenance.findMany({
+      where: {
+        ...(query.vehicleId && { vehicleId: query.vehicleId }),
+        ...(query.status && { status: query.status }),
+      },
+      include: MAINTENANCE_INCLUDE,
+      orderBy: [{ status: 'asc' }, { dueAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Scheduled items that are overdue or due soon, by date or by distance
+   */
+  async getDueMaintenance() {
+    const dueBy = new Date(Date.now() + CONSTANTS.FLEET.MAINTENANCE_DUE_SOON_DAYS * DAY_MS);
+
+    const scheduled = await this.prisma.vehicleMaintenance.findMany({
+      where: { status: MaintenanceStatus.SCHEDULED, vehicle: { isActive: true } },
+      include: MAINTENANCE_INCLUDE,
+      orderBy: { dueAt: 'asc' },
+    });
+
+    return scheduled
+      .filter(
+        (item) =>
+          (item.dueAt !== null && item.dueAt <= dueBy) ||
+          (item.dueOdometerKm !== null &&
+            item.dueOdometerKm - item.vehicle.odometerKm <= CONSTANTS.FLEET.MAINTENANCE_DUE_SOON_KM)
+      )
+      .map((item) => ({
+        ...item,
+        overdue:
+          (item.dueAt !== null && item.dueAt <= new Date()) ||
+          (item.dueOdometerKm !== null && item.vehicle.odometerKm >= item.dueOdometerKm),
+      }));
+  }
+
+  async getMaintenanceById(id: string) {
+    const item = await this.prisma.vehicleMaintenance.findUnique({
+      where: { id },
+      include: MAINTENANCE_INCLUDE,
+    });
+
+    if (!item) {
+      throw new NotFoundError('Maintenance item not found');
+    }
+
+    return item;
+  }
+
+  async updateMaintenance(id: string, data: UpdateMaintenanceDTO) {
+    const item = await this.getMaintenanceById(id);
+    this.assertOpen(item.status);
+
+    const dueAt = data.dueAt !== undefined ? data.dueAt : item.dueAt;
+    const dueOdometerKm = data.dueOdometerKm !== undefined ? data.dueOdometerKm : item.dueOdometerKm;
+    if (!dueAt && dueOdometerKm === null) {
+      throw new ValidationError('Provide a due date, a due odometer reading, or both');
+    }
+
+    return this.prisma.vehicleMaintenance.update({
+      where: { id },
+      data: {
+        ...data,
+        dueAt: data.dueAt === undefined ? undefined : data.dueAt && new Date(data.dueAt),
+      },
+      include: MAINTENANCE_INCLUDE,
+    });
+  }
+
+  /**
+   * Takes the vehicle out of service; not while it is on an incident
+   */
+  async startMaintenance(id: string, userId?: string) {
+    const item = await this.getMaintenanceById(id);
+
+    if (item.status !== MaintenanceStatus.SCHEDULED) {
+      throw new ValidationError(`Maintenance is already ${item.status.toLowerCase().replace('_', ' ')}`);
+    }
+
+    const { vehicle } = item;
+    if (vehicle.status !== VehicleStatus.AVAILABLE && vehicle.status !== VehicleStatus.MAINTENANCE) {
+      throw new ValidationError(`${vehicle.name} is out on an incident`);
+    }
+
+    const started = await this.prisma.vehicleMaintenance.update({
+      where: { id },
+      data: { status: MaintenanceStatus.IN_PROGRESS, startedAt: new Date() },
+      include: MAINTENANCE_INCLUDE,
+    });
+
+    if (vehicle.status !== VehicleStatus.MAINTENANCE) {
+      await this.fleet.setStatus(vehicle.id, vehicle.status, VehicleStatus.MAINTENANCE, {
+        userId,
+        notes: item.title,
+      });
+    }
+
+    return started;
+  }
+
+  /**
+   * Completes the item, returns the vehicle to service once nothing else is
+   * in progress, and schedules the next occurrence of recurring items
+   */
+  async completeMaintenance(id: string, data: CompleteMaintenanceDTO, userId?: string) {
+    const item = await this.getMaintenanceById(id);
+    this.assertOpen(item.status);
+
+    if (data.odometerKm !== undefined && data.odometerKm > item.vehicle.odometerKm) {
+      await this.fleet.recordOdometer(item.vehicleId, { readingKm: data.odometerKm, notes: item.title }, userId);
+    }
+
+    const now = new Date();
+    const odometerKm = Math.max(data.odometerKm ?? 0, item.vehicle.odometerKm);
+
+    const completed = await this.prisma.vehicleMaintenance.update({
+      where: { id },
+      data: {
+        status: MaintenanceStatus.COMPLETED,
+        startedAt: item.startedAt ?? now,
+        completedAt: now,
+        completedOdometerKm: odometerKm,
+        cost: data.cost,
+        notes: data.notes,
+      },
+      include: MAINTENANCE_INCLUDE,
+    });
+
+    await this.auditService.createLog({
+      userId,
+      action: AuditAction.VEHICLE_MAINTENANCE_COMPLETED,
+      resourceType: 'VEHICLE',
+      resourceId: item.vehicleId,
+      details: { maintenanceId: id, title: item.title, cost: data.cost, odometerKm },
+    });
+
+    await this.returnToService(item.vehicleId, userId);
+
+    if (item.intervalDays || item.intervalKm) {
+      await this.prisma.vehicleMaintenance.create({
+        data: {
+          vehicleId: item.vehicleId,
+          title: item.title,
+          description: item.description,
+          intervalDays: item.intervalDays,
+          intervalKm: item.intervalKm,
+          dueAt: item.intervalDays ? new Date(now.getTime() + item.intervalDays * DAY_MS) : null,
+          dueOdometerKm: item.intervalKm ? odometerKm + item.intervalKm : null,
+          createdById: userId,
+        },
+      });
+    }
+
+    return completed;
+  }
+
+  async cancelMaintenance(id: string, userId?: string) {
+    const item = await this.getMaintenanceById(id);
+    this.assertOpen(item.status);
+
+    const cancelled = await this.prisma.vehicleMaintenance.update({
+      where: { id },
+      data: { status: MaintenanceStatus.CANCELLED },
+      include: MAINTENANCE_INCLUDE,
+    });
+
+    if (item.status === MaintenanceStatus.IN_PROGRESS) {
+      await this.returnToService(item.vehicleId, userId);
+    }
+
+    return cancelled;
+  }
+
+  private async returnToService(vehicleId: string, userId?: string) {
+    const remaining = await this.prisma.vehicleMaintenance.count({
+      where: { vehicleId, status: MaintenanceStatus.IN_PROGRESS },
+    });
+
+    const vehicle = await this.prisma.vehicle.findUniqueOrThrow({
+      where: { id: vehicleId },
+      select: { status: true },
+    });
+
+    if (remaining === 0 && vehicle.status === VehicleStatus.MAINTENANCE) {
+      await this.fleet.setStatus(vehicleId, vehicle.status, VehicleStatus.AVAILABLE, { userId });
+    }
+  }
+
+  private assertOpen(status: MaintenanceStatus) {
+    if (status === MaintenanceStatus.COMPLETED || status === MaintenanceStatus.CANCELLED) {
+      throw new ValidationError(`Maintenance is already ${status.toLowerCase()}`);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { PrismaClient, IncidentStatus } from '@prisma/client';
+import { env } from '../../config/environment';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+
+export class IncidentArchiveService {
+  private auditService: AuditService;
+
+  constructor(private prisma: PrismaClient) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  /**
+   * Move CLOSED incidents older than INCIDENT_ARCHIVE_AFTER_MONTHS, with every
+   * row that belongs to them, out of the hot tables into the archive schema.
+   * They stay searchable and reportable through the reporting views.
+   */
+  async archiveClosedIncidents(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now);
+    cutoff.setMonth(cutoff.getMonth() - parseInt(env.INCIDENT_ARCHIVE_AFTER_MONTHS));
+
+    const heldBack = new Set<string>();
+    let count = 0;
+
+    for (;;) {
+      const closed = await this.prisma.incident.findMany({
+        where: {
+          status: IncidentStatus.CLOSED,
+          deletedAt: null,
+          closedAt: { lt: cutoff },
+          id: { notIn: [...heldBack] },
+        },
+        select: { id: true },
+        orderBy: { closedAt: 'asc' },
+        take: CONSTANTS.INCIDENT_ARCHIVE.BATCH_SIZE,
+      });
+
+      if (closed.length === 0) break;
+
+      const ids = await this.withDependents(closed.map((incident) => incident.id), heldBack);
+      if (ids.length > 0) {
+        const [{ moved }] = await this.prisma.$queryRaw<{ moved: number }[]>`
+          SELECT "archive"."move_incidents"(${ids}, ${now.toISOString()}::timestamptz AT TIME ZONE 'UTC') AS "moved"
+        `;
+        count += moved;
+      }
+
+      if (closed.length < CONSTANTS.INCIDENT_ARCHIVE.BATCH_SIZE) break;
+    }
+
+    if (heldBack.size > 0) {
+      logger.info(`[Archive] Held back ${heldBack.size} incident(s) still referenced from the hot tables`);
+    }
+
+    if (count > 0) {
+      logger.info(`[Archive] Archived ${count} incident(s) closed before ${cutoff.toISOString()}`);
+
+      await this.auditService.createLog({
+        action: AuditAction.INCIDENTS_ARCHIVED,
+        resourceType: 'INCIDENT',
+        details: { count, closedBefore: cutoff.toISOString() },
+      });
+    }
+
+    return count;
+  }
+
+  /**
+   * Duplicates merged into an incident are archived with it. An incident stays
+   * in the hot tables while anything outside the batch still refers to it (a
+   * merged or child incident, a link, an SOS alert), so that archiving never
+   * cuts a reference; ids held back are added to `heldBack`.
+   */
+  private async withDependents(ids: string[], heldBack: Set<string>): Promise<string[]> {
+    const duplicates = await this.prisma.$queryRaw<{ id: string; mergedIntoId: string }[]>`
+      SELECT "id", "mergedIntoId" FROM "incidents" WHERE "mergedIntoId" = ANY(${ids})
+    `;
+    const batch = new Set([...ids, ...duplicates.map((duplicate) => duplicate.id)]);
+
+    for (;;) {
+      const current = [...batch];
+      const held = await this.prisma.$queryRaw<{ id: string }[]>`
+        SELECT i."id" FROM "incidents" i
+        WHERE i."id" = ANY(${current})
+          AND (
+            EXISTS (
+              SELECT 1 FROM "incidents" o
+              WHERE (o."mergedIntoId" = i."id" OR o."parentIncidentId" = i."id") AND o."id" <> ALL(${current})
+            )
+            OR EXISTS (
+              SELECT 1 FROM "incident_links" l
+              WHERE (l."sourceIncidentId" = i."id" AND l."targetIncidentId" <> ALL(${current}))
+                OR (l."targetIncidentId" = i."id" AND l."sourceIncidentId" <> ALL(${current}))
+            )
+            OR EXISTS (SELECT 1 FROM "sos_alerts" s WHERE s."incidentId" = i."id")
+          )
+      `;
+      const orphaned = duplicates.filter((d) => batch.has(d.id) && !batch.has(d.mergedIntoId));
+
+      if (held.length === 0 && orphaned.length === 0) {
+        return current;
+      }
+
+      [...held, ...orphaned].forEach(({ id }) => {
+        batch.delete(id);
+        heldBack.add(id);
+      });
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { IncidentPriority, IncidentStatus } from '@prisma/client';
+import { CONSTANTS } from '../../config/constants';
+import { savedViewFiltersSchema } from './saved-views.schema';
+import { addIncidentTagsSchema } from '../tags/tags.schema';
+import { deleteIncidentSchema } from './incidents.schema';
+import { BulkIncidentAction } from './bulk.types';
+
+export const bulkIncidentOperationSchema = z.object({
+  action: z.nativeEnum(BulkIncidentAction),
+  incidentIds: z.array(z.string())
+    .min(1, 'At least one incident is required')
+    .max(CONSTANTS.BULK_OPERATIONS.MAX_INCIDENTS, `At most ${CONSTANTS.BULK_OPERATIONS.MAX_INCIDENTS} incidents per request`)
+    .optional(),
+  filter: savedViewFiltersSchema.optional(),
+  status: z.nativeEnum(IncidentStatus).optional(),
+  notes: z.string().optional(),
+  personnelIds: z.array(z.string()).min(1, 'At least one personnel must be assigned').optional(),
+  priority: z.nativeEnum(IncidentPriority).optional(),
+  tags: addIncidentTagsSchema.shape.tags.optional(),
+  reason: deleteIncidentSchema.shape.reason.optional(),
+}).superRefine((data, ctx) => {
+  if (!data.incidentIds === !data.filter) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['incidentIds'],
+      message: 'Provide either incidentIds or filter',
+    });
+  }
+
+  // Parameter each action needs
+  const required: Partial<Record<BulkIncidentAction, keyof typeof data>> = {
+    [BulkIncidentAction.STATUS]: 'status',
+    [BulkIncidentAction.ASSIGN]: 'personnelIds',
+    [BulkIncidentAction.PRIORITY]: 'priority',
+    [BulkIncidentAction.TAG]: 'tags',
+    [BulkIncidentAction.DELETE]: 'reason',
+  };
+  const field = required[data.action];
+
+  if (field && data[field] === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [field],
+      message: `${field} is required for ${data.action}`,
+    });
+  }
+});
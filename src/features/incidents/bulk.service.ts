@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient, IncidentStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { ValidationError } from '../../core/errors';
+import { logger } from '../../core/utils/logger';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+import { TimelineService } from './timeline.service';
+import { WorkflowActor } from './workflow.types';
+import type { IncidentsService } from './incidents.service';
+import { IncidentListQuery } from './incidents.types';
+import {
+  BulkIncidentAction,
+  BulkIncidentOperationDTO,
+  BulkIncidentItemResult,
+  BulkIncidentOperationResult,
+} from './bulk.types';
+
+const AUDITED_ELSEWHERE: BulkIncidentAction[] = [
+  BulkIncidentAction.STATUS,
+  BulkIncidentAction.SPAM,
+  BulkIncidentAction.DELETE,
+];
+
+interface BulkTarget {
+  id: string;
+  incidentNumber: string;
+  status: IncidentStatus;
+}
+
+/**
+ * Applies one action to many incidents. Every item goes through the same
+ * service method as the single-incident endpoint, so workflow rules and
+ * validation apply per item and one failure does not stop the rest.
+ */
+export class IncidentBulkService {
+  private auditService: AuditService;
+  private timelineService: TimelineService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private incidents: IncidentsService,
+    private io?: SocketIOServer
+  ) {
+    this.auditService = new AuditService(prisma);
+    this.timelineService = new TimelineService(prisma);
+  }
+
+  async run(data: BulkIncidentOperationDTO, actor: WorkflowActor): Promise<BulkIncidentOperationResult> {
+    const operationId = randomUUID();
+    const targets = await this.resolveTargets(data, actor.id);
+
+    const results: BulkIncidentItemResult[] = [];
+    for (const target of targets) {
+      results.push(await this.applyToIncident(operationId, target, data, actor));
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    const summary = {
+      operationId,
+      action: data.action,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+    };
+
+    this.io?.to('admin').emit('incident:bulk-completed', {
+      ...summary,
+      incidentIds: results.filter((r) => r.success).map((r) => r.incidentId),
+      performedBy: actor.id,
+      timestamp: new Date().toISOString(),
+    });
+
+    logger.info(`[Bulk] ${data.action} ${operationId}: ${succeeded}/${results.length} incidents updated`);
+
+    return { ...summary, results };
+  }
+
+  private async resolveTargets(data: BulkIncidentOperationDTO, userId: string): Promise<BulkTarget[]> {
+    const max = CONSTANTS.BULK_OPERATIONS.MAX_INCIDENTS;
+
+    if (data.filter) {
+      const matches = await this.incidents.getIncidents(
+        { ...(data.filter as IncidentListQuery), page: 1, limit: max },
+        userId
+      );
+
+      if (matches.pagination.total > max) {
+        throw new ValidationError(
+          `The filter matches ${matches.pagination.total} incidents, at most ${max} can be changed at once`
+        );
+      }
+
+      return matches.data.map((incident) => ({
+        id: incident.id,
+        incidentNumber: incident.incidentNumber,
+        status: incident.status,
+      }));
+    }
+
+    const ids = Array.from(new Set(data.incidentIds ?? []));
+    const found = await this.prisma.incident.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, incidentNumber: true, status: true },
+    });
+
+    // Unknown IDs are kept so they are reported as failed items
+    return ids.map((id) => found.find((incident) => incident.id === id) ?? {
+      id,
+      incidentNumber: '',
+      status: IncidentStatus.REPORTED,
+    });
+  }
+
+  private async applyToIncident(
+    operationId: string,
+    target: BulkTarget,
+    data: BulkIncidentOperationDTO,
+    actor: WorkflowActor
+  ): Promise<BulkIncidentItemResult> {
+    if (!target.incidentNumber) {
+      return { incidentId: target.id, success: false, error: 'Incident not found' };
+    }
+
+    try {
+      const note = await this.execute(target, data, actor);
+
+      // Status changes are put on the timeline by the workflow engine
+      if (note) {
+        await this.timelineService.addEntry({
+          incidentId: target.id,
+          status: target.status,
+          notes: note,
+          userId: actor.id,
+          metadata: { bulkOperationId: operationId, action: data.action },
+        });
+      }
+
+      // Deletions are audited by deleteIncident, status changes through IncidentStatusChanged
+      if (!AUDITED_ELSEWHERE.includes(data.action)) {
+        await this.auditService.createLog({
+          userId: actor.id,
+          action: this.auditAction(data.action),
+          resourceType: 'INCIDENT',
+          resourceId: target.id,
+          details: {
+            bulkOperationId: operationId,
+            action: data.action,
+            incidentNumber: target.incidentNumber,
+            ...this.auditDetails(data),
+          },
+        });
+      }
+
+      return { incidentId: target.id, incidentNumber: target.incidentNumber, success: true };
+    } catch (error) {
+      return {
+        incidentId: target.id,
+        incidentNumber: target.incidentNumber,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Perform the action, returning the timeline note for non-status actions
+   */
+  private async execute(
+    target: BulkTarget,
+    data: BulkIncidentOperationDTO,
+    actor: WorkflowActor
+  ): Promise<string | undefined> {
+    switch (data.action) {
+      case BulkIncidentAction.STATUS:
+        await this.incidents.updateStatus(target.id, { status: data.status!, notes: data.notes }, actor);
+        return undefined;
+      case BulkIncidentAction.SPAM:
+        await this.incidents.updateStatus(
+          target.id,
+          { status: IncidentStatus.SPAM, notes: data.notes || 'Marked as spam (bulk)' },
+          actor
+        );
+        return undefined;
+      case BulkIncidentAction.ASSIGN:
+        await this.incidents.assignPersonnel(target.id, { personnelIds: data.personnelIds! }, actor.id);
+        return `Assigned ${data.personnelIds!.length} personnel (bulk)`;
+      case BulkIncidentAction.PRIORITY:
+        await this.incidents.updateIncident(target.id, { priority: data.priority! }, actor);
+        return `Priority changed to ${data.priority} (bulk)`;
+      case BulkIncidentAction.TAG:
+        await this.incidents.addIncidentTags(target.id, { tags: data.tags! }, actor.id);
+        return `Tagged ${data.tags!.join(', ')} (bulk)`;
+      case BulkIncidentAction.DELETE:
+        await this.incidents.deleteIncident(target.id, { reason: data.reason! }, actor.id);
+        return `Deleted (bulk): ${data.reason}`;
+    }
+  }
+
+  private auditAction(action: BulkIncidentAction): AuditAction {
+    switch (action) {
+      case BulkIncidentAction.ASSIGN:
+        return AuditAction.PERSONNEL_ASSIGNED;
+      default:
+        return AuditAction.INCIDENT_UPDATED;
+    }
+  }
+
+  private auditDetails(data: BulkIncidentOperationDTO) {
+    switch (data.action) {
+      case BulkIncidentAction.ASSIGN:
+        return { personnelIds: data.personnelIds };
+      case BulkIncidentAction.PRIORITY:
+        return { priority: data.priority };
+      case BulkIncidentAction.TAG:
+        return { tags: data.tags };
+      default:
+        return {};
+    }
+  }
+}
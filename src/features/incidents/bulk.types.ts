@@ -0,0 +1,40 @@
+import { IncidentPriority, IncidentStatus } from '@prisma/client';
+import { SavedViewFilters } from './saved-views.types';
+
+export enum BulkIncidentAction {
+  STATUS = 'STATUS',
+  SPAM = 'SPAM',
+  ASSIGN = 'ASSIGN',
+  PRIORITY = 'PRIORITY',
+  TAG = 'TAG',
+  DELETE = 'DELETE',
+}
+
+export interface BulkIncidentOperationDTO {
+  action: BulkIncidentAction;
+  // Either explicit IDs or the same filters GET /incidents accepts
+  incidentIds?: string[];
+  filter?: SavedViewFilters;
+  status?: IncidentStatus;
+  notes?: string;
+  personnelIds?: string[];
+  priority?: IncidentPriority;
+  tags?: string[];
+  reason?: string;
+}
+
+export interface BulkIncidentItemResult {
+  incidentId: string;
+  incidentNumber?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkIncidentOperationResult {
+  operationId: string;
+  action: BulkIncidentAction;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkIncidentItemResult[];
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { CONSTANTS } from '../../config/constants';
+
+const { MAX_MESSAGE_LENGTH, MAX_HISTORY_PAGE_SIZE } = CONSTANTS.INCIDENT_CHAT;
+
+export const chatHistoryQuerySchema = z.object({
+  before: z.string().optional(),
+  limit: z.string().transform(Number).pipe(z.number().min(1).max(MAX_HISTORY_PAGE_SIZE)).optional(),
+});
+
+// Socket payloads are checked with the same zod schemas as REST bodies
+export const sendChatMessageSchema = z.object({
+  incidentId: z.string().min(1),
+  body: z.string().trim().min(1, 'Message cannot be empty').max(MAX_MESSAGE_LENGTH),
+  clientMessageId: z.string().max(100).optional(),
+});
+
+export const chatReceiptSchema = z.object({
+  incidentId: z.string().min(1),
+  messageIds: z.array(z.string()).min(1).max(MAX_HISTORY_PAGE_SIZE),
+});
+
+export const chatTypingSchema = z.object({
+  incidentId: z.string().min(1),
+  isTyping: z.boolean(),
+});
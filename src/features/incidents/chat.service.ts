@@ -0,0 +1,293 @@
+import { PrismaClient, Prisma, IncidentStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ForbiddenError } from '../../core/errors';
+import { WorkflowActor } from './workflow.types';
+import { actorReference } from './workflow.service';
+import {
+  SendChatMessageDTO,
+  ChatReceiptDTO,
+  ChatHistoryQuery,
+  ChatParticipant,
+} from './chat.types';
+
+// Incidents in these statuses no longer get a room on connect
+const CLOSED_STATUSES: IncidentStatus[] = [
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+const messageInclude = {
+  senderUser: { select: { id: true, firstName: true, lastName: true } },
+  senderPersonnel: { select: { id: true, firstName: true, lastName: true } },
+  receipts: { select: { userId: true, personnelId: true, deliveredAt: true, readAt: true } },
+} satisfies Prisma.IncidentChatMessageInclude;
+
+type ChatMessageWithSender = Prisma.IncidentChatMessageGetPayload<{ include: typeof messageInclude }>;
+
+/**
+ * Persistence and room bookkeeping for incident chat. Messages are emitted
+ * to the incident room and to the admin room, so admins take part in every
+ * incident chat without joining each room.
+ */
+export class IncidentChatService {
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {}
+
+  static room(incidentId: string): string {
+    return `incident:${incidentId}`;
+  }
+
+  /**
+   * Rooms a connecting socket joins: the open incidents personnel are on
+   */
+  async getRoomsFor(actor: WorkflowActor): Promise<string[]> {
+    if (actor.role === 'ADMIN') return [];
+
+    const incidentIds = await this.getActiveIncidentIds(actor.id);
+    return incidentIds.map(IncidentChatService.room);
+  }
+
+  /**
+   * Put the connected sockets of newly assigned personnel in the room
+   */
+  addMembers(incidentId: string, personnelIds: string[]) {
+    personnelIds.forEach((id) => this.io?.in(`personnel:${id}`).socketsJoin(IncidentChatService.room(incidentId)));
+  }
+
+  removeMember(incidentId: string, personnelId: string) {
+    this.io?.in(`personnel:${personnelId}`).socketsLeave(IncidentChatService.room(incidentId));
+  }
+
+  async assertMember(incidentId: string, actor: WorkflowActor) {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { id: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    if (actor.role === 'ADMIN') return;
+
+    const [assignment, responder] = await Promise.all([
+      this.prisma.incidentAssignment.findFirst({ where: { incidentId, personnelId: actor.id } }),
+      this.prisma.incidentResponder.findFirst({ where: { incidentId, personnelId: actor.id } }),
+    ]);
+
+    if (!assignment && !responder) {
+      throw new ForbiddenError('You are not part of this incident chat');
+    }
+  }
+
+  /**
+   * Store and broadcast a message. Resending the same clientMessageId
+   * returns the stored message instead of a duplicate.
+   */
+  async sendMessage(data: SendChatMessageDTO, actor: WorkflowActor) {
+    await this.assertMember(data.incidentId, actor);
+
+    if (data.clientMessageId) {
+      const existing = await this.prisma.incidentChatMessage.findUnique({
+        where: { incidentId_clientMessageId: { incidentId: data.incidentId, clientMessageId: data.clientMessageId } },
+        include: messageInclude,
+      });
+      if (existing) return this.formatMessage(existing);
+    }
+
+    // Pending receipts let responders who are offline get the message later
+    const recipients = (await this.getParticipantIds(data.incidentId))
+      .filter((id) => actor.role !== 'PERSONNEL' || id !== actor.id);
+
+    const message = await this.prisma.incidentChatMessage.create({
+      data: {
+        incidentId: data.incidentId,
+        body: data.body,
+        clientMessageId: data.clientMessageId,
+        ...(actor.role === 'ADMIN' ? { senderUserId: actor.id } : { senderPersonnelId: actor.id }),
+        receipts: { create: recipients.map((personnelId) => ({ personnelId })) },
+      },
+      include: messageInclude,
+    });
+
+    const formatted = this.formatMessage(message);
+    this.io?.to(IncidentChatService.room(data.incidentId)).to('admin').emit('incident:message', formatted);
+
+    return formatted;
+  }
+
+  async markDelivered(data: ChatReceiptDTO, actor: WorkflowActor) {
+    return this.updateReceipts(data, actor, 'DELIVERED');
+  }
+
+  /**
+   * Reading a message also counts as delivering it
+   */
+  async markRead(data: ChatReceiptDTO, actor: WorkflowActor) {
+    return this.updateReceipts(data, actor, 'READ');
+  }
+
+  /**
+   * Page backwards through the history; messages come back oldest first
+   */
+  async getHistory(incidentId: string, query: ChatHistoryQuery, actor: WorkflowActor) {
+    await this.assertMember(incidentId, actor);
+
+    const limit = query.limit || CONSTANTS.INCIDENT_CHAT.HISTORY_PAGE_SIZE;
+    let cursor: Prisma.IncidentChatMessageWhereInput = {};
+
+    if (query.before) {
+      const before = await this.prisma.incidentChatMessage.findFirst({
+        where: { id: query.before, incidentId },
+        select: { id: true, createdAt: true },
+      });
+
+      if (!before) {
+        throw new NotFoundError('Message not found');
+      }
+
+      cursor = {
+        OR: [
+          { createdAt: { lt: before.createdAt } },
+          { createdAt: before.createdAt, id: { lt: before.id } },
+        ],
+      };
+    }
+
+    const messages = await this.prisma.incidentChatMessage.findMany({
+      where: { incidentId, ...cursor },
+      include: messageInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+    });
+
+    const hasMore = messages.length > limit;
+    const page = messages.slice(0, limit).reverse();
+
+    return {
+      messages: page.map((message) => this.formatMessage(message)),
+      hasMore,
+      nextCursor: hasMore ? page[0].id : null,
+    };
+  }
+
+  /**
+   * Messages sent to a responder that never reached any of their devices
+   */
+  async getUndelivered(personnelId: string) {
+    const messages = await this.prisma.incidentChatMessage.findMany({
+      where: { receipts: { some: { personnelId, deliveredAt: null } } },
+      include: messageInclude,
+      orderBy: { createdAt: 'asc' },
+      take: CONSTANTS.INCIDENT_CHAT.MAX_OFFLINE_REPLAY,
+    });
+
+    return messages.map((message) => this.formatMessage(message));
+  }
+
+  private async updateReceipts(data: ChatReceiptDTO, actor: WorkflowActor, status: 'DELIVERED' | 'READ') {
+    await this.assertMember(data.incidentId, actor);
+
+    // Own messages and messages of other incidents are ignored
+    const messages = await this.prisma.incidentChatMessage.findMany({
+      where: {
+        id: { in: data.messageIds },
+        incidentId: data.incidentId,
+        ...(actor.role === 'ADMIN'
+          ? { OR: [{ senderUserId: null }, { senderUserId: { not: actor.id } }] }
+          : { OR: [{ senderPersonnelId: null }, { senderPersonnelId: { not: actor.id } }] }),
+      },
+      select: { id: true },
+    });
+
+    const now = new Date();
+    const recipient = actorReference(actor);
+
+    await Promise.all(messages.map(({ id: messageId }) => {
+      const where: Prisma.IncidentChatReceiptWhereUniqueInput = recipient.userId
+        ? { messageId_userId: { messageId, userId: recipient.userId } }
+        : { messageId_personnelId: { messageId, personnelId: recipient.personnelId! } };
+
+      return this.prisma.incidentChatReceipt.upsert({
+        where,
+        create: { messageId, ...recipient, deliveredAt: now, ...(status === 'READ' && { readAt: now }) },
+        update: status === 'READ' ? { readAt: now } : { deliveredAt: now },
+      });
+    }));
+
+    // Earlier delivery times are kept when a message is read
+    if (status === 'READ') {
+      await this.prisma.incidentChatReceipt.updateMany({
+        where: { messageId: { in: messages.map((m) => m.id) }, ...recipient, deliveredAt: null },
+        data: { deliveredAt: now },
+      });
+    }
+
+    const receipt = {
+      incidentId: data.incidentId,
+      messageIds: messages.map((m) => m.id),
+      recipient: { type: actor.role === 'ADMIN' ? 'USER' : 'PERSONNEL', id: actor.id },
+      status,
+      at: now.toISOString(),
+    };
+
+    if (receipt.messageIds.length > 0) {
+      this.io?.to(IncidentChatService.room(data.incidentId)).to('admin').emit('incident:message:receipt', receipt);
+    }
+
+    return receipt;
+  }
+
+  private async getParticipantIds(incidentId: string): Promise<string[]> {
+    const [assignments, responders] = await Promise.all([
+      this.prisma.incidentAssignment.findMany({ where: { incidentId }, select: { personnelId: true } }),
+      this.prisma.incidentResponder.findMany({ where: { incidentId }, select: { personnelId: true } }),
+    ]);
+
+    return Array.from(new Set([...assignments, ...responders].map((row) => row.personnelId)));
+  }
+
+  private async getActiveIncidentIds(personnelId: string): Promise<string[]> {
+    const open = { status: { notIn: CLOSED_STATUSES } };
+
+    const [assignments, responders] = await Promise.all([
+      this.prisma.incidentAssignment.findMany({
+        where: { personnelId, incident: open },
+        select: { incidentId: true },
+      }),
+      this.prisma.incidentResponder.findMany({
+        where: { personnelId, incident: open },
+        select: { incidentId: true },
+      }),
+    ]);
+
+    return Array.from(new Set([...assignments, ...responders].map((row) => row.incidentId)));
+  }
+
+  private formatMessage(message: ChatMessageWithSender) {
+    let sender: ChatParticipant | null = null;
+    if (message.senderUser) {
+      sender = { type: 'USER', id: message.senderUser.id, name: `${message.senderUser.firstName} ${message.senderUser.lastName}` };
+    } else if (message.senderPersonnel) {
+      sender = { type: 'PERSONNEL', id: message.senderPersonnel.id, name: `${message.senderPersonnel.firstName} ${message.senderPersonnel.lastName}` };
+    }
+
+    return {
+      id: message.id,
+      incidentId: message.incidentId,
+      body: message.body,
+      sender,
+      clientMessageId: message.clientMessageId,
+      createdAt: message.createdAt,
+      receipts: {
+        delivered: message.receipts.filter((r) => r.deliveredAt).length,
+        read: message.receipts.filter((r) => r.readAt).length,
+        pending: message.receipts.filter((r) => !r.deliveredAt).length,
+        details: message.receipts,
+      },
+    };
+  }
+}
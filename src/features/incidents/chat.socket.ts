@@ -0,0 +1,88 @@
+import { PrismaClient } from '@prisma/client';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { handleSocketEvent, RateLimitCheck } from '../../core/utils/socket-handler';
+import { AppError, ForbiddenError } from '../../core/errors';
+import { WorkflowActor } from './workflow.types';
+import { IncidentChatService } from './chat.service';
+import {
+  sendChatMessageSchema,
+  chatReceiptSchema,
+  chatTypingSchema,
+} from './chat.schema';
+
+/**
+ * Incident chat events for one connected socket. Personnel join the rooms of
+ * their open incidents on connect and receive the messages they missed.
+ * Resolves once those rooms are joined.
+ */
+export function registerIncidentChatHandlers(
+  io: SocketIOServer,
+  socket: Socket,
+  prisma: PrismaClient,
+  checkRateLimit: RateLimitCheck
+): Promise<void> {
+  const { userId, role } = socket.data;
+  const actor: WorkflowActor = { role: role === 'PERSONNEL' ? 'PERSONNEL' : 'ADMIN', id: userId };
+  const chat = new IncidentChatService(prisma, io);
+
+  const roomsJoined = chat.getRoomsFor(actor)
+    .then((rooms) => {
+      if (rooms.length > 0) socket.join(rooms);
+    })
+    .catch((error) => {
+      logger.error(`[WebSocket] Failed to join incident rooms for ${userId}:`, error);
+    });
+
+  // Missed messages are delivered again until the client acknowledges them
+  if (actor.role === 'PERSONNEL') {
+    void roomsJoined.then(async () => {
+      try {
+        const missed = await chat.getUndelivered(userId);
+        missed.forEach((message) => socket.emit('incident:message', { ...message, offline: true }));
+        if (missed.length > 0) {
+          logger.info(`[WebSocket] Replayed ${missed.length} chat messages to ${userId}`);
+        }
+      } catch (error) {
+        logger.error(`[WebSocket] Failed to restore incident chat for ${userId}:`, error);
+      }
+    });
+  }
+
+  handleSocketEvent(socket, 'incident:message', sendChatMessageSchema, async (data) => {
+    if (!checkRateLimit(userId, 'chat', CONSTANTS.INCIDENT_CHAT.MESSAGES_PER_MINUTE, 60000)) {
+      throw new AppError('Rate limit exceeded', 429);
+    }
+    return chat.sendMessage(data, actor);
+  });
+
+  handleSocketEvent(socket, 'incident:message:delivered', chatReceiptSchema, (data) => chat.markDelivered(data, actor));
+
+  handleSocketEvent(socket, 'incident:message:read', chatReceiptSchema, (data) => chat.markRead(data, actor));
+
+  // Typing indicators are not persisted and only go to the other members
+  handleSocketEvent(socket, 'incident:typing', chatTypingSchema, async (data) => {
+    const room = IncidentChatService.room(data.incidentId);
+    if (!socket.rooms.has(room) && actor.role !== 'ADMIN') {
+      throw new ForbiddenError('Join the incident chat first');
+    }
+
+    socket.to(room).to('admin').emit('incident:typing', {
+      incidentId: data.incidentId,
+      senderType: actor.role === 'ADMIN' ? 'USER' : 'PERSONNEL',
+      senderId: userId,
+      isTyping: data.isTyping,
+    });
+    return undefined;
+  });
+
+  // Lets clients open a chat for an incident they were added to while connected elsewhere
+  handleSocketEvent(socket, 'incident:join', chatTypingSchema.pick({ incidentId: true }), async (data) => {
+    await chat.assertMember(data.incidentId, actor);
+    socket.join(IncidentChatService.room(data.incidentId));
+    return { room: IncidentChatService.room(data.incidentId) };
+  });
+
+  return roomsJoined;
+}
@@ -0,0 +1,27 @@
+export interface SendChatMessageDTO {
+  incidentId: string;
+  body: string;
+  clientMessageId?: string;
+}
+
+export interface ChatReceiptDTO {
+  incidentId: string;
+  messageIds: string[];
+}
+
+export interface ChatTypingDTO {
+  incidentId: string;
+  isTyping: boolean;
+}
+
+export interface ChatHistoryQuery {
+  // Message ID to page back from; newest messages when omitted
+  before?: string;
+  limit?: number;
+}
+
+export interface ChatParticipant {
+  type: 'USER' | 'PERSONNEL';
+  id: string;
+  name: string;
+}
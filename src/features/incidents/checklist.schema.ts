@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+export const updateChecklistItemSchema = z.object({
+  completed: z.boolean(),
+  notes: z.string().optional(),
+});
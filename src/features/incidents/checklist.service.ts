@@ -0,0 +1,186 @@
+import { PrismaClient, Incident } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../core/errors';
+import { logger } from '../../core/utils/logger';
+import { actorReference } from './workflow.service';
+import { WorkflowActor } from './workflow.types';
+import { ChecklistProgress, UpdateChecklistItemDTO } from './checklist.types';
+
+type ChecklistIncident = Pick<Incident, 'id' | 'type' | 'priority'>;
+
+export class IncidentChecklistService {
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {}
+
+  /**
+   * Copy every matching active playbook onto the incident. Playbooks already
+   * applied (e.g. when a reopened incident is verified again) are skipped.
+   */
+  async instantiate(incident: ChecklistIncident) {
+    const [playbooks, existing] = await Promise.all([
+      this.prisma.playbook.findMany({
+        where: {
+          isActive: true,
+          OR: [{ incidentType: null }, { incidentType: incident.type }],
+          AND: [{ OR: [{ incidentPriority: null }, { incidentPriority: incident.priority }] }],
+        },
+        include: { items: { orderBy: { order: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.incidentChecklistItem.findMany({
+        where: { incidentId: incident.id },
+        select: { playbookId: true, order: true },
+      }),
+    ]);
+
+    const applied = new Set(existing.map((item) => item.playbookId));
+    const toApply = playbooks.filter((playbook) => !applied.has(playbook.id));
+    if (toApply.length === 0) return 0;
+
+    // Items of several playbooks are listed one playbook after the other
+    let order = existing.reduce((max, item) => Math.max(max, item.order), 0);
+    const rows = toApply.flatMap((playbook) =>
+      playbook.items.map((item) => ({
+        incidentId: incident.id,
+        playbookId: playbook.id,
+        order: ++order,
+        title: item.title,
+        description: item.description,
+        blocksResolution: playbook.requiredForResolution && item.isRequired,
+      }))
+    );
+
+    await this.prisma.incidentChecklistItem.createMany({ data: rows });
+
+    logger.info(
+      `[Checklist] Applied ${toApply.map((playbook) => playbook.name).join(', ')} to incident ${incident.id}`
+    );
+
+    return rows.length;
+  }
+
+  async getChecklist(incidentId: string) {
+    const incident = await this.prisma.incident.findUnique({ where: { id: incidentId } });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    const items = await this.prisma.incidentChecklistItem.findMany({
+      where: { incidentId },
+      include: {
+        playbook: { select: { id: true, name: true } },
+        completedBy: { select: { id: true, firstName: true, lastName: true } },
+        completedByPersonnel: { select: { id: true, firstName: true, lastName: true, role: true } },
+      },
+      orderBy: { order: 'asc' },
+    });
+
+    return { items, progress: this.summarize(items) };
+  }
+
+  /**
+   * Tick or untick a checklist item. Every change is logged as an incident update.
+   */
+  async setItemCompleted(incidentId: string, itemId: string, data: UpdateChecklistItemDTO, actor: WorkflowActor) {
+    const item = await this.prisma.incidentChecklistItem.findFirst({
+      where: { id: itemId, incidentId },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Checklist item not found');
+    }
+
+    await this.assertCanTick(incidentId, actor);
+
+    const completedBy = actor.role === 'ADMIN'
+      ? { completedById: actor.id, completedByPersonnelId: null }
+      : { completedById: null, completedByPersonnelId: actor.id };
+
+    const updated = await this.prisma.incidentChecklistItem.update({
+      where: { id: itemId },
+      data: data.completed
+        ? { completedAt: new Date(), ...completedBy, notes: data.notes ?? item.notes }
+        : { completedAt: null, completedById: null, completedByPersonnelId: null, notes: data.notes ?? item.notes },
+    });
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId,
+        ...actorReference(actor),
+        message: data.completed
+          ? `Checklist: "${item.title}" completed${data.notes ? ` - ${data.notes}` : ''}`
+          : `Checklist: "${item.title}" reopened`,
+        updateType: 'INFO',
+        metadata: { checklistItemId: itemId, completed: data.completed },
+      },
+    });
+
+    const progress = await this.getProgress(incidentId);
+    this.io?.to('admin').emit('incident:checklist-updated', {
+      incidentId,
+      itemId,
+      completed: data.completed,
+      progress,
+    });
+
+    return { item: updated, progress };
+  }
+
+  async getProgress(incidentId: string): Promise<ChecklistProgress> {
+    const items = await this.prisma.incidentChecklistItem.findMany({
+      where: { incidentId },
+      select: { completedAt: true, blocksResolution: true },
+    });
+
+    return this.summarize(items);
+  }
+
+  /**
+   * Resolution reports wait for every blocking checklist item
+   */
+  async assertResolutionPrerequisites(incidentId: string) {
+    const pending = await this.prisma.incidentChecklistItem.findMany({
+      where: { incidentId, blocksResolution: true, completedAt: null },
+      select: { title: true },
+      orderBy: { order: 'asc' },
+    });
+
+    if (pending.length > 0) {
+      throw new ValidationError(
+        'Complete the required checklist items before submitting a resolution',
+        pending.map((item) => ({ field: 'checklist', message: item.title }))
+      );
+    }
+  }
+
+  private summarize(items: Array<{ completedAt: Date | null; blocksResolution: boolean }>): ChecklistProgress {
+    const completed = items.filter((item) => item.completedAt !== null).length;
+    const blocking = items.filter((item) => item.blocksResolution);
+    const blockingCompleted = blocking.filter((item) => item.completedAt !== null).length;
+
+    return {
+      total: items.length,
+      completed,
+      percentage: items.length > 0 ? Math.round((completed / items.length) * 100) : 0,
+      blocking: blocking.length,
+      blockingCompleted,
+      canSubmitResolution: blockingCompleted === blocking.length,
+    };
+  }
+
+  /**
+   * Personnel can only tick items on incidents they are assigned to or responding to
+   */
+  private async assertCanTick(incidentId: string, actor: WorkflowActor) {
+    if (actor.role === 'ADMIN') return;
+
+    const [assignment, responder] = await Promise.all([
+      this.prisma.incidentAssignment.findFirst({ where: { incidentId, personnelId: actor.id } }),
+      this.prisma.incidentResponder.findFirst({ where: { incidentId, personnelId: actor.id } }),
+    ]);
+
+    if (!assignment && !responder) {
+      throw new ForbiddenError('You must be assigned to this incident to update its checklist');
+    }
+  }
+}
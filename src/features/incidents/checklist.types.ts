@@ -0,0 +1,14 @@
+export interface UpdateChecklistItemDTO {
+  completed: boolean;
+  notes?: string;
+}
+
+export interface ChecklistProgress {
+  total: number;
+  completed: number;
+  percentage: number;
+  // Items that must be completed before a resolution can be submitted
+  blocking: number;
+  blockingCompleted: number;
+  canSubmitResolution: boolean;
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const createCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  parentId: z.string().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+});
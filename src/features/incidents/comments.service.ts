@@ -0,0 +1,453 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../core/errors';
+import { logger } from '../../core/utils/logger';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WorkflowActor } from './workflow.types';
+import { actorReference } from './workflow.service';
+import {
+  CreateCommentDTO,
+  UpdateCommentDTO,
+  CommentMentions,
+  IncidentUnreadSummary,
+} from './comments.types';
+
+// @[Display Name](user:ID) or @[Display Name](personnel:ID)
+const MENTION_PATTERN = /@\[([^\]]+)\]\((user|personnel):([A-Za-z0-9_-]+)\)/g;
+
+const commentInclude = {
+  authorUser: { select: { id: true, firstName: true, lastName: true, role: true } },
+  authorPersonnel: { select: { id: true, firstName: true, lastName: true, role: true, employeeId: true } },
+  mentions: { select: { userId: true, personnelId: true } },
+  _count: { select: { revisions: true } },
+} satisfies Prisma.IncidentCommentInclude;
+
+type CommentWithAuthor = Prisma.IncidentCommentGetPayload<{ include: typeof commentInclude }>;
+
+export class IncidentCommentsService {
+  private notificationsService: NotificationsService;
+
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {
+    this.notificationsService = new NotificationsService(prisma);
+  }
+
+  /**
+   * Threads in posting order, each with its replies, flagged against the
+   * reader's read marker
+   */
+  async getComments(incidentId: string, actor: WorkflowActor) {
+    await this.findIncident(incidentId);
+
+    const [comments, marker] = await Promise.all([
+      this.prisma.incidentComment.findMany({
+        where: { incidentId },
+        include: commentInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.incidentReadMarker.findFirst({
+        where: { incidentId, ...actorReference(actor) },
+      }),
+    ]);
+
+    const lastReadAt = marker?.lastReadAt ?? null;
+    const formatted = comments.map((comment) => this.formatComment(comment, actor, lastReadAt));
+
+    const threads = formatted
+      .filter((comment) => !comment.parentId)
+      .map((comment) => ({
+        ...comment,
+        replies: formatted.filter((reply) => reply.parentId === comment.id),
+      }));
+
+    return {
+      threads,
+      total: comments.length,
+      unread: formatted.filter((comment) => comment.isUnread).length,
+      lastReadAt,
+    };
+  }
+
+  async addComment(incidentId: string, data: CreateCommentDTO, actor: WorkflowActor) {
+    const incident = await this.findIncident(incidentId);
+    await this.assertCanComment(incidentId, actor);
+
+    let parentId: string | undefined;
+    if (data.parentId) {
+      const parent = await this.findComment(incidentId, data.parentId);
+      // Replies to a reply join the same thread
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const mentions = await this.resolveMentions(data.body);
+
+    const comment = await this.prisma.incidentComment.create({
+      data: {
+        incidentId,
+        parentId,
+        body: data.body,
+        ...this.authorReference(actor),
+        mentions: { create: this.mentionRows(mentions) },
+      },
+      include: commentInclude,
+    });
+
+    // Your own comment is not unread activity
+    await this.markRead(incidentId, actor);
+
+    const formatted = this.formatComment(comment, actor, new Date());
+    this.io?.emit('incident:comment-added', { incidentId, comment: formatted });
+
+    await this.notifyMentions(incident, formatted, this.excludeAuthor(mentions, actor));
+
+    return formatted;
+  }
+
+  /**
+   * Only the author can edit; the previous body is kept as a revision
+   */
+  async updateComment(incidentId: string, commentId: string, data: UpdateCommentDTO, actor: WorkflowActor) {
+    const incident = await this.findIncident(incidentId);
+    const existing = await this.findComment(incidentId, commentId);
+
+    if (!this.isAuthor(existing, actor)) {
+      throw new ForbiddenError('Only the author can edit a comment');
+    }
+
+    if (existing.deletedAt) {
+      throw new ValidationError('Deleted comments cannot be edited');
+    }
+
+    if (existing.body === data.body) {
+      const unchanged = await this.prisma.incidentComment.findUniqueOrThrow({
+        where: { id: commentId },
+        include: commentInclude,
+      });
+      return this.formatComment(unchanged, actor, new Date());
+    }
+
+    const previous = this.mentionsOf(existing.mentions);
+    const mentions = await this.resolveMentions(data.body);
+
+    const [, comment] = await this.prisma.$transaction([
+      this.prisma.incidentCommentRevision.create({
+        data: { commentId, body: existing.body },
+      }),
+      this.prisma.incidentComment.update({
+        where: { id: commentId },
+        data: {
+          body: data.body,
+          editedAt: new Date(),
+          mentions: {
+            deleteMany: {},
+            create: this.mentionRows(mentions),
+          },
+        },
+        include: commentInclude,
+      }),
+    ]);
+
+    const formatted = this.formatComment(comment, actor, new Date());
+    this.io?.emit('incident:comment-updated', { incidentId, comment: formatted });
+
+    // Only people newly mentioned by the edit are notified
+    await this.notifyMentions(incident, formatted, this.excludeAuthor({
+      userIds: mentions.userIds.filter((id) => !previous.userIds.includes(id)),
+      personnelIds: mentions.personnelIds.filter((id) => !previous.personnelIds.includes(id)),
+    }, actor));
+
+    return formatted;
+  }
+
+  /**
+   * Earlier bodies of a comment, oldest first, followed by the current one
+   */
+  async getCommentHistory(incidentId: string, commentId: string) {
+    const comment = await this.findComment(incidentId, commentId);
+
+    const revisions = await this.prisma.incidentCommentRevision.findMany({
+      where: { commentId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      commentId,
+      current: comment.deletedAt ? null : { body: comment.body, since: comment.editedAt ?? comment.createdAt },
+      revisions: revisions.map((revision, index) => ({
+        body: revision.body,
+        since: index === 0 ? comment.createdAt : revisions[index - 1].createdAt,
+        replacedAt: revision.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Authors and admins can delete; the thread keeps its replies
+   */
+  async deleteComment(incidentId: string, commentId: string, actor: WorkflowActor) {
+    const comment = await this.findComment(incidentId, commentId);
+
+    if (actor.role !== 'ADMIN' && !this.isAuthor(comment, actor)) {
+      throw new ForbiddenError('Only the author or an admin can delete a comment');
+    }
+
+    if (!comment.deletedAt) {
+      await this.prisma.incidentComment.update({
+        where: { id: commentId },
+        data: { deletedAt: new Date() },
+      });
+
+      this.io?.emit('incident:comment-deleted', { incidentId, commentId });
+    }
+
+    return { id: commentId };
+  }
+
+  /**
+   * Move the reader's marker to now
+   */
+  async markRead(incidentId: string, actor: WorkflowActor) {
+    await this.findIncident(incidentId);
+
+    const lastReadAt = new Date();
+    const reader = actorReference(actor);
+
+    await this.prisma.incidentReadMarker.upsert({
+      where: reader.userId
+        ? { incidentId_userId: { incidentId, userId: reader.userId } }
+        : { incidentId_personnelId: { incidentId, personnelId: reader.personnelId! } },
+      create: { incidentId, ...reader, lastReadAt },
+      update: { lastReadAt },
+    });
+
+    return { incidentId, lastReadAt };
+  }
+
+  /**
+   * Incidents with comments or updates the reader has not seen yet. Covers
+   * incidents the reader has opened before, was mentioned on or (personnel)
+   * is assigned to.
+   */
+  async getUnread(actor: WorkflowActor): Promise<IncidentUnreadSummary[]> {
+    const reader = actorReference(actor);
+
+    const [markers, mentions, assignments, responders] = await Promise.all([
+      this.prisma.incidentReadMarker.findMany({ where: reader }),
+      this.prisma.incidentCommentMention.findMany({
+        where: reader,
+        select: { comment: { select: { incidentId: true } } },
+      }),
+      actor.role === 'PERSONNEL'
+        ? this.prisma.incidentAssignment.findMany({ where: { personnelId: actor.id }, select: { incidentId: true } })
+        : Promise.resolve([]),
+      actor.role === 'PERSONNEL'
+        ? this.prisma.incidentResponder.findMany({ where: { personnelId: actor.id }, select: { incidentId: true } })
+        : Promise.resolve([]),
+    ]);
+
+    const incidentIds = Array.from(new Set([
+      ...markers.map((m) => m.incidentId),
+      ...mentions.map((m) => m.comment.incidentId),
+      ...assignments.map((a) => a.incidentId),
+      ...responders.map((r) => r.incidentId),
+    ]));
+
+    const incidents = await this.prisma.incident.findMany({
+      where: { id: { in: incidentIds } },
+      select: { id: true, incidentNumber: true, title: true, status: true },
+    });
+
+    const notByReader = actor.role === 'ADMIN'
+      ? { NOT: { userId: actor.id } }
+      : { NOT: { personnelId: actor.id } };
+    const notAuthoredByReader = actor.role === 'ADMIN'
+      ? { NOT: { authorUserId: actor.id } }
+      : { NOT: { authorPersonnelId: actor.id } };
+
+    const summaries = await Promise.all(incidents.map(async (incident) => {
+      const lastReadAt = markers.find((m) => m.incidentId === incident.id)?.lastReadAt ?? null;
+      const since = { gt: lastReadAt ?? new Date(0) };
+
+      const [unreadComments, unreadUpdates, mentionCount] = await Promise.all([
+        this.prisma.incidentComment.count({
+          where: { incidentId: incident.id, createdAt: since, deletedAt: null, ...notAuthoredByReader },
+        }),
+        this.prisma.incidentUpdate.count({
+          where: { incidentId: incident.id, createdAt: since, ...notByReader },
+        }),
+        this.prisma.incidentCommentMention.count({
+          where: { ...reader, comment: { incidentId: incident.id, createdAt: since, deletedAt: null } },
+        }),
+      ]);
+
+      return {
+        incidentId: incident.id,
+        incidentNumber: incident.incidentNumber,
+        title: incident.title,
+        status: incident.status,
+        lastReadAt,
+        unreadComments,
+        unreadUpdates,
+        mentioned: mentionCount > 0,
+      };
+    }));
+
+    return summaries
+      .filter((s) => s.unreadComments > 0 || s.unreadUpdates > 0)
+      .sort((a, b) => Number(b.mentioned) - Number(a.mentioned) || b.unreadComments - a.unreadComments);
+  }
+
+  /**
+   * Mentioned IDs that belong to an existing account; unknown ones stay plain text
+   */
+  private async resolveMentions(body: string): Promise<CommentMentions> {
+    const userIds = new Set<string>();
+    const personnelIds = new Set<string>();
+
+    for (const match of body.matchAll(MENTION_PATTERN)) {
+      (match[2] === 'user' ? userIds : personnelIds).add(match[3]);
+    }
+
+    const [users, personnel] = await Promise.all([
+      userIds.size > 0
+        ? this.prisma.user.findMany({ where: { id: { in: [...userIds] } }, select: { id: true } })
+        : Promise.resolve([]),
+      personnelIds.size > 0
+        ? this.prisma.personnel.findMany({ where: { id: { in: [...personnelIds] } }, select: { id: true } })
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      userIds: users.map((u) => u.id),
+      personnelIds: personnel.map((p) => p.id),
+    };
+  }
+
+  private async notifyMentions(
+    incident: { id: string; incidentNumber: string },
+    comment: ReturnType<IncidentCommentsService['formatComment']>,
+    mentions: CommentMentions
+  ) {
+    if (mentions.userIds.length === 0 && mentions.personnelIds.length === 0) return;
+
+    const excerpt = (comment.body ?? '').replace(MENTION_PATTERN, '@$1').slice(0, 140);
+    const payload = {
+      incidentId: incident.id,
+      incidentNumber: incident.incidentNumber,
+      commentId: comment.id,
+      parentId: comment.parentId,
+      author: comment.author,
+      excerpt,
+      timestamp: comment.createdAt,
+    };
+
+    mentions.personnelIds.forEach((id) => this.io?.to(`personnel:${id}`).emit('incident:mention', payload));
+    mentions.userIds.forEach((id) => this.io?.to(`user:${id}`).emit('incident:mention', payload));
+
+    try {
+      await this.notificationsService.notifyMentioned(
+        incident.id,
+        [...mentions.userIds, ...mentions.personnelIds],
+        comment.author?.name ?? 'Someone',
+        excerpt
+      );
+    } catch (error) {
+      logger.error(`[Comments] Failed to notify mentions on incident ${incident.id}:`, error);
+    }
+  }
+
+  private formatComment(comment: CommentWithAuthor, actor: WorkflowActor, lastReadAt: Date | null) {
+    const author = comment.authorUser
+      ? { type: 'USER' as const, ...comment.authorUser, name: `${comment.authorUser.firstName} ${comment.authorUser.lastName}` }
+      : comment.authorPersonnel
+        ? { type: 'PERSONNEL' as const, ...comment.authorPersonnel, name: `${comment.authorPersonnel.firstName} ${comment.authorPersonnel.lastName}` }
+        : null;
+
+    return {
+      id: comment.id,
+      incidentId: comment.incidentId,
+      parentId: comment.parentId,
+      body: comment.deletedAt ? null : comment.body,
+      author,
+      mentions: comment.deletedAt ? { userIds: [], personnelIds: [] } : this.mentionsOf(comment.mentions),
+      isEdited: !!comment.editedAt,
+      editedAt: comment.editedAt,
+      revisionCount: comment._count.revisions,
+      isDeleted: !!comment.deletedAt,
+      isUnread: !this.isAuthor(comment, actor) && !comment.deletedAt && (!lastReadAt || comment.createdAt > lastReadAt),
+      createdAt: comment.createdAt,
+    };
+  }
+
+  private mentionsOf(rows: { userId: string | null; personnelId: string | null }[]): CommentMentions {
+    return {
+      userIds: rows.filter((row) => row.userId).map((row) => row.userId!),
+      personnelIds: rows.filter((row) => row.personnelId).map((row) => row.personnelId!),
+    };
+  }
+
+  private mentionRows(mentions: CommentMentions) {
+    return [
+      ...mentions.userIds.map((userId) => ({ userId })),
+      ...mentions.personnelIds.map((personnelId) => ({ personnelId })),
+    ];
+  }
+
+  private excludeAuthor(mentions: CommentMentions, actor: WorkflowActor): CommentMentions {
+    return {
+      userIds: mentions.userIds.filter((id) => actor.role !== 'ADMIN' || id !== actor.id),
+      personnelIds: mentions.personnelIds.filter((id) => actor.role !== 'PERSONNEL' || id !== actor.id),
+    };
+  }
+
+  private isAuthor(comment: { authorUserId: string | null; authorPersonnelId: string | null }, actor: WorkflowActor) {
+    return actor.role === 'ADMIN' ? comment.authorUserId === actor.id : comment.authorPersonnelId === actor.id;
+  }
+
+  private authorReference(actor: WorkflowActor) {
+    return actor.role === 'ADMIN' ? { authorUserId: actor.id } : { authorPersonnelId: actor.id };
+  }
+
+  /**
+   * Personnel comment on incidents they are assigned to, responding to or
+   * were mentioned on
+   */
+  private async assertCanComment(incidentId: string, actor: WorkflowActor) {
+    if (actor.role === 'ADMIN') return;
+
+    const [assignment, responder, mention] = await Promise.all([
+      this.prisma.incidentAssignment.findFirst({ where: { incidentId, personnelId: actor.id } }),
+      this.prisma.incidentResponder.findFirst({ where: { incidentId, personnelId: actor.id } }),
+      this.prisma.incidentCommentMention.findFirst({ where: { personnelId: actor.id, comment: { incidentId } } }),
+    ]);
+
+    if (!assignment && !responder && !mention) {
+      throw new ForbiddenError('You must be assigned to this incident to comment');
+    }
+  }
+
+  private async findIncident(id: string) {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id },
+      select: { id: true, incidentNumber: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    return incident;
+  }
+
+  private async findComment(incidentId: string, commentId: string) {
+    const comment = await this.prisma.incidentComment.findFirst({
+      where: { id: commentId, incidentId },
+      include: { mentions: { select: { userId: true, personnelId: true } } },
+    });
+
+    if (!comment) {
+      throw new NotFoundError('Comment not found');
+    }
+
+    return comment;
+  }
+}
@@ -0,0 +1,27 @@
+export interface CreateCommentDTO {
+  // Mentions are written as @[Display Name](user:ID) or @[Display Name](personnel:ID)
+  body: string;
+  // Reply to this comment's thread
+  parentId?: string;
+}
+
+export interface UpdateCommentDTO {
+  body: string;
+}
+
+export interface CommentMentions {
+  userIds: string[];
+  personnelIds: string[];
+}
+
+export interface IncidentUnreadSummary {
+  incidentId: string;
+  incidentNumber: string;
+  title: string;
+  status: string;
+  lastReadAt: Date | null;
+  unreadComments: number;
+  unreadUpdates: number;
+  // An unread comment mentions the reader
+  mentioned: boolean;
+}
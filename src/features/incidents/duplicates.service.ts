@@ -0,0 +1,128 @@
+import { PrismaClient, IncidentStatus, IncidentType } from '@prisma/client';
+import { CONSTANTS } from '../../config/constants';
+import { GeoService } from '../../core/utils/geo';
+import { DuplicateCandidate, DuplicateSuggestion } from './incidents.types';
+
+// Incidents in these statuses are never suggested as duplicates
+const EXCLUDED_STATUSES: IncidentStatus[] = [
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+export class IncidentDuplicatesService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Find open incidents that are likely reports of the same emergency
+   */
+  async findDuplicates(candidate: DuplicateCandidate, excludeId?: string): Promise<DuplicateSuggestion[]> {
+    const config = CONSTANTS.DUPLICATE_DETECTION;
+    const windowMs = config.TIME_WINDOW_MINUTES * 60 * 1000;
+    const box = GeoService.boundingBox(candidate.latitude, candidate.longitude, config.MAX_DISTANCE_METERS);
+
+    const nearby = await this.prisma.incident.findMany({
+      where: {
+        ...(excludeId && { id: { not: excludeId } }),
+        mergedIntoId: null,
+        status: { notIn: EXCLUDED_STATUSES },
+        latitude: { gte: box.minLat, lte: box.maxLat },
+        longitude: { gte: box.minLon, lte: box.maxLon },
+        reportedAt: {
+          gte: new Date(candidate.reportedAt.getTime() - windowMs),
+          lte: new Date(candidate.reportedAt.getTime() + windowMs),
+        },
+      },
+      select: {
+        id: true,
+        incidentNumber: true,
+        type: true,
+        status: true,
+        description: true,
+        latitude: true,
+        longitude: true,
+        address: true,
+        reportedAt: true,
+      },
+    });
+
+    return nearby
+      .map((incident) => ({
+        incidentId: incident.id,
+        incidentNumber: incident.incidentNumber,
+        type: incident.type,
+        status: incident.status,
+        address: incident.address,
+        reportedAt: incident.reportedAt,
+        ...this.score(candidate, incident),
+      }))
+      .filter((suggestion) => suggestion.score >= config.MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, config.MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Weighted similarity between two reports. Every signal is normalised to 0-1.
+   */
+  score(a: DuplicateCandidate, b: DuplicateCandidate) {
+    const config = CONSTANTS.DUPLICATE_DETECTION;
+
+    const distanceMeters = GeoService.distanceMeters(a.latitude, a.longitude, b.latitude, b.longitude);
+    const minutesApart = Math.abs(a.reportedAt.getTime() - b.reportedAt.getTime()) / 60000;
+
+    const breakdown = {
+      distance: Math.max(0, 1 - distanceMeters / config.MAX_DISTANCE_METERS),
+      time: Math.max(0, 1 - minutesApart / config.TIME_WINDOW_MINUTES),
+      type: this.typeSimilarity(a.type, b.type),
+      description: this.textSimilarity(a.description, b.description),
+    };
+
+    const score =
+      breakdown.distance * config.WEIGHTS.DISTANCE +
+      breakdown.time * config.WEIGHTS.TIME +
+      breakdown.type * config.WEIGHTS.TYPE +
+      breakdown.description * config.WEIGHTS.DESCRIPTION;
+
+    return {
+      score: Math.round(score * 100) / 100,
+      distanceMeters: Math.round(distanceMeters),
+      minutesApart: Math.round(minutesApart),
+      breakdown,
+    };
+  }
+
+  private typeSimilarity(a: IncidentType, b: IncidentType): number {
+    if (a === b) return 1;
+    // OTHER is often picked by reporters who are unsure of the category
+    if (a === IncidentType.OTHER || b === IncidentType.OTHER) return 0.5;
+    return 0;
+  }
+
+  /**
+   * Jaccard similarity of the word sets of two descriptions
+   */
+  private textSimilarity(a: string, b: string): number {
+    const tokensA = this.tokenize(a);
+    const tokensB = this.tokenize(b);
+
+    if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+    let shared = 0;
+    tokensA.forEach((token) => {
+      if (tokensB.has(token)) shared++;
+    });
+
+    return shared / (tokensA.size + tokensB.size - shared);
+  }
+
+  private tokenize(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((token) => token.length >= 3)
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { env } from '../../config/environment';
+import { CONSTANTS } from '../../config/constants';
+import { AppError } from '../../core/errors';
+
+const MAX_ATTEMPTS = 5;
+
+export class IncidentNumberService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Reserve the next number in the per-year sequence.
+   * The upsert increments atomically, so concurrent callers never share a value.
+   */
+  async next(date: Date = new Date()): Promise<string> {
+    const year = date.getFullYear();
+
+    const [row] = await this.prisma.$queryRaw<{ lastValue: number }[]>`
+      INSERT INTO "incident_sequences" ("year", "lastValue", "updatedAt")
+      VALUES (${year}, 1, NOW())
+      ON CONFLICT ("year") DO UPDATE
+      SET "lastValue" = "incident_sequences"."lastValue" + 1, "updatedAt" = NOW()
+      RETURNING "lastValue"
+    `;
+
+    return IncidentNumberService.format(year, row.lastValue);
+  }
+
+  /**
+   * Run a create with a freshly reserved number, retrying with a new number if it
+   * collides with an existing incident (e.g. one numbered before the sequence existed)
+   */
+  async createWithNumber<T>(create: (incidentNumber: string) => Promise<T>): Promise<T> {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const incidentNumber = await this.next();
+
+      try {
+        return await create(incidentNumber);
+      } catch (error) {
+        if (!IncidentNumberService.isNumberConflict(error)) throw error;
+      }
+    }
+
+    throw new AppError('Could not allocate a unique incident number', 500);
+  }
+
+  /**
+   * Render an incident number using INCIDENT_NUMBER_FORMAT
+   */
+  static format(year: number, sequence: number, template: string = env.INCIDENT_NUMBER_FORMAT): string {
+    return template
+      .replace(/\{PREFIX\}/g, CONSTANTS.INCIDENT_NUMBER_PREFIX)
+      .replace(/\{YEAR\}/g, String(year))
+      .replace(/\{SEQ(?::(\d+))?\}/g, (_match, width?: string) =>
+        String(sequence).padStart(width ? parseInt(width) : 0, '0')
+      );
+  }
+
+  private static isNumberConflict(error: unknown): boolean {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      return false;
+    }
+
+    const target = error.meta?.target;
+    return Array.isArray(target) ? target.includes('incidentNumber') : String(target).includes('incidentNumber');
+  }
+}
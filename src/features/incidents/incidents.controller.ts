@@ -1,7 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { IncidentsService } from './incidents.service';
-import { NotificationsService } from '../notifications/notifications.service';
 import { TimelineService } from './timeline.service';
+import { toWorkflowActor } from './workflow.service';
 import {
     CreateIncidentDTO,
     UpdateIncidentDTO,
@@ -10,130 +10,710 @@ import {
     AddIncidentUpdateDTO,
     UpdateIncidentStatusDTO,
     AcknowledgeIncidentDTO,
+    MergeIncidentsDTO,
+    RecommendedRespondersQuery,
+    DeleteIncidentDTO,
+    DeletedIncidentListQuery,
+    SetParentIncidentDTO,
+    AddIncidentLinkDTO,
 } from './incidents.types';
 import { IncidentPriority } from '@prisma/client';
 import { SubmitResolutionDTO, ConfirmResolutionDTO, UpdateResolutionDTO } from './resolution.types';
+import { UpdateMciModeDTO, CreatePatientDTO, UpdatePatientDTO } from './triage.types';
+import { UpdateChecklistItemDTO } from './checklist.types';
+import { CreateSavedViewDTO, UpdateSavedViewDTO } from './saved-views.types';
+import { BulkIncidentOperationDTO } from './bulk.types';
+import { CreateCommentDTO, UpdateCommentDTO } from './comments.types';
+import { ChatHistoryQuery } from './chat.types';
+import { AddIncidentTagsDTO } from '../tags/tags.types';
+import { IncidentVehicleDTO, ReleaseVehicleDTO } from '../fleet/fleet.types';
 import { SuccessResponse } from '../../types';
+import { ConcurrencyService } from '../../core/utils/concurrency';
 
 export class IncidentsController {
-    constructor(
-        private incidentsService: IncidentsService,
-        private notificationsService: NotificationsService
-    ) { }
+    constructor(private incidentsService: IncidentsService) { }
 
     async createIncident(
         request: FastifyRequest<{ Body: CreateIncidentDTO }>,
         reply: FastifyReply
     ) {
         const userId = request.user!.userId;
+
+        // Broadcast and personnel notification follow from IncidentCreated
         const incident = await this.incidentsService.createIncident(request.body, userId);
 
-        // Automatically notify available personnel of new incident
-        try {
-            await this.notificationsService.notifyAvailablePersonnelOfIncident(incident.id);
-        } catch (error) {
-            // Log error but don't fail the incident creation
-            // console.error('Failed to notify personnel of new incident:', error);
-        }
+        const response: SuccessResponse = {
+            success: true,
+            data: incident,
+            message: 'Incident created successfully',
+        };
+
+        return reply.status(201).send(response);
+    }
+
+    async getIncidents(
+        request: FastifyRequest<{ Querystring: IncidentListQuery }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getIncidents(request.query, request.user?.userId);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    async getIncidentById(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const incident = await this.incidentsService.getIncidentById(request.params.id);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: incident,
+        };
+
+        return reply.status(200).header('ETag', ConcurrencyService.etag(incident.version)).send(response);
+    }
+
+    async updateIncident(
+        request: FastifyRequest<{ Params: { id: string }; Body: UpdateIncidentDTO }>,
+        reply: FastifyReply
+    ) {
+        const incident = await this.incidentsService.updateIncident(
+            request.params.id,
+            request.body,
+            toWorkflowActor(request.user!),
+            ConcurrencyService.parseIfMatch(request.headers['if-match'])
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: incident,
+            message: 'Incident updated successfully',
+        };
+
+        return reply.status(200).header('ETag', ConcurrencyService.etag(incident.version)).send(response);
+    }
+
+    async updateStatus(
+        request: FastifyRequest<{ Params: { id: string }; Body: UpdateIncidentStatusDTO }>,
+        reply: FastifyReply
+    ) {
+        const incident = await this.incidentsService.updateStatus(
+            request.params.id,
+            request.body,
+            toWorkflowActor(request.user!),
+            ConcurrencyService.parseIfMatch(request.headers['if-match'])
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: incident,
+            message: 'Incident status updated successfully',
+        };
+
+        return reply.status(200).header('ETag', ConcurrencyService.etag(incident.version)).send(response);
+    }
+
+    /**
+     * Get the status transitions available to the caller
+     * GET /incidents/:id/transitions
+     */
+    async getTransitions(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getAvailableTransitions(
+            request.params.id,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Personnel ranked for assignment to this incident (Admin only)
+     * GET /incidents/:id/recommended-responders
+     */
+    async getRecommendedResponders(
+        request: FastifyRequest<{ Params: { id: string }; Querystring: RecommendedRespondersQuery }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getRecommendedResponders(
+            request.params.id,
+            request.query
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Major event, parent/child and related-to links
+     * GET /incidents/:id/links
+     */
+    async getLinks(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getIncidentLinks(request.params.id);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Set or clear the parent incident (Admin only)
+     * PUT /incidents/:id/parent
+     */
+    async setParent(
+        request: FastifyRequest<{ Params: { id: string }; Body: SetParentIncidentDTO }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.setParentIncident(
+            request.params.id,
+            request.body,
+            request.user!.userId
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: request.body.parentIncidentId ? 'Parent incident set' : 'Parent incident cleared',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Link a related incident (Admin only)
+     * POST /incidents/:id/links
+     */
+    async addLink(
+        request: FastifyRequest<{ Params: { id: string }; Body: AddIncidentLinkDTO }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.addIncidentLink(
+            request.params.id,
+            request.body,
+            request.user!.userId
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: 'Incidents linked successfully',
+        };
+
+        return reply.status(201).send(response);
+    }
+
+    /**
+     * Remove a related-to link (Admin only)
+     * DELETE /incidents/:id/links/:linkedIncidentId
+     */
+    async removeLink(
+        request: FastifyRequest<{ Params: { id: string; linkedIncidentId: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.removeIncidentLink(
+            request.params.id,
+            request.params.linkedIncidentId,
+            request.user!.userId
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: 'Incident link removed',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Tags on an incident
+     * GET /incidents/:id/tags
+     */
+    async getIncidentTags(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const tags = await this.incidentsService.getIncidentTags(request.params.id);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: tags,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Tag an incident, creating free-form tags as needed (Admin only)
+     * POST /incidents/:id/tags
+     */
+    async addIncidentTags(
+        request: FastifyRequest<{ Params: { id: string }; Body: AddIncidentTagsDTO }>,
+        reply: FastifyReply
+    ) {
+        const tags = await this.incidentsService.addIncidentTags(
+            request.params.id,
+            request.body,
+            request.user!.userId
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: tags,
+            message: 'Tags added',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Remove a tag from an incident (Admin only)
+     * DELETE /incidents/:id/tags/:tagId
+     */
+    async removeIncidentTag(
+        request: FastifyRequest<{ Params: { id: string; tagId: string } }>,
+        reply: FastifyReply
+    ) {
+        const tags = await this.incidentsService.removeIncidentTag(request.params.id, request.params.tagId);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: tags,
+            message: 'Tag removed',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Apply one action to many incidents (Admin only)
+     * POST /incidents/bulk
+     */
+    async bulkUpdate(
+        request: FastifyRequest<{ Body: BulkIncidentOperationDTO }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.bulkUpdate(request.body, toWorkflowActor(request.user!));
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: `${result.succeeded} of ${result.total} incidents updated`,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Threaded comments with the caller's unread flags
+     * GET /incidents/:id/comments
+     */
+    async getComments(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getComments(request.params.id, toWorkflowActor(request.user!));
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Post a comment or a reply; @mentions notify the people mentioned
+     * POST /incidents/:id/comments
+     */
+    async addComment(
+        request: FastifyRequest<{ Params: { id: string }; Body: CreateCommentDTO }>,
+        reply: FastifyReply
+    ) {
+        const comment = await this.incidentsService.addComment(
+            request.params.id,
+            request.body,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: comment,
+            message: 'Comment added',
+        };
+
+        return reply.status(201).send(response);
+    }
+
+    /**
+     * Edit own comment, keeping the previous text
+     * PUT /incidents/:id/comments/:commentId
+     */
+    async updateComment(
+        request: FastifyRequest<{ Params: { id: string; commentId: string }; Body: UpdateCommentDTO }>,
+        reply: FastifyReply
+    ) {
+        const comment = await this.incidentsService.updateComment(
+            request.params.id,
+            request.params.commentId,
+            request.body,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: comment,
+            message: 'Comment updated',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Edit history of a comment
+     * GET /incidents/:id/comments/:commentId/history
+     */
+    async getCommentHistory(
+        request: FastifyRequest<{ Params: { id: string; commentId: string } }>,
+        reply: FastifyReply
+    ) {
+        const history = await this.incidentsService.getCommentHistory(request.params.id, request.params.commentId);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: history,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Delete a comment (author or admin)
+     * DELETE /incidents/:id/comments/:commentId
+     */
+    async deleteComment(
+        request: FastifyRequest<{ Params: { id: string; commentId: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.deleteComment(
+            request.params.id,
+            request.params.commentId,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: 'Comment deleted',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Mark all current activity on an incident as read
+     * POST /incidents/:id/read
+     */
+    async markIncidentRead(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.markIncidentRead(request.params.id, toWorkflowActor(request.user!));
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Unread comments and updates per incident for the caller
+     * GET /incidents/unread
+     */
+    async getUnreadActivity(
+        request: FastifyRequest,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getUnreadActivity(toWorkflowActor(request.user!));
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Page back through the incident chat
+     * GET /incidents/:id/messages?before=<messageId>
+     */
+    async getChatMessages(
+        request: FastifyRequest<{ Params: { id: string }; Querystring: ChatHistoryQuery }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getChatHistory(
+            request.params.id,
+            request.query,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
 
-        // Emit WebSocket event
-        console.log('🆕 INCIDENT CREATED - DEBUG:');
-        console.log('  - Incident ID:', incident.id);
-        console.log('  - Incident Number:', incident.incidentNumber);
-        console.log('  - Socket.IO available:', !!request.server.io);
+        return reply.status(200).send(response);
+    }
 
-        if (request.server.io) {
-            console.log('  - Emitting incident:created event...');
-            request.server.io.emit('incident:created', incident);
-            console.log('✅ WebSocket event emitted');
-        }
+    /**
+     * Own and shared saved list views (Admin only)
+     * GET /incidents/views
+     */
+    async getSavedViews(
+        request: FastifyRequest,
+        reply: FastifyReply
+    ) {
+        const views = await this.incidentsService.getSavedViews(request.user!.userId);
 
         const response: SuccessResponse = {
             success: true,
-            data: incident,
-            message: 'Incident created successfully',
+            data: views,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Save the current list filters and sort as a named view (Admin only)
+     * POST /incidents/views
+     */
+    async createSavedView(
+        request: FastifyRequest<{ Body: CreateSavedViewDTO }>,
+        reply: FastifyReply
+    ) {
+        const view = await this.incidentsService.createSavedView(request.body, request.user!.userId);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: view,
+            message: 'View saved',
         };
 
         return reply.status(201).send(response);
     }
 
-    async getIncidents(
-        request: FastifyRequest<{ Querystring: IncidentListQuery }>,
+    /**
+     * Update or share a saved view (owner only)
+     * PUT /incidents/views/:viewId
+     */
+    async updateSavedView(
+        request: FastifyRequest<{ Params: { viewId: string }; Body: UpdateSavedViewDTO }>,
         reply: FastifyReply
     ) {
-        const result = await this.incidentsService.getIncidents(request.query);
+        const view = await this.incidentsService.updateSavedView(
+            request.params.viewId,
+            request.body,
+            request.user!.userId
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: view,
+            message: 'View updated',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Delete a saved view (owner only)
+     * DELETE /incidents/views/:viewId
+     */
+    async deleteSavedView(
+        request: FastifyRequest<{ Params: { viewId: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.deleteSavedView(request.params.viewId, request.user!.userId);
 
         const response: SuccessResponse = {
             success: true,
             data: result,
+            message: 'View deleted',
         };
 
         return reply.status(200).send(response);
     }
 
-    async getIncidentById(
+    /**
+     * Playbook checklist with completion progress
+     * GET /incidents/:id/checklist
+     */
+    async getChecklist(
         request: FastifyRequest<{ Params: { id: string } }>,
         reply: FastifyReply
     ) {
-        const incident = await this.incidentsService.getIncidentById(request.params.id);
+        const result = await this.incidentsService.getChecklist(request.params.id);
 
         const response: SuccessResponse = {
             success: true,
-            data: incident,
+            data: result,
         };
 
         return reply.status(200).send(response);
     }
 
-    async updateIncident(
-        request: FastifyRequest<{ Params: { id: string }; Body: UpdateIncidentDTO }>,
+    /**
+     * Tick or untick a checklist item
+     * PATCH /incidents/:id/checklist/:itemId
+     */
+    async updateChecklistItem(
+        request: FastifyRequest<{ Params: { id: string; itemId: string }; Body: UpdateChecklistItemDTO }>,
         reply: FastifyReply
     ) {
-        const userId = request.user!.userId;
-        const incident = await this.incidentsService.updateIncident(
+        const result = await this.incidentsService.updateChecklistItem(
             request.params.id,
+            request.params.itemId,
             request.body,
-            userId
+            toWorkflowActor(request.user!)
         );
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:updated', incident);
-        }
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: request.body.completed ? 'Checklist item completed' : 'Checklist item reopened',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Declare or stand down mass-casualty mode (Admin only)
+     * PATCH /incidents/:id/mci
+     */
+    async setMciMode(
+        request: FastifyRequest<{ Params: { id: string }; Body: UpdateMciModeDTO }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.setMciMode(
+            request.params.id,
+            request.body.enabled,
+            toWorkflowActor(request.user!)
+        );
 
         const response: SuccessResponse = {
             success: true,
-            data: incident,
-            message: 'Incident updated successfully',
+            data: result,
+            message: result.isMci ? 'Mass-casualty incident declared' : 'Mass-casualty mode stood down',
         };
 
         return reply.status(200).send(response);
     }
 
-    async updateStatus(
-        request: FastifyRequest<{ Params: { id: string }; Body: UpdateIncidentStatusDTO }>,
+    /**
+     * Patient triage records with counts by category
+     * GET /incidents/:id/patients
+     */
+    async getPatients(
+        request: FastifyRequest<{ Params: { id: string } }>,
         reply: FastifyReply
     ) {
-        const userId = request.user!.userId;
-        const incident = await this.incidentsService.updateStatus(
+        const result = await this.incidentsService.getPatients(request.params.id);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Record a triaged patient
+     * POST /incidents/:id/patients
+     */
+    async addPatient(
+        request: FastifyRequest<{ Params: { id: string }; Body: CreatePatientDTO }>,
+        reply: FastifyReply
+    ) {
+        const patient = await this.incidentsService.addPatient(
             request.params.id,
             request.body,
-            userId
+            toWorkflowActor(request.user!)
         );
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:status-changed', {
-                id: incident.id,
-                status: incident.status,
-                incidentNumber: incident.incidentNumber,
-            });
-        }
+        const response: SuccessResponse = {
+            success: true,
+            data: patient,
+            message: 'Patient recorded successfully',
+        };
+
+        return reply.status(201).send(response);
+    }
+
+    /**
+     * Update a patient record, e.g. re-triage or transport
+     * PUT /incidents/:id/patients/:patientId
+     */
+    async updatePatient(
+        request: FastifyRequest<{ Params: { id: string; patientId: string }; Body: UpdatePatientDTO }>,
+        reply: FastifyReply
+    ) {
+        const patient = await this.incidentsService.updatePatient(
+            request.params.id,
+            request.params.patientId,
+            request.body,
+            toWorkflowActor(request.user!)
+        );
 
         const response: SuccessResponse = {
             success: true,
-            data: incident,
-            message: 'Incident status updated successfully',
+            data: patient,
+            message: 'Patient updated successfully',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Remove a patient record entered in error (Admin only)
+     * DELETE /incidents/:id/patients/:patientId
+     */
+    async deletePatient(
+        request: FastifyRequest<{ Params: { id: string; patientId: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.deletePatient(request.params.id, request.params.patientId);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: 'Patient record deleted',
         };
 
         return reply.status(200).send(response);
@@ -144,20 +724,13 @@ export class IncidentsController {
         reply: FastifyReply
     ) {
         const userId = request.user!.userId;
+
         const result = await this.incidentsService.assignPersonnel(
             request.params.id,
             request.body,
             userId
         );
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:personnel-assigned', {
-                incidentId: request.params.id,
-                personnelIds: request.body.personnelIds,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: result,
@@ -167,25 +740,106 @@ export class IncidentsController {
         return reply.status(200).send(response);
     }
 
+    /**
+     * Vehicles sent to the incident, current and released
+     * GET /incidents/:id/vehicles
+     */
+    async getIncidentVehicles(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getIncidentVehicles(request.params.id);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Send a vehicle with its driver (Admin only)
+     * POST /incidents/:id/vehicles
+     */
+    async addIncidentVehicle(
+        request: FastifyRequest<{ Params: { id: string }; Body: IncidentVehicleDTO }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.addIncidentVehicle(
+            request.params.id,
+            request.body,
+            request.user!.userId
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: 'Vehicle assigned successfully',
+        };
+
+        return reply.status(201).send(response);
+    }
+
+    /**
+     * Release a vehicle back to service (driver or admin)
+     * POST /incidents/:id/vehicles/:vehicleId/release
+     */
+    async releaseIncidentVehicle(
+        request: FastifyRequest<{ Params: { id: string; vehicleId: string }; Body: ReleaseVehicleDTO }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.releaseIncidentVehicle(
+            request.params.id,
+            request.params.vehicleId,
+            request.body,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+            message: 'Vehicle released',
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Merge duplicate reports into this incident (Admin only)
+     * POST /incidents/:id/merge
+     */
+    async mergeIncidents(
+        request: FastifyRequest<{ Params: { id: string }; Body: MergeIncidentsDTO }>,
+        reply: FastifyReply
+    ) {
+        const incident = await this.incidentsService.mergeIncidents(
+            request.params.id,
+            request.body,
+            toWorkflowActor(request.user!)
+        );
+
+        const response: SuccessResponse = {
+            success: true,
+            data: incident,
+            message: 'Incidents merged successfully',
+        };
+
+        return reply.status(200).send(response);
+    }
+
     async addUpdate(
         request: FastifyRequest<{ Params: { id: string }; Body: AddIncidentUpdateDTO }>,
         reply: FastifyReply
     ) {
         const userId = request.user!.userId;
+
         const update = await this.incidentsService.addUpdate(
             request.params.id,
             request.body,
             userId
         );
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:update-added', {
-                incidentId: request.params.id,
-                update,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: update,
@@ -195,16 +849,15 @@ export class IncidentsController {
         return reply.status(201).send(response);
     }
 
+    /**
+     * Soft delete an incident with a reason (Admin only)
+     * DELETE /incidents/:id
+     */
     async deleteIncident(
-        request: FastifyRequest<{ Params: { id: string } }>,
+        request: FastifyRequest<{ Params: { id: string }; Body: DeleteIncidentDTO }>,
         reply: FastifyReply
     ) {
-        await this.incidentsService.deleteIncident(request.params.id);
-
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:deleted', { id: request.params.id });
-        }
+        await this.incidentsService.deleteIncident(request.params.id, request.body, request.user!.userId);
 
         const response: SuccessResponse = {
             success: true,
@@ -215,6 +868,43 @@ export class IncidentsController {
         return reply.status(200).send(response);
     }
 
+    /**
+     * List soft-deleted incidents (Admin only)
+     * GET /incidents/deleted
+     */
+    async getDeletedIncidents(
+        request: FastifyRequest<{ Querystring: DeletedIncidentListQuery }>,
+        reply: FastifyReply
+    ) {
+        const result = await this.incidentsService.getDeletedIncidents(request.query);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: result,
+        };
+
+        return reply.status(200).send(response);
+    }
+
+    /**
+     * Restore a soft-deleted incident (Admin only)
+     * POST /incidents/:id/restore
+     */
+    async restoreIncident(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        const incident = await this.incidentsService.restoreIncident(request.params.id, request.user!.userId);
+
+        const response: SuccessResponse = {
+            success: true,
+            data: incident,
+            message: 'Incident restored successfully',
+        };
+
+        return reply.status(200).send(response);
+    }
+
     async getStats(request: FastifyRequest, reply: FastifyReply) {
         const stats = await this.incidentsService.getIncidentStats();
 
@@ -235,18 +925,6 @@ export class IncidentsController {
             request.body.personnelId
         );
 
-        // Emit WebSocket event for real-time updates
-        if (request.server.io) {
-            const ackStats = await this.incidentsService.getIncidentAcknowledgments(request.params.id);
-            request.server.io.emit('incident:acknowledged', {
-                incidentId: request.params.id,
-                personnelId: request.body.personnelId,
-                acknowledgedCount: ackStats.acknowledgedCount,
-                totalPersonnelNotified: ackStats.totalPersonnelNotified,
-                acknowledgmentPercentage: ackStats.acknowledgmentPercentage,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: result,
@@ -309,46 +987,6 @@ export class IncidentsController {
 
         console.log('✅ Incident verified:', incident.incidentNumber);
 
-        // Emit WebSocket event to personnel room
-        if (request.server.io) {
-            const payload = {
-                incident,
-                timestamp: new Date().toISOString(),
-            };
-
-            request.log.info(`📡 Emitting incident:verified to personnel room for incident ${incident.incidentNumber}`);
-            request.server.io.to('personnel').emit('incident:verified', payload);
-
-            // Also emit push notification event (for in-app notifications)
-            const pushNotification = {
-                title: `🚨 VERIFIED: ${incident.incidentNumber}`,
-                message: `${incident.type} at ${incident.address}. Priority: ${incident.priority}. Respond immediately!`,
-                type: 'alert',
-                targets: ['personnel'],
-                incidentId: incident.id,
-                priority: incident.priority,
-            };
-
-            console.log('🔔 === PUSH NOTIFICATION DEBUG ===');
-            console.log('Event:', 'notification:new');
-            console.log('Room:', 'personnel');
-            console.log('Payload:', JSON.stringify(pushNotification, null, 2));
-            console.log('Socket.IO instance:', !!request.server.io);
-            console.log('Connected clients:', request.server.io.sockets.sockets.size);
-            console.log('Personnel room size:', request.server.io.sockets.adapter.rooms.get('personnel')?.size || 0);
-
-            request.log.info(`🔔 Emitting notification:new to personnel for incident ${incident.incidentNumber}`);
-            request.server.io.to('personnel').emit('notification:new', pushNotification);
-
-            console.log('✅ notification:new emitted');
-
-            // Also emit to specific incident room if anyone is watching
-            request.server.io.to(`incident:${incident.id}`).emit('incident:updated', incident);
-        } else {
-            console.log('❌ Socket.IO NOT AVAILABLE');
-            request.log.warn('⚠️ WebSocket server not available for incident:verified emission');
-        }
-
         const response: SuccessResponse = {
             success: true,
             message: 'Incident verified successfully',
@@ -378,14 +1016,6 @@ export class IncidentsController {
             resolutionNotes
         );
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:resolved', {
-                incidentId: incident.incidentId,
-                incident,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             message: 'Incident resolved successfully',
@@ -448,16 +1078,6 @@ export class IncidentsController {
 
         const result = await this.incidentsService.joinIncidentResponse(id, personnelId);
 
-        // Emit WebSocket event for real-time updates
-        if (request.server.io) {
-            request.server.io.emit('incident:responder-joined', {
-                incidentId: id,
-                personnelId,
-                totalResponders: result.totalResponders,
-                isPrimaryResponder: result.isPrimaryResponder,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: result,
@@ -480,14 +1100,6 @@ export class IncidentsController {
 
         const result = await this.incidentsService.leaveIncidentResponse(id, personnelId);
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:responder-left', {
-                incidentId: id,
-                personnelId,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: result,
@@ -509,14 +1121,6 @@ export class IncidentsController {
 
         const resolution = await this.incidentsService.submitResolution(id, request.body);
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:resolution-submitted', {
-                incidentId: id,
-                personnelId: request.body.personnelId,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: resolution,
@@ -543,7 +1147,7 @@ export class IncidentsController {
             data: resolution,
         };
 
-        return reply.status(200).send(response);
+        return reply.status(200).header('ETag', ConcurrencyService.etag(resolution.version)).send(response);
     }
 
     /**
@@ -556,7 +1160,11 @@ export class IncidentsController {
     ) {
         const { id } = request.params;
 
-        const resolution = await this.incidentsService.updateResolution(id, request.body);
+        const resolution = await this.incidentsService.updateResolution(
+            id,
+            request.body,
+            ConcurrencyService.parseIfMatch(request.headers['if-match'])
+        );
 
         const response: SuccessResponse = {
             success: true,
@@ -564,7 +1172,7 @@ export class IncidentsController {
             message: 'Resolution updated successfully',
         };
 
-        return reply.status(200).send(response);
+        return reply.status(200).header('ETag', ConcurrencyService.etag(resolution.version)).send(response);
     }
 
     /**
@@ -580,14 +1188,6 @@ export class IncidentsController {
 
         const resolution = await this.incidentsService.confirmResolution(id, userId, request.body);
 
-        // Emit WebSocket event
-        if (request.server.io) {
-            request.server.io.emit('incident:resolved', {
-                incidentId: id,
-                resolvedBy: userId,
-            });
-        }
-
         const response: SuccessResponse = {
             success: true,
             data: resolution,
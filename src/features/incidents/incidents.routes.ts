@@ -1,9 +1,16 @@
 import { FastifyInstance } from 'fastify';
 import { IncidentsController } from './incidents.controller';
 import { IncidentsService } from './incidents.service';
-import { NotificationsService } from '../notifications/notifications.service';
-import { IncidentListQuery, CreateIncidentDTO, UpdateIncidentDTO, UpdateIncidentStatusDTO, AssignPersonnelDTO, AddIncidentUpdateDTO } from './incidents.types';
+import { IncidentListQuery, CreateIncidentDTO, UpdateIncidentDTO, UpdateIncidentStatusDTO, AssignPersonnelDTO, AddIncidentUpdateDTO, MergeIncidentsDTO, RecommendedRespondersQuery, DeleteIncidentDTO, DeletedIncidentListQuery, SetParentIncidentDTO, AddIncidentLinkDTO } from './incidents.types';
 import { SubmitResolutionDTO, ConfirmResolutionDTO, UpdateResolutionDTO } from './resolution.types';
+import { UpdateMciModeDTO, CreatePatientDTO, UpdatePatientDTO } from './triage.types';
+import { UpdateChecklistItemDTO } from './checklist.types';
+import { CreateSavedViewDTO, UpdateSavedViewDTO } from './saved-views.types';
+import { BulkIncidentOperationDTO } from './bulk.types';
+import { CreateCommentDTO, UpdateCommentDTO } from './comments.types';
+import { ChatHistoryQuery } from './chat.types';
+import { AddIncidentTagsDTO } from '../tags/tags.types';
+import { IncidentVehicleDTO, ReleaseVehicleDTO } from '../fleet/fleet.types';
 import { IncidentPriority } from '@prisma/client';
 import { prisma } from '../../config/database';
 import { validate, authMiddleware, requireRole } from '../../core/middleware';
@@ -14,17 +21,34 @@ import {
   assignPersonnelSchema,
   addUpdateSchema,
   updateStatusSchema,
+  mergeIncidentsSchema,
+  recommendedRespondersQuerySchema,
+  deleteIncidentSchema,
+  deletedIncidentListQuerySchema,
+  setParentIncidentSchema,
+  addIncidentLinkSchema,
 } from './incidents.schema';
 import {
   submitResolutionSchema,
   updateResolutionSchema,
   confirmResolutionSchema,
 } from './resolution.schema';
+import {
+  updateMciModeSchema,
+  createPatientSchema,
+  updatePatientSchema,
+} from './triage.schema';
+import { updateChecklistItemSchema } from './checklist.schema';
+import { createSavedViewSchema, updateSavedViewSchema } from './saved-views.schema';
+import { bulkIncidentOperationSchema } from './bulk.schema';
+import { chatHistoryQuerySchema } from './chat.schema';
+import { createCommentSchema, updateCommentSchema } from './comments.schema';
+import { addIncidentTagsSchema } from '../tags/tags.schema';
+import { incidentVehicleSchema, releaseVehicleSchema } from '../fleet/fleet.schema';
 
 export async function incidentsRoutes(app: FastifyInstance) {
-  const incidentsService = new IncidentsService(prisma);
-  const notificationsService = new NotificationsService(prisma);
-  const incidentsController = new IncidentsController(incidentsService, notificationsService);
+  const incidentsService = new IncidentsService(prisma, app.io);
+  const incidentsController = new IncidentsController(incidentsService);
 
   // All routes require authentication
   app.addHook('preHandler', authMiddleware);
@@ -40,6 +64,60 @@ export async function incidentsRoutes(app: FastifyInstance) {
     incidentsController.getBulkAcknowledgments.bind(incidentsController)
   );
 
+  // List soft-deleted incidents (admin only, MUST be before /:id routes)
+  app.get<{ Querystring: DeletedIncidentListQuery }>(
+    '/deleted',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(deletedIncidentListQuerySchema, 'query')],
+    },
+    incidentsController.getDeletedIncidents.bind(incidentsController)
+  );
+
+  // Bulk status/spam/assign/priority/tag/delete (admin only, MUST be before /:id routes)
+  app.post<{ Body: BulkIncidentOperationDTO }>(
+    '/bulk',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(bulkIncidentOperationSchema)],
+    },
+    incidentsController.bulkUpdate.bind(incidentsController)
+  );
+
+  // Unread comments and updates per incident (MUST be before /:id routes)
+  app.get('/unread', incidentsController.getUnreadActivity.bind(incidentsController));
+
+  // Saved list views (admin only, MUST be before /:id routes)
+  app.get(
+    '/views',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    incidentsController.getSavedViews.bind(incidentsController)
+  );
+
+  app.post<{ Body: CreateSavedViewDTO }>(
+    '/views',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createSavedViewSchema)],
+    },
+    incidentsController.createSavedView.bind(incidentsController)
+  );
+
+  app.put<{ Params: { viewId: string }; Body: UpdateSavedViewDTO }>(
+    '/views/:viewId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateSavedViewSchema)],
+    },
+    incidentsController.updateSavedView.bind(incidentsController)
+  );
+
+  app.delete<{ Params: { viewId: string } }>(
+    '/views/:viewId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    incidentsController.deleteSavedView.bind(incidentsController)
+  );
+
   // List incidents
   app.get<{ Querystring: IncidentListQuery }>(
     '/',
@@ -79,7 +157,22 @@ export async function incidentsRoutes(app: FastifyInstance) {
     incidentsController.updateStatus.bind(incidentsController)
   );
 
-  // Assign personnel
+  // Get status transitions available to the caller
+  app.get<{ Params: { id: string } }>(
+    '/:id/transitions',
+    incidentsController.getTransitions.bind(incidentsController)
+  );
+
+  // Recommend personnel to assign (admin only)
+  app.get<{ Params: { id: string }; Querystring: RecommendedRespondersQuery }>(
+    '/:id/recommended-responders',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(recommendedRespondersQuerySchema, 'query')],
+    },
+    incidentsController.getRecommendedResponders.bind(incidentsController)
+  );
+
+  // Assign personnel, a team and vehicles
   app.post<{ Params: { id: string }; Body: AssignPersonnelDTO }>(
     '/:id/assign',
     {
@@ -88,6 +181,204 @@ export async function incidentsRoutes(app: FastifyInstance) {
     incidentsController.assignPersonnel.bind(incidentsController)
   );
 
+  // Vehicles sent to the incident
+  app.get<{ Params: { id: string } }>(
+    '/:id/vehicles',
+    incidentsController.getIncidentVehicles.bind(incidentsController)
+  );
+
+  // Send one more vehicle (admin only)
+  app.post<{ Params: { id: string }; Body: IncidentVehicleDTO }>(
+    '/:id/vehicles',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(incidentVehicleSchema)],
+    },
+    incidentsController.addIncidentVehicle.bind(incidentsController)
+  );
+
+  // Release a vehicle (driver or admin)
+  app.post<{ Params: { id: string; vehicleId: string }; Body: ReleaseVehicleDTO }>(
+    '/:id/vehicles/:vehicleId/release',
+    {
+      preHandler: [validate(releaseVehicleSchema)],
+    },
+    incidentsController.releaseIncidentVehicle.bind(incidentsController)
+  );
+
+  // Merge duplicate reports into this incident (admin only)
+  app.post<{ Params: { id: string }; Body: MergeIncidentsDTO }>(
+    '/:id/merge',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(mergeIncidentsSchema)],
+    },
+    incidentsController.mergeIncidents.bind(incidentsController)
+  );
+
+  // Major event, parent/child and related-to links
+  app.get<{ Params: { id: string } }>(
+    '/:id/links',
+    incidentsController.getLinks.bind(incidentsController)
+  );
+
+  // Set or clear the parent incident (admin only)
+  app.put<{ Params: { id: string }; Body: SetParentIncidentDTO }>(
+    '/:id/parent',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(setParentIncidentSchema)],
+    },
+    incidentsController.setParent.bind(incidentsController)
+  );
+
+  // Link a related incident (admin only)
+  app.post<{ Params: { id: string }; Body: AddIncidentLinkDTO }>(
+    '/:id/links',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(addIncidentLinkSchema)],
+    },
+    incidentsController.addLink.bind(incidentsController)
+  );
+
+  // Remove a related-to link (admin only)
+  app.delete<{ Params: { id: string; linkedIncidentId: string } }>(
+    '/:id/links/:linkedIncidentId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    incidentsController.removeLink.bind(incidentsController)
+  );
+
+  // Threaded comments
+  app.get<{ Params: { id: string } }>(
+    '/:id/comments',
+    incidentsController.getComments.bind(incidentsController)
+  );
+
+  // Comment or reply (assigned personnel or admin)
+  app.post<{ Params: { id: string }; Body: CreateCommentDTO }>(
+    '/:id/comments',
+    {
+      preHandler: [validate(createCommentSchema)],
+    },
+    incidentsController.addComment.bind(incidentsController)
+  );
+
+  // Edit own comment
+  app.put<{ Params: { id: string; commentId: string }; Body: UpdateCommentDTO }>(
+    '/:id/comments/:commentId',
+    {
+      preHandler: [validate(updateCommentSchema)],
+    },
+    incidentsController.updateComment.bind(incidentsController)
+  );
+
+  // Comment edit history
+  app.get<{ Params: { id: string; commentId: string } }>(
+    '/:id/comments/:commentId/history',
+    incidentsController.getCommentHistory.bind(incidentsController)
+  );
+
+  // Delete comment (author or admin)
+  app.delete<{ Params: { id: string; commentId: string } }>(
+    '/:id/comments/:commentId',
+    incidentsController.deleteComment.bind(incidentsController)
+  );
+
+  // Incident chat history, newest page first (assigned personnel or admin)
+  app.get<{ Params: { id: string }; Querystring: ChatHistoryQuery }>(
+    '/:id/messages',
+    {
+      preHandler: [validate(chatHistoryQuerySchema, 'query')],
+    },
+    incidentsController.getChatMessages.bind(incidentsController)
+  );
+
+  // Mark incident activity as read
+  app.post<{ Params: { id: string } }>(
+    '/:id/read',
+    incidentsController.markIncidentRead.bind(incidentsController)
+  );
+
+  // Incident tags
+  app.get<{ Params: { id: string } }>(
+    '/:id/tags',
+    incidentsController.getIncidentTags.bind(incidentsController)
+  );
+
+  // Tag an incident (admin only)
+  app.post<{ Params: { id: string }; Body: AddIncidentTagsDTO }>(
+    '/:id/tags',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(addIncidentTagsSchema)],
+    },
+    incidentsController.addIncidentTags.bind(incidentsController)
+  );
+
+  // Remove a tag from an incident (admin only)
+  app.delete<{ Params: { id: string; tagId: string } }>(
+    '/:id/tags/:tagId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    incidentsController.removeIncidentTag.bind(incidentsController)
+  );
+
+  // Playbook checklist
+  app.get<{ Params: { id: string } }>(
+    '/:id/checklist',
+    incidentsController.getChecklist.bind(incidentsController)
+  );
+
+  // Tick or untick a checklist item (assigned personnel or admin)
+  app.patch<{ Params: { id: string; itemId: string }; Body: UpdateChecklistItemDTO }>(
+    '/:id/checklist/:itemId',
+    {
+      preHandler: [validate(updateChecklistItemSchema)],
+    },
+    incidentsController.updateChecklistItem.bind(incidentsController)
+  );
+
+  // Declare or stand down mass-casualty mode (admin only)
+  app.patch<{ Params: { id: string }; Body: UpdateMciModeDTO }>(
+    '/:id/mci',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateMciModeSchema)],
+    },
+    incidentsController.setMciMode.bind(incidentsController)
+  );
+
+  // Patient triage records
+  app.get<{ Params: { id: string } }>(
+    '/:id/patients',
+    incidentsController.getPatients.bind(incidentsController)
+  );
+
+  // Record a triaged patient (assigned personnel or admin)
+  app.post<{ Params: { id: string }; Body: CreatePatientDTO }>(
+    '/:id/patients',
+    {
+      preHandler: [validate(createPatientSchema)],
+    },
+    incidentsController.addPatient.bind(incidentsController)
+  );
+
+  // Update a patient record (assigned personnel or admin)
+  app.put<{ Params: { id: string; patientId: string }; Body: UpdatePatientDTO }>(
+    '/:id/patients/:patientId',
+    {
+      preHandler: [validate(updatePatientSchema)],
+    },
+    incidentsController.updatePatient.bind(incidentsController)
+  );
+
+  // Delete a patient record (admin only)
+  app.delete<{ Params: { id: string; patientId: string } }>(
+    '/:id/patients/:patientId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    incidentsController.deletePatient.bind(incidentsController)
+  );
+
   // Add update/comment
   app.post<{ Params: { id: string }; Body: AddIncidentUpdateDTO }>(
     '/:id/updates',
@@ -97,15 +388,24 @@ export async function incidentsRoutes(app: FastifyInstance) {
     incidentsController.addUpdate.bind(incidentsController)
   );
 
-  // Delete incident (admin only)
-  app.delete<{ Params: { id: string } }>(
+  // Soft delete incident with a reason (admin only)
+  app.delete<{ Params: { id: string }; Body: DeleteIncidentDTO }>(
     '/:id',
     {
-      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(deleteIncidentSchema)],
     },
     incidentsController.deleteIncident.bind(incidentsController)
   );
 
+  // Restore a soft-deleted incident (admin only)
+  app.post<{ Params: { id: string } }>(
+    '/:id/restore',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    incidentsController.restoreIncident.bind(incidentsController)
+  );
+
   // Acknowledge incident (personnel only)
   app.post<{ Params: { id: string }; Body: { personnelId: string } }>(
     '/:id/acknowledge',
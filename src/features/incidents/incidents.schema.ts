@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import { IncidentStatus, IncidentPriority, IncidentType } from '@prisma/client';
+import { customFieldValuesSchema } from '../custom-fields/custom-fields.schema';
+import { incidentVehicleSchema } from '../fleet/fleet.schema';
+import { INCIDENT_SORT_FIELDS } from './incidents.types';
 
 export const createIncidentSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -12,6 +15,8 @@ export const createIncidentSchema = z.object({
   reporterName: z.string().min(1, 'Reporter name is required'),
   reporterPhone: z.string().min(1, 'Reporter phone is required'),
   barangayId: z.string().optional(),
+  majorEventId: z.string().optional(),
+  customFields: customFieldValuesSchema.optional(),
 });
 
 export const updateIncidentSchema = z.object({
@@ -26,6 +31,8 @@ export const updateIncidentSchema = z.object({
   reporterName: z.string().min(1).optional(),
   reporterPhone: z.string().min(1).optional(),
   barangayId: z.string().optional(),
+  majorEventId: z.string().nullable().optional(),
+  customFields: customFieldValuesSchema.optional(),
 });
 
 export const incidentListQuerySchema = z.object({
@@ -36,13 +43,27 @@ export const incidentListQuerySchema = z.object({
   priority: z.string().optional(), // Can be single or comma-separated
   status: z.string().optional(), // Can be single or comma-separated
   barangayId: z.string().optional(),
+  eventId: z.string().optional(),
+  customFields: z.string().optional(), // Comma-separated key:value pairs
+  tags: z.string().optional(), // Comma-separated, incidents must carry all of them
+  isAssigned: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
+  includeArchived: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+  sortBy: z.enum(INCIDENT_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  viewId: z.string().optional(),
 });
 
-export const assignPersonnelSchema = z.object({
-  personnelIds: z.array(z.string()).min(1, 'At least one personnel must be assigned'),
-});
+export const assignPersonnelSchema = z
+  .object({
+    personnelIds: z.array(z.string()).min(1, 'At least one personnel must be assigned').optional(),
+    teamId: z.string().min(1).optional(),
+    vehicles: z.array(incidentVehicleSchema).max(20).optional(),
+  })
+  .refine((data) => data.personnelIds || data.teamId || data.vehicles?.length, {
+    message: 'Provide personnelIds, a teamId or vehicles',
+  });
 
 export const addUpdateSchema = z.object({
   message: z.string().min(1, 'Message is required'),
@@ -54,3 +75,32 @@ export const updateStatusSchema = z.object({
   notes: z.string().optional(),
   priority: z.nativeEnum(IncidentPriority).optional(),
 });
+
+export const mergeIncidentsSchema = z.object({
+  incidentIds: z.array(z.string()).min(1, 'At least one incident must be merged'),
+  notes: z.string().optional(),
+});
+
+export const recommendedRespondersQuerySchema = z.object({
+  limit: z.string().transform(Number).pipe(z.number().min(1).max(50)).optional(),
+  certifications: z.string().optional(),
+});
+
+export const deleteIncidentSchema = z.object({
+  reason: z.string().trim().min(5, 'A deletion reason of at least 5 characters is required'),
+});
+
+export const deletedIncidentListQuerySchema = z.object({
+  page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional(),
+  search: z.string().optional(),
+});
+
+export const setParentIncidentSchema = z.object({
+  parentIncidentId: z.string().min(1).nullable(),
+});
+
+export const addIncidentLinkSchema = z.object({
+  incidentId: z.string().min(1, 'Incident ID is required'),
+  note: z.string().optional(),
+});
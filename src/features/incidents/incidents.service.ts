@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { PrismaClient, IncidentStatus, IncidentPriority } from '@prisma/client';
-import { NotFoundError, ValidationError } from '../../core/errors';
+import { PrismaClient, IncidentStatus, IncidentPriority, IncidentType, Prisma } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../core/errors';
 import {
   CreateIncidentDTO,
   UpdateIncidentDTO,
@@ -8,16 +9,94 @@ import {
   AssignPersonnelDTO,
   AddIncidentUpdateDTO,
   UpdateIncidentStatusDTO,
+  MergeIncidentsDTO,
+  RecommendedRespondersQuery,
+  DeleteIncidentDTO,
+  DeletedIncidentListQuery,
+  SetParentIncidentDTO,
+  AddIncidentLinkDTO,
 } from './incidents.types';
 import { SubmitResolutionDTO, ConfirmResolutionDTO, UpdateResolutionDTO } from './resolution.types';
 import { CONSTANTS } from '../../config/constants';
 import { PaginatedResponse } from '../../types';
 import { AuditService } from '../audit/audit.service';
 import { AuditAction } from '../audit/audit.types';
-import { TimelineService } from './timeline.service';
+import { IncidentWorkflowService, actorReference } from './workflow.service';
+import { WorkflowActor } from './workflow.types';
+import { IncidentDuplicatesService } from './duplicates.service';
+import { ResponderRecommendationService } from './recommendation.service';
+import { IncidentNumberService } from './incident-number.service';
+import { BarangaysService } from '../barangays/barangays.service';
+import { DispatchService } from '../dispatch/dispatch.service';
+import { EventsService } from '../events/events.service';
+import { IncidentLinksService } from './links.service';
+import { IncidentTriageService } from './triage.service';
+import { CreatePatientDTO, UpdatePatientDTO } from './triage.types';
+import { IncidentChecklistService } from './checklist.service';
+import { UpdateChecklistItemDTO } from './checklist.types';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { TagsService } from '../tags/tags.service';
+import { AddIncidentTagsDTO } from '../tags/tags.types';
+import { SavedIncidentViewsService } from './saved-views.service';
+import { CreateSavedViewDTO, UpdateSavedViewDTO } from './saved-views.types';
+import { IncidentBulkService } from './bulk.service';
+import { BulkIncidentOperationDTO } from './bulk.types';
+import { IncidentCommentsService } from './comments.service';
+import { CreateCommentDTO, UpdateCommentDTO } from './comments.types';
+import { IncidentChatService } from './chat.service';
+import { TeamsService } from '../teams/teams.service';
+import { FleetService } from '../fleet/fleet.service';
+import { IncidentVehicleDTO, ReleaseVehicleDTO } from '../fleet/fleet.types';
+import { ChatHistoryQuery } from './chat.types';
+import { DomainEventBus, domainEvents } from '../../core/events';
+import { reportingPrisma } from '../../config/database';
+import { ConcurrencyService } from '../../core/utils/concurrency';
 
 export class IncidentsService {
-  constructor(private prisma: PrismaClient) { }
+  private workflow: IncidentWorkflowService;
+  private duplicates: IncidentDuplicatesService;
+  private recommendations: ResponderRecommendationService;
+  private incidentNumbers: IncidentNumberService;
+  private barangays: BarangaysService;
+  private dispatch: DispatchService;
+  private events: EventsService;
+  private links: IncidentLinksService;
+  private triage: IncidentTriageService;
+  private checklist: IncidentChecklistService;
+  private customFields: CustomFieldsService;
+  private tags: TagsService;
+  private savedViews: SavedIncidentViewsService;
+  private bulk: IncidentBulkService;
+  private comments: IncidentCommentsService;
+  private chat: IncidentChatService;
+  private teams: TeamsService;
+  private fleet: FleetService;
+
+  constructor(
+    private prisma: PrismaClient,
+    io?: SocketIOServer,
+    private bus: DomainEventBus = domainEvents,
+    private records: PrismaClient = reportingPrisma
+  ) {
+    this.dispatch = new DispatchService(prisma, io, bus);
+    this.checklist = new IncidentChecklistService(prisma, io);
+    this.workflow = new IncidentWorkflowService(prisma, bus, { checklist: this.checklist, dispatch: this.dispatch });
+    this.duplicates = new IncidentDuplicatesService(prisma);
+    this.recommendations = new ResponderRecommendationService(prisma);
+    this.incidentNumbers = new IncidentNumberService(prisma);
+    this.barangays = new BarangaysService(prisma);
+    this.events = new EventsService(prisma);
+    this.links = new IncidentLinksService(prisma);
+    this.triage = new IncidentTriageService(prisma, io);
+    this.customFields = new CustomFieldsService(prisma);
+    this.tags = new TagsService(prisma);
+    this.savedViews = new SavedIncidentViewsService(prisma);
+    this.bulk = new IncidentBulkService(prisma, this, io);
+    this.comments = new IncidentCommentsService(prisma, io);
+    this.chat = new IncidentChatService(prisma, io);
+    this.teams = new TeamsService(prisma);
+    this.fleet = new FleetService(prisma, io);
+  }
 
   // Map backend incident to frontend format
   private mapIncidentForFrontend(incident: any) {
@@ -29,53 +108,47 @@ export class IncidentsService {
   }
 
   async createIncident(data: CreateIncidentDTO, userId: string) {
-    // Generate incident number
-    const year = new Date().getFullYear();
-    const count = await this.prisma.incident.count({
-      where: {
-        incidentNumber: {
-          startsWith: `${CONSTANTS.INCIDENT_NUMBER_PREFIX}${year}`,
-        },
-      },
-    });
-
-    const incidentNumber = `${CONSTANTS.INCIDENT_NUMBER_PREFIX}${year}${String(count + 1).padStart(
-      4,
-      '0'
-    )}`;
-
-    // If barangayId not provided, find nearest barangay
+    // If barangayId not provided, locate the covering barangay
     let barangayId = data.barangayId;
     if (!barangayId) {
-      const nearestBarangay = await this.findNearestBarangay(data.latitude, data.longitude);
-      barangayId = nearestBarangay?.id;
+      const location = await this.barangays.locateBarangay(data.latitude, data.longitude);
+      barangayId = location.barangay?.id;
     }
 
-    const incident = await this.prisma.incident.create({
-      data: {
-        ...data,
-        incidentNumber,
-        barangayId,
-        createdById: userId,
-      },
-      include: {
-        barangay: {
-          select: {
-            id: true,
-            name: true,
-            code: true,
-          },
+    if (data.majorEventId) {
+      await this.events.assertAcceptsIncidents(data.majorEventId);
+    }
+
+    const customFields = await this.customFields.validateValues(data.type, data.customFields, 'create');
+
+    const incident = await this.incidentNumbers.createWithNumber((incidentNumber) =>
+      this.prisma.incident.create({
+        data: {
+          ...data,
+          incidentNumber,
+          barangayId,
+          customFields,
+          createdById: userId,
         },
-        createdBy: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
+        include: {
+          barangay: {
+            select: {
+              id: true,
+              name: true,
+              code: true,
+            },
+          },
+          createdBy: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
-    });
+      })
+    );
 
     // Create initial incident update
     await this.prisma.incidentUpdate.create({
@@ -87,10 +160,14 @@ export class IncidentsService {
       },
     });
 
-    return this.mapIncidentForFrontend(incident);
+    const created = this.mapIncidentForFrontend(incident);
+    this.bus.publish('IncidentCreated', { incident: created, source: 'ADMIN', createdBy: userId });
+
+    return created;
   }
 
-  async getIncidents(query: IncidentListQuery): Promise<PaginatedResponse<any>> {
+  async getIncidents(listQuery: IncidentListQuery, userId?: string): Promise<PaginatedResponse<any>> {
+    const query = await this.savedViews.applyView(listQuery, userId);
     const page = query.page || 1;
     const limit = query.limit || CONSTANTS.DEFAULT_PAGE_SIZE;
     const skip = (page - 1) * limit;
@@ -128,6 +205,30 @@ export class IncidentsService {
       where.barangayId = query.barangayId;
     }
 
+    if (query.eventId) {
+      where.majorEventId = query.eventId;
+    }
+
+    where.AND = [];
+
+    if (query.customFields) {
+      where.AND.push(...await this.customFields.buildFilters(
+        query.customFields,
+        query.type ? (query.type.split(',').map(t => t.trim()) as IncidentType[]) : undefined
+      ));
+    }
+
+    if (query.tags) {
+      where.AND.push(...TagsService.buildFilter(query.tags));
+    }
+
+    // Unassigned means nobody was dispatched and nobody joined the response
+    if (query.isAssigned === true) {
+      where.AND.push({ OR: [{ assignments: { some: {} } }, { responders: { some: {} } }] });
+    } else if (query.isAssigned === false) {
+      where.AND.push({ assignments: { none: {} } }, { responders: { none: {} } });
+    }
+
     if (query.fromDate || query.toDate) {
       where.reportedAt = {};
       if (query.fromDate) {
@@ -138,9 +239,13 @@ export class IncidentsService {
       }
     }
 
-    const total = await this.prisma.incident.count({ where });
+    // Archived incidents live outside the hot tables; asking for them reads the
+    // reporting views instead
+    const db = query.includeArchived ? this.records : this.prisma;
 
-    const incidents = await this.prisma.incident.findMany({
+    const total = await db.incident.count({ where });
+
+    const incidents = await db.incident.findMany({
       where,
       include: {
         barangay: {
@@ -150,6 +255,10 @@ export class IncidentsService {
             code: true,
           },
         },
+        tags: {
+          select: { tag: { select: { id: true, name: true, color: true, isCurated: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
         assignments: {
           include: {
             personnel: {
@@ -175,7 +284,9 @@ export class IncidentsService {
       },
       skip,
       take: limit,
-      orderBy: { reportedAt: 'desc' },
+      orderBy: query.sortBy
+        ? [{ [query.sortBy]: query.sortOrder || 'desc' }, { reportedAt: 'desc' }]
+        : { reportedAt: 'desc' },
     });
 
     const data = incidents.map((i) => {
@@ -196,6 +307,7 @@ export class IncidentsService {
         assignedCount: i._count.assignments,
         photoCount: i._count.photos,
         updateCount: i._count.updates,
+        tags: i.tags.map(t => t.tag),
         totalPersonnelNotified,
         acknowledgmentCount,
         acknowledgmentPercentage,
@@ -276,6 +388,50 @@ export class IncidentsService {
           },
           orderBy: { createdAt: 'desc' },
         },
+        mergedInto: {
+          select: {
+            id: true,
+            incidentNumber: true,
+            status: true,
+          },
+        },
+        mergedIncidents: {
+          select: {
+            id: true,
+            incidentNumber: true,
+            reporterName: true,
+            reportedAt: true,
+            mergedAt: true,
+          },
+          orderBy: { mergedAt: 'desc' },
+        },
+        majorEvent: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+          },
+        },
+        tags: {
+          select: { tag: { select: { id: true, name: true, color: true, isCurated: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        parentIncident: {
+          select: {
+            id: true,
+            incidentNumber: true,
+            status: true,
+          },
+        },
+        childIncidents: {
+          select: {
+            id: true,
+            incidentNumber: true,
+            type: true,
+            status: true,
+          },
+          orderBy: { reportedAt: 'asc' },
+        },
       },
     });
 
@@ -283,6 +439,28 @@ export class IncidentsService {
       throw new NotFoundError('Incident not found');
     }
 
+    // Suggest likely duplicates while the incident is still open
+    const closedStatuses: IncidentStatus[] = [
+      IncidentStatus.RESOLVED,
+      IncidentStatus.CLOSED,
+      IncidentStatus.CANCELLED,
+      IncidentStatus.SPAM,
+      IncidentStatus.MERGED,
+    ];
+    const duplicateSuggestions = closedStatuses.includes(incident.status)
+      ? []
+      : await this.duplicates.findDuplicates(incident, incident.id);
+
+    // Patient counts by triage category for mass-casualty incidents
+    const triageSummary = await this.triage.getSummary(incident.id);
+    const checklistProgress = await this.checklist.getProgress(incident.id);
+
+    // Read on their own so the encryption middleware decrypts the phone numbers
+    const reporterContacts = await this.prisma.incidentReporterContact.findMany({
+      where: { incidentId: incident.id },
+      orderBy: { reportedAt: 'asc' },
+    });
+
     // Calculate acknowledgment counts (using arrivedAt as acknowledgment indicator)
     const totalPersonnelNotified = incident.assignments.length;
     const acknowledgmentCount = incident.assignments.filter(
@@ -299,6 +477,11 @@ export class IncidentsService {
       totalPersonnelNotified,
       acknowledgmentCount,
       acknowledgmentPercentage,
+      duplicateSuggestions,
+      reporterContacts,
+      tags: incident.tags.map(t => t.tag),
+      triageSummary: incident.isMci || triageSummary.total > 0 ? triageSummary : null,
+      checklistProgress,
       // Include responder information for admin interface
       responders: incident.assignments.map(assignment => ({
         id: assignment.id,
@@ -312,7 +495,7 @@ export class IncidentsService {
     };
   }
 
-  async updateIncident(id: string, data: UpdateIncidentDTO, userId: string) {
+  async updateIncident(id: string, data: UpdateIncidentDTO, actor: WorkflowActor, expectedVersion?: number) {
     const existing = await this.prisma.incident.findUnique({
       where: { id },
     });
@@ -321,9 +504,49 @@ export class IncidentsService {
       throw new NotFoundError('Incident not found');
     }
 
-    const incident = await this.prisma.incident.update({
+    ConcurrencyService.assertVersion(existing, expectedVersion, 'Incident');
+
+    if (data.majorEventId && data.majorEventId !== existing.majorEventId) {
+      await this.events.assertAcceptsIncidents(data.majorEventId);
+    }
+
+    // Status changes must go through the workflow engine
+    const { status, customFields: customFieldValues, ...details } = data;
+    if (status && status !== existing.status) {
+      await this.workflow.assertTransition(existing, status, actor);
+    }
+
+    // A type change starts over with the fields of the new type
+    const typeChanged = !!data.type && data.type !== existing.type;
+    const customFields = customFieldValues !== undefined || typeChanged
+      ? await this.customFields.validateValues(
+          data.type ?? existing.type,
+          customFieldValues,
+          typeChanged ? 'create' : 'update',
+          existing.customFields
+        )
+      : undefined;
+
+    try {
+      await this.prisma.incident.update({
+        where: { id, version: existing.version },
+        data: {
+          ...details,
+          ...(customFields !== undefined && { customFields }),
+          version: { increment: 1 },
+        },
+      });
+    } catch (error) {
+      if (!ConcurrencyService.isStaleWrite(error)) throw error;
+      throw ConcurrencyService.conflict('Incident', await this.prisma.incident.findUnique({ where: { id } }));
+    }
+
+    if (status && status !== existing.status) {
+      await this.workflow.transition(id, status, actor, { expectedVersion: existing.version + 1 });
+    }
+
+    const incident = await this.prisma.incident.findUniqueOrThrow({
       where: { id },
-      data,
       include: {
         barangay: {
           select: {
@@ -339,35 +562,31 @@ export class IncidentsService {
     await this.prisma.incidentUpdate.create({
       data: {
         incidentId: id,
-        userId,
+        ...actorReference(actor),
         message: 'Incident details updated',
         updateType: 'INFO',
       },
     });
 
-    return this.mapIncidentForFrontend(incident);
-  }
+    const updated = this.mapIncidentForFrontend(incident);
+    this.bus.publish('IncidentUpdated', { incident: updated });
 
-  async updateStatus(id: string, data: UpdateIncidentStatusDTO, userId: string) {
-    const incident = await this.prisma.incident.findUnique({
-      where: { id },
-    });
+    return updated;
+  }
 
-    if (!incident) {
-      throw new NotFoundError('Incident not found');
+  async updateStatus(id: string, data: UpdateIncidentStatusDTO, actor: WorkflowActor, expectedVersion?: number) {
+    if (data.priority && actor.role === 'PERSONNEL') {
+      throw new ForbiddenError('Personnel cannot change incident priority');
     }
 
-    // Validate status transition
-    this.validateStatusTransition(incident.status, data.status);
+    await this.workflow.transition(id, data.status, actor, {
+      notes: data.notes,
+      data: data.priority ? { priority: data.priority } : undefined,
+      expectedVersion,
+    });
 
-    const updated = await this.prisma.incident.update({
+    const updated = await this.prisma.incident.findUniqueOrThrow({
       where: { id },
-      data: {
-        status: data.status,
-        priority: data.priority || incident.priority, // Update priority if provided
-        resolvedAt: data.status === IncidentStatus.RESOLVED ? new Date() : incident.resolvedAt,
-        closedAt: data.status === IncidentStatus.CLOSED ? new Date() : incident.closedAt,
-      },
       include: {
         barangay: {
           select: {
@@ -382,15 +601,152 @@ export class IncidentsService {
     await this.prisma.incidentUpdate.create({
       data: {
         incidentId: id,
-        userId,
+        ...actorReference(actor),
         message: data.notes || `Status changed to ${data.status}`,
         updateType: 'STATUS_CHANGE',
       },
     });
 
-    return this.mapIncidentForFrontend(updated);
+    // Lets open screens refresh to the new version
+    const incident = this.mapIncidentForFrontend(updated);
+    this.bus.publish('IncidentUpdated', { incident });
+
+    return incident;
+  }
+
+  /**
+   * Statuses the actor may move the incident to next
+   */
+  async getAvailableTransitions(id: string, actor: WorkflowActor) {
+    return this.workflow.getAvailableTransitions(id, actor);
+  }
+
+  /**
+   * Major event, parent/child and related-to links of an incident
+   */
+  async getIncidentLinks(id: string) {
+    return this.links.getLinks(id);
+  }
+
+  async setParentIncident(id: string, data: SetParentIncidentDTO, userId: string) {
+    return this.links.setParent(id, data.parentIncidentId, userId);
   }
 
+  async addIncidentLink(id: string, data: AddIncidentLinkDTO, userId: string) {
+    return this.links.addRelated(id, data.incidentId, data.note, userId);
+  }
+
+  async removeIncidentLink(id: string, linkedIncidentId: string, userId: string) {
+    return this.links.removeRelated(id, linkedIncidentId, userId);
+  }
+
+  async getIncidentTags(id: string) {
+    return this.tags.getIncidentTags(id);
+  }
+
+  async addIncidentTags(id: string, data: AddIncidentTagsDTO, userId: string) {
+    return this.tags.addIncidentTags(id, data.tags, userId);
+  }
+
+  async removeIncidentTag(id: string, tagId: string) {
+    return this.tags.removeIncidentTag(id, tagId);
+  }
+
+  /**
+   * Apply one action to many incidents, reporting success per incident
+   */
+  async bulkUpdate(data: BulkIncidentOperationDTO, actor: WorkflowActor) {
+    return this.bulk.run(data, actor);
+  }
+
+  async getComments(id: string, actor: WorkflowActor) {
+    return this.comments.getComments(id, actor);
+  }
+
+  async addComment(id: string, data: CreateCommentDTO, actor: WorkflowActor) {
+    return this.comments.addComment(id, data, actor);
+  }
+
+  async updateComment(id: string, commentId: string, data: UpdateCommentDTO, actor: WorkflowActor) {
+    return this.comments.updateComment(id, commentId, data, actor);
+  }
+
+  async getCommentHistory(id: string, commentId: string) {
+    return this.comments.getCommentHistory(id, commentId);
+  }
+
+  async deleteComment(id: string, commentId: string, actor: WorkflowActor) {
+    return this.comments.deleteComment(id, commentId, actor);
+  }
+
+  async markIncidentRead(id: string, actor: WorkflowActor) {
+    return this.comments.markRead(id, actor);
+  }
+
+  async getUnreadActivity(actor: WorkflowActor) {
+    return this.comments.getUnread(actor);
+  }
+
+  async getChatHistory(id: string, query: ChatHistoryQuery, actor: WorkflowActor) {
+    return this.chat.getHistory(id, query, actor);
+  }
+
+  async getSavedViews(userId: string) {
+    return this.savedViews.getViews(userId);
+  }
+
+  async createSavedView(data: CreateSavedViewDTO, userId: string) {
+    return this.savedViews.createView(data, userId);
+  }
+
+  async updateSavedView(viewId: string, data: UpdateSavedViewDTO, userId: string) {
+    return this.savedViews.updateView(viewId, data, userId);
+  }
+
+  async deleteSavedView(viewId: string, userId: string) {
+    return this.savedViews.deleteView(viewId, userId);
+  }
+
+  async getChecklist(id: string) {
+    return this.checklist.getChecklist(id);
+  }
+
+  async updateChecklistItem(id: string, itemId: string, data: UpdateChecklistItemDTO, actor: WorkflowActor) {
+    return this.checklist.setItemCompleted(id, itemId, data, actor);
+  }
+
+  async setMciMode(id: string, enabled: boolean, actor: WorkflowActor) {
+    return this.triage.setMciMode(id, enabled, actor);
+  }
+
+  async getPatients(id: string) {
+    return this.triage.getPatients(id);
+  }
+
+  async addPatient(id: string, data: CreatePatientDTO, actor: WorkflowActor) {
+    return this.triage.addPatient(id, data, actor);
+  }
+
+  async updatePatient(id: string, patientId: string, data: UpdatePatientDTO, actor: WorkflowActor) {
+    return this.triage.updatePatient(id, patientId, data, actor);
+  }
+
+  async deletePatient(id: string, patientId: string) {
+    return this.triage.deletePatient(id, patientId);
+  }
+
+  /**
+   * Personnel ranked as the best fit to respond to an incident
+   */
+  async getRecommendedResponders(id: string, query: RecommendedRespondersQuery) {
+    return this.recommendations.recommend(id, query.limit, query.certifications);
+  }
+
+  /**
+   * Replace the incident's assignments. A team expands to its members who
+   * are available right now; their assignments remember the team. Vehicles
+   * are sent with their drivers, who are assigned as well.
+   */
   async assignPersonnel(id: string, data: AssignPersonnelDTO, userId: string) {
     const incident = await this.prisma.incident.findUnique({
       where: { id },
@@ -401,39 +757,65 @@ export class IncidentsService {
       throw new NotFoundError('Incident not found');
     }
 
+    const team = data.teamId ? await this.teams.getAssignableMembers(data.teamId) : null;
+    const vehicles = data.vehicles?.length ? await this.fleet.prepareAssignment(data.vehicles) : [];
+    const personnelIds = Array.from(
+      new Set([...(data.personnelIds ?? []), ...(team?.personnelIds ?? []), ...vehicles.map((v) => v.driverId)])
+    );
+
     // Verify all personnel exist and are available
     const personnel = await this.prisma.personnel.findMany({
       where: {
-        id: { in: data.personnelIds },
+        id: { in: personnelIds },
         status: {
           in: ['AVAILABLE', 'ON_DUTY', 'ON_BREAK'],
         },
       },
     });
 
-    if (personnel.length !== data.personnelIds.length) {
+    if (personnel.length !== personnelIds.length) {
       throw new ValidationError('One or more personnel not found or not available');
     }
 
-    // Remove existing assignments
-    await this.prisma.incidentAssignment.deleteMany({
-      where: { incidentId: id },
-    });
+    // Replace the assignments and claim the vehicles together, so a vehicle
+    // taken in the meantime leaves the previous assignment untouched
+    const { assignments, assignedVehicles } = await this.prisma.$transaction(async (tx) => {
+      await tx.incidentAssignment.deleteMany({
+        where: { incidentId: id },
+      });
 
-    // Create new assignments
-    const assignments = await this.prisma.incidentAssignment.createMany({
-      data: data.personnelIds.map((personnelId) => ({
-        incidentId: id,
-        personnelId,
-        assignedAt: new Date(),
-      })),
+      const assignments = await tx.incidentAssignment.createMany({
+        data: personnelIds.map((personnelId) => ({
+          incidentId: id,
+          personnelId,
+          teamId: team?.personnelIds.includes(personnelId) ? team.id : null,
+          assignedAt: new Date(),
+        })),
+      });
+
+      const assignedVehicles = await this.fleet.claimForIncident(tx, id, vehicles, userId);
+      return { assignments, assignedVehicles };
     });
 
+    if (team) {
+      await this.teams.markDeployed(team.id);
+    }
+
+    await this.fleet.releaseUnassignedDrivers(id, personnelIds, userId);
+    await this.fleet.announceAssignments(assignedVehicles, userId);
+
+    const message = [
+      `Assigned ${personnelIds.length} personnel`,
+      team && `(team ${team.name})`,
+      assignedVehicles.length > 0 && `with ${assignedVehicles.map((v) => v.vehicle.name).join(', ')}`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+
     // Update incident status if not already in progress
     if (incident.status === IncidentStatus.REPORTED) {
-      await this.prisma.incident.update({
-        where: { id },
-        data: { status: IncidentStatus.IN_PROGRESS },
+      await this.workflow.transition(id, IncidentStatus.IN_PROGRESS, { role: 'ADMIN', id: userId }, {
+        notes: message,
       });
     }
 
@@ -442,12 +824,89 @@ export class IncidentsService {
       data: {
         incidentId: id,
         userId,
-        message: `Assigned ${data.personnelIds.length} personnel`,
+        message,
+        updateType: 'PERSONNEL_ASSIGNED',
+      },
+    });
+
+    // Dropped personnel leave the incident chat room
+    incident.assignments
+      .filter((a) => !personnelIds.includes(a.personnelId))
+      .forEach((a) => this.chat.removeMember(id, a.personnelId));
+
+    this.bus.publish('PersonnelAssigned', {
+      incidentId: id,
+      personnelIds,
+      teamId: team?.id,
+      vehicleIds: assignedVehicles.map((v) => v.vehicleId),
+    });
+
+    return {
+      ...assignments,
+      personnelIds,
+      team: team && { id: team.id, name: team.name },
+      vehicles: assignedVehicles,
+    };
+  }
+
+  async getIncidentVehicles(id: string) {
+    const incident = await this.prisma.incident.findUnique({ where: { id }, select: { id: true } });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+    return this.fleet.getIncidentVehicles(id);
+  }
+
+  /**
+   * Send one more vehicle without touching the other assignments; its driver
+   * joins the assigned personnel if not already on the incident
+   */
+  async addIncidentVehicle(id: string, data: IncidentVehicleDTO, userId: string) {
+    const incident = await this.prisma.incident.findUnique({ where: { id }, select: { id: true } });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    const [vehicle] = await this.fleet.prepareAssignment([data]);
+
+    const driver = await this.prisma.personnel.findFirst({
+      where: { id: vehicle.driverId, status: { in: ['AVAILABLE', 'ON_DUTY', 'ON_BREAK', 'RESPONDING', 'ON_SCENE'] } },
+      select: { id: true },
+    });
+
+    if (!driver) {
+      throw new ValidationError('Driver not found or not available');
+    }
+
+    await this.prisma.incidentAssignment.createMany({
+      data: [{ incidentId: id, personnelId: vehicle.driverId, assignedAt: new Date() }],
+      skipDuplicates: true,
+    });
+
+    const [assigned] = await this.fleet.assignToIncident(id, [vehicle], userId);
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId: id,
+        userId,
+        message: `Sent ${assigned.vehicle.name} (driver ${assigned.driver.firstName} ${assigned.driver.lastName})`,
         updateType: 'PERSONNEL_ASSIGNED',
       },
     });
 
-    return assignments;
+    this.bus.publish('PersonnelAssigned', {
+      incidentId: id,
+      personnelIds: [assigned.driverId],
+      vehicleIds: [assigned.vehicleId],
+    });
+
+    return assigned;
+  }
+
+  async releaseIncidentVehicle(id: string, vehicleId: string, data: ReleaseVehicleDTO, actor: WorkflowActor) {
+    return this.fleet.releaseVehicle(id, vehicleId, data, { userId: actor.id, role: actor.role });
   }
 
   /**
@@ -513,14 +972,23 @@ export class IncidentsService {
 
     // Set primary responder if this is the first responder
     if (incident.assignments.length === 0 && !incident.primaryResponderId) {
-      await this.prisma.incident.update({
-        where: { id: incidentId },
-        data: {
-          primaryResponderId: personnelId,
-          status: ['VERIFIED', 'REPORTED', 'ACKNOWLEDGED'].includes(incident.status) ? 'RESPONDING' : incident.status,
-          respondingAt: new Date(),
-        },
-      });
+      const actor: WorkflowActor = { role: 'PERSONNEL', id: personnelId };
+
+      if (this.workflow.canTransition(incident.status, IncidentStatus.RESPONDING, actor)) {
+        await this.workflow.transition(incidentId, IncidentStatus.RESPONDING, actor, {
+          notes: `${personnel.firstName} ${personnel.lastName} started the response`,
+          data: { primaryResponderId: personnelId },
+        });
+      } else {
+        await this.prisma.incident.update({
+          where: { id: incidentId },
+          data: {
+            primaryResponderId: personnelId,
+            respondingAt: incident.respondingAt || new Date(),
+            version: { increment: 1 },
+          },
+        });
+      }
     }
 
     // Update personnel status to RESPONDING
@@ -539,10 +1007,23 @@ export class IncidentsService {
       },
     });
 
+    this.chat.addMembers(incidentId, [personnelId]);
+
+    this.bus.publish('ResponderJoined', {
+      incidentId,
+      personnelId,
+      totalResponders: incident.assignments.length + 1,
+      isPrimaryResponder: incident.assignments.length === 0,
+    });
+
+    // Hand the responder the playbook checklist for this incident
+    const { items: checklist } = await this.checklist.getChecklist(incidentId);
+
     return {
       assignment,
       isPrimaryResponder: incident.assignments.length === 0,
       totalResponders: incident.assignments.length + 1,
+      checklist,
     };
   }
 
@@ -603,6 +1084,7 @@ export class IncidentsService {
         where: { id: incidentId },
         data: {
           primaryResponderId: remainingAssignments.length > 0 ? remainingAssignments[0].personnelId : null,
+          version: { increment: 1 },
         },
       });
     }
@@ -617,6 +1099,8 @@ export class IncidentsService {
       },
     });
 
+    this.bus.publish('ResponderLeft', { incidentId, personnelId });
+
     return {
       message: 'Successfully left incident response',
     };
@@ -704,61 +1188,296 @@ export class IncidentsService {
       },
     });
 
+    this.bus.publish('IncidentUpdateAdded', { incidentId: id, update });
+
     return update;
   }
 
-  async deleteIncident(id: string, userId?: string) {
-    const incident = await this.prisma.incident.findUnique({
-      where: { id },
+  /**
+   * Merge duplicate reports into a primary incident. Photos, updates,
+   * acknowledgments and reporter contacts move to the primary; the
+   * duplicates are marked MERGED and keep a link back to it.
+   */
+  async mergeIncidents(primaryId: string, data: MergeIncidentsDTO, actor: WorkflowActor) {
+    const primary = await this.prisma.incident.findUnique({
+      where: { id: primaryId },
       include: {
-        _count: {
-          select: {
-            assignments: true,
-            photos: true,
-            updates: true,
-          },
-        },
+        notificationAcks: { select: { personnelId: true } },
       },
     });
 
-    if (!incident) {
+    if (!primary) {
       throw new NotFoundError('Incident not found');
     }
 
-    // Can only delete if no assignments, photos, or updates (or is in REPORTED status)
-    if (incident.status !== IncidentStatus.REPORTED &&
-      (incident._count.assignments > 0 || incident._count.photos > 0 || incident._count.updates > 1)) {
-      throw new ValidationError(
-        'Cannot delete incident with assignments, photos, or updates. Please archive instead.'
-      );
+    if (primary.mergedIntoId || primary.status === IncidentStatus.MERGED) {
+      throw new ValidationError('Cannot merge into an incident that has itself been merged');
+    }
+
+    const duplicateIds = [...new Set(data.incidentIds)];
+    if (duplicateIds.includes(primaryId)) {
+      throw new ValidationError('An incident cannot be merged into itself');
     }
 
-    // OWASP A09: Audit log BEFORE deletion
-    if (userId) {
+    const duplicates = await this.prisma.incident.findMany({
+      where: { id: { in: duplicateIds } },
+      include: {
+        notificationAcks: { select: { personnelId: true } },
+      },
+    });
+
+    if (duplicates.length !== duplicateIds.length) {
+      throw new NotFoundError('One or more incidents to merge were not found');
+    }
+
+    // Validate every duplicate before touching any of them
+    for (const duplicate of duplicates) {
+      await this.workflow.assertTransition(duplicate, IncidentStatus.MERGED, actor, { mergedIntoId: primaryId });
+    }
+
+    const ackedPersonnelIds = new Set(primary.notificationAcks.map((a) => a.personnelId));
+
+    for (const duplicate of duplicates) {
+      const movableAcks = duplicate.notificationAcks
+        .map((a) => a.personnelId)
+        .filter((personnelId) => !ackedPersonnelIds.has(personnelId));
+
+      await this.prisma.$transaction([
+        this.prisma.incidentPhoto.updateMany({
+          where: { incidentId: duplicate.id },
+          data: { incidentId: primaryId },
+        }),
+        this.prisma.incidentUpdate.updateMany({
+          where: { incidentId: duplicate.id },
+          data: { incidentId: primaryId },
+        }),
+        // Acks are unique per personnel, so only move the ones the primary lacks
+        this.prisma.incidentNotificationAck.updateMany({
+          where: { incidentId: duplicate.id, personnelId: { in: movableAcks } },
+          data: { incidentId: primaryId },
+        }),
+        this.prisma.incidentNotificationAck.deleteMany({
+          where: { incidentId: duplicate.id },
+        }),
+        this.prisma.incidentReporterContact.updateMany({
+          where: { incidentId: duplicate.id },
+          data: { incidentId: primaryId },
+        }),
+        this.prisma.incidentReporterContact.create({
+          data: {
+            incidentId: primaryId,
+            name: duplicate.reporterName,
+            phone: duplicate.reporterPhone,
+            email: duplicate.reporterEmail,
+            sourceIncidentId: duplicate.id,
+            reportedAt: duplicate.reportedAt,
+          },
+        }),
+        // Re-point anything previously merged into the duplicate
+        this.prisma.incident.updateMany({
+          where: { mergedIntoId: duplicate.id },
+          data: { mergedIntoId: primaryId, version: { increment: 1 } },
+        }),
+      ]);
+
+      movableAcks.forEach((personnelId) => ackedPersonnelIds.add(personnelId));
+
+      await this.workflow.transition(duplicate.id, IncidentStatus.MERGED, actor, {
+        mergedIntoId: primaryId,
+        notes: data.notes || `Merged into ${primary.incidentNumber}`,
+        metadata: { mergedIntoId: primaryId },
+      });
+    }
+
+    const mergedNumbers = duplicates.map((d) => d.incidentNumber);
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId: primaryId,
+        ...actorReference(actor),
+        message: `Merged ${duplicates.length} duplicate report(s): ${mergedNumbers.join(', ')}`,
+        updateType: 'INFO',
+        metadata: { mergedIncidentIds: duplicateIds },
+      },
+    });
+
+    if (actor.role === 'ADMIN') {
       const auditService = new AuditService(this.prisma);
       await auditService.createLog({
-        userId,
-        action: AuditAction.INCIDENT_DELETED,
+        userId: actor.id,
+        action: AuditAction.INCIDENT_MERGED,
         resourceType: 'INCIDENT',
-        resourceId: incident.id,
+        resourceId: primaryId,
         details: {
-          incidentNumber: incident.incidentNumber,
-          type: incident.type,
-          priority: incident.priority,
-          status: incident.status,
-          title: incident.title,
-          deletedAt: new Date().toISOString(),
+          incidentNumber: primary.incidentNumber,
+          mergedIncidentIds: duplicateIds,
+          mergedIncidentNumbers: mergedNumbers,
+          notes: data.notes,
         },
       });
     }
 
-    await this.prisma.incident.delete({
+    const merged = await this.getIncidentById(primaryId);
+    this.bus.publish('IncidentsMerged', { incident: merged, mergedIncidentIds: duplicateIds });
+
+    return merged;
+  }
+
+  /**
+   * Soft delete an incident. The row and its photos, timeline and resolution are kept
+   * and can be brought back with restoreIncident.
+   */
+  async deleteIncident(id: string, data: DeleteIncidentDTO, userId: string) {
+    const incident = await this.prisma.incident.findUnique({
       where: { id },
     });
 
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    const deletedAt = new Date();
+
+    await this.prisma.incident.update({
+      where: { id },
+      data: {
+        deletedAt,
+        deletedById: userId,
+        deletionReason: data.reason,
+        version: { increment: 1 },
+      },
+    });
+
+    // OWASP A09: Audit log every deletion
+    const auditService = new AuditService(this.prisma);
+    await auditService.createLog({
+      userId,
+      action: AuditAction.INCIDENT_DELETED,
+      resourceType: 'INCIDENT',
+      resourceId: incident.id,
+      details: {
+        incidentNumber: incident.incidentNumber,
+        type: incident.type,
+        priority: incident.priority,
+        status: incident.status,
+        title: incident.title,
+        reason: data.reason,
+        deletedAt: deletedAt.toISOString(),
+      },
+    });
+
+    this.bus.publish('IncidentDeleted', { incidentId: id, deletedBy: userId });
+
     return { id };
   }
 
+  /**
+   * List soft-deleted incidents (Admin only)
+   */
+  async getDeletedIncidents(query: DeletedIncidentListQuery): Promise<PaginatedResponse<any>> {
+    const page = query.page || 1;
+    const limit = query.limit || CONSTANTS.DEFAULT_PAGE_SIZE;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.IncidentWhereInput = {
+      deletedAt: { not: null },
+      ...(query.search && {
+        OR: [
+          { incidentNumber: { contains: query.search, mode: 'insensitive' } },
+          { title: { contains: query.search, mode: 'insensitive' } },
+          { deletionReason: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [total, incidents] = await Promise.all([
+      this.prisma.incident.count({ where }),
+      this.prisma.incident.findMany({
+        where,
+        include: {
+          barangay: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          deletedBy: {
+            select: {
+              id: true,
+              email: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+        skip,
+        take: limit,
+        orderBy: { deletedAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      data: incidents.map((incident) => this.mapIncidentForFrontend(incident)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Bring back a soft-deleted incident (Admin only)
+   */
+  async restoreIncident(id: string, userId: string) {
+    const incident = await this.prisma.incident.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Deleted incident not found');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.incident.update({
+        where: { id },
+        data: {
+          deletedAt: null,
+          deletedById: null,
+          deletionReason: null,
+          version: { increment: 1 },
+        },
+      }),
+      this.prisma.incidentUpdate.create({
+        data: {
+          incidentId: id,
+          userId,
+          message: `Incident restored (deleted ${incident.deletedAt!.toISOString()}: ${incident.deletionReason || 'no reason given'})`,
+          updateType: 'INFO',
+        },
+      }),
+    ]);
+
+    const auditService = new AuditService(this.prisma);
+    await auditService.createLog({
+      userId,
+      action: AuditAction.INCIDENT_RESTORED,
+      resourceType: 'INCIDENT',
+      resourceId: id,
+      details: {
+        incidentNumber: incident.incidentNumber,
+        deletedAt: incident.deletedAt!.toISOString(),
+        deletionReason: incident.deletionReason,
+      },
+    });
+
+    const restored = await this.getIncidentById(id);
+    this.bus.publish('IncidentRestored', { incident: restored, restoredBy: userId });
+
+    return restored;
+  }
+
   /**
    * Get detailed incident statistics for the dashboard
    * @returns IncidentStatistics object matching the frontend interface
@@ -972,49 +1691,6 @@ export class IncidentsService {
     return Math.round(totalMinutes / resolvedIncidents.length);
   }
 
-  private async findNearestBarangay(lat: number, lon: number) {
-    const barangays = await this.prisma.barangay.findMany({
-      where: { isActive: true },
-      select: {
-        id: true,
-        name: true,
-        latitude: true,
-        longitude: true,
-      },
-    });
-
-    if (barangays.length === 0) return null;
-
-    let nearest = barangays[0];
-    let minDistance = this.calculateDistance(lat, lon, nearest.latitude, nearest.longitude);
-
-    for (const barangay of barangays) {
-      const distance = this.calculateDistance(lat, lon, barangay.latitude, barangay.longitude);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearest = barangay;
-      }
-    }
-
-    return nearest;
-  }
-
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371;
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
   async acknowledgeIncident(incidentId: string, personnelId: string) {
     // Check if incident exists
     const incident = await this.prisma.incident.findUnique({
@@ -1051,6 +1727,15 @@ export class IncidentsService {
       },
     });
 
+    const stats = await this.getIncidentAcknowledgments(incidentId);
+    this.bus.publish('IncidentAcknowledged', {
+      incidentId,
+      personnelId,
+      acknowledgedCount: stats.acknowledgedCount,
+      totalPersonnelNotified: stats.totalPersonnelNotified,
+      acknowledgmentPercentage: stats.acknowledgmentPercentage,
+    });
+
     return ack;
   }
 
@@ -1141,30 +1826,6 @@ export class IncidentsService {
     }));
   }
 
-  private validateStatusTransition(currentStatus: IncidentStatus, newStatus: IncidentStatus) {
-    const validTransitions: Record<IncidentStatus, IncidentStatus[]> = {
-      [IncidentStatus.PENDING_VERIFICATION]: [IncidentStatus.VERIFIED, IncidentStatus.SPAM],
-      [IncidentStatus.VERIFIED]: [IncidentStatus.ACKNOWLEDGED, IncidentStatus.RESPONDING, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.REPORTED]: [IncidentStatus.ACKNOWLEDGED, IncidentStatus.IN_PROGRESS, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.ACKNOWLEDGED]: [IncidentStatus.DISPATCHED, IncidentStatus.RESPONDING, IncidentStatus.IN_PROGRESS, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.DISPATCHED]: [IncidentStatus.RESPONDING, IncidentStatus.IN_PROGRESS, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.RESPONDING]: [IncidentStatus.ARRIVED, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.ARRIVED]: [IncidentStatus.PENDING_RESOLVE, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.IN_PROGRESS]: [IncidentStatus.PENDING_RESOLVE, IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.PENDING_RESOLVE]: [IncidentStatus.RESOLVED, IncidentStatus.CANCELLED],
-      [IncidentStatus.RESOLVED]: [IncidentStatus.CLOSED],
-      [IncidentStatus.CLOSED]: [IncidentStatus.REPORTED], // Can reopen
-      [IncidentStatus.CANCELLED]: [IncidentStatus.REPORTED], // Can reactivate
-      [IncidentStatus.SPAM]: [IncidentStatus.REPORTED]
-    };
-
-    if (!validTransitions[currentStatus].includes(newStatus)) {
-      throw new ValidationError(
-        `Cannot transition from ${currentStatus} to ${newStatus}`
-      );
-    }
-  }
-
   /**
    * Verify an incident (Admin action)
    */
@@ -1187,21 +1848,20 @@ export class IncidentsService {
 
     console.log('📊 Incident status:', incident.status);
 
-    if (incident.status !== IncidentStatus.PENDING_VERIFICATION) {
-      console.log('❌ Invalid status for verification:', incident.status);
-      throw new ValidationError(
-        'Only pending incidents can be verified'
-      );
-    }
+    // Update incident status to VERIFIED and optionally priority; the transition applies
+    // playbook checklists and runs auto-dispatch
+    const { autoDispatch } = await this.workflow.transitionWithEffects(
+      incidentId,
+      IncidentStatus.VERIFIED,
+      { role: 'ADMIN', id: userId },
+      {
+        notes: notes || 'Incident verified by admin',
+        data: priority ? { priority } : undefined,
+      }
+    );
 
-    // Update incident status to VERIFIED and optionally priority
-    const updatedIncident = await this.prisma.incident.update({
+    const updatedIncident = await this.prisma.incident.findUniqueOrThrow({
       where: { id: incidentId },
-      data: {
-        status: IncidentStatus.VERIFIED,
-        verifiedAt: new Date(),
-        ...(priority && { priority }),
-      },
       include: {
         barangay: {
           select: {
@@ -1238,15 +1898,6 @@ export class IncidentsService {
       },
     });
 
-    // Add timeline entry - temporarily disabled to fix 500 error
-    // const timelineService = new TimelineService(this.prisma);
-    // await timelineService.addEntry({
-    //   incidentId,
-    //   status: IncidentStatus.VERIFIED,
-    //   userId,
-    //   notes: notes || 'Incident verified by admin',
-    // });
-
     // Calculate total personnel to be notified (available, on duty, on break)
     const totalPersonnelNotified = await this.prisma.personnel.count({
       where: {
@@ -1256,12 +1907,16 @@ export class IncidentsService {
       },
     });
 
-    return {
+    const verified = {
       ...this.mapIncidentForFrontend(updatedIncident),
       totalPersonnelNotified,
       acknowledgmentCount: 0,
       acknowledgmentPercentage: 0,
+      autoDispatch,
     };
+    this.bus.publish('IncidentVerified', { incident: verified, verifiedBy: userId });
+
+    return verified;
   }
 
   /**
@@ -1283,19 +1938,14 @@ export class IncidentsService {
       throw new NotFoundError('Incident not found');
     }
 
-    if (!resolutionNotes || resolutionNotes.trim().length < 10) {
-      throw new ValidationError(
-        'Resolution notes must be at least 10 characters'
-      );
-    }
+    // Resolve and automatically close; the workflow enforces resolution notes
+    await this.workflow.transition(incidentId, IncidentStatus.CLOSED, { role: 'ADMIN', id: userId }, {
+      resolutionNotes,
+      notes: 'Incident closed automatically after resolution',
+    });
 
-    // Update incident status to RESOLVED and automatically close
-    const closedIncident = await this.prisma.incident.update({
+    const closedIncident = await this.prisma.incident.findUniqueOrThrow({
       where: { id: incidentId },
-      data: {
-        status: IncidentStatus.CLOSED,
-        closedAt: new Date(),
-      },
       include: {
         barangay: true,
         resolvedBy: {
@@ -1314,16 +1964,10 @@ export class IncidentsService {
       },
     });
 
-    // Add timeline entry for CLOSED
-    const timelineService = new TimelineService(this.prisma);
-    await timelineService.addEntry({
-      incidentId,
-      status: IncidentStatus.CLOSED,
-      userId,
-      notes: 'Incident closed automatically after resolution',
-    });
+    const resolved = this.mapIncidentForFrontend(closedIncident);
+    this.bus.publish('IncidentResolved', { incidentId, resolvedBy: userId, incident: resolved });
 
-    return this.mapIncidentForFrontend(closedIncident);
+    return resolved;
   }
 
   /**
@@ -1478,10 +2122,11 @@ export class IncidentsService {
     }
 
     // Check if incident can be resolved
-    const validStatuses = ['RESPONDING', 'ARRIVED', 'IN_PROGRESS'];
-    if (!validStatuses.includes(incident.status)) {
-      throw new ValidationError('Incident cannot be resolved in current status');
-    }
+    const actor: WorkflowActor = { role: 'PERSONNEL', id: data.personnelId };
+    await this.workflow.assertTransition(incident, IncidentStatus.PENDING_RESOLVE, actor);
+
+    // Playbooks can require their checklist to be completed first
+    await this.checklist.assertResolutionPrerequisites(incidentId);
 
     // Check if resolution already exists
     const existingResolution = await this.prisma.incidentResolution.findUnique({
@@ -1518,9 +2163,9 @@ export class IncidentsService {
     });
 
     // Update incident status to PENDING_RESOLVE
-    await this.prisma.incident.update({
-      where: { id: incidentId },
-      data: { status: 'PENDING_RESOLVE' }
+    await this.workflow.transition(incidentId, IncidentStatus.PENDING_RESOLVE, actor, {
+      notes: 'Resolution report submitted',
+      metadata: { resolutionId: resolution.id },
     });
 
     // Create update log
@@ -1533,6 +2178,12 @@ export class IncidentsService {
       },
     });
 
+    this.bus.publish('ResolutionSubmitted', {
+      incidentId,
+      resolutionId: resolution.id,
+      personnelId: data.personnelId,
+    });
+
     return resolution;
   }
 
@@ -1573,7 +2224,7 @@ export class IncidentsService {
   /**
    * Update resolution (Admin only)
    */
-  async updateResolution(incidentId: string, data: UpdateResolutionDTO) {
+  async updateResolution(incidentId: string, data: UpdateResolutionDTO, expectedVersion?: number) {
     const resolution = await this.prisma.incidentResolution.findUnique({
       where: { incidentId }
     });
@@ -1582,29 +2233,46 @@ export class IncidentsService {
       throw new NotFoundError('Resolution not found');
     }
 
-    return await this.prisma.incidentResolution.update({
-      where: { incidentId },
-      data: {
-        ...(data.what && { what: data.what }),
-        ...(data.when && { when: data.when }),
-        ...(data.where && { where: data.where }),
-        ...(data.who && { who: data.who }),
-        ...(data.why && { why: data.why }),
-        ...(data.how && { how: data.how }),
-        ...(data.notes !== undefined && { notes: data.notes }),
-        ...(data.adminNotes !== undefined && { adminNotes: data.adminNotes }),
-      },
-      include: {
-        submittedByPersonnel: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            role: true,
+    ConcurrencyService.assertVersion(resolution, expectedVersion, 'Resolution');
+
+    let updated;
+    try {
+      updated = await this.prisma.incidentResolution.update({
+        where: { incidentId, version: resolution.version },
+        data: {
+          ...(data.what && { what: data.what }),
+          ...(data.when && { when: data.when }),
+          ...(data.where && { where: data.where }),
+          ...(data.who && { who: data.who }),
+          ...(data.why && { why: data.why }),
+          ...(data.how && { how: data.how }),
+          ...(data.notes !== undefined && { notes: data.notes }),
+          ...(data.adminNotes !== undefined && { adminNotes: data.adminNotes }),
+          version: { increment: 1 },
+        },
+        include: {
+          submittedByPersonnel: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              role: true,
+            }
           }
         }
-      }
-    });
+      });
+    } catch (error) {
+      if (!ConcurrencyService.isStaleWrite(error)) throw error;
+      throw ConcurrencyService.conflict(
+        'Resolution',
+        await this.prisma.incidentResolution.findUnique({ where: { incidentId } })
+      );
+    }
+
+    // Lets open screens refresh to the new version
+    this.bus.publish('IncidentUpdated', { incident: await this.getIncidentById(incidentId) });
+
+    return updated;
   }
 
   /**
@@ -1626,28 +2294,27 @@ export class IncidentsService {
       throw new NotFoundError('No resolution report to confirm');
     }
 
-    if (incident.status !== 'PENDING_RESOLVE') {
+    if (incident.status !== IncidentStatus.PENDING_RESOLVE) {
       throw new ValidationError('Incident is not pending resolution confirmation');
     }
 
+    const actor: WorkflowActor = { role: 'ADMIN', id: adminId };
+    await this.workflow.assertTransition(incident, IncidentStatus.RESOLVED, actor);
+
     // Update resolution with admin confirmation
     await this.prisma.incidentResolution.update({
       where: { incidentId },
       data: {
         confirmedByAdminId: adminId,
         confirmedAt: new Date(),
+        version: { increment: 1 },
         ...(data.adminNotes && { adminNotes: data.adminNotes }),
       }
     });
 
     // Update incident status to RESOLVED
-    await this.prisma.incident.update({
-      where: { id: incidentId },
-      data: {
-        status: 'RESOLVED',
-        resolvedAt: new Date(),
-        resolvedById: adminId,
-      }
+    await this.workflow.transition(incidentId, IncidentStatus.RESOLVED, actor, {
+      notes: data.adminNotes || 'Resolution confirmed',
     });
 
     // Create update log
@@ -1660,6 +2327,8 @@ export class IncidentsService {
       },
     });
 
+    this.bus.publish('IncidentResolved', { incidentId, resolvedBy: adminId });
+
     return await this.getResolution(incidentId);
   }
 }
@@ -1,4 +1,5 @@
-import { IncidentStatus, IncidentPriority, IncidentType } from '@prisma/client';
+import { IncidentStatus, IncidentPriority, IncidentType, PersonnelRole, PersonnelStatus } from '@prisma/client';
+import { IncidentVehicleDTO } from '../fleet/fleet.types';
 
 export interface CreateIncidentDTO {
   title: string;
@@ -11,6 +12,8 @@ export interface CreateIncidentDTO {
   reporterName: string;
   reporterPhone: string;
   barangayId?: string;
+  majorEventId?: string;
+  customFields?: Record<string, unknown>;
 }
 
 export interface UpdateIncidentDTO {
@@ -25,8 +28,14 @@ export interface UpdateIncidentDTO {
   reporterName?: string;
   reporterPhone?: string;
   barangayId?: string;
+  majorEventId?: string | null;
+  customFields?: Record<string, unknown>;
 }
 
+// Columns GET /incidents can be sorted by
+export const INCIDENT_SORT_FIELDS = ['reportedAt', 'updatedAt', 'priority', 'status', 'type', 'incidentNumber'] as const;
+export type IncidentSortField = typeof INCIDENT_SORT_FIELDS[number];
+
 export interface IncidentListQuery {
   page?: number;
   limit?: number;
@@ -35,12 +44,23 @@ export interface IncidentListQuery {
   priority?: IncidentPriority;
   status?: IncidentStatus;
   barangayId?: string;
+  eventId?: string;
+  customFields?: string;
+  tags?: string;
+  isAssigned?: boolean;
   fromDate?: string;
   toDate?: string;
+  includeArchived?: boolean;
+  sortBy?: IncidentSortField;
+  sortOrder?: 'asc' | 'desc';
+  // Saved view to start from; other parameters override its filters
+  viewId?: string;
 }
 
 export interface AssignPersonnelDTO {
-  personnelIds: string[];
+  personnelIds?: string[];
+  teamId?: string; // Expanded to the team's available members
+  vehicles?: IncidentVehicleDTO[]; // Their drivers are assigned too
 }
 
 export interface AddIncidentUpdateDTO {
@@ -66,3 +86,100 @@ export interface IncidentWithAckCount {
   acknowledgmentPercentage: number;
   acknowledgedPersonnelIds: string[];
 }
+
+export interface MergeIncidentsDTO {
+  incidentIds: string[];
+  notes?: string;
+}
+
+export interface DuplicateCandidate {
+  type: IncidentType;
+  description: string;
+  latitude: number;
+  longitude: number;
+  reportedAt: Date;
+}
+
+export interface DuplicateSuggestion {
+  incidentId: string;
+  incidentNumber: string;
+  type: IncidentType;
+  status: IncidentStatus;
+  address: string;
+  reportedAt: Date;
+  score: number;
+  distanceMeters: number;
+  minutesApart: number;
+  breakdown: {
+    distance: number;
+    time: number;
+    type: number;
+    description: number;
+  };
+}
+
+export interface RecommendedRespondersQuery {
+  limit?: number;
+  certifications?: string; // Comma-separated codes, all required
+}
+
+export interface RecommendedResponder {
+  personnelId: string;
+  employeeId: string;
+  name: string;
+  role: PersonnelRole;
+  status: PersonnelStatus;
+  score: number;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+  openIncidents: number;
+  certifications: string[]; // Codes of valid certifications held
+  currentLocation: {
+    lat: number;
+    lng: number;
+    timestamp: Date;
+    isStale: boolean;
+  } | null;
+  breakdown: {
+    distance: number;
+    status: number;
+    role: number;
+    workload: number;
+  };
+}
+
+export interface DeleteIncidentDTO {
+  reason: string;
+}
+
+export interface DeletedIncidentListQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+}
+
+export interface SetParentIncidentDTO {
+  parentIncidentId: string | null;
+}
+
+export interface AddIncidentLinkDTO {
+  incidentId: string;
+  note?: string;
+}
+
+export interface LinkedIncidentSummary {
+  id: string;
+  incidentNumber: string;
+  type: IncidentType;
+  priority: IncidentPriority;
+  status: IncidentStatus;
+  title: string;
+  reportedAt: Date;
+}
+
+export interface IncidentLinks {
+  majorEvent: { id: string; name: string; status: string } | null;
+  parent: LinkedIncidentSummary | null;
+  children: LinkedIncidentSummary[];
+  related: Array<LinkedIncidentSummary & { linkId: string; note: string | null; linkedAt: Date }>;
+}
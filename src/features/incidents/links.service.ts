@@ -0,0 +1,194 @@
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../../core/errors';
+import { IncidentLinks, LinkedIncidentSummary } from './incidents.types';
+
+const linkedIncidentSelect = {
+  id: true,
+  incidentNumber: true,
+  type: true,
+  priority: true,
+  status: true,
+  title: true,
+  reportedAt: true,
+} as const;
+
+export class IncidentLinksService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Event, parent, children and related-to links of an incident
+   */
+  async getLinks(incidentId: string): Promise<IncidentLinks> {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: {
+        majorEvent: { select: { id: true, name: true, status: true } },
+        parentIncident: { select: linkedIncidentSelect },
+        childIncidents: { select: linkedIncidentSelect, orderBy: { reportedAt: 'asc' } },
+        linksFrom: { include: { targetIncident: { select: linkedIncidentSelect } } },
+        linksTo: { include: { sourceIncident: { select: linkedIncidentSelect } } },
+      },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    // Links are undirected, so read both sides of the pair
+    const related = [
+      ...incident.linksFrom.map((link) => ({ link, other: link.targetIncident })),
+      ...incident.linksTo.map((link) => ({ link, other: link.sourceIncident })),
+    ].map(({ link, other }) => ({
+      ...other,
+      linkId: link.id,
+      note: link.note,
+      linkedAt: link.createdAt,
+    }));
+
+    return {
+      majorEvent: incident.majorEvent,
+      parent: incident.parentIncident,
+      children: incident.childIncidents,
+      related,
+    };
+  }
+
+  /**
+   * Make an incident a child of another, or detach it when parentId is null
+   */
+  async setParent(incidentId: string, parentId: string | null, userId: string): Promise<IncidentLinks> {
+    const incident = await this.findIncident(incidentId);
+
+    let parent: LinkedIncidentSummary | null = null;
+    if (parentId) {
+      if (parentId === incidentId) {
+        throw new ValidationError('An incident cannot be its own parent');
+      }
+
+      parent = await this.findIncident(parentId);
+      await this.assertNotDescendant(parentId, incidentId);
+    }
+
+    await this.prisma.incident.update({
+      where: { id: incidentId },
+      data: { parentIncidentId: parentId, version: { increment: 1 } },
+    });
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId,
+        userId,
+        message: parent
+          ? `Set as child of incident ${parent.incidentNumber}`
+          : `Detached from parent incident`,
+        updateType: 'INFO',
+        metadata: { parentIncidentId: parentId, previousParentIncidentId: incident.parentIncidentId },
+      },
+    });
+
+    return this.getLinks(incidentId);
+  }
+
+  /**
+   * Mark two incidents as related to each other
+   */
+  async addRelated(incidentId: string, relatedId: string, note: string | undefined, userId: string): Promise<IncidentLinks> {
+    if (incidentId === relatedId) {
+      throw new ValidationError('An incident cannot be linked to itself');
+    }
+
+    const [incident, related] = await Promise.all([
+      this.findIncident(incidentId),
+      this.findIncident(relatedId),
+    ]);
+
+    const [sourceIncidentId, targetIncidentId] = this.orderPair(incidentId, relatedId);
+
+    const existing = await this.prisma.incidentLink.findUnique({
+      where: { sourceIncidentId_targetIncidentId: { sourceIncidentId, targetIncidentId } },
+    });
+
+    if (existing) {
+      throw new ValidationError('Incidents are already linked');
+    }
+
+    await this.prisma.incidentLink.create({
+      data: { sourceIncidentId, targetIncidentId, note, createdById: userId },
+    });
+
+    await this.prisma.incidentUpdate.createMany({
+      data: [
+        { incidentId, userId, message: `Linked as related to incident ${related.incidentNumber}`, updateType: 'INFO' },
+        { incidentId: relatedId, userId, message: `Linked as related to incident ${incident.incidentNumber}`, updateType: 'INFO' },
+      ],
+    });
+
+    return this.getLinks(incidentId);
+  }
+
+  async removeRelated(incidentId: string, relatedId: string, userId: string): Promise<IncidentLinks> {
+    const [sourceIncidentId, targetIncidentId] = this.orderPair(incidentId, relatedId);
+
+    const link = await this.prisma.incidentLink.findUnique({
+      where: { sourceIncidentId_targetIncidentId: { sourceIncidentId, targetIncidentId } },
+      include: {
+        sourceIncident: { select: { incidentNumber: true } },
+        targetIncident: { select: { incidentNumber: true } },
+      },
+    });
+
+    if (!link) {
+      throw new NotFoundError('Incident link not found');
+    }
+
+    await this.prisma.incidentLink.delete({ where: { id: link.id } });
+
+    await this.prisma.incidentUpdate.createMany({
+      data: [
+        { incidentId: sourceIncidentId, userId, message: `Unlinked from incident ${link.targetIncident.incidentNumber}`, updateType: 'INFO' },
+        { incidentId: targetIncidentId, userId, message: `Unlinked from incident ${link.sourceIncident.incidentNumber}`, updateType: 'INFO' },
+      ],
+    });
+
+    return this.getLinks(incidentId);
+  }
+
+  private async findIncident(id: string) {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id },
+      select: { ...linkedIncidentSelect, parentIncidentId: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    return incident;
+  }
+
+  /**
+   * Walk up from the proposed parent to make sure the hierarchy stays acyclic
+   */
+  private async assertNotDescendant(parentId: string, incidentId: string) {
+    const visited = new Set<string>();
+    let currentId: string | null = parentId;
+
+    while (currentId && !visited.has(currentId)) {
+      if (currentId === incidentId) {
+        throw new ValidationError('An incident cannot be a child of its own descendant');
+      }
+
+      visited.add(currentId);
+      const current: { parentIncidentId: string | null } | null = await this.prisma.incident.findUnique({
+        where: { id: currentId },
+        select: { parentIncidentId: true },
+      });
+      currentId = current?.parentIncidentId ?? null;
+    }
+  }
+
+  // Related links are stored once per pair, lowest id first
+  private orderPair(a: string, b: string): [string, string] {
+    return a < b ? [a, b] : [b, a];
+  }
+}
@@ -0,0 +1,158 @@
+import { PrismaClient, IncidentStatus, IncidentType, PersonnelRole, PersonnelStatus } from '@prisma/client';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError } from '../../core/errors';
+import { GeoService } from '../../core/utils/geo';
+import { CertificationsService, certificationFilterWhere } from '../certifications/certifications.service';
+import { RecommendedResponder } from './incidents.types';
+
+// A responder row on an incident in one of these statuses no longer counts as workload
+const FINISHED_STATUSES: IncidentStatus[] = [
+  IncidentStatus.PENDING_RESOLVE,
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+export class ResponderRecommendationService {
+  private certifications: CertificationsService;
+
+  constructor(private prisma: PrismaClient) {
+    this.certifications = new CertificationsService(prisma);
+  }
+
+  /**
+   * Top personnel for an incident, optionally only those holding every
+   * given certification (comma-separated codes)
+   */
+  async recommend(incidentId: string, limit?: number, certifications?: string): Promise<RecommendedResponder[]> {
+    const codes = await this.certifications.resolveCodes(certifications);
+    const ranked = await this.rankCandidates(incidentId, codes);
+    return ranked.slice(0, limit ?? CONSTANTS.RESPONDER_RECOMMENDATION.MAX_CANDIDATES);
+  }
+
+  /**
+   * Rank every eligible person by distance, status, role match and workload.
+   * Required certifications must be held and not expired.
+   */
+  async rankCandidates(incidentId: string, requiredCertifications: string[] = []): Promise<RecommendedResponder[]> {
+    const config = CONSTANTS.RESPONDER_RECOMMENDATION;
+    const statusScores = config.STATUS_SCORES as Partial<Record<PersonnelStatus, number>>;
+
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: {
+        id: true,
+        type: true,
+        latitude: true,
+        longitude: true,
+        assignments: { select: { personnelId: true } },
+        responders: { select: { personnelId: true } },
+      },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    // Personnel already on this incident are not recommended again
+    const alreadyInvolved = [
+      ...incident.assignments.map((a) => a.personnelId),
+      ...incident.responders.map((r) => r.personnelId),
+    ];
+
+    const now = new Date();
+    const personnel = await this.prisma.personnel.findMany({
+      where: {
+        id: { notIn: alreadyInvolved },
+        status: { in: Object.keys(statusScores) as PersonnelStatus[] },
+        AND: certificationFilterWhere({ codes: requiredCertifications }, now),
+      },
+      select: {
+        id: true,
+        employeeId: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        status: true,
+        locations: {
+          orderBy: { timestamp: 'desc' },
+          take: 1,
+        },
+        certifications: {
+          where: { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+          select: { type: { select: { code: true } } },
+        },
+        incidentResponders: {
+          where: {
+            leftAt: null,
+            incident: { status: { notIn: FINISHED_STATUSES } },
+          },
+          select: { id: true },
+        },
+      },
+    });
+
+    const staleBefore = Date.now() - config.LOCATION_STALE_MINUTES * 60 * 1000;
+
+    return personnel
+      .map((person): RecommendedResponder => {
+        const location = person.locations[0];
+        const distanceKm = location
+          ? GeoService.distanceKm(location.latitude, location.longitude, incident.latitude, incident.longitude)
+          : null;
+        const openIncidents = person.incidentResponders.length;
+
+        const breakdown = {
+          // Personnel without a known location still rank, just never on distance
+          distance: distanceKm === null ? 0 : Math.max(0, 1 - distanceKm / config.MAX_DISTANCE_KM),
+          status: statusScores[person.status] ?? 0,
+          role: this.roleScore(incident.type, person.role),
+          workload: Math.max(0, 1 - openIncidents / config.MAX_OPEN_INCIDENTS),
+        };
+
+        const score =
+          breakdown.distance * config.WEIGHTS.DISTANCE +
+          breakdown.status * config.WEIGHTS.STATUS +
+          breakdown.role * config.WEIGHTS.ROLE +
+          breakdown.workload * config.WEIGHTS.WORKLOAD;
+
+        return {
+          personnelId: person.id,
+          employeeId: person.employeeId,
+          name: `${person.firstName} ${person.lastName}`,
+          role: person.role,
+          status: person.status,
+          score: Math.round(score * 100) / 100,
+          distanceKm: distanceKm === null ? null : Math.round(distanceKm * 100) / 100,
+          etaMinutes: distanceKm === null ? null : Math.ceil((distanceKm / config.AVERAGE_SPEED_KMH) * 60),
+          openIncidents,
+          certifications: person.certifications.map((c) => c.type.code),
+          currentLocation: location
+            ? {
+                lat: location.latitude,
+                lng: location.longitude,
+                timestamp: location.timestamp,
+                isStale: location.timestamp.getTime() < staleBefore,
+              }
+            : null,
+          breakdown,
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * 1 for the specialist role, 0.5 for general responders, 0 otherwise.
+   * Incident types without a specialist treat every role equally.
+   */
+  private roleScore(type: IncidentType, role: PersonnelRole): number {
+    const roleMatch = CONSTANTS.RESPONDER_RECOMMENDATION.ROLE_MATCH as Partial<Record<IncidentType, PersonnelRole>>;
+    const preferred = roleMatch[type];
+
+    if (!preferred || role === preferred) return 1;
+    if (role === PersonnelRole.RESPONDER) return 0.5;
+    return 0;
+  }
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { IncidentPriority, IncidentStatus, IncidentType } from '@prisma/client';
+import { INCIDENT_SORT_FIELDS } from './incidents.types';
+
+// Comma-separated list where every entry must be a value of the enum
+const enumListSchema = (values: Record<string, string>, label: string) =>
+  z.string().refine(
+    (val) => val.split(',').every((item) => Object.values(values).includes(item.trim())),
+    `Invalid ${label}`
+  );
+
+export const savedViewFiltersSchema = z.object({
+  search: z.string().optional(),
+  type: enumListSchema(IncidentType, 'incident type').optional(),
+  priority: enumListSchema(IncidentPriority, 'priority').optional(),
+  status: enumListSchema(IncidentStatus, 'status').optional(),
+  barangayId: z.string().optional(),
+  eventId: z.string().optional(),
+  customFields: z.string().optional(),
+  tags: z.string().optional(),
+  isAssigned: z.boolean().optional(),
+  fromDate: z.string().datetime().optional(),
+  toDate: z.string().datetime().optional(),
+  includeArchived: z.boolean().optional(),
+}).strict();
+
+export const createSavedViewSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  filters: savedViewFiltersSchema,
+  sortBy: z.enum(INCIDENT_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  isShared: z.boolean().optional(),
+});
+
+export const updateSavedViewSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  filters: savedViewFiltersSchema.optional(),
+  sortBy: z.enum(INCIDENT_SORT_FIELDS).nullable().optional(),
+  sortOrder: z.enum(['asc', 'desc']).nullable().optional(),
+  isShared: z.boolean().optional(),
+});
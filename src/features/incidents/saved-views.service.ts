@@ -0,0 +1,124 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { NotFoundError, ForbiddenError, ConflictError } from '../../core/errors';
+import { IncidentListQuery } from './incidents.types';
+import { CreateSavedViewDTO, UpdateSavedViewDTO } from './saved-views.types';
+
+const ownerSelect = {
+  owner: { select: { id: true, firstName: true, lastName: true } },
+};
+
+/**
+ * Named GET /incidents filter and sort presets. A view belongs to the admin
+ * who saved it and can be shared with every other admin.
+ */
+export class SavedIncidentViewsService {
+  constructor(private prisma: PrismaClient) {}
+
+  async getViews(userId: string) {
+    const views = await this.prisma.savedIncidentView.findMany({
+      where: { OR: [{ ownerId: userId }, { isShared: true }] },
+      include: ownerSelect,
+      orderBy: { name: 'asc' },
+    });
+
+    return views.map((view) => ({ ...view, isOwner: view.ownerId === userId }));
+  }
+
+  /**
+   * Own views and views shared by other admins
+   */
+  async getView(id: string, userId: string) {
+    const view = await this.prisma.savedIncidentView.findUnique({
+      where: { id },
+      include: ownerSelect,
+    });
+
+    if (!view || (view.ownerId !== userId && !view.isShared)) {
+      throw new NotFoundError('Saved view not found');
+    }
+
+    return { ...view, isOwner: view.ownerId === userId };
+  }
+
+  async createView(data: CreateSavedViewDTO, userId: string) {
+    await this.assertNameAvailable(data.name, userId);
+
+    return this.prisma.savedIncidentView.create({
+      data: {
+        ...data,
+        filters: data.filters as Prisma.InputJsonObject,
+        ownerId: userId,
+      },
+      include: ownerSelect,
+    });
+  }
+
+  async updateView(id: string, data: UpdateSavedViewDTO, userId: string) {
+    const view = await this.getOwnView(id, userId);
+
+    if (data.name && data.name !== view.name) {
+      await this.assertNameAvailable(data.name, userId);
+    }
+
+    return this.prisma.savedIncidentView.update({
+      where: { id },
+      data: {
+        ...data,
+        filters: data.filters as Prisma.InputJsonObject | undefined,
+      },
+      include: ownerSelect,
+    });
+  }
+
+  async deleteView(id: string, userId: string) {
+    await this.getOwnView(id, userId);
+    await this.prisma.savedIncidentView.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Expand `viewId` into the saved filters and sort. Parameters given
+   * explicitly on the request win over the saved ones.
+   */
+  async applyView(query: IncidentListQuery, userId?: string): Promise<IncidentListQuery> {
+    if (!query.viewId) return query;
+
+    if (!userId) {
+      throw new NotFoundError('Saved view not found');
+    }
+
+    const view = await this.getView(query.viewId, userId);
+    const { viewId: _viewId, ...explicit } = query;
+
+    const definedExplicit = Object.fromEntries(
+      Object.entries(explicit).filter(([, value]) => value !== undefined)
+    );
+
+    return {
+      ...(view.filters as IncidentListQuery),
+      ...(view.sortBy && { sortBy: view.sortBy as IncidentListQuery['sortBy'] }),
+      ...(view.sortOrder && { sortOrder: view.sortOrder as IncidentListQuery['sortOrder'] }),
+      ...definedExplicit,
+    };
+  }
+
+  private async getOwnView(id: string, userId: string) {
+    const view = await this.getView(id, userId);
+
+    if (!view.isOwner) {
+      throw new ForbiddenError('Only the owner can change a saved view');
+    }
+
+    return view;
+  }
+
+  private async assertNameAvailable(name: string, userId: string) {
+    const existing = await this.prisma.savedIncidentView.findUnique({
+      where: { ownerId_name: { ownerId: userId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictError(`You already have a saved view named "${name}"`);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { IncidentSortField } from './incidents.types';
+
+// The GET /incidents filters a view remembers, in query string form
+export interface SavedViewFilters {
+  search?: string;
+  type?: string;
+  priority?: string;
+  status?: string;
+  barangayId?: string;
+  eventId?: string;
+  customFields?: string;
+  tags?: string;
+  isAssigned?: boolean;
+  fromDate?: string;
+  toDate?: string;
+  includeArchived?: boolean;
+}
+
+export interface CreateSavedViewDTO {
+  name: string;
+  description?: string;
+  filters: SavedViewFilters;
+  sortBy?: IncidentSortField;
+  sortOrder?: 'asc' | 'desc';
+  isShared?: boolean;
+}
+
+export interface UpdateSavedViewDTO {
+  name?: string;
+  description?: string | null;
+  filters?: SavedViewFilters;
+  sortBy?: IncidentSortField | null;
+  sortOrder?: 'asc' | 'desc' | null;
+  isShared?: boolean;
+}
@@ -0,0 +1,201 @@
+import { PrismaClient, IncidentStatus, IncidentPriority, IncidentType, SlaStage, Prisma } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimelineService } from './timeline.service';
+import { SlaTargets, SlaBreachEvent } from './sla.types';
+
+// Incidents still waiting on at least one SLA stage
+const MONITORED_STATUSES: IncidentStatus[] = [
+  IncidentStatus.VERIFIED,
+  IncidentStatus.REPORTED,
+  IncidentStatus.ACKNOWLEDGED,
+  IncidentStatus.DISPATCHED,
+  IncidentStatus.IN_PROGRESS,
+  IncidentStatus.RESPONDING,
+];
+
+const STAGE_ORDER: SlaStage[] = [SlaStage.ACKNOWLEDGE, SlaStage.DISPATCH, SlaStage.ARRIVE];
+
+const PRIORITY_ORDER: IncidentPriority[] = [
+  IncidentPriority.LOW,
+  IncidentPriority.MEDIUM,
+  IncidentPriority.HIGH,
+  IncidentPriority.CRITICAL,
+];
+
+const monitoredIncidentInclude = {
+  notificationAcks: { select: { id: true }, take: 1 },
+  assignments: { select: { arrivedAt: true } },
+  responders: { select: { arrivedAt: true } },
+  slaBreaches: { select: { stage: true } },
+} satisfies Prisma.IncidentInclude;
+
+type MonitoredIncident = Prisma.IncidentGetPayload<{ include: typeof monitoredIncidentInclude }>;
+
+export class SlaService {
+  private timelineService: TimelineService;
+  private notificationsService: NotificationsService;
+
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {
+    this.timelineService = new TimelineService(prisma);
+    this.notificationsService = new NotificationsService(prisma);
+  }
+
+  /**
+   * Resolve SLA targets for an incident type and priority
+   */
+  getTargets(type: IncidentType, priority: IncidentPriority): SlaTargets {
+    const overrides = CONSTANTS.SLA_TYPE_OVERRIDES as Partial<
+      Record<IncidentType, Partial<Record<IncidentPriority, Partial<SlaTargets>>>>
+    >;
+
+    return {
+      ...CONSTANTS.SLA_TARGETS[priority],
+      ...overrides[type]?.[priority],
+    };
+  }
+
+  /**
+   * Scan open incidents and escalate every stage that has run past its target.
+   * Each stage is escalated at most once per incident.
+   */
+  async checkBreaches(now: Date = new Date()): Promise<SlaBreachEvent[]> {
+    const incidents = await this.prisma.incident.findMany({
+      where: { status: { in: MONITORED_STATUSES } },
+      include: monitoredIncidentInclude,
+    });
+
+    const breaches: SlaBreachEvent[] = [];
+
+    for (const incident of incidents) {
+      const stage = this.findBreachedStage(incident, now);
+      if (!stage) continue;
+
+      try {
+        const breach = await this.escalate(incident, stage, now);
+        if (breach) breaches.push(breach);
+      } catch (error) {
+        logger.error(`[SLA] Failed to escalate ${stage} breach for incident ${incident.id}:`, error);
+      }
+    }
+
+    if (breaches.length > 0) {
+      logger.info(`[SLA] Escalated ${breaches.length} SLA breach(es)`);
+    }
+
+    return breaches;
+  }
+
+  /**
+   * First unmet, not yet recorded stage whose target has elapsed
+   */
+  private findBreachedStage(incident: MonitoredIncident, now: Date): SlaStage | null {
+    const targets = this.getTargets(incident.type, incident.priority);
+    const elapsedMinutes = this.getElapsedMinutes(incident, now);
+    const recorded = new Set(incident.slaBreaches.map((b) => b.stage));
+
+    for (const stage of STAGE_ORDER) {
+      if (this.isStageMet(incident, stage) || recorded.has(stage)) continue;
+      return elapsedMinutes >= targets[stage] ? stage : null;
+    }
+
+    return null;
+  }
+
+  private isStageMet(incident: MonitoredIncident, stage: SlaStage): boolean {
+    const hasResponders = incident.assignments.length > 0 || incident.responders.length > 0;
+
+    switch (stage) {
+      case SlaStage.ACKNOWLEDGE:
+        return !!incident.acknowledgedAt || incident.notificationAcks.length > 0 || hasResponders;
+      case SlaStage.DISPATCH:
+        return !!incident.dispatchedAt || hasResponders;
+      case SlaStage.ARRIVE:
+        return (
+          !!incident.actualArrival ||
+          incident.assignments.some((a) => a.arrivedAt) ||
+          incident.responders.some((r) => r.arrivedAt)
+        );
+    }
+  }
+
+  private getElapsedMinutes(incident: MonitoredIncident, now: Date): number {
+    const start = incident.verifiedAt || incident.reportedAt;
+    return Math.floor((now.getTime() - start.getTime()) / 60000);
+  }
+
+  private async escalate(
+    incident: MonitoredIncident,
+    stage: SlaStage,
+    now: Date
+  ): Promise<SlaBreachEvent | null> {
+    const targetMinutes = this.getTargets(incident.type, incident.priority)[stage];
+    const elapsedMinutes = this.getElapsedMinutes(incident, now);
+    const previousPriority = incident.priority;
+    const newPriority =
+      PRIORITY_ORDER[Math.min(PRIORITY_ORDER.indexOf(previousPriority) + 1, PRIORITY_ORDER.length - 1)];
+
+    try {
+      await this.prisma.incidentSlaBreach.create({
+        data: {
+          incidentId: incident.id,
+          stage,
+          targetMinutes,
+          elapsedMinutes,
+          previousPriority,
+          newPriority,
+          breachedAt: now,
+        },
+      });
+    } catch (error) {
+      // Another instance already recorded this breach
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+
+    if (newPriority !== previousPriority) {
+      await this.prisma.incident.update({
+        where: { id: incident.id },
+        data: { priority: newPriority, version: { increment: 1 } },
+      });
+    }
+
+    await this.timelineService.addEntry({
+      incidentId: incident.id,
+      status: incident.status,
+      notes: `SLA breached: ${stage} target ${targetMinutes} min (elapsed ${elapsedMinutes} min). Priority ${previousPriority} → ${newPriority}`,
+      metadata: {
+        slaBreach: stage,
+        targetMinutes,
+        elapsedMinutes,
+        previousPriority,
+        newPriority,
+      },
+    });
+
+    try {
+      await this.notificationsService.notifySlaBreach(incident.id, stage, targetMinutes, elapsedMinutes);
+    } catch (error) {
+      logger.error(`[SLA] Failed to re-notify for incident ${incident.id}:`, error);
+    }
+
+    const breach: SlaBreachEvent = {
+      incidentId: incident.id,
+      incidentNumber: incident.incidentNumber,
+      stage,
+      targetMinutes,
+      elapsedMinutes,
+      previousPriority,
+      newPriority,
+      breachedAt: now,
+    };
+
+    this.io?.to('admin').emit('incident:sla_breach', breach);
+
+    return breach;
+  }
+}
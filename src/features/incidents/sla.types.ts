@@ -0,0 +1,14 @@
+import { IncidentPriority, SlaStage } from '@prisma/client';
+
+export type SlaTargets = Record<SlaStage, number>;
+
+export interface SlaBreachEvent {
+  incidentId: string;
+  incidentNumber: string;
+  stage: SlaStage;
+  targetMinutes: number;
+  elapsedMinutes: number;
+  previousPriority: IncidentPriority;
+  newPriority: IncidentPriority;
+  breachedAt: Date;
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { ResolutionOutcome, TriageCategory } from '@prisma/client';
+
+const vitalsSchema = z.object({
+  canWalk: z.boolean().optional(),
+  isBreathing: z.boolean().optional(),
+  breathesAfterAirwayRepositioning: z.boolean().optional(),
+  respiratoryRate: z.number().int().min(0).max(100).optional(),
+  hasRadialPulse: z.boolean().optional(),
+  capillaryRefillSeconds: z.number().min(0).max(30).optional(),
+  followsCommands: z.boolean().optional(),
+  pulseRate: z.number().int().min(0).max(300).optional(),
+  systolicBp: z.number().int().min(0).max(300).optional(),
+  diastolicBp: z.number().int().min(0).max(200).optional(),
+  oxygenSaturation: z.number().min(0).max(100).optional(),
+  gcs: z.number().int().min(3).max(15).optional(),
+  takenAt: z.string().datetime().optional(),
+});
+
+const hospitalRequired = (data: { outcome?: ResolutionOutcome | null; destinationHospital?: string | null }) =>
+  data.outcome !== ResolutionOutcome.BROUGHT_TO_HOSPITAL || !!data.destinationHospital;
+
+const hospitalRequiredMessage = {
+  message: 'Destination hospital is required when the patient is brought to hospital',
+  path: ['destinationHospital'],
+};
+
+export const updateMciModeSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const createPatientSchema = z
+  .object({
+    tagNumber: z.string().min(1).optional(),
+    triageCategory: z.nativeEnum(TriageCategory).optional(),
+    name: z.string().min(1).optional(),
+    age: z.number().int().min(0).max(130).optional(),
+    sex: z.string().min(1).optional(),
+    description: z.string().optional(),
+    vitals: vitalsSchema.optional(),
+    treatmentNotes: z.string().optional(),
+    outcome: z.nativeEnum(ResolutionOutcome).optional(),
+    destinationHospital: z.string().min(1).optional(),
+    transportedAt: z.string().datetime().optional(),
+  })
+  .refine(hospitalRequired, hospitalRequiredMessage);
+
+// The hospital check for updates runs in the service, against the stored record
+export const updatePatientSchema = z.object({
+  tagNumber: z.string().min(1).nullable().optional(),
+  triageCategory: z.nativeEnum(TriageCategory).optional(),
+  name: z.string().min(1).nullable().optional(),
+  age: z.number().int().min(0).max(130).nullable().optional(),
+  sex: z.string().min(1).nullable().optional(),
+  description: z.string().nullable().optional(),
+  vitals: vitalsSchema.optional(),
+  treatmentNotes: z.string().nullable().optional(),
+  outcome: z.nativeEnum(ResolutionOutcome).nullable().optional(),
+  destinationHospital: z.string().min(1).nullable().optional(),
+  transportedAt: z.string().datetime().nullable().optional(),
+});
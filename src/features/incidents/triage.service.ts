@@ -0,0 +1,286 @@
+import { PrismaClient, Prisma, ResolutionOutcome, TriageCategory } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../core/errors';
+import { actorReference } from './workflow.service';
+import { WorkflowActor } from './workflow.types';
+import {
+  CreatePatientDTO,
+  UpdatePatientDTO,
+  PatientVitals,
+  TriageSummary,
+} from './triage.types';
+
+const TRIAGE_ORDER: TriageCategory[] = [
+  TriageCategory.RED,
+  TriageCategory.YELLOW,
+  TriageCategory.GREEN,
+  TriageCategory.BLACK,
+];
+
+export class IncidentTriageService {
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {}
+
+  /**
+   * Declare or stand down mass-casualty mode. Patient records are kept either way.
+   */
+  async setMciMode(incidentId: string, enabled: boolean, actor: WorkflowActor) {
+    const incident = await this.findIncident(incidentId);
+
+    if (incident.isMci === enabled) {
+      return { incidentId, isMci: incident.isMci, mciDeclaredAt: incident.mciDeclaredAt };
+    }
+
+    const updated = await this.prisma.incident.update({
+      where: { id: incidentId },
+      data: {
+        isMci: enabled,
+        mciDeclaredAt: enabled ? new Date() : incident.mciDeclaredAt,
+        version: { increment: 1 },
+      },
+    });
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId,
+        ...actorReference(actor),
+        message: enabled ? 'Mass-casualty incident declared' : 'Mass-casualty mode stood down',
+        updateType: 'INFO',
+        metadata: { isMci: enabled },
+      },
+    });
+
+    this.io?.emit('incident:mci-changed', {
+      incidentId,
+      incidentNumber: updated.incidentNumber,
+      isMci: enabled,
+    });
+
+    return { incidentId, isMci: updated.isMci, mciDeclaredAt: updated.mciDeclaredAt };
+  }
+
+  async getPatients(incidentId: string) {
+    await this.findIncident(incidentId);
+
+    const patients = await this.prisma.incidentPatient.findMany({
+      where: { incidentId },
+      include: {
+        recordedBy: { select: { id: true, firstName: true, lastName: true } },
+        recordedByPersonnel: { select: { id: true, firstName: true, lastName: true, role: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Most urgent first, then in the order they were triaged
+    patients.sort(
+      (a, b) => TRIAGE_ORDER.indexOf(a.triageCategory) - TRIAGE_ORDER.indexOf(b.triageCategory)
+    );
+
+    return { patients, summary: this.summarize(patients) };
+  }
+
+  async addPatient(incidentId: string, data: CreatePatientDTO, actor: WorkflowActor) {
+    const incident = await this.findIncident(incidentId);
+
+    if (!incident.isMci) {
+      throw new ValidationError('Patient records can only be added to a mass-casualty incident');
+    }
+
+    await this.assertCanRecord(incidentId, actor);
+
+    const triageCategory = data.triageCategory ?? this.startCategory(data.vitals);
+    if (!triageCategory) {
+      throw new ValidationError('Triage category is required when the START assessment is incomplete');
+    }
+
+    const { vitals, transportedAt, ...details } = data;
+
+    const patient = await this.prisma.incidentPatient.create({
+      data: {
+        ...details,
+        incidentId,
+        triageCategory,
+        vitals: vitals as Prisma.InputJsonValue | undefined,
+        transportedAt: transportedAt ? new Date(transportedAt) : undefined,
+        ...this.recordedBy(actor),
+      },
+    });
+
+    await this.prisma.incidentUpdate.create({
+      data: {
+        incidentId,
+        ...actorReference(actor),
+        message: `Patient ${patient.tagNumber ?? patient.id} triaged ${triageCategory}`,
+        updateType: 'INFO',
+        metadata: { patientId: patient.id, triageCategory },
+      },
+    });
+
+    await this.broadcastSummary(incidentId);
+
+    return patient;
+  }
+
+  async updatePatient(incidentId: string, patientId: string, data: UpdatePatientDTO, actor: WorkflowActor) {
+    const existing = await this.findPatient(incidentId, patientId);
+    await this.assertCanRecord(incidentId, actor);
+
+    const outcome = data.outcome !== undefined ? data.outcome : existing.outcome;
+    const destinationHospital =
+      data.destinationHospital !== undefined ? data.destinationHospital : existing.destinationHospital;
+    if (outcome === ResolutionOutcome.BROUGHT_TO_HOSPITAL && !destinationHospital) {
+      throw new ValidationError('Destination hospital is required when the patient is brought to hospital');
+    }
+
+    const { vitals, transportedAt, ...details } = data;
+
+    const patient = await this.prisma.incidentPatient.update({
+      where: { id: patientId },
+      data: {
+        ...details,
+        vitals: vitals as Prisma.InputJsonValue | undefined,
+        transportedAt: transportedAt === undefined ? undefined : transportedAt && new Date(transportedAt),
+      },
+    });
+
+    if (data.triageCategory && data.triageCategory !== existing.triageCategory) {
+      await this.prisma.incidentUpdate.create({
+        data: {
+          incidentId,
+          ...actorReference(actor),
+          message: `Patient ${patient.tagNumber ?? patient.id} re-triaged ${existing.triageCategory} to ${data.triageCategory}`,
+          updateType: 'INFO',
+          metadata: { patientId, from: existing.triageCategory, to: data.triageCategory },
+        },
+      });
+    }
+
+    await this.broadcastSummary(incidentId);
+
+    return patient;
+  }
+
+  async deletePatient(incidentId: string, patientId: string) {
+    await this.findPatient(incidentId, patientId);
+    await this.prisma.incidentPatient.delete({ where: { id: patientId } });
+    await this.broadcastSummary(incidentId);
+    return { id: patientId };
+  }
+
+  /**
+   * Patient counts by triage category for one incident
+   */
+  async getSummary(incidentId: string): Promise<TriageSummary> {
+    const patients = await this.prisma.incidentPatient.findMany({
+      where: { incidentId },
+      select: { triageCategory: true, destinationHospital: true, transportedAt: true },
+    });
+
+    return this.summarize(patients);
+  }
+
+  summarize(
+    patients: Array<{ triageCategory: TriageCategory; destinationHospital: string | null; transportedAt: Date | null }>
+  ): TriageSummary {
+    const byCategory = Object.fromEntries(TRIAGE_ORDER.map((category) => [category, 0])) as Record<TriageCategory, number>;
+    const hospitals = new Map<string, number>();
+
+    patients.forEach((patient) => {
+      byCategory[patient.triageCategory]++;
+      if (patient.destinationHospital) {
+        hospitals.set(patient.destinationHospital, (hospitals.get(patient.destinationHospital) || 0) + 1);
+      }
+    });
+
+    return {
+      total: patients.length,
+      byCategory,
+      transported: patients.filter((patient) => patient.transportedAt !== null).length,
+      hospitals: Array.from(hospitals.entries())
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * START algorithm. Returns null when the vitals do not reach a decision.
+   */
+  startCategory(vitals?: PatientVitals): TriageCategory | null {
+    if (!vitals) return null;
+    const config = CONSTANTS.START_TRIAGE;
+
+    // Walking wounded
+    if (vitals.canWalk) return TriageCategory.GREEN;
+
+    // Respiration
+    if (vitals.isBreathing === false) {
+      if (vitals.breathesAfterAirwayRepositioning === undefined) return null;
+      return vitals.breathesAfterAirwayRepositioning ? TriageCategory.RED : TriageCategory.BLACK;
+    }
+    if (vitals.respiratoryRate === undefined && vitals.isBreathing === undefined) return null;
+    if (vitals.respiratoryRate !== undefined && vitals.respiratoryRate > config.MAX_RESPIRATORY_RATE) {
+      return TriageCategory.RED;
+    }
+
+    // Perfusion
+    if (vitals.hasRadialPulse === undefined && vitals.capillaryRefillSeconds === undefined) return null;
+    if (
+      vitals.hasRadialPulse === false ||
+      (vitals.capillaryRefillSeconds !== undefined && vitals.capillaryRefillSeconds > config.MAX_CAPILLARY_REFILL_SECONDS)
+    ) {
+      return TriageCategory.RED;
+    }
+
+    // Mental status
+    if (vitals.followsCommands === undefined) return null;
+    return vitals.followsCommands ? TriageCategory.YELLOW : TriageCategory.RED;
+  }
+
+  private async broadcastSummary(incidentId: string) {
+    if (!this.io) return;
+    const summary = await this.getSummary(incidentId);
+    this.io.to('admin').emit('incident:triage-updated', { incidentId, summary });
+  }
+
+  /**
+   * Personnel can only record patients on incidents they are assigned to or responding to
+   */
+  private async assertCanRecord(incidentId: string, actor: WorkflowActor) {
+    if (actor.role === 'ADMIN') return;
+
+    const [assignment, responder] = await Promise.all([
+      this.prisma.incidentAssignment.findFirst({ where: { incidentId, personnelId: actor.id } }),
+      this.prisma.incidentResponder.findFirst({ where: { incidentId, personnelId: actor.id } }),
+    ]);
+
+    if (!assignment && !responder) {
+      throw new ForbiddenError('You must be assigned to this incident to record patients');
+    }
+  }
+
+  private recordedBy(actor: WorkflowActor) {
+    return actor.role === 'ADMIN' ? { recordedById: actor.id } : { recordedByPersonnelId: actor.id };
+  }
+
+  private async findIncident(id: string) {
+    const incident = await this.prisma.incident.findUnique({ where: { id } });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    return incident;
+  }
+
+  private async findPatient(incidentId: string, patientId: string) {
+    const patient = await this.prisma.incidentPatient.findFirst({
+      where: { id: patientId, incidentId },
+    });
+
+    if (!patient) {
+      throw new NotFoundError('Patient not found');
+    }
+
+    return patient;
+  }
+}
@@ -0,0 +1,60 @@
+import { ResolutionOutcome, TriageCategory } from '@prisma/client';
+
+/**
+ * START inputs plus any other observations taken at triage
+ */
+export interface PatientVitals {
+  canWalk?: boolean;
+  isBreathing?: boolean;
+  breathesAfterAirwayRepositioning?: boolean;
+  respiratoryRate?: number;
+  hasRadialPulse?: boolean;
+  capillaryRefillSeconds?: number;
+  followsCommands?: boolean;
+  pulseRate?: number;
+  systolicBp?: number;
+  diastolicBp?: number;
+  oxygenSaturation?: number;
+  gcs?: number;
+  takenAt?: string;
+}
+
+export interface UpdateMciModeDTO {
+  enabled: boolean;
+}
+
+export interface CreatePatientDTO {
+  tagNumber?: string;
+  // Derived from the START vitals when omitted
+  triageCategory?: TriageCategory;
+  name?: string;
+  age?: number;
+  sex?: string;
+  description?: string;
+  vitals?: PatientVitals;
+  treatmentNotes?: string;
+  outcome?: ResolutionOutcome;
+  destinationHospital?: string;
+  transportedAt?: string;
+}
+
+export interface UpdatePatientDTO {
+  tagNumber?: string | null;
+  triageCategory?: TriageCategory;
+  name?: string | null;
+  age?: number | null;
+  sex?: string | null;
+  description?: string | null;
+  vitals?: PatientVitals;
+  treatmentNotes?: string | null;
+  outcome?: ResolutionOutcome | null;
+  destinationHospital?: string | null;
+  transportedAt?: string | null;
+}
+
+export interface TriageSummary {
+  total: number;
+  byCategory: Record<TriageCategory, number>;
+  transported: number;
+  hospitals: Array<{ name: string; count: number }>;
+}
@@ -0,0 +1,461 @@
+import { PrismaClient, Incident, IncidentStatus, Prisma } from '@prisma/client';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../core/errors';
+import { logger } from '../../core/utils/logger';
+import { DomainEventBus, domainEvents } from '../../core/events';
+import { ConcurrencyService } from '../../core/utils/concurrency';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimelineService } from './timeline.service';
+import {
+  WorkflowActor,
+  WorkflowRole,
+  WorkflowSideEffect,
+  TransitionDefinition,
+  TransitionInput,
+  TransitionOutcome,
+  AvailableTransition,
+  WorkflowEffectServices,
+} from './workflow.types';
+
+const {
+  TIMELINE,
+  BROADCAST,
+  NOTIFY_AVAILABLE,
+  NOTIFY_ASSIGNED,
+  NOTIFY_RESOLVED,
+  APPLY_PLAYBOOKS,
+  AUTO_DISPATCH,
+} = WorkflowSideEffect;
+
+// Statuses in which responders are still working the incident
+const ACTIVE_STATUSES: IncidentStatus[] = [
+  IncidentStatus.VERIFIED,
+  IncidentStatus.REPORTED,
+  IncidentStatus.ACKNOWLEDGED,
+  IncidentStatus.DISPATCHED,
+  IncidentStatus.RESPONDING,
+  IncidentStatus.ARRIVED,
+  IncidentStatus.IN_PROGRESS,
+  IncidentStatus.PENDING_RESOLVE,
+];
+
+/**
+ * Incident lifecycle. Each (from, to) pair appears at most once.
+ */
+export const INCIDENT_TRANSITIONS: TransitionDefinition[] = [
+  {
+    from: [IncidentStatus.PENDING_VERIFICATION],
+    to: IncidentStatus.VERIFIED,
+    roles: ['ADMIN'],
+    label: 'Verify report',
+    // Every verification path (verify, status update, bulk) gets checklists and runs the dispatch rules
+    sideEffects: [TIMELINE, BROADCAST, NOTIFY_AVAILABLE, APPLY_PLAYBOOKS, AUTO_DISPATCH],
+  },
+  {
+    from: [IncidentStatus.PENDING_VERIFICATION],
+    to: IncidentStatus.SPAM,
+    roles: ['ADMIN'],
+    label: 'Mark as spam',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    from: [IncidentStatus.VERIFIED, IncidentStatus.REPORTED],
+    to: IncidentStatus.ACKNOWLEDGED,
+    roles: ['ADMIN'],
+    label: 'Acknowledge',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    from: [IncidentStatus.ACKNOWLEDGED],
+    to: IncidentStatus.DISPATCHED,
+    roles: ['ADMIN'],
+    label: 'Dispatch',
+    sideEffects: [TIMELINE, BROADCAST, NOTIFY_ASSIGNED],
+  },
+  {
+    from: [IncidentStatus.REPORTED, IncidentStatus.ACKNOWLEDGED, IncidentStatus.DISPATCHED],
+    to: IncidentStatus.IN_PROGRESS,
+    roles: ['ADMIN'],
+    label: 'Start work',
+    sideEffects: [TIMELINE, BROADCAST, NOTIFY_ASSIGNED],
+  },
+  {
+    from: [
+      IncidentStatus.VERIFIED,
+      IncidentStatus.REPORTED,
+      IncidentStatus.ACKNOWLEDGED,
+      IncidentStatus.DISPATCHED,
+    ],
+    to: IncidentStatus.RESPONDING,
+    roles: ['ADMIN', 'PERSONNEL'],
+    label: 'Start responding',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    from: [IncidentStatus.RESPONDING],
+    to: IncidentStatus.ARRIVED,
+    roles: ['ADMIN', 'PERSONNEL'],
+    label: 'Arrive on scene',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    from: [IncidentStatus.RESPONDING, IncidentStatus.ARRIVED, IncidentStatus.IN_PROGRESS],
+    to: IncidentStatus.PENDING_RESOLVE,
+    roles: ['ADMIN', 'PERSONNEL'],
+    label: 'Submit for resolution',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    from: ACTIVE_STATUSES,
+    to: IncidentStatus.RESOLVED,
+    roles: ['ADMIN'],
+    label: 'Resolve',
+    sideEffects: [TIMELINE, BROADCAST, NOTIFY_RESOLVED],
+  },
+  {
+    from: [IncidentStatus.RESOLVED],
+    to: IncidentStatus.CLOSED,
+    roles: ['ADMIN'],
+    label: 'Close',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    // Resolve and close in one step, used by POST /incidents/:id/resolve
+    from: ACTIVE_STATUSES,
+    to: IncidentStatus.CLOSED,
+    roles: ['ADMIN'],
+    label: 'Resolve and close',
+    requires: [
+      {
+        field: 'resolutionNotes',
+        minLength: 10,
+        message: 'Resolution notes must be at least 10 characters',
+      },
+    ],
+    sideEffects: [TIMELINE, BROADCAST, NOTIFY_RESOLVED],
+  },
+  {
+    from: ACTIVE_STATUSES,
+    to: IncidentStatus.CANCELLED,
+    roles: ['ADMIN'],
+    label: 'Cancel',
+    sideEffects: [TIMELINE, BROADCAST, NOTIFY_ASSIGNED],
+  },
+  {
+    // Duplicates folded into a primary incident, used by POST /incidents/:id/merge
+    from: [
+      IncidentStatus.PENDING_VERIFICATION,
+      IncidentStatus.VERIFIED,
+      IncidentStatus.REPORTED,
+      IncidentStatus.ACKNOWLEDGED,
+    ],
+    to: IncidentStatus.MERGED,
+    roles: ['ADMIN'],
+    label: 'Merge into another incident',
+    requires: [
+      {
+        field: 'mergedIntoId',
+        minLength: 1,
+        message: 'A primary incident is required to merge into',
+      },
+    ],
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+  {
+    from: [IncidentStatus.CLOSED, IncidentStatus.CANCELLED, IncidentStatus.SPAM],
+    to: IncidentStatus.REPORTED,
+    roles: ['ADMIN'],
+    label: 'Reopen',
+    sideEffects: [TIMELINE, BROADCAST],
+  },
+];
+
+/**
+ * Map an authenticated request user onto a workflow actor
+ */
+export function toWorkflowActor(user: { userId: string; role: string }): WorkflowActor {
+  const role: WorkflowRole = user.role === 'PERSONNEL' ? 'PERSONNEL' : 'ADMIN';
+  return { role, id: user.userId };
+}
+
+/**
+ * Foreign key columns identifying the actor on IncidentUpdate / IncidentTimeline rows
+ */
+export function actorReference(actor: WorkflowActor): { userId?: string; personnelId?: string } {
+  return actor.role === 'ADMIN' ? { userId: actor.id } : { personnelId: actor.id };
+}
+
+export class IncidentWorkflowService {
+  private timelineService: TimelineService;
+  private notificationsService: NotificationsService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private bus: DomainEventBus = domainEvents,
+    private effects?: WorkflowEffectServices
+  ) {
+    this.timelineService = new TimelineService(prisma);
+    this.notificationsService = new NotificationsService(prisma);
+  }
+
+  findTransition(from: IncidentStatus, to: IncidentStatus): TransitionDefinition | undefined {
+    return INCIDENT_TRANSITIONS.find((t) => t.to === to && t.from.includes(from));
+  }
+
+  canTransition(from: IncidentStatus, to: IncidentStatus, actor: WorkflowActor): boolean {
+    const definition = this.findTransition(from, to);
+    return !!definition && definition.roles.includes(actor.role);
+  }
+
+  /**
+   * List the moves the actor may make from the incident's current status
+   */
+  async getAvailableTransitions(incidentId: string, actor: WorkflowActor) {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { id: true, status: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    // Personnel can't move incidents they aren't assigned to
+    const assigned = actor.role !== 'PERSONNEL' || await this.isAssigned(incidentId, actor.id);
+
+    const transitions: AvailableTransition[] = INCIDENT_TRANSITIONS
+      .filter((t) => assigned && t.from.includes(incident.status) && t.roles.includes(actor.role))
+      .map((t) => ({
+        status: t.to,
+        label: t.label,
+        requires: (t.requires || []).map((r) => r.field),
+      }));
+
+    return {
+      incidentId: incident.id,
+      currentStatus: incident.status,
+      transitions,
+    };
+  }
+
+  /**
+   * Validate a transition without applying it. Personnel may only move
+   * incidents they are assigned to.
+   */
+  async assertTransition(
+    incident: Pick<Incident, 'id' | 'status'>,
+    to: IncidentStatus,
+    actor: WorkflowActor,
+    input: TransitionInput = {}
+  ): Promise<TransitionDefinition> {
+    const definition = this.findTransition(incident.status, to);
+
+    if (!definition) {
+      throw new ValidationError(`Cannot transition from ${incident.status} to ${to}`);
+    }
+
+    if (!definition.roles.includes(actor.role)) {
+      throw new ForbiddenError(
+        `${actor.role === 'ADMIN' ? 'Admins' : 'Personnel'} cannot move an incident from ${incident.status} to ${to}`
+      );
+    }
+
+    if (actor.role === 'PERSONNEL' && !(await this.isAssigned(incident.id, actor.id))) {
+      throw new ForbiddenError('You must be assigned to this incident to change its status');
+    }
+
+    for (const requirement of definition.requires || []) {
+      const value = input[requirement.field];
+      if (!value || value.trim().length < requirement.minLength) {
+        throw new ValidationError(requirement.message);
+      }
+    }
+
+    return definition;
+  }
+
+  /**
+   * Move an incident to a new status, applying status timestamps and the
+   * transition's side effects. Side effect failures are logged, not thrown.
+   */
+  async transition(
+    incidentId: string,
+    to: IncidentStatus,
+    actor: WorkflowActor,
+    input: TransitionInput = {}
+  ): Promise<Incident> {
+    const { incident } = await this.transitionWithEffects(incidentId, to, actor, input);
+    return incident;
+  }
+
+  /**
+   * Same as transition, also returning what side effects produced
+   */
+  async transitionWithEffects(
+    incidentId: string,
+    to: IncidentStatus,
+    actor: WorkflowActor,
+    input: TransitionInput = {}
+  ): Promise<TransitionOutcome> {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    ConcurrencyService.assertVersion(incident, input.expectedVersion, 'Incident');
+    const definition = await this.assertTransition(incident, to, actor, input);
+
+    let updated: Incident;
+    try {
+      // Guard on the version read above so a concurrent edit can't be overwritten
+      updated = await this.prisma.incident.update({
+        where: { id: incidentId, version: incident.version },
+        data: {
+          ...this.getStatusFields(incident, to, actor, input),
+          ...input.data,
+          status: to,
+          version: { increment: 1 },
+        },
+      });
+    } catch (error) {
+      if (!ConcurrencyService.isStaleWrite(error)) throw error;
+
+      const current = await this.prisma.incident.findUniqueOrThrow({ where: { id: incidentId } });
+      throw ConcurrencyService.conflict('Incident', current);
+    }
+
+    const autoDispatch = await this.runSideEffects(definition, incident, updated, actor, input);
+
+    return { incident: updated, autoDispatch };
+  }
+
+  private getStatusFields(
+    incident: Incident,
+    to: IncidentStatus,
+    actor: WorkflowActor,
+    input: TransitionInput
+  ): Prisma.IncidentUncheckedUpdateInput {
+    const now = new Date();
+    const adminId = actor.role === 'ADMIN' ? actor.id : undefined;
+
+    switch (to) {
+      case IncidentStatus.VERIFIED:
+        return { verifiedAt: now, verifiedById: adminId };
+      case IncidentStatus.ACKNOWLEDGED:
+        return { acknowledgedAt: now };
+      case IncidentStatus.DISPATCHED:
+        return { dispatchedAt: now };
+      case IncidentStatus.RESPONDING:
+        return { respondingAt: incident.respondingAt || now };
+      case IncidentStatus.ARRIVED:
+        return { actualArrival: now };
+      case IncidentStatus.RESOLVED:
+        return { resolvedAt: now, resolvedById: adminId };
+      case IncidentStatus.CLOSED:
+        return incident.resolvedAt
+          ? { closedAt: now }
+          : {
+            closedAt: now,
+            resolvedAt: now,
+            resolvedById: adminId,
+            ...(input.resolutionNotes && { resolutionNotes: input.resolutionNotes.trim() }),
+          };
+      case IncidentStatus.MERGED:
+        return { mergedIntoId: input.mergedIntoId, mergedAt: now };
+      case IncidentStatus.REPORTED:
+        return { closedAt: null, resolvedAt: null };
+      default:
+        return {};
+    }
+  }
+
+  private async runSideEffects(
+    definition: TransitionDefinition,
+    previous: Incident,
+    updated: Incident,
+    actor: WorkflowActor,
+    input: TransitionInput
+  ): Promise<TransitionOutcome['autoDispatch']> {
+    let autoDispatch: TransitionOutcome['autoDispatch'] = null;
+
+    for (const effect of definition.sideEffects) {
+      try {
+        switch (effect) {
+          case TIMELINE:
+            await this.timelineService.addEntry({
+              incidentId: updated.id,
+              status: updated.status,
+              notes: input.notes || `${definition.label}: ${previous.status} → ${updated.status}`,
+              ...actorReference(actor),
+              metadata: {
+                from: previous.status,
+                to: updated.status,
+                actorRole: actor.role,
+                ...input.metadata,
+              },
+            });
+            break;
+          case BROADCAST:
+            this.bus.publish('IncidentStatusChanged', {
+              incidentId: updated.id,
+              incidentNumber: updated.incidentNumber,
+              previousStatus: previous.status,
+              status: updated.status,
+              priority: updated.priority,
+              actor,
+              notes: input.notes,
+            });
+            break;
+          case NOTIFY_AVAILABLE:
+            await this.notificationsService.notifyAvailablePersonnelOfIncident(updated.id);
+            break;
+          case NOTIFY_ASSIGNED:
+            await this.notificationsService.notifyIncidentStatusChanged(
+              updated.id,
+              previous.status,
+              updated.status,
+              await this.getAssignedPersonnelIds(updated.id)
+            );
+            break;
+          case NOTIFY_RESOLVED:
+            await this.notificationsService.notifyIncidentResolved(
+              updated.id,
+              await this.getAssignedPersonnelIds(updated.id)
+            );
+            break;
+          case APPLY_PLAYBOOKS:
+            await this.effects?.checklist.instantiate(updated);
+            break;
+          case AUTO_DISPATCH:
+            // Never blocks the transition; admins dispatch manually on failure
+            if (this.effects) {
+              autoDispatch = await this.effects.dispatch.autoDispatch(updated.id, actor.id);
+            }
+            break;
+        }
+      } catch (error) {
+        logger.error(`Workflow side effect ${effect} failed for incident ${updated.id}:`, error);
+      }
+    }
+
+    return autoDispatch;
+  }
+
+  private async isAssigned(incidentId: string, personnelId: string): Promise<boolean> {
+    const assignment = await this.prisma.incidentAssignment.findFirst({
+      where: { incidentId, personnelId },
+      select: { id: true },
+    });
+    return !!assignment;
+  }
+
+  private async getAssignedPersonnelIds(incidentId: string): Promise<string[]> {
+    const assignments = await this.prisma.incidentAssignment.findMany({
+      where: { incidentId },
+      select: { personnelId: true },
+    });
+    return assignments.map((a) => a.personnelId);
+  }
+}
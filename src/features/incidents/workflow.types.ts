@@ -0,0 +1,76 @@
+import { Incident, IncidentStatus, Prisma } from '@prisma/client';
+import type { DispatchService } from '../dispatch/dispatch.service';
+import type { IncidentChecklistService } from './checklist.service';
+import type { DispatchPlan } from '../dispatch/dispatch.types';
+
+/**
+ * Roles the workflow engine distinguishes. SUPER_ADMIN is treated as ADMIN.
+ */
+export type WorkflowRole = 'ADMIN' | 'PERSONNEL';
+
+/**
+ * Who is performing a transition. For ADMIN the id is a User id,
+ * for PERSONNEL it is a Personnel id.
+ */
+export interface WorkflowActor {
+  role: WorkflowRole;
+  id: string;
+}
+
+export enum WorkflowSideEffect {
+  TIMELINE = 'TIMELINE', // Record the move on IncidentTimeline
+  BROADCAST = 'BROADCAST', // Publish IncidentStatusChanged (WebSocket, audit, webhooks)
+  NOTIFY_AVAILABLE = 'NOTIFY_AVAILABLE', // Notify all available personnel
+  NOTIFY_ASSIGNED = 'NOTIFY_ASSIGNED', // Notify personnel assigned to the incident
+  NOTIFY_RESOLVED = 'NOTIFY_RESOLVED', // Notify assigned personnel that the incident is resolved
+  APPLY_PLAYBOOKS = 'APPLY_PLAYBOOKS', // Copy matching playbook checklists onto the incident
+  AUTO_DISPATCH = 'AUTO_DISPATCH', // Run the matching dispatch rule
+}
+
+/**
+ * Services behind the APPLY_PLAYBOOKS and AUTO_DISPATCH side effects
+ */
+export interface WorkflowEffectServices {
+  checklist: Pick<IncidentChecklistService, 'instantiate'>;
+  dispatch: Pick<DispatchService, 'autoDispatch'>;
+}
+
+export type TransitionField = 'notes' | 'resolutionNotes' | 'mergedIntoId';
+
+export interface TransitionRequirement {
+  field: TransitionField;
+  minLength: number;
+  message: string;
+}
+
+export interface TransitionDefinition {
+  from: IncidentStatus[];
+  to: IncidentStatus;
+  roles: WorkflowRole[];
+  label: string;
+  requires?: TransitionRequirement[];
+  sideEffects: WorkflowSideEffect[];
+}
+
+export interface TransitionInput {
+  notes?: string;
+  resolutionNotes?: string;
+  mergedIntoId?: string;
+  metadata?: Record<string, unknown>;
+  // Extra incident columns written together with the status change
+  data?: Prisma.IncidentUncheckedUpdateInput;
+  // Version the caller last saw (If-Match); omitted means any version
+  expectedVersion?: number;
+}
+
+export interface AvailableTransition {
+  status: IncidentStatus;
+  label: string;
+  requires: TransitionField[];
+}
+
+export interface TransitionOutcome {
+  incident: Incident;
+  // Set when the AUTO_DISPATCH side effect ran and a rule matched
+  autoDispatch: DispatchPlan | null;
+}
@@ -245,6 +245,95 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Re-notify responders when an incident breaches an SLA target.
+   * Goes to assigned personnel when there are any, otherwise to everyone on duty.
+   */
+  async notifySlaBreach(
+    incidentId: string,
+    stage: string,
+    targetMinutes: number,
+    elapsedMinutes: number
+  ): Promise<void> {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        assignments: { select: { personnelId: true } },
+      },
+    });
+
+    if (!incident) return;
+
+    let recipientIds = incident.assignments.map((a) => a.personnelId);
+
+    if (recipientIds.length === 0) {
+      const onDuty = await this.prisma.personnel.findMany({
+        where: {
+          status: {
+            in: [PersonnelStatus.AVAILABLE, PersonnelStatus.ON_DUTY, PersonnelStatus.ON_BREAK],
+          },
+        },
+        select: { id: true },
+      });
+      recipientIds = onDuty.map((p) => p.id);
+    }
+
+    await this.sendNotification({
+      event: NotificationEvent.INCIDENT_SLA_BREACH,
+      recipients: recipientIds,
+      data: {
+        incidentNumber: incident.incidentNumber,
+        stage,
+        targetMinutes,
+        elapsedMinutes,
+        priority: incident.priority,
+        address: incident.address,
+      },
+    });
+
+    logger.info(`Re-notified ${recipientIds.length} personnel of ${stage} SLA breach on ${incident.incidentNumber}`);
+  }
+
+  async notifyMentioned(
+    incidentId: string,
+    recipientIds: string[],
+    authorName: string,
+    excerpt: string
+  ): Promise<void> {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+    });
+
+    if (!incident || recipientIds.length === 0) return;
+
+    await this.sendNotification({
+      event: NotificationEvent.INCIDENT_MENTION,
+      recipients: recipientIds,
+      data: {
+        incidentNumber: incident.incidentNumber,
+        authorName,
+        excerpt,
+      },
+    });
+  }
+
+  async notifyCertificationExpiring(
+    personnelId: string,
+    certification: { code: string; name: string; expiresAt: Date },
+    daysLeft: number
+  ): Promise<void> {
+    await this.sendNotification({
+      event: NotificationEvent.CERTIFICATION_EXPIRING,
+      recipients: [personnelId],
+      data: {
+        code: certification.code,
+        certificationName: certification.name,
+        expiresAt: certification.expiresAt.toLocaleDateString(),
+        daysLeft,
+      },
+    });
+  }
+
   async sendEmergencyAlert(title: string, message: string, location: string): Promise<void> {
     // Get all ACTIVE personnel (not INACTIVE) and admins
     // Include personnel who are AVAILABLE, ON_DUTY, or RESPONDING to emergencies
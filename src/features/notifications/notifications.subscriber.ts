@@ -0,0 +1,18 @@
+import { PrismaClient } from '@prisma/client';
+import { DomainEventBus } from '../../core/events';
+import { NotificationsService } from './notifications.service';
+
+export function registerNotificationsSubscriber(bus: DomainEventBus, prisma: PrismaClient): () => void {
+  const notificationsService = new NotificationsService(prisma);
+
+  const subscriptions = [
+    bus.subscribe('IncidentCreated', async ({ payload }) => {
+      // Public reports go out to personnel once an admin verifies them
+      if (payload.source !== 'ADMIN') return;
+
+      await notificationsService.notifyAvailablePersonnelOfIncident(payload.incident.id);
+    }),
+  ];
+
+  return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+}
@@ -11,6 +11,9 @@ export enum NotificationEvent {
   INCIDENT_ASSIGNED = 'INCIDENT_ASSIGNED',
   INCIDENT_STATUS_CHANGED = 'INCIDENT_STATUS_CHANGED',
   INCIDENT_RESOLVED = 'INCIDENT_RESOLVED',
+  INCIDENT_SLA_BREACH = 'INCIDENT_SLA_BREACH',
+  INCIDENT_MENTION = 'INCIDENT_MENTION',
+  CERTIFICATION_EXPIRING = 'CERTIFICATION_EXPIRING',
   PERSONNEL_ASSIGNED = 'PERSONNEL_ASSIGNED',
   PERSONNEL_AVAILABLE = 'PERSONNEL_AVAILABLE',
   EMERGENCY_ALERT = 'EMERGENCY_ALERT',
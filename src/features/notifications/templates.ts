@@ -66,6 +66,45 @@ export class NotificationTemplates {
           `,
         };
 
+      case NotificationEvent.INCIDENT_SLA_BREACH:
+        return {
+          subject: `⏱️ SLA breached: ${data.incidentNumber} (${data.stage})`,
+          body: `Incident ${data.incidentNumber} has breached its ${data.stage} target.\n\nTarget: ${data.targetMinutes} min\nElapsed: ${data.elapsedMinutes} min\nPriority: ${data.priority}\nLocation: ${data.address}\n\nPlease respond immediately.`,
+          html: `
+            <h2>SLA Breached</h2>
+            <p>Incident <strong>${data.incidentNumber}</strong> has breached its ${data.stage} target.</p>
+            <table>
+              <tr><td><strong>Target:</strong></td><td>${data.targetMinutes} min</td></tr>
+              <tr><td><strong>Elapsed:</strong></td><td>${data.elapsedMinutes} min</td></tr>
+              <tr><td><strong>Priority:</strong></td><td>${data.priority}</td></tr>
+              <tr><td><strong>Location:</strong></td><td>${data.address}</td></tr>
+            </table>
+            <p><strong>Please respond immediately.</strong></p>
+          `,
+        };
+
+      case NotificationEvent.INCIDENT_MENTION:
+        return {
+          subject: `${data.authorName} mentioned you on ${data.incidentNumber}`,
+          body: `${data.authorName} mentioned you in a comment on incident ${data.incidentNumber}:\n\n${data.excerpt}`,
+          html: `
+            <h2>You were mentioned</h2>
+            <p><strong>${data.authorName}</strong> mentioned you in a comment on incident <strong>${data.incidentNumber}</strong>:</p>
+            <blockquote>${data.excerpt}</blockquote>
+          `,
+        };
+
+      case NotificationEvent.CERTIFICATION_EXPIRING:
+        return {
+          subject: `${data.certificationName} expires in ${data.daysLeft} days`,
+          body: `Your ${data.certificationName} (${data.code}) expires on ${data.expiresAt}.\n\nPlease renew it and upload the new certificate.`,
+          html: `
+            <h2>Certification Expiring</h2>
+            <p>Your <strong>${data.certificationName}</strong> (${data.code}) expires on <strong>${data.expiresAt}</strong>.</p>
+            <p>Please renew it and upload the new certificate.</p>
+          `,
+        };
+
       case NotificationEvent.EMERGENCY_ALERT:
         return {
           subject: `🚨 EMERGENCY ALERT: ${data.title}`,
@@ -110,6 +149,15 @@ export class NotificationTemplates {
       case NotificationEvent.INCIDENT_RESOLVED:
         return `ERA: Incident ${data.incidentNumber} has been resolved. Thank you.`;
 
+      case NotificationEvent.INCIDENT_SLA_BREACH:
+        return `ERA: ${data.incidentNumber} breached ${data.stage} SLA (${data.elapsedMinutes}/${data.targetMinutes} min). Now ${data.priority} priority.`;
+
+      case NotificationEvent.INCIDENT_MENTION:
+        return `ERA: ${data.authorName} mentioned you on ${data.incidentNumber}: ${data.excerpt}`;
+
+      case NotificationEvent.CERTIFICATION_EXPIRING:
+        return `ERA: Your ${data.code} certification expires on ${data.expiresAt} (${data.daysLeft} days). Please renew it.`;
+
       case NotificationEvent.EMERGENCY_ALERT:
         return `🚨 ERA EMERGENCY: ${data.title} - ${data.location}. ${data.message}`;
 
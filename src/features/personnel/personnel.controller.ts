@@ -10,11 +10,13 @@ import { ChangePasswordDTO } from '../auth/auth.types';
 import { SuccessResponse } from '../../types';
 
 import { NotificationsService } from '../notifications/notifications.service';
+import { PresenceService } from './presence.service';
 
 export class PersonnelController {
   constructor(
     private personnelService: PersonnelService,
-    private notificationsService: NotificationsService
+    private notificationsService: NotificationsService,
+    private presenceService: PresenceService
   ) { }
 
   // ========================================
@@ -127,14 +129,6 @@ export class PersonnelController {
 
     const personnel = await this.personnelService.updatePersonnelStatus(id, status);
 
-    // Emit WebSocket event for real-time map updates
-    if (request.server.io) {
-      request.server.io.emit('personnel:status', {
-        personnelId: id,
-        status: status,
-      });
-    }
-
     const response: SuccessResponse = {
       success: true,
       data: personnel,
@@ -415,6 +409,17 @@ export class PersonnelController {
     return reply.status(200).send(response);
   }
 
+  async getPresence(request: FastifyRequest, reply: FastifyReply) {
+    const presence = await this.presenceService.getPresence();
+
+    const response: SuccessResponse = {
+      success: true,
+      data: presence,
+    };
+
+    return reply.status(200).send(response);
+  }
+
   async getAssignmentHistory(
     request: FastifyRequest<{ Params: { id: string } }>,
     reply: FastifyReply
@@ -11,7 +11,7 @@ import { NotificationsService } from '../notifications/notifications.service';
 export async function personnelRoutes(app: FastifyInstance) {
   const personnelService = new PersonnelService(prisma);
   const notificationsService = new NotificationsService(prisma);
-  const personnelController = new PersonnelController(personnelService, notificationsService);
+  const personnelController = new PersonnelController(personnelService, notificationsService, app.presence);
 
   // ========================================
   // MOBILE APP AUTH ENDPOINTS (NO AUTH REQUIRED)
@@ -85,6 +85,11 @@ export async function personnelRoutes(app: FastifyInstance) {
     personnelController.broadcastAlert.bind(personnelController)
   );
 
+  // Who is online, and personnel with stale locations (admin only)
+  app.get('/presence', {
+    preHandler: [authMiddleware, requireRole('ADMIN', 'SUPER_ADMIN')],
+  }, personnelController.getPresence.bind(personnelController));
+
   // Stats
   app.get('/stats', {
     preHandler: [authMiddleware],
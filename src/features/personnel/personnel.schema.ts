@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { PersonnelRole, PersonnelStatus } from '@prisma/client';
+import { CertificationStatus } from '../certifications/certifications.types';
 
 export const createPersonnelSchema = z.object({
   employeeId: z.string().min(1, 'Employee ID is required'),
@@ -43,6 +44,8 @@ export const personnelListQuerySchema = z.object({
   role: z.string().optional(), // Accept comma-separated roles
   status: z.string().optional(), // Accept comma-separated statuses
   isAvailable: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+  certifications: z.string().optional(), // Comma-separated certification codes
+  certificationStatus: z.nativeEnum(CertificationStatus).optional(),
 });
 
 export const changePasswordSchema = z.object({
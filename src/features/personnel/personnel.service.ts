@@ -3,6 +3,8 @@ import { PasswordService } from '../../core/utils/password';
 import { NotFoundError, ValidationError } from '../../core/errors';
 import { AuditService } from '../audit/audit.service';
 import { AuditAction } from '../audit/audit.types';
+import { CertificationsService, certificationFilterWhere } from '../certifications/certifications.service';
+import { DomainEventBus, domainEvents, DomainEventMap } from '../../core/events';
 import {
   CreatePersonnelDTO,
   UpdatePersonnelDTO,
@@ -48,7 +50,11 @@ function transformPersonnel(personnel: any) {
 }
 
 export class PersonnelService {
-  constructor(private prisma: PrismaClient) {}
+  private certifications: CertificationsService;
+
+  constructor(private prisma: PrismaClient, private bus: DomainEventBus = domainEvents) {
+    this.certifications = new CertificationsService(prisma);
+  }
 
   // ========================================
   // MOBILE APP AUTH METHODS
@@ -242,6 +248,8 @@ export class PersonnelService {
       });
     }
 
+    this.bus.publish('PersonnelStatusChanged', { personnelId: id, status: personnel.status });
+
     return transformPersonnel(personnel);
   }
 
@@ -527,6 +535,11 @@ export class PersonnelService {
       andConditions.push({ isAvailable: query.isAvailable });
     }
 
+    if (query.certifications || query.certificationStatus) {
+      const codes = await this.certifications.resolveCodes(query.certifications);
+      andConditions.push(...certificationFilterWhere({ codes, status: query.certificationStatus }));
+    }
+
     // Combine all conditions with AND
     if (andConditions.length > 0) {
       where.AND = andConditions;
@@ -550,6 +563,9 @@ export class PersonnelService {
         currentDuty: true,
         createdAt: true,
         lastActive: true,
+        certifications: {
+          select: { expiresAt: true, type: { select: { code: true, name: true } } },
+        },
         locations: {
           select: {
             latitude: true,
@@ -716,7 +732,11 @@ export class PersonnelService {
     return { id };
   }
 
-  async updateLocation(id: string, data: UpdatePersonnelLocationDTO) {
+  async updateLocation(
+    id: string,
+    data: UpdatePersonnelLocationDTO & { timestamp?: Date },
+    source: DomainEventMap['PersonnelLocationUpdated']['source'] = 'api'
+  ) {
     const personnel = await this.prisma.personnel.findUnique({
       where: { id },
     });
@@ -738,6 +758,15 @@ export class PersonnelService {
       data: { lastActive: new Date() },
     });
 
+    this.bus.publish('PersonnelLocationUpdated', {
+      personnelId: id,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+      timestamp: location.timestamp,
+      source,
+    });
+
     return location;
   }
 
@@ -1,4 +1,5 @@
 import { PersonnelRole, PersonnelStatus } from '@prisma/client';
+import { CertificationStatus } from '../certifications/certifications.types';
 
 export interface CreatePersonnelDTO {
   employeeId: string;
@@ -36,6 +37,8 @@ export interface PersonnelListQuery {
   role?: PersonnelRole | string;
   status?: PersonnelStatus | string;
   isAvailable?: boolean;
+  certifications?: string; // Comma-separated codes, all must be held
+  certificationStatus?: CertificationStatus;
 }
 
 export interface UpdatePersonnelLocationDTO {
@@ -0,0 +1,275 @@
+import { PrismaClient, PersonnelStatus } from '@prisma/client';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { DomainEventBus } from '../../core/events';
+import {
+  PresenceKind,
+  PresenceDevice,
+  PresenceEntry,
+  PresenceChangeReason,
+  PresenceChangedEvent,
+  PersonnelPresence,
+  AdminPresence,
+} from './presence.types';
+
+// Statuses in which personnel are expected to keep sending their location
+const LOCATION_TRACKED_STATUSES: PersonnelStatus[] = [PersonnelStatus.ON_DUTY, PersonnelStatus.RESPONDING];
+
+/**
+ * Who is connected over Socket.IO, on which devices and since when. The
+ * registry lives in memory, so it covers the sockets of this server process.
+ */
+export class PresenceService {
+  private entries = new Map<string, PresenceEntry>();
+  private socketKeys = new Map<string, string>();
+  private staleLocations = new Set<string>();
+
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {}
+
+  connect(socket: Socket) {
+    const kind: PresenceKind = socket.data.role === 'PERSONNEL' ? 'PERSONNEL' : 'USER';
+    const key = `${kind}:${socket.data.userId}`;
+    const now = new Date();
+    const { deviceId, deviceName, platform } = socket.handshake.auth ?? {};
+
+    const device: PresenceDevice = {
+      socketId: socket.id,
+      deviceId: typeof deviceId === 'string' ? deviceId : undefined,
+      deviceName: typeof deviceName === 'string' ? deviceName : undefined,
+      platform: typeof platform === 'string' ? platform : undefined,
+      userAgent: socket.handshake.headers['user-agent'],
+      connectedAt: now,
+      lastSeenAt: now,
+    };
+
+    const existing = this.entries.get(key);
+    const entry: PresenceEntry = existing ?? {
+      kind,
+      id: socket.data.userId,
+      role: socket.data.role,
+      devices: new Map(),
+      onlineSince: now,
+    };
+
+    entry.devices.set(socket.id, device);
+    this.entries.set(key, entry);
+    this.socketKeys.set(socket.id, key);
+
+    this.broadcast(entry, existing ? 'DEVICE_ADDED' : 'CONNECTED');
+  }
+
+  /**
+   * Any packet from the socket, heartbeats included, counts as being heard from
+   */
+  touch(socketId: string) {
+    const key = this.socketKeys.get(socketId);
+    const device = key ? this.entries.get(key)?.devices.get(socketId) : undefined;
+    if (device) device.lastSeenAt = new Date();
+  }
+
+  async disconnect(socket: Socket) {
+    const key = this.socketKeys.get(socket.id);
+    const entry = key ? this.entries.get(key) : undefined;
+    this.socketKeys.delete(socket.id);
+
+    if (!key || !entry) return;
+
+    const lastSeenAt = this.lastSeen(entry) ?? new Date();
+    entry.devices.delete(socket.id);
+
+    if (entry.devices.size > 0) {
+      this.broadcast(entry, 'DEVICE_REMOVED');
+      return;
+    }
+
+    this.entries.delete(key);
+    this.emit({
+      kind: entry.kind,
+      id: entry.id,
+      reason: 'DISCONNECTED',
+      online: false,
+      deviceCount: 0,
+      onlineSince: null,
+      lastSeenAt,
+    });
+
+    // Keeps "last seen" for personnel after they go offline
+    if (entry.kind === 'PERSONNEL') {
+      try {
+        await this.prisma.personnel.update({
+          where: { id: entry.id },
+          data: { lastActive: lastSeenAt },
+        });
+      } catch (error) {
+        logger.error(`[Presence] Failed to store last seen for ${entry.id}:`, error);
+      }
+    }
+  }
+
+  isOnline(kind: PresenceKind, id: string): boolean {
+    return this.entries.has(`${kind}:${id}`);
+  }
+
+  /**
+   * Online admins, plus personnel who are online or on a tracked status
+   */
+  async getPresence() {
+    const online = Array.from(this.entries.values());
+    const onlinePersonnel = online.filter((entry) => entry.kind === 'PERSONNEL').map((entry) => entry.id);
+    const onlineUsers = online.filter((entry) => entry.kind === 'USER').map((entry) => entry.id);
+
+    const [personnel, users] = await Promise.all([
+      this.prisma.personnel.findMany({
+        where: {
+          OR: [
+            { id: { in: onlinePersonnel } },
+            { status: { in: LOCATION_TRACKED_STATUSES } },
+          ],
+        },
+        select: {
+          id: true,
+          employeeId: true,
+          firstName: true,
+          lastName: true,
+          status: true,
+          lastActive: true,
+          locations: { orderBy: { timestamp: 'desc' }, take: 1, select: { timestamp: true } },
+        },
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: onlineUsers } },
+        select: { id: true, firstName: true, lastName: true, role: true },
+      }),
+    ]);
+
+    const now = Date.now();
+    const personnelPresence: PersonnelPresence[] = personnel.map((p) => {
+      const entry = this.entries.get(`PERSONNEL:${p.id}`);
+      const lastLocationAt = p.locations[0]?.timestamp ?? null;
+
+      return {
+        personnelId: p.id,
+        employeeId: p.employeeId,
+        name: `${p.firstName} ${p.lastName}`,
+        status: p.status,
+        online: Boolean(entry),
+        devices: entry ? Array.from(entry.devices.values()) : [],
+        onlineSince: entry?.onlineSince ?? null,
+        lastSeenAt: (entry && this.lastSeen(entry)) ?? p.lastActive,
+        lastLocationAt,
+        locationStale: this.isLocationStale(p.status, lastLocationAt, now),
+      };
+    });
+
+    const admins: AdminPresence[] = users.map((user) => {
+      const entry = this.entries.get(`USER:${user.id}`)!;
+
+      return {
+        userId: user.id,
+        name: `${user.firstName} ${user.lastName}`,
+        role: user.role,
+        devices: Array.from(entry.devices.values()),
+        onlineSince: entry.onlineSince,
+        lastSeenAt: this.lastSeen(entry) ?? entry.onlineSince,
+      };
+    });
+
+    return {
+      summary: {
+        personnelOnline: onlinePersonnel.length,
+        adminsOnline: onlineUsers.length,
+        staleLocations: personnelPresence.filter((p) => p.locationStale).length,
+      },
+      personnel: personnelPresence,
+      admins,
+    };
+  }
+
+  /**
+   * Flag tracked personnel whose location went stale, and clear the flag
+   * of those who recovered or left a tracked status. Returns the stale count.
+   */
+  async checkStaleLocations(): Promise<number> {
+    const personnel = await this.prisma.personnel.findMany({
+      where: { status: { in: LOCATION_TRACKED_STATUSES } },
+      select: {
+        id: true,
+        status: true,
+        locations: { orderBy: { timestamp: 'desc' }, take: 1, select: { timestamp: true } },
+      },
+    });
+
+    const now = Date.now();
+    const stale = new Set(
+      personnel
+        .filter((p) => this.isLocationStale(p.status, p.locations[0]?.timestamp ?? null, now))
+        .map((p) => p.id)
+    );
+
+    stale.forEach((id) => {
+      if (!this.staleLocations.has(id)) this.locationChanged(id, true);
+    });
+    this.staleLocations.forEach((id) => {
+      if (!stale.has(id)) this.locationChanged(id, false);
+    });
+
+    this.staleLocations = stale;
+    return stale.size;
+  }
+
+  /**
+   * Clear the stale flag as soon as a new location arrives
+   */
+  watchLocations(bus: DomainEventBus): () => void {
+    return bus.subscribe('PersonnelLocationUpdated', ({ payload }) => {
+      if (this.staleLocations.delete(payload.personnelId)) {
+        this.locationChanged(payload.personnelId, false);
+      }
+    });
+  }
+
+  private isLocationStale(status: PersonnelStatus, lastLocationAt: Date | null, now: number): boolean {
+    if (!LOCATION_TRACKED_STATUSES.includes(status)) return false;
+    if (!lastLocationAt) return true;
+    return now - lastLocationAt.getTime() > CONSTANTS.PRESENCE.STALE_LOCATION_MINUTES * 60 * 1000;
+  }
+
+  private locationChanged(personnelId: string, locationStale: boolean) {
+    const entry = this.entries.get(`PERSONNEL:${personnelId}`);
+
+    this.emit({
+      kind: 'PERSONNEL',
+      id: personnelId,
+      reason: locationStale ? 'LOCATION_STALE' : 'LOCATION_FRESH',
+      online: Boolean(entry),
+      deviceCount: entry?.devices.size ?? 0,
+      onlineSince: entry?.onlineSince ?? null,
+      lastSeenAt: entry ? this.lastSeen(entry) : null,
+      locationStale,
+    });
+  }
+
+  private broadcast(entry: PresenceEntry, reason: PresenceChangeReason) {
+    this.emit({
+      kind: entry.kind,
+      id: entry.id,
+      reason,
+      online: true,
+      deviceCount: entry.devices.size,
+      onlineSince: entry.onlineSince,
+      lastSeenAt: this.lastSeen(entry),
+      ...(entry.kind === 'PERSONNEL' && { locationStale: this.staleLocations.has(entry.id) }),
+    });
+  }
+
+  private emit(event: PresenceChangedEvent) {
+    this.io?.to('admin').emit('presence:changed', event);
+  }
+
+  private lastSeen(entry: PresenceEntry): Date | null {
+    const times = Array.from(entry.devices.values()).map((device) => device.lastSeenAt.getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+  }
+}
@@ -0,0 +1,67 @@
+import { PersonnelStatus } from '@prisma/client';
+
+export type PresenceKind = 'PERSONNEL' | 'USER';
+
+/**
+ * One connected socket. Apps may send `deviceId`, `deviceName` and
+ * `platform` in the Socket.IO handshake auth to tell devices apart.
+ */
+export interface PresenceDevice {
+  socketId: string;
+  deviceId?: string;
+  deviceName?: string;
+  platform?: string;
+  userAgent?: string;
+  connectedAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface PresenceEntry {
+  kind: PresenceKind;
+  id: string;
+  role: string;
+  devices: Map<string, PresenceDevice>;
+  onlineSince: Date;
+}
+
+export type PresenceChangeReason =
+  | 'CONNECTED'
+  | 'DISCONNECTED'
+  | 'DEVICE_ADDED'
+  | 'DEVICE_REMOVED'
+  | 'LOCATION_STALE'
+  | 'LOCATION_FRESH';
+
+export interface PresenceChangedEvent {
+  kind: PresenceKind;
+  id: string;
+  reason: PresenceChangeReason;
+  online: boolean;
+  deviceCount: number;
+  onlineSince: Date | null;
+  lastSeenAt: Date | null;
+  locationStale?: boolean;
+}
+
+export interface PersonnelPresence {
+  personnelId: string;
+  employeeId: string;
+  name: string;
+  status: PersonnelStatus;
+  online: boolean;
+  devices: PresenceDevice[];
+  onlineSince: Date | null;
+  lastSeenAt: Date | null;
+  lastLocationAt: Date | null;
+  // No location within PRESENCE.STALE_LOCATION_MINUTES while ON_DUTY or RESPONDING
+  locationStale: boolean;
+}
+
+export interface AdminPresence {
+  userId: string;
+  name: string;
+  role: string;
+  devices: PresenceDevice[];
+  onlineSince: Date;
+  lastSeenAt: Date;
+}
@@ -0,0 +1,85 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PlaybooksService } from './playbooks.service';
+import {
+  CreatePlaybookDTO,
+  UpdatePlaybookDTO,
+  PlaybookListQuery,
+} from './playbooks.types';
+import { SuccessResponse } from '../../types';
+
+export class PlaybooksController {
+  constructor(private playbooksService: PlaybooksService) {}
+
+  async createPlaybook(
+    request: FastifyRequest<{ Body: CreatePlaybookDTO }>,
+    reply: FastifyReply
+  ) {
+    const playbook = await this.playbooksService.createPlaybook(request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: playbook,
+      message: 'Playbook created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getPlaybooks(
+    request: FastifyRequest<{ Querystring: PlaybookListQuery }>,
+    reply: FastifyReply
+  ) {
+    const playbooks = await this.playbooksService.getPlaybooks(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: playbooks,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getPlaybookById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const playbook = await this.playbooksService.getPlaybookById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: playbook,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updatePlaybook(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdatePlaybookDTO }>,
+    reply: FastifyReply
+  ) {
+    const playbook = await this.playbooksService.updatePlaybook(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: playbook,
+      message: 'Playbook updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deletePlaybook(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.playbooksService.deletePlaybook(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Playbook deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
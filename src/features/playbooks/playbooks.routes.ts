@@ -0,0 +1,60 @@
+import { FastifyInstance } from 'fastify';
+import { PlaybooksController } from './playbooks.controller';
+import { PlaybooksService } from './playbooks.service';
+import {
+  CreatePlaybookDTO,
+  UpdatePlaybookDTO,
+  PlaybookListQuery,
+} from './playbooks.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createPlaybookSchema,
+  updatePlaybookSchema,
+  playbookListQuerySchema,
+} from './playbooks.schema';
+
+export async function playbooksRoutes(app: FastifyInstance) {
+  const playbooksService = new PlaybooksService(prisma);
+  const playbooksController = new PlaybooksController(playbooksService);
+
+  // Playbooks are managed by admins only
+  app.addHook('preHandler', authMiddleware);
+  app.addHook('preHandler', requireRole('ADMIN', 'SUPER_ADMIN'));
+
+  // List playbooks
+  app.get<{ Querystring: PlaybookListQuery }>(
+    '/',
+    {
+      preHandler: [validate(playbookListQuerySchema, 'query')],
+    },
+    playbooksController.getPlaybooks.bind(playbooksController)
+  );
+
+  // Get playbook by ID
+  app.get('/:id', playbooksController.getPlaybookById.bind(playbooksController));
+
+  // Create playbook
+  app.post<{ Body: CreatePlaybookDTO }>(
+    '/',
+    {
+      preHandler: [validate(createPlaybookSchema)],
+    },
+    playbooksController.createPlaybook.bind(playbooksController)
+  );
+
+  // Update playbook
+  app.put<{ Params: { id: string }; Body: UpdatePlaybookDTO }>(
+    '/:id',
+    {
+      preHandler: [validate(updatePlaybookSchema)],
+    },
+    playbooksController.updatePlaybook.bind(playbooksController)
+  );
+
+  // Delete playbook
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    playbooksController.deletePlaybook.bind(playbooksController)
+  );
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { IncidentPriority, IncidentType } from '@prisma/client';
+
+const playbookItemSchema = z.object({
+  title: z.string().min(1, 'Item title is required'),
+  description: z.string().optional(),
+  isRequired: z.boolean().optional(),
+});
+
+export const createPlaybookSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  isActive: z.boolean().optional(),
+  incidentType: z.nativeEnum(IncidentType).optional(),
+  incidentPriority: z.nativeEnum(IncidentPriority).optional(),
+  requiredForResolution: z.boolean().optional(),
+  items: z.array(playbookItemSchema).min(1, 'At least one checklist item is needed').max(50),
+});
+
+export const updatePlaybookSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  isActive: z.boolean().optional(),
+  incidentType: z.nativeEnum(IncidentType).nullable().optional(),
+  incidentPriority: z.nativeEnum(IncidentPriority).nullable().optional(),
+  requiredForResolution: z.boolean().optional(),
+  items: z.array(playbookItemSchema).min(1, 'At least one checklist item is needed').max(50).optional(),
+});
+
+export const playbookListQuerySchema = z.object({
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+  incidentType: z.nativeEnum(IncidentType).optional(),
+});
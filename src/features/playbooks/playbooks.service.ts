@@ -0,0 +1,89 @@
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError } from '../../core/errors';
+import {
+  CreatePlaybookDTO,
+  UpdatePlaybookDTO,
+  PlaybookListQuery,
+  PlaybookItemInput,
+} from './playbooks.types';
+
+const itemsInclude = { items: { orderBy: { order: 'asc' as const } } };
+
+export class PlaybooksService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createPlaybook(data: CreatePlaybookDTO, userId: string) {
+    const { items, ...playbookData } = data;
+
+    return this.prisma.playbook.create({
+      data: {
+        ...playbookData,
+        createdById: userId,
+        items: { create: this.toItemRows(items) },
+      },
+      include: itemsInclude,
+    });
+  }
+
+  async getPlaybooks(query: PlaybookListQuery) {
+    return this.prisma.playbook.findMany({
+      where: {
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+        ...(query.incidentType && { incidentType: query.incidentType }),
+      },
+      include: itemsInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getPlaybookById(id: string) {
+    const playbook = await this.prisma.playbook.findUnique({
+      where: { id },
+      include: itemsInclude,
+    });
+
+    if (!playbook) {
+      throw new NotFoundError('Playbook not found');
+    }
+
+    return playbook;
+  }
+
+  /**
+   * Checklists already on incidents are snapshots and are not changed
+   */
+  async updatePlaybook(id: string, data: UpdatePlaybookDTO) {
+    await this.getPlaybookById(id);
+
+    const { items, ...playbookData } = data;
+
+    return this.prisma.playbook.update({
+      where: { id },
+      data: {
+        ...playbookData,
+        ...(items && {
+          items: {
+            deleteMany: {},
+            create: this.toItemRows(items),
+          },
+        }),
+      },
+      include: itemsInclude,
+    });
+  }
+
+  async deletePlaybook(id: string) {
+    await this.getPlaybookById(id);
+    await this.prisma.playbook.delete({ where: { id } });
+    return { id };
+  }
+
+  private toItemRows(items: PlaybookItemInput[]) {
+    return items.map((item, index) => ({
+      order: index + 1,
+      title: item.title,
+      description: item.description,
+      isRequired: item.isRequired ?? true,
+    }));
+  }
+}
@@ -0,0 +1,34 @@
+import { IncidentPriority, IncidentType } from '@prisma/client';
+
+export interface PlaybookItemInput {
+  title: string;
+  description?: string;
+  isRequired?: boolean;
+}
+
+export interface CreatePlaybookDTO {
+  name: string;
+  description?: string;
+  isActive?: boolean;
+  incidentType?: IncidentType;
+  incidentPriority?: IncidentPriority;
+  requiredForResolution?: boolean;
+  // Listed in checklist order
+  items: PlaybookItemInput[];
+}
+
+export interface UpdatePlaybookDTO {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  incidentType?: IncidentType | null;
+  incidentPriority?: IncidentPriority | null;
+  requiredForResolution?: boolean;
+  // Replaces all items when given
+  items?: PlaybookItemInput[];
+}
+
+export interface PlaybookListQuery {
+  isActive?: boolean;
+  incidentType?: IncidentType;
+}
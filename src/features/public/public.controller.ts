@@ -4,6 +4,7 @@ import type {
   CreatePublicIncidentInput,
   CreatePublicSessionInput,
   GetPublicIncidentsInput,
+  GetPublicCustomFieldsInput,
 } from './public.schema';
 import { promises as fs } from 'fs';
 import path from 'path';
@@ -122,6 +123,18 @@ export class PublicController {
         incidentData.latitude = parseFloat(incidentData.latitude);
         incidentData.longitude = parseFloat(incidentData.longitude);
 
+        // Custom field values arrive as a JSON-encoded form field
+        if (typeof incidentData.customFields === 'string') {
+          try {
+            incidentData.customFields = JSON.parse(incidentData.customFields);
+          } catch {
+            return reply.status(400).send({
+              success: false,
+              error: { message: 'customFields must be valid JSON', statusCode: 400 },
+            });
+          }
+        }
+
         // Basic validation for required fields
         if (!sessionToken) {
           return reply.status(400).send({
@@ -255,4 +268,20 @@ export class PublicController {
       data: barangays,
     });
   };
+
+  /**
+   * GET /api/v1/public/custom-fields?type=FIRE
+   * Get the custom fields reporters can fill in for an incident type
+   */
+  getCustomFields = async (
+    request: FastifyRequest<{ Querystring: GetPublicCustomFieldsInput }>,
+    reply: FastifyReply
+  ) => {
+    const fields = await this.publicService.getCustomFields(request.query.type);
+
+    return reply.send({
+      success: true,
+      data: fields,
+    });
+  };
 }
@@ -8,6 +8,8 @@ import { validate } from '../../core/middleware/validation.middleware';
 import {
   createPublicSessionSchema,
   CreatePublicSessionInput,
+  getPublicCustomFieldsSchema,
+  GetPublicCustomFieldsInput,
 } from './public.schema';
 
 export async function publicRoutes(fastify: FastifyInstance) {
@@ -61,4 +63,13 @@ export async function publicRoutes(fastify: FastifyInstance) {
     '/barangays',
     publicController.getBarangays.bind(publicController)
   );
+
+  // Get custom fields for the report form of an incident type
+  fastify.get<{ Querystring: GetPublicCustomFieldsInput }>(
+    '/custom-fields',
+    {
+      preHandler: [validate(getPublicCustomFieldsSchema, 'query')],
+    },
+    publicController.getCustomFields.bind(publicController)
+  );
 }
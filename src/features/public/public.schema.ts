@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { IncidentType } from '@prisma/client';
+import { customFieldValuesSchema } from '../custom-fields/custom-fields.schema';
 
 // OWASP A03/V5: Enhanced input validation with strict bounds and patterns
 export const createPublicIncidentSchema = z.object({
@@ -47,6 +48,7 @@ export const createPublicIncidentSchema = z.object({
     ),
   sessionToken: z.string()
     .uuid('Invalid session token format'),
+  customFields: customFieldValuesSchema.optional(),
 });
 
 export const createPublicSessionSchema = z.object({
@@ -58,6 +60,11 @@ export const getPublicIncidentsSchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(50).optional(),
 });
 
+export const getPublicCustomFieldsSchema = z.object({
+  type: z.nativeEnum(IncidentType),
+});
+
 export type CreatePublicIncidentInput = z.infer<typeof createPublicIncidentSchema>;
 export type CreatePublicSessionInput = z.infer<typeof createPublicSessionSchema>;
 export type GetPublicIncidentsInput = z.infer<typeof getPublicIncidentsSchema>;
+export type GetPublicCustomFieldsInput = z.infer<typeof getPublicCustomFieldsSchema>;
@@ -1,6 +1,11 @@
 import { PrismaClient, IncidentType, IncidentStatus } from '@prisma/client';
 import { NotFoundError, ValidationError } from '../../core/errors';
 import { SanitizationService } from '../../core/utils/sanitization';
+import { DomainEventBus, domainEvents } from '../../core/events';
+import { IncidentDuplicatesService } from '../incidents/duplicates.service';
+import { BarangaysService } from '../barangays/barangays.service';
+import { IncidentNumberService } from '../incidents/incident-number.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
 import type {
   CreatePublicIncidentDTO,
   PublicSessionDTO,
@@ -9,7 +14,17 @@ import type {
 } from './public.types';
 
 export class PublicService {
-  constructor(private prisma: PrismaClient) {}
+  private duplicatesService: IncidentDuplicatesService;
+  private barangaysService: BarangaysService;
+  private incidentNumbers: IncidentNumberService;
+  private customFieldsService: CustomFieldsService;
+
+  constructor(private prisma: PrismaClient, private bus: DomainEventBus = domainEvents) {
+    this.duplicatesService = new IncidentDuplicatesService(prisma);
+    this.barangaysService = new BarangaysService(prisma);
+    this.incidentNumbers = new IncidentNumberService(prisma);
+    this.customFieldsService = new CustomFieldsService(prisma);
+  }
 
   /**
    * Create or retrieve a public session
@@ -113,84 +128,47 @@ export class PublicService {
     if (!sanitizedData.reporterPhone) {
       throw new ValidationError('Invalid phone number format');
     }
-    
-    // Check for duplicate reports (same type + location within 30 minutes)
-    // DISABLED FOR TESTING - Uncomment to enable duplicate checking
-    /*
-    const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-    const duplicate = await this.prisma.incident.findFirst({
-      where: {
-        type: data.type,
-        latitude: { gte: data.latitude - 0.001, lte: data.latitude + 0.001 },
-        longitude: { gte: data.longitude - 0.001, lte: data.longitude + 0.001 },
-        reportedAt: { gte: thirtyMinutesAgo },
-        status: { notIn: ['CLOSED', 'CANCELLED', 'SPAM'] },
-      },
-    });
-
-    if (duplicate) {
-      throw new ValidationError(
-        'A similar incident has already been reported in this area. Please check existing reports.'
-      );
-    }
-    */
 
-    // Find nearest barangay
-    const barangays = await this.prisma.barangay.findMany({
-      where: { isActive: true },
-    });
-
-    let nearestBarangay = null;
-    let minDistance = Infinity;
-
-    for (const barangay of barangays) {
-      const distance = this.calculateDistance(
-        data.latitude,
-        data.longitude,
-        barangay.latitude,
-        barangay.longitude
-      );
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestBarangay = barangay;
-      }
-    }
-
-    // Generate incident number
-    const year = new Date().getFullYear();
-    const count = await this.prisma.incident.count({
-      where: {
-        incidentNumber: { startsWith: `INC${year}` },
-      },
-    });
-    const incidentNumber = `INC${year}-${String(count + 1).padStart(4, '0')}`;
+    // Only the fields marked public can be filled in by reporters
+    const customFields = await this.customFieldsService.validateValues(
+      sanitizedData.type,
+      this.sanitizeCustomFields(data.customFields),
+      'public'
+    );
+    
+    // Locate the barangay whose coverage area contains the report
+    const location = await this.barangaysService.locateBarangay(data.latitude, data.longitude);
 
     // Create incident with PENDING_VERIFICATION status
     // Priority will be set by admin during verification
-    const incident = await this.prisma.incident.create({
-      data: {
-        incidentNumber,
-        type: sanitizedData.type,
-        priority: 'MEDIUM', // Default, admin will set actual priority during verification
-        status: IncidentStatus.PENDING_VERIFICATION,
-        title: `${sanitizedData.type} - ${sanitizedData.address}`,
-        description: sanitizedData.description,
-        latitude: sanitizedData.latitude,
-        longitude: sanitizedData.longitude,
-        address: sanitizedData.address,
-        landmark: sanitizedData.landmark,
-        reporterName: sanitizedData.reporterName,
-        reporterPhone: sanitizedData.reporterPhone,
-        isPublicReport: true,
-        publicSessionId: session.id,
-        barangayId: nearestBarangay?.id,
-      },
-      include: {
-        photos: {
-          select: { id: true, url: true },
+    const { reporterPhone } = sanitizedData;
+    const incident = await this.incidentNumbers.createWithNumber((incidentNumber) =>
+      this.prisma.incident.create({
+        data: {
+          incidentNumber,
+          type: sanitizedData.type,
+          priority: 'MEDIUM', // Default, admin will set actual priority during verification
+          status: IncidentStatus.PENDING_VERIFICATION,
+          title: `${sanitizedData.type} - ${sanitizedData.address}`,
+          description: sanitizedData.description,
+          latitude: sanitizedData.latitude,
+          longitude: sanitizedData.longitude,
+          address: sanitizedData.address,
+          landmark: sanitizedData.landmark,
+          reporterName: sanitizedData.reporterName,
+          reporterPhone,
+          isPublicReport: true,
+          publicSessionId: session.id,
+          barangayId: location.barangay?.id,
+          customFields,
         },
-      },
-    });
+        include: {
+          photos: {
+            select: { id: true, url: true },
+          },
+        },
+      })
+    );
 
     // Update session stats
     await this.prisma.publicSession.update({
@@ -201,16 +179,29 @@ export class PublicService {
       },
     });
 
+    // Flag likely duplicates for the admin verifying this report; they can be
+    // merged from the incident detail view (POST /incidents/:id/merge)
+    const duplicates = await this.duplicatesService.findDuplicates(incident, incident.id);
+
     // Create initial update
     await this.prisma.incidentUpdate.create({
       data: {
         incidentId: incident.id,
-        message: 'Incident reported by public user. Awaiting verification.',
+        message: duplicates.length > 0
+          ? `Incident reported by public user. Awaiting verification. Possible duplicate of ${duplicates.map((d) => d.incidentNumber).join(', ')}.`
+          : 'Incident reported by public user. Awaiting verification.',
         updateType: 'STATUS_CHANGE',
-        metadata: { status: 'PENDING_VERIFICATION', source: 'public' },
+        metadata: {
+          status: 'PENDING_VERIFICATION',
+          source: 'public',
+          possibleDuplicateIds: duplicates.map((d) => d.incidentId),
+        },
       },
     });
 
+    // Admin screens learn about the report through the IncidentCreated broadcast
+    this.bus.publish('IncidentCreated', { incident, source: 'PUBLIC' });
+
     return this.formatPublicIncident(incident);
   }
 
@@ -264,6 +255,24 @@ export class PublicService {
     return this.formatPublicIncident(incident);
   }
 
+  /**
+   * Custom fields shown on the public report form for an incident type
+   */
+  async getCustomFields(type: IncidentType) {
+    const fields = await this.customFieldsService.getDefinitions(type, true);
+
+    return fields.map((field) => ({
+      key: field.key,
+      label: field.label,
+      description: field.description,
+      fieldType: field.fieldType,
+      isRequired: field.isRequired,
+      options: field.options,
+      min: field.min,
+      max: field.max,
+    }));
+  }
+
   /**
    * Get active barangays/posts for public view
    */
@@ -292,6 +301,18 @@ export class PublicService {
     }));
   }
 
+  // OWASP A03/V5: Free-text custom field values are sanitized like other inputs
+  private sanitizeCustomFields(values?: Record<string, unknown>) {
+    if (!values) return undefined;
+
+    return Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        typeof value === 'string' ? SanitizationService.sanitizeString(value) : value,
+      ])
+    );
+  }
+
   /**
    * Format incident for public response (hide sensitive data)
    */
@@ -328,25 +349,4 @@ export class PublicService {
       },
     });
   }
-
-  /**
-   * Calculate distance between two coordinates (Haversine formula)
-   */
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) *
-        Math.cos(this.deg2rad(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
-  }
 }
@@ -11,6 +11,7 @@ export interface CreatePublicIncidentDTO {
   reporterName: string;
   reporterPhone: string;
   landmark?: string;
+  customFields?: Record<string, unknown>;
 }
 
 export interface PublicSessionDTO {
@@ -0,0 +1,307 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma, RealtimeEvent } from '@prisma/client';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { EventSyncMeta, SyncResult } from './realtime.types';
+
+const { MAX_EVENTS_PER_TYPE, RETENTION_HOURS, MAX_REPLAY_EVENTS, REDELIVERY_WINDOW_MINUTES } = CONSTANTS.REALTIME_EVENTS;
+const CRITICAL_EVENTS: readonly string[] = CONSTANTS.REALTIME_EVENTS.CRITICAL_EVENTS;
+const UNLOGGED_EVENTS: readonly string[] = CONSTANTS.REALTIME_EVENTS.UNLOGGED_EVENTS;
+
+// socket.io-parser packet type of a plain event
+const EVENT_PACKET = 2;
+
+// Events emitted with io.emit() go to every socket and are logged under this room
+const ALL_ROOM = '*';
+
+/**
+ * Bounded log of room broadcasts. Hooking the adapter means every existing
+ * `io.to(...).emit(...)` gets a per-room sequence number without changes at
+ * the call sites; sockets replay what they missed with `sync:since`.
+ */
+export class RealtimeEventLogService {
+  private sequences = new Map<string, number>();
+  // Rooms joined asynchronously after connect, such as incident chat rooms
+  private roomsReady = new WeakMap<Socket, Promise<unknown>>();
+  // Writes are chained so the log is stored in emit order
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private prisma: PrismaClient, private io: SocketIOServer) {}
+
+  /**
+   * Continue the sequences stored before the last restart
+   */
+  async init() {
+    const rooms = await this.prisma.realtimeEvent.groupBy({
+      by: ['room'],
+      _max: { seq: true },
+    });
+
+    rooms.forEach((row) => this.sequences.set(row.room, row._max.seq ?? 0));
+  }
+
+  attach() {
+    const adapter = this.io.of('/').adapter;
+    const broadcast = adapter.broadcast.bind(adapter);
+
+    adapter.broadcast = (packet, opts) => {
+      try {
+        this.record(packet, opts.rooms, Boolean(opts.flags?.volatile));
+      } catch (error) {
+        // Never hold back a live event because logging it failed
+        logger.error('[Realtime] Failed to log event:', error);
+      }
+      broadcast(packet, opts);
+    };
+  }
+
+  /**
+   * Hold replays for the socket until `ready` settles, so cursors for rooms
+   * that are still being joined are not ignored
+   */
+  trackRooms(socket: Socket, ready: Promise<unknown>) {
+    this.roomsReady.set(socket, ready.catch(() => undefined));
+  }
+
+  /**
+   * Resend what the socket missed in the rooms it has a cursor for
+   */
+  async replay(socket: Socket, cursors: Record<string, number>): Promise<SyncResult> {
+    await Promise.all([this.writes, this.roomsReady.get(socket)]);
+
+    const rooms = this.roomsOf(socket);
+    const current: Record<string, number> = Object.fromEntries(
+      rooms.map((room) => [room, this.sequences.get(room) ?? 0])
+    );
+    const requested = rooms.filter((room) => cursors[room] !== undefined);
+    const ignored = Object.keys(cursors).filter((room) => !rooms.includes(room));
+
+    if (ignored.length > 0) {
+      logger.debug(`[Realtime] Ignored cursors for rooms ${socket.data.userId} is not in: ${ignored.join(', ')}`);
+    }
+
+    if (requested.length === 0) {
+      return { replayed: 0, truncated: false, cursors: current, gaps: [], ignored };
+    }
+
+    const [rows, oldest] = await Promise.all([
+      this.prisma.realtimeEvent.findMany({
+        where: { OR: requested.map((room) => ({ room, seq: { gt: cursors[room] } })) },
+        orderBy: [{ createdAt: 'asc' }, { seq: 'asc' }],
+        take: MAX_REPLAY_EVENTS + 1,
+      }),
+      this.prisma.realtimeEvent.groupBy({
+        by: ['room'],
+        where: { room: { in: requested } },
+        _min: { seq: true },
+      }),
+    ]);
+
+    const truncated = rows.length > MAX_REPLAY_EVENTS;
+    const page = rows.slice(0, MAX_REPLAY_EVENTS);
+
+    const gaps = requested.filter((room) => {
+      const cursor = cursors[room];
+      const min = oldest.find((row) => row.room === room)?._min.seq;
+      // A cursor ahead of the server means the log was reset
+      if (cursor > current[room]) return true;
+      return min === undefined || min === null ? current[room] > cursor : min > cursor + 1;
+    });
+
+    const events = this.groupByEvent(page);
+    events.forEach(({ first, seq }) => socket.emit(first.event, this.withMeta(first, seq, { replayed: true })));
+
+    // A partial replay only moves the cursors up to what was sent
+    if (truncated) {
+      requested.forEach((room) => {
+        const sent = page.filter((row) => row.room === room).map((row) => row.seq);
+        current[room] = sent.length > 0 ? Math.max(...sent) : cursors[room];
+      });
+    }
+
+    return { replayed: events.length, truncated, cursors: current, gaps, ignored };
+  }
+
+  async acknowledge(socket: Socket, eventIds: string[]) {
+    await this.writes;
+
+    const { count } = await this.prisma.realtimeEventAck.createMany({
+      data: eventIds.map((eventId) => ({ eventId, recipient: this.recipientOf(socket) })),
+      skipDuplicates: true,
+    });
+
+    return { acknowledged: count };
+  }
+
+  /**
+   * Resend unacknowledged critical events to connected personnel. Events
+   * younger than minAgeMs are skipped to give the first delivery time to ack.
+   */
+  async redeliver(minAgeMs: number): Promise<number> {
+    const now = Date.now();
+    const pending = await this.prisma.realtimeEvent.findMany({
+      where: {
+        requiresAck: true,
+        createdAt: {
+          gte: new Date(now - REDELIVERY_WINDOW_MINUTES * 60 * 1000),
+          lte: new Date(now - minAgeMs),
+        },
+      },
+      orderBy: [{ createdAt: 'asc' }, { seq: 'asc' }],
+    });
+
+    if (pending.length === 0) return 0;
+
+    const acks = await this.prisma.realtimeEventAck.findMany({
+      where: { eventId: { in: Array.from(new Set(pending.map((row) => row.eventId))) } },
+      select: { eventId: true, recipient: true },
+    });
+    const acked = new Set(acks.map((ack) => `${ack.eventId}|${ack.recipient}`));
+
+    let resent = 0;
+    this.io.sockets.sockets.forEach((socket) => {
+      if (socket.data.role !== 'PERSONNEL') return;
+
+      const recipient = this.recipientOf(socket);
+      const rooms = new Set(this.roomsOf(socket));
+      const missing = pending.filter((row) => rooms.has(row.room) && !acked.has(`${row.eventId}|${recipient}`));
+
+      this.groupByEvent(missing).forEach(({ first, seq }) => {
+        socket.emit(first.event, this.withMeta(first, seq, { redelivered: true }));
+        resent++;
+      });
+    });
+
+    if (resent > 0) {
+      logger.info(`[Realtime] Re-delivered ${resent} unacknowledged critical events`);
+    }
+
+    return resent;
+  }
+
+  /**
+   * Drop events past the retention period and keep at most MAX_EVENTS_PER_TYPE
+   * per room and event name. The newest event of each room is always kept so
+   * sequences continue after a restart.
+   */
+  async prune() {
+    const cutoff = new Date(Date.now() - RETENTION_HOURS * 60 * 60 * 1000);
+    let removed = 0;
+
+    const groups = await this.prisma.realtimeEvent.groupBy({
+      by: ['room', 'event'],
+      _count: { _all: true },
+    });
+
+    for (const group of groups.filter((g) => g._count._all > MAX_EVENTS_PER_TYPE)) {
+      const threshold = await this.prisma.realtimeEvent.findFirst({
+        where: { room: group.room, event: group.event },
+        orderBy: { seq: 'desc' },
+        skip: MAX_EVENTS_PER_TYPE,
+        select: { seq: true },
+      });
+
+      if (threshold) {
+        const { count } = await this.prisma.realtimeEvent.deleteMany({
+          where: { room: group.room, event: group.event, seq: { lte: threshold.seq } },
+        });
+        removed += count;
+      }
+    }
+
+    const latest = await this.prisma.realtimeEvent.groupBy({
+      by: ['room'],
+      _max: { seq: true },
+    });
+
+    const expired = await this.prisma.realtimeEvent.deleteMany({
+      where: {
+        createdAt: { lt: cutoff },
+        NOT: { OR: latest.map((row) => ({ room: row.room, seq: row._max.seq ?? 0 })) },
+      },
+    });
+
+    await this.prisma.realtimeEventAck.deleteMany({ where: { ackedAt: { lt: cutoff } } });
+
+    removed += expired.count;
+    if (removed > 0) {
+      logger.info(`[Realtime] Pruned ${removed} logged events`);
+    }
+
+    return removed;
+  }
+
+  private record(packet: { type: number; data?: unknown[] }, targets: Set<string>, volatile: boolean) {
+    if (packet.type !== EVENT_PACKET || volatile || !packet.data) return;
+
+    const [event, payload, ...rest] = packet.data;
+    if (typeof event !== 'string' || UNLOGGED_EVENTS.includes(event)) return;
+
+    // Only single object payloads can carry the sync metadata
+    if (rest.length > 0 || !payload || typeof payload !== 'object' || Array.isArray(payload)) return;
+
+    // Rooms named after a socket ID are direct messages, not replayable rooms
+    const rooms = targets.size > 0
+      ? Array.from(targets).filter((room) => !this.io.sockets.sockets.has(room))
+      : [ALL_ROOM];
+    if (rooms.length === 0) return;
+
+    const seq: Record<string, number> = {};
+    rooms.forEach((room) => {
+      seq[room] = (this.sequences.get(room) ?? 0) + 1;
+      this.sequences.set(room, seq[room]);
+    });
+
+    const meta: EventSyncMeta = {
+      eventId: randomUUID(),
+      seq,
+      ackRequired: CRITICAL_EVENTS.includes(event),
+    };
+
+    // Snapshot before the payload is mutated or goes out of scope
+    const stored = JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonObject;
+    packet.data[1] = { ...payload, _sync: meta };
+
+    this.writes = this.writes
+      .then(() => this.prisma.realtimeEvent.createMany({
+        data: rooms.map((room) => ({
+          eventId: meta.eventId,
+          room,
+          seq: seq[room],
+          event,
+          payload: stored,
+          requiresAck: meta.ackRequired,
+        })),
+      }))
+      .catch((error) => logger.error(`[Realtime] Failed to store ${event}:`, error));
+  }
+
+  /**
+   * Collapse the per-room rows of each event, keeping the log order
+   */
+  private groupByEvent(rows: RealtimeEvent[]) {
+    const events = new Map<string, { first: RealtimeEvent; seq: Record<string, number> }>();
+
+    rows.forEach((row) => {
+      const entry = events.get(row.eventId) ?? { first: row, seq: {} };
+      entry.seq[row.room] = row.seq;
+      events.set(row.eventId, entry);
+    });
+
+    return Array.from(events.values());
+  }
+
+  private withMeta(row: RealtimeEvent, seq: Record<string, number>, flags: Partial<EventSyncMeta>) {
+    const meta: EventSyncMeta = { eventId: row.eventId, seq, ackRequired: row.requiresAck, ...flags };
+    return { ...(row.payload as Prisma.JsonObject), _sync: meta };
+  }
+
+  private roomsOf(socket: Socket): string[] {
+    return [...Array.from(socket.rooms).filter((room) => room !== socket.id), ALL_ROOM];
+  }
+
+  private recipientOf(socket: Socket): string {
+    return socket.data.role === 'PERSONNEL' ? `personnel:${socket.data.userId}` : `user:${socket.data.userId}`;
+  }
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { CONSTANTS } from '../../config/constants';
+
+export const syncSinceSchema = z.object({
+  cursors: z.record(z.number().int().min(0)).default({}),
+});
+
+export const eventAckSchema = z.object({
+  eventIds: z.array(z.string().min(1)).min(1).max(CONSTANTS.REALTIME_EVENTS.MAX_REPLAY_EVENTS),
+});
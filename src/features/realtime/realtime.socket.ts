@@ -0,0 +1,21 @@
+import { Socket } from 'socket.io';
+import { logger } from '../../core/utils/logger';
+import { handleSocketEvent } from '../../core/utils/socket-handler';
+import { RealtimeEventLogService } from './event-log.service';
+import { syncSinceSchema, eventAckSchema } from './realtime.schema';
+
+/**
+ * `sync:since` replays missed events after a reconnect and `event:ack`
+ * confirms events sent with `_sync.ackRequired`.
+ */
+export function registerRealtimeHandlers(socket: Socket, eventLog: RealtimeEventLogService) {
+  const { userId } = socket.data;
+
+  handleSocketEvent(socket, 'sync:since', syncSinceSchema, async (data) => {
+    const result = await eventLog.replay(socket, data.cursors);
+    logger.debug(`[Realtime] Replayed ${result.replayed} events to ${userId}`);
+    return result;
+  });
+
+  handleSocketEvent(socket, 'event:ack', eventAckSchema, (data) => eventLog.acknowledge(socket, data.eventIds));
+}
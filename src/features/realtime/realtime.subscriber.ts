@@ -0,0 +1,133 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { DomainEventBus } from '../../core/events';
+import { IncidentChatService } from '../incidents/chat.service';
+
+// SOS alerts go to admins and the personnel the event names
+function sosRooms(recipientIds: string[]): string[] {
+  return ['admin', ...recipientIds.map((id) => `personnel:${id}`)];
+}
+
+/**
+ * Socket.IO broadcasts for domain events. Event names and payloads are the
+ * ones clients already listen for.
+ */
+export function registerRealtimeSubscriber(bus: DomainEventBus, io: SocketIOServer): () => void {
+  const subscriptions = [
+    bus.subscribe('IncidentCreated', ({ payload }) => {
+      io.emit('incident:created', payload.incident);
+    }),
+
+    bus.subscribe('IncidentStatusChanged', ({ payload }) => {
+      io.emit('incident:status-changed', {
+        id: payload.incidentId,
+        incidentNumber: payload.incidentNumber,
+        previousStatus: payload.previousStatus,
+        status: payload.status,
+        priority: payload.priority,
+        changedBy: payload.actor,
+      });
+    }),
+
+    bus.subscribe('IncidentUpdated', ({ payload }) => {
+      io.emit('incident:updated', payload.incident);
+    }),
+
+    bus.subscribe('IncidentVerified', ({ payload: { incident }, occurredAt }) => {
+      io.to('personnel').emit('incident:verified', { incident, timestamp: occurredAt.toISOString() });
+
+      // In-app notification for responders
+      io.to('personnel').emit('notification:new', {
+        title: `🚨 VERIFIED: ${incident.incidentNumber}`,
+        message: `${incident.type} at ${incident.address}. Priority: ${incident.priority}. Respond immediately!`,
+        type: 'alert',
+        targets: ['personnel'],
+        incidentId: incident.id,
+        priority: incident.priority,
+      });
+
+      io.to(`incident:${incident.id}`).emit('incident:updated', incident);
+    }),
+
+    bus.subscribe('IncidentResolved', ({ payload }) => {
+      io.emit('incident:resolved', payload);
+    }),
+
+    bus.subscribe('IncidentsMerged', ({ payload: { incident, mergedIncidentIds } }) => {
+      io.emit('incident:merged', { incidentId: incident.id, mergedIncidentIds });
+      io.emit('incident:updated', incident);
+    }),
+
+    bus.subscribe('IncidentDeleted', ({ payload }) => {
+      io.emit('incident:deleted', { id: payload.incidentId });
+    }),
+
+    bus.subscribe('IncidentRestored', ({ payload: { incident } }) => {
+      io.emit('incident:restored', { id: incident.id });
+      io.emit('incident:updated', incident);
+    }),
+
+    bus.subscribe('IncidentUpdateAdded', ({ payload }) => {
+      io.emit('incident:update-added', payload);
+    }),
+
+    bus.subscribe('IncidentAcknowledged', ({ payload }) => {
+      io.emit('incident:acknowledged', payload);
+    }),
+
+    bus.subscribe('PersonnelAssigned', ({ payload: { dispatchRule, ...assigned } }) => {
+      // Assigned personnel join the incident chat room
+      assigned.personnelIds.forEach((id) =>
+        io.in(`personnel:${id}`).socketsJoin(IncidentChatService.room(assigned.incidentId))
+      );
+
+      io.emit(
+        'incident:personnel-assigned',
+        dispatchRule ? { ...assigned, autoDispatched: true, rule: dispatchRule } : assigned
+      );
+    }),
+
+    bus.subscribe('ResponderJoined', ({ payload }) => {
+      io.emit('incident:responder-joined', payload);
+    }),
+
+    bus.subscribe('ResponderLeft', ({ payload }) => {
+      io.emit('incident:responder-left', payload);
+    }),
+
+    bus.subscribe('ResolutionSubmitted', ({ payload }) => {
+      io.emit('incident:resolution-submitted', {
+        incidentId: payload.incidentId,
+        personnelId: payload.personnelId,
+      });
+    }),
+
+    bus.subscribe('PersonnelStatusChanged', ({ payload }) => {
+      io.emit('personnel:status', payload);
+    }),
+
+    bus.subscribe('PersonnelLocationUpdated', ({ payload, occurredAt }) => {
+      io.to('admin').emit('personnel:location:updated', {
+        ...payload,
+        metadata: { timestamp: occurredAt.toISOString() },
+      });
+    }),
+
+    bus.subscribe('SosRaised', ({ payload }) => {
+      io.to(sosRooms(payload.recipientIds)).emit('personnel:sos:alert', payload.alert);
+    }),
+
+    bus.subscribe('SosAcknowledged', ({ payload }) => {
+      io.to(sosRooms(payload.recipientIds)).emit('personnel:sos:updated', payload.alert);
+    }),
+
+    bus.subscribe('SosResolved', ({ payload }) => {
+      io.to(sosRooms(payload.recipientIds)).emit('personnel:sos:updated', payload.alert);
+    }),
+
+    bus.subscribe('SosCancelled', ({ payload }) => {
+      io.to(sosRooms(payload.recipientIds)).emit('personnel:sos:updated', payload.alert);
+    }),
+  ];
+
+  return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+}
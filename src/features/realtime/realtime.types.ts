@@ -0,0 +1,30 @@
+/**
+ * Added to the payload of every logged event. Clients keep the highest seq
+ * seen per room and send those cursors with `sync:since` after reconnecting.
+ */
+export interface EventSyncMeta {
+  eventId: string;
+  seq: Record<string, number>;
+  ackRequired: boolean;
+  replayed?: boolean;
+  redelivered?: boolean;
+}
+
+export interface SyncSinceDTO {
+  cursors: Record<string, number>;
+}
+
+export interface EventAckDTO {
+  eventIds: string[];
+}
+
+export interface SyncResult {
+  replayed: number;
+  // More events are waiting; call sync:since again with the returned cursors
+  truncated: boolean;
+  cursors: Record<string, number>;
+  // Rooms whose missed events were already pruned; the client should refetch
+  gaps: string[];
+  // Cursors for rooms this socket is not in (e.g. an incident it was removed from); not replayed
+  ignored: string[];
+}
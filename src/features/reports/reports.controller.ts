@@ -1,6 +1,6 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ReportsService } from './reports.service';
-import { GenerateReportDTO } from './reports.types';
+import { GenerateReportDTO, ReportType } from './reports.types';
 
 export class ReportsController {
   constructor(private reportsService: ReportsService) {}
@@ -43,7 +43,7 @@ export class ReportsController {
   }
 
   async generateIncidentSummary(
-    request: FastifyRequest<{ Querystring: { fromDate?: string; toDate?: string; includeStatistics?: string } }>,
+    request: FastifyRequest<{ Querystring: { fromDate?: string; toDate?: string; includeStatistics?: string; eventId?: string } }>,
     reply: FastifyReply
   ) {
     const userId = request.user!.userId;
@@ -53,6 +53,7 @@ export class ReportsController {
         fromDate: request.query.fromDate,
         toDate: request.query.toDate,
         includeStatistics: request.query.includeStatistics === 'true',
+        eventId: request.query.eventId,
       },
       userId
     );
@@ -240,6 +241,26 @@ export class ReportsController {
     return reply.send(stream);
   }
 
+  async generateFleetReportExcel(
+    request: FastifyRequest<{ Querystring: { fromDate?: string; toDate?: string } }>,
+    reply: FastifyReply
+  ) {
+    const userId = request.user!.userId;
+    const { stream, filename } = await this.reportsService.generateExcelReport(
+      {
+        type: ReportType.FLEET_REPORT,
+        fromDate: request.query.fromDate,
+        toDate: request.query.toDate,
+      },
+      userId
+    );
+
+    reply.header('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+    
+    return reply.send(stream);
+  }
+
   async emailReport(
     request: FastifyRequest<{ Body: { email: string; reportType: string; fromDate?: string; toDate?: string } }>,
     reply: FastifyReply
@@ -2,12 +2,12 @@ import { FastifyInstance } from 'fastify';
 import { ReportsController } from './reports.controller';
 import { ReportsService } from './reports.service';
 import { GenerateReportDTO } from './reports.types';
-import { prisma } from '../../config/database';
+import { reportingPrisma } from '../../config/database';
 import { validate, authMiddleware, requireRole } from '../../core/middleware';
 import { generateReportSchema } from './reports.schema';
 
 export async function reportsRoutes(app: FastifyInstance) {
-  const reportsService = new ReportsService(prisma);
+  const reportsService = new ReportsService(reportingPrisma);
   const reportsController = new ReportsController(reportsService);
 
   // All routes require authentication and admin role
@@ -83,6 +83,11 @@ export async function reportsRoutes(app: FastifyInstance) {
     reportsController.generateStatisticsReportExcel.bind(reportsController)
   );
 
+  app.get(
+    '/excel/fleet',
+    reportsController.generateFleetReportExcel.bind(reportsController)
+  );
+
   // Email report endpoint
   app.post(
     '/email',
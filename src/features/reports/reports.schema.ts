@@ -9,6 +9,7 @@ export const generateReportSchema = z.object({
   incidentId: z.string().uuid().optional(),
   personnelId: z.string().uuid().optional(),
   barangayId: z.string().uuid().optional(),
+  eventId: z.string().optional(),
   includePhotos: z.boolean().optional(),
   includeTimeline: z.boolean().optional(),
   includeStatistics: z.boolean().optional(),
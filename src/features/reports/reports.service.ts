@@ -5,9 +5,77 @@ import PDFDocument from 'pdfkit';
 import { Readable } from 'stream';
 import { NotFoundError } from '../../core/errors';
 import * as XLSX from 'xlsx';
+import { IncidentTriageService } from '../incidents/triage.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { FleetService } from '../fleet/fleet.service';
+import { VehicleMaintenanceService } from '../fleet/maintenance.service';
 
 export class ReportsService {
-  constructor(private prisma: PrismaClient) {}
+  private triage: IncidentTriageService;
+  private customFields: CustomFieldsService;
+  private fleet: FleetService;
+  private maintenance: VehicleMaintenanceService;
+
+  constructor(private prisma: PrismaClient) {
+    this.triage = new IncidentTriageService(prisma);
+    this.customFields = new CustomFieldsService(prisma);
+    this.fleet = new FleetService(prisma);
+    this.maintenance = new VehicleMaintenanceService(prisma, this.fleet);
+  }
+
+  /**
+   * Triage counts across all patients of incidents reported in the period
+   */
+  private async getTriageTotals(fromDate: Date, toDate: Date) {
+    const patients = await this.prisma.incidentPatient.findMany({
+      where: { incident: { reportedAt: { gte: fromDate, lte: toDate } } },
+      select: { triageCategory: true, destinationHospital: true, transportedAt: true },
+    });
+
+    return this.triage.summarize(patients);
+  }
+
+  /**
+   * Per team: members, who of them can be dispatched now, and the incidents
+   * the team was assigned to (all time and still open)
+   */
+  private async getTeamActivity() {
+    const [teams, assignments] = await Promise.all([
+      this.prisma.team.findMany({
+        include: {
+          barangay: { select: { name: true } },
+          leader: { select: { firstName: true, lastName: true } },
+          members: { select: { personnel: { select: { status: true } } } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.incidentAssignment.findMany({
+        where: { teamId: { not: null } },
+        select: { teamId: true, incidentId: true, incident: { select: { status: true } } },
+      }),
+    ]);
+
+    const closed = ['RESOLVED', 'CLOSED', 'CANCELLED', 'SPAM', 'MERGED'];
+
+    return teams.map((team) => {
+      const own = assignments.filter((a) => a.teamId === team.id);
+      return {
+        name: team.name,
+        status: team.status,
+        isActive: team.isActive,
+        leader: team.leader ? `${team.leader.firstName} ${team.leader.lastName}` : null,
+        barangay: team.barangay?.name ?? null,
+        members: team.members.length,
+        availableMembers: team.members.filter((m) =>
+          ['AVAILABLE', 'ON_DUTY', 'ON_BREAK'].includes(m.personnel.status)
+        ).length,
+        incidents: new Set(own.map((a) => a.incidentId)).size,
+        activeIncidents: new Set(
+          own.filter((a) => !closed.includes(a.incident.status)).map((a) => a.incidentId)
+        ).size,
+      };
+    });
+  }
 
   private fmtDate(d: any): string {
     if (!d) return 'N/A';
@@ -145,6 +213,9 @@ export class ReportsService {
             id: true,
           },
         },
+        patients: {
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -306,6 +377,44 @@ export class ReportsService {
     }
     doc.moveDown();
 
+    // Mass-casualty triage
+    if (incident.isMci || incident.patients.length > 0) {
+      const triage = this.triage.summarize(incident.patients);
+
+      doc.fontSize(14).font('Helvetica-Bold').text('MASS CASUALTY TRIAGE (START)');
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica');
+      if (incident.mciDeclaredAt) {
+        doc.text(`MCI Declared At: ${fmt(incident.mciDeclaredAt)}`);
+      }
+      doc.text(`Total Patients: ${triage.total}`);
+      doc.text(
+        `RED (Immediate): ${triage.byCategory.RED}   YELLOW (Delayed): ${triage.byCategory.YELLOW}   ` +
+        `GREEN (Minor): ${triage.byCategory.GREEN}   BLACK (Deceased): ${triage.byCategory.BLACK}`
+      );
+      doc.text(`Transported: ${triage.transported}`);
+      triage.hospitals.forEach((hospital) => {
+        doc.text(`  - ${hospital.name}: ${hospital.count}`);
+      });
+      doc.moveDown(0.3);
+
+      incident.patients.forEach((patient) => {
+        const label = patient.tagNumber ? `Tag ${patient.tagNumber}` : 'Untagged';
+        const identity = [patient.name, patient.age !== null ? `${patient.age}y` : null, patient.sex]
+          .filter(Boolean)
+          .join(', ');
+        doc.font('Helvetica-Bold').text(`${label} - ${patient.triageCategory}${identity ? ` (${identity})` : ''}`);
+        doc.font('Helvetica');
+        if (patient.treatmentNotes) {
+          doc.text(`  Treatment: ${patient.treatmentNotes}`);
+        }
+        if (patient.outcome) {
+          doc.text(`  Outcome: ${patient.outcome}${patient.destinationHospital ? ` - ${patient.destinationHospital}` : ''}`);
+        }
+      });
+      doc.moveDown();
+    }
+
     // HOW - How is it being handled?
     doc.fontSize(14).font('Helvetica-Bold').text('HOW - How is it being handled?');
     doc.moveDown(0.5);
@@ -446,12 +555,21 @@ export class ReportsService {
     // console.log('[PDF SUMMARY] Generating incident summary PDF');
     // console.log('[PDF SUMMARY] Date range:', fromDate, 'to', toDate);
 
+    const majorEvent = data.eventId
+      ? await this.prisma.majorEvent.findUnique({ where: { id: data.eventId } })
+      : null;
+
+    if (data.eventId && !majorEvent) {
+      throw new NotFoundError('Major event not found');
+    }
+
     const incidents = await this.prisma.incident.findMany({
       where: {
         reportedAt: {
           gte: fromDate,
           lte: toDate,
         },
+        ...(majorEvent && { majorEventId: majorEvent.id }),
       },
       include: {
         barangay: {
@@ -514,6 +632,9 @@ export class ReportsService {
     doc.moveDown();
     doc.fontSize(12).font('Helvetica');
     doc.text(`Period: ${fromDate.toLocaleDateString()} - ${toDate.toLocaleDateString()}`);
+    if (majorEvent) {
+      doc.text(`Major Event: ${majorEvent.name} (${majorEvent.status})`);
+    }
     doc.text(`Generated: ${new Date().toLocaleString()}`);
     doc.text(`Total Incidents: ${incidents.length}`);
     // console.log('[PDF SUMMARY] Building PDF with', incidents.length, 'incidents');
@@ -664,6 +785,7 @@ export class ReportsService {
       },
       orderBy: { firstName: 'asc' },
     });
+    const teams = await this.getTeamActivity();
 
     const doc = new PDFDocument({ margin: 50 });
     const stream = new Readable();
@@ -678,6 +800,7 @@ export class ReportsService {
     doc.fontSize(12).font('Helvetica');
     doc.text(`Generated: ${new Date().toLocaleString()}`);
     doc.text(`Total Personnel: ${personnel.length}`);
+    doc.text(`Total Teams: ${teams.length}`);
     doc.moveDown();
 
     // Statistics
@@ -726,6 +849,23 @@ export class ReportsService {
       doc.moveDown(0.3);
     });
 
+    // Team activity
+    if (teams.length > 0) {
+      doc.addPage();
+      doc.fontSize(14).font('Helvetica-Bold').text('Team Activity');
+      doc.moveDown(0.5);
+      doc.fontSize(9).font('Helvetica');
+
+      teams.forEach((team) => {
+        doc.font('Helvetica-Bold').text(team.name, { continued: true });
+        doc.font('Helvetica').text(` - ${team.status}${team.isActive ? '' : ' (inactive)'}`);
+        doc.text(`  Leader: ${team.leader ?? 'N/A'} | Barangay: ${team.barangay ?? 'N/A'}`, { indent: 20 });
+        doc.text(`  Members: ${team.members} (${team.availableMembers} available)`, { indent: 20 });
+        doc.text(`  Incidents: ${team.incidents} (${team.activeIncidents} active)`, { indent: 20 });
+        doc.moveDown(0.3);
+      });
+    }
+
     doc.end();
 
     const filename = `personnel-report-${Date.now()}.pdf`;
@@ -791,7 +931,7 @@ export class ReportsService {
     const fromDate = data.fromDate ? new Date(data.fromDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const toDate = data.toDate ? new Date(data.toDate) : new Date();
 
-    const [incidents, personnel, barangays] = await Promise.all([
+    const [incidents, personnel, barangays, triage] = await Promise.all([
       this.prisma.incident.findMany({
         where: {
           reportedAt: { gte: fromDate, lte: toDate },
@@ -799,6 +939,7 @@ export class ReportsService {
       }),
       this.prisma.personnel.findMany(),
       this.prisma.barangay.findMany(),
+      this.getTriageTotals(fromDate, toDate),
     ]);
 
     const doc = new PDFDocument({ margin: 50 });
@@ -865,6 +1006,21 @@ export class ReportsService {
     });
     doc.moveDown();
 
+    // Casualty Statistics
+    if (triage.total > 0) {
+      doc.fontSize(14).font('Helvetica-Bold').text('Casualties by Triage Category');
+      doc.moveDown(0.5);
+      doc.fontSize(10).font('Helvetica');
+      doc.text(`Mass-Casualty Incidents: ${incidents.filter((inc) => inc.isMci).length}`);
+      doc.text(`Total Patients: ${triage.total}`);
+      Object.entries(triage.byCategory).forEach(([category, count]) => {
+        const percentage = ((count / triage.total) * 100).toFixed(1);
+        doc.text(`  ${category}: ${count} (${percentage}%)`, { indent: 20 });
+      });
+      doc.text(`Transported: ${triage.transported}`);
+      doc.moveDown();
+    }
+
     // Personnel Statistics
     doc.fontSize(14).font('Helvetica-Bold').text('Personnel Breakdown');
     doc.moveDown(0.5);
@@ -980,6 +1136,8 @@ export class ReportsService {
         return this.generateBarangayReportExcel(data, userId);
       case ReportType.STATISTICS_REPORT:
         return this.generateStatisticsReportExcel(data, userId);
+      case ReportType.FLEET_REPORT:
+        return this.generateFleetReportExcel(data, userId);
       default:
         throw new Error('Excel export not supported for this report type');
     }
@@ -1153,6 +1311,13 @@ export class ReportsService {
 
     // console.log('[EXCEL EXPORT] Found incidents:', incidents.length);
 
+    // One column per custom field of the incident types in the export
+    // Fields of different types that share a label share a column
+    const customFieldDefinitions = await this.customFields.getExportColumns(
+      Array.from(new Set(incidents.map(incident => incident.type)))
+    );
+    const customFieldColumns = Array.from(new Set(customFieldDefinitions.map(field => field.label)));
+
     // Create workbook and worksheet
     const workbook = XLSX.utils.book_new();
     
@@ -1191,6 +1356,12 @@ export class ReportsService {
         'Reported At': this.fmtDate(incident.reportedAt),
         'Resolved At': incident.resolvedAt ? this.fmtDate(incident.resolvedAt) : 'N/A',
         'Response Time (min)': incident.responseTime || 'N/A',
+
+        // CUSTOM FIELDS
+        ...Object.fromEntries(customFieldColumns.map(label => {
+          const field = customFieldDefinitions.find(f => f.label === label && f.incidentType === incident.type);
+          return [`CUSTOM - ${label}`, field ? this.customFields.formatValue(incident.customFields, field.key) : 'N/A'];
+        })),
       };
     });
 
@@ -1227,6 +1398,8 @@ export class ReportsService {
       { wch: 20 }, // Reported At
       { wch: 20 }, // Resolved At
       { wch: 15 }, // Response Time
+      // CUSTOM FIELDS
+      ...customFieldColumns.map(() => ({ wch: 20 })),
     ];
     worksheet['!cols'] = colWidths;
 
@@ -1257,6 +1430,7 @@ export class ReportsService {
   ): Promise<{ stream: Readable; filename: string }> {
     const personnel = await this.prisma.personnel.findMany({
       include: {
+        teamMemberships: { select: { team: { select: { name: true } } } },
         _count: {
           select: {
             assignments: true,
@@ -1265,6 +1439,7 @@ export class ReportsService {
       },
       orderBy: { firstName: 'asc' },
     });
+    const teams = await this.getTeamActivity();
 
     const workbook = XLSX.utils.book_new();
     
@@ -1278,6 +1453,7 @@ export class ReportsService {
       'Email': person.email,
       'Available': person.isAvailable ? 'Yes' : 'No',
       'Total Assignments': person._count.assignments,
+      'Teams': person.teamMemberships.map((m) => m.team.name).join(', '),
       'Created At': this.fmtDate(person.createdAt),
     }));
 
@@ -1293,12 +1469,39 @@ export class ReportsService {
       { wch: 25 }, // Email
       { wch: 10 }, // Available
       { wch: 15 }, // Total Assignments
+      { wch: 25 }, // Teams
       { wch: 20 }, // Created At
     ];
     worksheet['!cols'] = colWidths;
 
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Personnel');
 
+    const teamData = teams.map((team) => ({
+      'Team': team.name,
+      'Status': team.status,
+      'Active': team.isActive ? 'Yes' : 'No',
+      'Leader': team.leader ?? 'N/A',
+      'Barangay': team.barangay ?? 'N/A',
+      'Members': team.members,
+      'Available Members': team.availableMembers,
+      'Incidents': team.incidents,
+      'Active Incidents': team.activeIncidents,
+    }));
+
+    const teamSheet = XLSX.utils.json_to_sheet(teamData.length > 0 ? teamData : [{ 'Team': 'No teams' }]);
+    teamSheet['!cols'] = [
+      { wch: 25 }, // Team
+      { wch: 12 }, // Status
+      { wch: 8 }, // Active
+      { wch: 25 }, // Leader
+      { wch: 20 }, // Barangay
+      { wch: 10 }, // Members
+      { wch: 18 }, // Available Members
+      { wch: 10 }, // Incidents
+      { wch: 16 }, // Active Incidents
+    ];
+    XLSX.utils.book_append_sheet(workbook, teamSheet, 'Teams');
+
     const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
     
     const stream = new Readable();
@@ -1376,7 +1579,7 @@ export class ReportsService {
     const fromDate = data.fromDate ? new Date(data.fromDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const toDate = data.toDate ? new Date(data.toDate) : new Date();
 
-    const [incidents, personnel, barangays] = await Promise.all([
+    const [incidents, personnel, barangays, triage] = await Promise.all([
       this.prisma.incident.findMany({
         where: {
           reportedAt: { gte: fromDate, lte: toDate },
@@ -1384,6 +1587,7 @@ export class ReportsService {
       }),
       this.prisma.personnel.findMany(),
       this.prisma.barangay.findMany(),
+      this.getTriageTotals(fromDate, toDate),
     ]);
 
     const workbook = XLSX.utils.book_new();
@@ -1393,6 +1597,8 @@ export class ReportsService {
       { Metric: 'Total Incidents', Value: incidents.length },
       { Metric: 'Total Personnel', Value: personnel.length },
       { Metric: 'Total Barangays', Value: barangays.length },
+      { Metric: 'Mass-Casualty Incidents', Value: incidents.filter((inc) => inc.isMci).length },
+      { Metric: 'Total Patients', Value: triage.total },
     ];
 
     // Status Statistics
@@ -1431,17 +1637,30 @@ export class ReportsService {
       Percentage: ((count as number / incidents.length) * 100).toFixed(1) + '%'
     }));
 
+    // Triage Statistics
+    const triageStats = [
+      ...Object.entries(triage.byCategory).map(([category, count]) => ({
+        Category: category,
+        Count: count,
+        Percentage: triage.total > 0 ? ((count / triage.total) * 100).toFixed(1) + '%' : '0.0%',
+      })),
+      { Category: 'TOTAL', Count: triage.total, Percentage: '' },
+      { Category: 'TRANSPORTED', Count: triage.transported, Percentage: '' },
+    ];
+
     // Create worksheets
     const overallWs = XLSX.utils.json_to_sheet(overallStats);
     const statusWs = XLSX.utils.json_to_sheet(statusStats);
     const priorityWs = XLSX.utils.json_to_sheet(priorityStats);
     const typeWs = XLSX.utils.json_to_sheet(typeStats);
+    const triageWs = XLSX.utils.json_to_sheet(triageStats);
 
     // Add worksheets to workbook
     XLSX.utils.book_append_sheet(workbook, overallWs, 'Overall Statistics');
     XLSX.utils.book_append_sheet(workbook, statusWs, 'By Status');
     XLSX.utils.book_append_sheet(workbook, priorityWs, 'By Priority');
     XLSX.utils.book_append_sheet(workbook, typeWs, 'By Type');
+    XLSX.utils.book_append_sheet(workbook, triageWs, 'By Triage Category');
 
     const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
     
@@ -1454,6 +1673,89 @@ export class ReportsService {
     return { stream, filename };
   }
 
+  private async generateFleetReportExcel(
+    data: GenerateReportDTO,
+    _userId: string
+  ): Promise<{ stream: Readable; filename: string }> {
+    const fromDate = data.fromDate ? new Date(data.fromDate) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const toDate = data.toDate ? new Date(data.toDate) : new Date();
+
+    const [utilisation, due] = await Promise.all([
+      this.fleet.getUtilisation({ from: fromDate.toISOString(), to: toDate.toISOString() }),
+      this.maintenance.getDueMaintenance(),
+    ]);
+
+    const workbook = XLSX.utils.book_new();
+
+    const utilisationData = utilisation.map((vehicle) => ({
+      'Vehicle': vehicle.name,
+      'Type': vehicle.type,
+      'Plate Number': vehicle.plateNumber ?? 'N/A',
+      'Status': vehicle.status,
+      'Incidents': vehicle.incidents,
+      'Deployed Hours': vehicle.deployedHours,
+      'Utilisation %': vehicle.utilisationPercent,
+      'Distance (km)': vehicle.distanceKm,
+      'Fuel (L)': vehicle.fuelLiters,
+      'Fuel Cost': vehicle.fuelCost,
+      'Maintenance Jobs': vehicle.maintenanceCount,
+      'Maintenance Cost': vehicle.maintenanceCost,
+      'Downtime Hours': vehicle.downtimeHours,
+      'Odometer (km)': vehicle.odometerKm,
+    }));
+
+    const utilisationSheet = XLSX.utils.json_to_sheet(
+      utilisationData.length > 0 ? utilisationData : [{ 'Vehicle': 'No vehicles registered' }]
+    );
+    utilisationSheet['!cols'] = [
+      { wch: 20 }, // Vehicle
+      { wch: 16 }, // Type
+      { wch: 14 }, // Plate Number
+      { wch: 12 }, // Status
+      { wch: 10 }, // Incidents
+      { wch: 15 }, // Deployed Hours
+      { wch: 13 }, // Utilisation %
+      { wch: 13 }, // Distance (km)
+      { wch: 10 }, // Fuel (L)
+      { wch: 10 }, // Fuel Cost
+      { wch: 17 }, // Maintenance Jobs
+      { wch: 17 }, // Maintenance Cost
+      { wch: 15 }, // Downtime Hours
+      { wch: 14 }, // Odometer (km)
+    ];
+    XLSX.utils.book_append_sheet(workbook, utilisationSheet, 'Utilisation');
+
+    const dueData = due.map((item) => ({
+      'Vehicle': item.vehicle.name,
+      'Maintenance': item.title,
+      'Due Date': this.fmtDate(item.dueAt),
+      'Due Odometer (km)': item.dueOdometerKm ?? 'N/A',
+      'Current Odometer (km)': item.vehicle.odometerKm,
+      'Overdue': item.overdue ? 'Yes' : 'No',
+    }));
+
+    const dueSheet = XLSX.utils.json_to_sheet(dueData.length > 0 ? dueData : [{ 'Vehicle': 'No maintenance due' }]);
+    dueSheet['!cols'] = [
+      { wch: 20 }, // Vehicle
+      { wch: 30 }, // Maintenance
+      { wch: 22 }, // Due Date
+      { wch: 18 }, // Due Odometer
+      { wch: 22 }, // Current Odometer
+      { wch: 10 }, // Overdue
+    ];
+    XLSX.utils.book_append_sheet(workbook, dueSheet, 'Maintenance Due');
+
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    const stream = new Readable();
+    stream._read = () => {};
+    stream.push(buffer);
+    stream.push(null);
+
+    const filename = `fleet-report-${Date.now()}.xlsx`;
+    return { stream, filename };
+  }
+
   async emailReport(
     _email: string,
     _reportType: string,
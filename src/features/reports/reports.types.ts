@@ -5,6 +5,7 @@ export enum ReportType {
   BARANGAY_REPORT = 'BARANGAY_REPORT',
   STATISTICS_REPORT = 'STATISTICS_REPORT',
   ACTIVITY_REPORT = 'ACTIVITY_REPORT',
+  FLEET_REPORT = 'FLEET_REPORT', // Excel only
   CUSTOM_REPORT = 'CUSTOM_REPORT',
 }
 
@@ -16,6 +17,7 @@ export interface GenerateReportDTO {
   incidentId?: string;
   personnelId?: string;
   barangayId?: string | string[];
+  eventId?: string;
   includePhotos?: boolean;
   includeTimeline?: boolean;
   includeStatistics?: boolean;
@@ -0,0 +1,180 @@
+import { PrismaClient, CoverageRequirement } from '@prisma/client';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError } from '../../core/errors';
+import { RosterService, OPEN_SHIFT_STATUSES } from './roster.service';
+import { ShiftTime } from './shift-time';
+import {
+  CreateCoverageRequirementDTO,
+  UpdateCoverageRequirementDTO,
+  CoverageGapQuery,
+  CoverageGap,
+} from './roster.types';
+
+const SLOT_MS = CONSTANTS.ROSTER.COVERAGE_SLOT_MINUTES * 60 * 1000;
+
+interface CoverageShift {
+  personnelId: string;
+  barangayId: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  personnel: { role: string };
+}
+
+/**
+ * Minimum staffing per barangay and role, and the periods in which the
+ * roster falls short of it
+ */
+export class CoverageService {
+  constructor(private prisma: PrismaClient, private roster: RosterService) {}
+
+  async createRequirement(data: CreateCoverageRequirementDTO) {
+    if (data.barangayId) await this.assertBarangayExists(data.barangayId);
+
+    return this.prisma.coverageRequirement.create({
+      data,
+      include: { barangay: { select: { id: true, name: true } } },
+    });
+  }
+
+  async getRequirements() {
+    return this.prisma.coverageRequirement.findMany({
+      include: { barangay: { select: { id: true, name: true } } },
+      orderBy: [{ barangayId: 'asc' }, { role: 'asc' }],
+    });
+  }
+
+  async updateRequirement(id: string, data: UpdateCoverageRequirementDTO) {
+    const requirement = await this.getRequirementById(id);
+
+    const startTime = data.startTime !== undefined ? data.startTime : requirement.startTime;
+    const endTime = data.endTime !== undefined ? data.endTime : requirement.endTime;
+    if (Boolean(startTime) !== Boolean(endTime)) {
+      throw new ValidationError('Provide both startTime and endTime, or neither');
+    }
+
+    return this.prisma.coverageRequirement.update({
+      where: { id },
+      data,
+      include: { barangay: { select: { id: true, name: true } } },
+    });
+  }
+
+  async deleteRequirement(id: string) {
+    await this.getRequirementById(id);
+    await this.prisma.coverageRequirement.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Periods where fewer personnel are rostered than a requirement asks for.
+   * A shift counts for a slot when it covers the whole slot.
+   */
+  async getGaps(query: CoverageGapQuery): Promise<CoverageGap[]> {
+    const { from, to } = this.roster.resolvePeriod(query.from, query.to);
+
+    const requirements = await this.prisma.coverageRequirement.findMany({
+      where: {
+        isActive: true,
+        ...(query.barangayId && { barangayId: query.barangayId }),
+        ...(query.role && { role: query.role }),
+      },
+      include: { barangay: { select: { id: true, name: true } } },
+    });
+
+    if (requirements.length === 0) return [];
+
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        status: { in: OPEN_SHIFT_STATUSES },
+        startsAt: { lt: to },
+        endsAt: { gt: from },
+      },
+      select: {
+        personnelId: true,
+        barangayId: true,
+        startsAt: true,
+        endsAt: true,
+        personnel: { select: { role: true } },
+      },
+    });
+
+    return requirements
+      .flatMap((requirement) => this.findGaps(requirement, shifts, from, to))
+      .sort((a, b) => a.from.getTime() - b.from.getTime());
+  }
+
+  private findGaps(
+    requirement: CoverageRequirement & { barangay: { id: string; name: string } | null },
+    shifts: CoverageShift[],
+    from: Date,
+    to: Date
+  ): CoverageGap[] {
+    const relevant = shifts.filter((shift) =>
+      (!requirement.barangayId || shift.barangayId === requirement.barangayId) &&
+      (!requirement.role || shift.personnel.role === requirement.role)
+    );
+
+    const gaps: CoverageGap[] = [];
+    let current: CoverageGap | null = null;
+
+    // Slots are aligned to the slot length so gaps read as whole hours
+    for (let start = Math.floor(from.getTime() / SLOT_MS) * SLOT_MS; start < to.getTime(); start += SLOT_MS) {
+      const slotStart = new Date(start);
+      const slotEnd = new Date(start + SLOT_MS);
+
+      if (!ShiftTime.inWindow(slotStart, requirement.startTime, requirement.endTime)) {
+        current = null;
+        continue;
+      }
+
+      const scheduled = new Set(
+        relevant
+          .filter((shift) => shift.startsAt <= slotStart && shift.endsAt >= slotEnd)
+          .map((shift) => shift.personnelId)
+      ).size;
+
+      if (scheduled >= requirement.minPersonnel) {
+        current = null;
+        continue;
+      }
+
+      if (current) {
+        current.to = slotEnd;
+        current.scheduled = Math.min(current.scheduled, scheduled);
+        continue;
+      }
+
+      current = {
+        requirementId: requirement.id,
+        barangayId: requirement.barangayId,
+        barangayName: requirement.barangay?.name ?? null,
+        role: requirement.role,
+        minPersonnel: requirement.minPersonnel,
+        scheduled,
+        from: slotStart,
+        to: slotEnd,
+      };
+      gaps.push(current);
+    }
+
+    return gaps;
+  }
+
+  private async getRequirementById(id: string) {
+    const requirement = await this.prisma.coverageRequirement.findUnique({ where: { id } });
+
+    if (!requirement) {
+      throw new NotFoundError('Coverage requirement not found');
+    }
+
+    return requirement;
+  }
+
+  private async assertBarangayExists(barangayId: string) {
+    const barangay = await this.prisma.barangay.findUnique({ where: { id: barangayId }, select: { id: true } });
+
+    if (!barangay) {
+      throw new NotFoundError('Barangay not found');
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { PrismaClient, ShiftStatus } from '@prisma/client';
+import { Readable } from 'stream';
+import * as XLSX from 'xlsx';
+import { RosterService, SHIFT_INCLUDE } from './roster.service';
+import { CoverageService } from './coverage.service';
+import { ShiftTime } from './shift-time';
+import { RosterExportQuery } from './roster.types';
+
+/**
+ * Roster workbook: one row per shift, plus the coverage gaps of the period
+ */
+export class RosterExportService {
+  constructor(
+    private prisma: PrismaClient,
+    private roster: RosterService,
+    private coverage: CoverageService
+  ) {}
+
+  async exportRoster(query: RosterExportQuery): Promise<{ stream: Readable; filename: string }> {
+    const { from, to } = this.roster.resolvePeriod(query.from, query.to);
+
+    const [shifts, gaps] = await Promise.all([
+      this.prisma.shift.findMany({
+        where: {
+          status: { not: ShiftStatus.CANCELLED },
+          startsAt: { lt: to },
+          endsAt: { gt: from },
+          ...(query.teamId && { teamId: query.teamId }),
+          ...(query.barangayId && { barangayId: query.barangayId }),
+        },
+        include: SHIFT_INCLUDE,
+        orderBy: [{ startsAt: 'asc' }, { personnel: { lastName: 'asc' } }],
+      }),
+      this.coverage.getGaps({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        barangayId: query.barangayId,
+      }),
+    ]);
+
+    const workbook = XLSX.utils.book_new();
+
+    const rosterData = shifts.map((shift) => ({
+      'Date': ShiftTime.dateKey(shift.startsAt),
+      'Start': shift.startsAt.toLocaleTimeString(),
+      'End': shift.endsAt.toLocaleString(),
+      'Hours': Math.round(ShiftTime.hoursBetween(shift.startsAt, shift.endsAt) * 10) / 10,
+      'Shift': shift.template?.name ?? 'Custom',
+      'Employee ID': shift.personnel.employeeId,
+      'Name': `${shift.personnel.firstName} ${shift.personnel.lastName}`,
+      'Role': shift.personnel.role,
+      'Team': shift.team?.name ?? 'N/A',
+      'Barangay': shift.barangay?.name ?? 'N/A',
+      'Status': shift.status,
+      'Notes': shift.notes ?? '',
+    }));
+
+    const rosterSheet = XLSX.utils.json_to_sheet(rosterData);
+    rosterSheet['!cols'] = [
+      { wch: 12 }, // Date
+      { wch: 12 }, // Start
+      { wch: 22 }, // End
+      { wch: 8 }, // Hours
+      { wch: 15 }, // Shift
+      { wch: 15 }, // Employee ID
+      { wch: 25 }, // Name
+      { wch: 15 }, // Role
+      { wch: 20 }, // Team
+      { wch: 20 }, // Barangay
+      { wch: 12 }, // Status
+      { wch: 30 }, // Notes
+    ];
+    XLSX.utils.book_append_sheet(workbook, rosterSheet, 'Roster');
+
+    const gapData = gaps.map((gap) => ({
+      'From': gap.from.toLocaleString(),
+      'To': gap.to.toLocaleString(),
+      'Barangay': gap.barangayName ?? 'All',
+      'Role': gap.role ?? 'Any',
+      'Required': gap.minPersonnel,
+      'Scheduled': gap.scheduled,
+      'Short By': gap.minPersonnel - gap.scheduled,
+    }));
+
+    const gapSheet = XLSX.utils.json_to_sheet(gapData.length > 0 ? gapData : [{ 'From': 'No coverage gaps' }]);
+    gapSheet['!cols'] = [
+      { wch: 22 }, // From
+      { wch: 22 }, // To
+      { wch: 20 }, // Barangay
+      { wch: 15 }, // Role
+      { wch: 10 }, // Required
+      { wch: 10 }, // Scheduled
+      { wch: 10 }, // Short By
+    ];
+    XLSX.utils.book_append_sheet(workbook, gapSheet, 'Coverage Gaps');
+
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    const stream = new Readable();
+    stream._read = () => {};
+    stream.push(buffer);
+    stream.push(null);
+
+    const filename = `roster-${ShiftTime.dateKey(from)}-${Date.now()}.xlsx`;
+    return { stream, filename };
+  }
+}
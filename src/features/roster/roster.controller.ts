@@ -0,0 +1,406 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { RosterService } from './roster.service';
+import { ShiftSwapService } from './swaps.service';
+import { CoverageService } from './coverage.service';
+import { RosterExportService } from './roster-export.service';
+import {
+  CreateShiftTemplateDTO,
+  UpdateShiftTemplateDTO,
+  ShiftTemplateListQuery,
+  CreateShiftDTO,
+  UpdateShiftDTO,
+  ShiftListQuery,
+  CancelShiftDTO,
+  RosterWeekQuery,
+  AssignRosterWeekDTO,
+  CreateShiftSwapDTO,
+  ReviewShiftSwapDTO,
+  ShiftSwapListQuery,
+  CreateCoverageRequirementDTO,
+  UpdateCoverageRequirementDTO,
+  CoverageGapQuery,
+  RosterExportQuery,
+} from './roster.types';
+import { SuccessResponse } from '../../types';
+
+export class RosterController {
+  constructor(
+    private rosterService: RosterService,
+    private swapService: ShiftSwapService,
+    private coverageService: CoverageService,
+    private exportService: RosterExportService
+  ) {}
+
+  // ========================================
+  // SHIFT TEMPLATES
+  // ========================================
+
+  async createTemplate(
+    request: FastifyRequest<{ Body: CreateShiftTemplateDTO }>,
+    reply: FastifyReply
+  ) {
+    const template = await this.rosterService.createTemplate(request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: template,
+      message: 'Shift template created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getTemplates(
+    request: FastifyRequest<{ Querystring: ShiftTemplateListQuery }>,
+    reply: FastifyReply
+  ) {
+    const templates = await this.rosterService.getTemplates(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: templates,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateTemplate(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateShiftTemplateDTO }>,
+    reply: FastifyReply
+  ) {
+    const template = await this.rosterService.updateTemplate(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: template,
+      message: 'Shift template updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteTemplate(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.rosterService.deleteTemplate(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Shift template deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // SHIFTS
+  // ========================================
+
+  async createShift(
+    request: FastifyRequest<{ Body: CreateShiftDTO }>,
+    reply: FastifyReply
+  ) {
+    const shift = await this.rosterService.createShift(request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: shift,
+      message: 'Shift created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getShifts(
+    request: FastifyRequest<{ Querystring: ShiftListQuery }>,
+    reply: FastifyReply
+  ) {
+    const shifts = await this.rosterService.getShifts(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: shifts,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getMyShifts(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    const shifts = await this.rosterService.getUpcomingShifts(request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: shifts,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getShiftById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const shift = await this.rosterService.getShiftById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: shift,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateShift(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateShiftDTO }>,
+    reply: FastifyReply
+  ) {
+    const shift = await this.rosterService.updateShift(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: shift,
+      message: 'Shift updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async cancelShift(
+    request: FastifyRequest<{ Params: { id: string }; Body: CancelShiftDTO }>,
+    reply: FastifyReply
+  ) {
+    const shift = await this.rosterService.cancelShift(request.params.id, request.body ?? {});
+
+    const response: SuccessResponse = {
+      success: true,
+      data: shift,
+      message: 'Shift cancelled successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteShift(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.rosterService.deleteShift(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Shift deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // WEEKLY TEAM ROSTER
+  // ========================================
+
+  async getTeamWeek(
+    request: FastifyRequest<{ Params: { teamId: string }; Querystring: RosterWeekQuery }>,
+    reply: FastifyReply
+  ) {
+    const roster = await this.rosterService.getTeamWeek(request.params.teamId, request.query.weekStart);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: roster,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async assignTeamWeek(
+    request: FastifyRequest<{ Params: { teamId: string }; Body: AssignRosterWeekDTO }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.rosterService.assignTeamWeek(request.params.teamId, request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Team roster saved successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // SWAP REQUESTS
+  // ========================================
+
+  async createSwap(
+    request: FastifyRequest<{ Body: CreateShiftSwapDTO }>,
+    reply: FastifyReply
+  ) {
+    const swap = await this.swapService.createSwap(request.body, request.user!);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: swap,
+      message: 'Swap request submitted successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getSwaps(
+    request: FastifyRequest<{ Querystring: ShiftSwapListQuery }>,
+    reply: FastifyReply
+  ) {
+    const swaps = await this.swapService.getSwaps(request.query, request.user!);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: swaps,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async approveSwap(
+    request: FastifyRequest<{ Params: { id: string }; Body: ReviewShiftSwapDTO }>,
+    reply: FastifyReply
+  ) {
+    const swap = await this.swapService.approveSwap(request.params.id, request.body ?? {}, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: swap,
+      message: 'Swap request approved',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async rejectSwap(
+    request: FastifyRequest<{ Params: { id: string }; Body: ReviewShiftSwapDTO }>,
+    reply: FastifyReply
+  ) {
+    const swap = await this.swapService.rejectSwap(request.params.id, request.body ?? {}, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: swap,
+      message: 'Swap request rejected',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async cancelSwap(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const swap = await this.swapService.cancelSwap(request.params.id, request.user!);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: swap,
+      message: 'Swap request cancelled',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // COVERAGE
+  // ========================================
+
+  async createRequirement(
+    request: FastifyRequest<{ Body: CreateCoverageRequirementDTO }>,
+    reply: FastifyReply
+  ) {
+    const requirement = await this.coverageService.createRequirement(request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: requirement,
+      message: 'Coverage requirement created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getRequirements(
+    _request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    const requirements = await this.coverageService.getRequirements();
+
+    const response: SuccessResponse = {
+      success: true,
+      data: requirements,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateRequirement(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateCoverageRequirementDTO }>,
+    reply: FastifyReply
+  ) {
+    const requirement = await this.coverageService.updateRequirement(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: requirement,
+      message: 'Coverage requirement updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteRequirement(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.coverageService.deleteRequirement(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Coverage requirement deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getCoverageGaps(
+    request: FastifyRequest<{ Querystring: CoverageGapQuery }>,
+    reply: FastifyReply
+  ) {
+    const gaps = await this.coverageService.getGaps(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: gaps,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  // ========================================
+  // EXPORT
+  // ========================================
+
+  async exportRoster(
+    request: FastifyRequest<{ Querystring: RosterExportQuery }>,
+    reply: FastifyReply
+  ) {
+    const { stream, filename } = await this.exportService.exportRoster(request.query);
+
+    reply.header('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    reply.header('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return reply.send(stream);
+  }
+}
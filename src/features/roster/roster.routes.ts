@@ -0,0 +1,289 @@
+import { FastifyInstance } from 'fastify';
+import { RosterController } from './roster.controller';
+import { RosterService } from './roster.service';
+import { ShiftSwapService } from './swaps.service';
+import { CoverageService } from './coverage.service';
+import { RosterExportService } from './roster-export.service';
+import {
+  CreateShiftTemplateDTO,
+  UpdateShiftTemplateDTO,
+  ShiftTemplateListQuery,
+  CreateShiftDTO,
+  UpdateShiftDTO,
+  ShiftListQuery,
+  CancelShiftDTO,
+  RosterWeekQuery,
+  AssignRosterWeekDTO,
+  CreateShiftSwapDTO,
+  ReviewShiftSwapDTO,
+  ShiftSwapListQuery,
+  CreateCoverageRequirementDTO,
+  UpdateCoverageRequirementDTO,
+  CoverageGapQuery,
+  RosterExportQuery,
+} from './roster.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createShiftTemplateSchema,
+  updateShiftTemplateSchema,
+  shiftTemplateListQuerySchema,
+  createShiftSchema,
+  updateShiftSchema,
+  shiftListQuerySchema,
+  cancelShiftSchema,
+  rosterWeekQuerySchema,
+  assignRosterWeekSchema,
+  createShiftSwapSchema,
+  reviewShiftSwapSchema,
+  shiftSwapListQuerySchema,
+  createCoverageRequirementSchema,
+  updateCoverageRequirementSchema,
+  coverageGapQuerySchema,
+  rosterExportQuerySchema,
+} from './roster.schema';
+
+export async function rosterRoutes(app: FastifyInstance) {
+  const rosterService = new RosterService(prisma, app.io);
+  const swapService = new ShiftSwapService(prisma, rosterService, app.io);
+  const coverageService = new CoverageService(prisma, rosterService);
+  const exportService = new RosterExportService(prisma, rosterService, coverageService);
+  const rosterController = new RosterController(rosterService, swapService, coverageService, exportService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // ========================================
+  // SHIFT TEMPLATES
+  // ========================================
+
+  // List shift templates
+  app.get<{ Querystring: ShiftTemplateListQuery }>(
+    '/templates',
+    {
+      preHandler: [validate(shiftTemplateListQuerySchema, 'query')],
+    },
+    rosterController.getTemplates.bind(rosterController)
+  );
+
+  // Create shift template (Admin only)
+  app.post<{ Body: CreateShiftTemplateDTO }>(
+    '/templates',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createShiftTemplateSchema)],
+    },
+    rosterController.createTemplate.bind(rosterController)
+  );
+
+  // Update shift template (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateShiftTemplateDTO }>(
+    '/templates/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateShiftTemplateSchema)],
+    },
+    rosterController.updateTemplate.bind(rosterController)
+  );
+
+  // Delete shift template (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/templates/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    rosterController.deleteTemplate.bind(rosterController)
+  );
+
+  // ========================================
+  // SHIFTS
+  // ========================================
+
+  // List shifts in a period
+  app.get<{ Querystring: ShiftListQuery }>(
+    '/shifts',
+    {
+      preHandler: [validate(shiftListQuerySchema, 'query')],
+    },
+    rosterController.getShifts.bind(rosterController)
+  );
+
+  // Upcoming shifts of the logged-in personnel (must be before /shifts/:id)
+  app.get(
+    '/shifts/mine',
+    {
+      preHandler: [requireRole('PERSONNEL')],
+    },
+    rosterController.getMyShifts.bind(rosterController)
+  );
+
+  // Get shift by ID
+  app.get<{ Params: { id: string } }>('/shifts/:id', rosterController.getShiftById.bind(rosterController));
+
+  // Create shift (Admin only)
+  app.post<{ Body: CreateShiftDTO }>(
+    '/shifts',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createShiftSchema)],
+    },
+    rosterController.createShift.bind(rosterController)
+  );
+
+  // Update shift (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateShiftDTO }>(
+    '/shifts/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateShiftSchema)],
+    },
+    rosterController.updateShift.bind(rosterController)
+  );
+
+  // Cancel shift (Admin only)
+  app.post<{ Params: { id: string }; Body: CancelShiftDTO }>(
+    '/shifts/:id/cancel',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(cancelShiftSchema)],
+    },
+    rosterController.cancelShift.bind(rosterController)
+  );
+
+  // Delete shift (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/shifts/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    rosterController.deleteShift.bind(rosterController)
+  );
+
+  // ========================================
+  // WEEKLY TEAM ROSTER
+  // ========================================
+
+  // Weekly roster of a team
+  app.get<{ Params: { teamId: string }; Querystring: RosterWeekQuery }>(
+    '/teams/:teamId/week',
+    {
+      preHandler: [validate(rosterWeekQuerySchema, 'query')],
+    },
+    rosterController.getTeamWeek.bind(rosterController)
+  );
+
+  // Roster a team for a week from shift templates (Admin only)
+  app.post<{ Params: { teamId: string }; Body: AssignRosterWeekDTO }>(
+    '/teams/:teamId/week',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(assignRosterWeekSchema)],
+    },
+    rosterController.assignTeamWeek.bind(rosterController)
+  );
+
+  // ========================================
+  // SWAP REQUESTS
+  // ========================================
+
+  // List swap requests (personnel see their own)
+  app.get<{ Querystring: ShiftSwapListQuery }>(
+    '/swaps',
+    {
+      preHandler: [validate(shiftSwapListQuerySchema, 'query')],
+    },
+    rosterController.getSwaps.bind(rosterController)
+  );
+
+  // Request a swap
+  app.post<{ Body: CreateShiftSwapDTO }>(
+    '/swaps',
+    {
+      preHandler: [requireRole('PERSONNEL', 'ADMIN', 'SUPER_ADMIN'), validate(createShiftSwapSchema)],
+    },
+    rosterController.createSwap.bind(rosterController)
+  );
+
+  // Approve swap request (Admin only)
+  app.post<{ Params: { id: string }; Body: ReviewShiftSwapDTO }>(
+    '/swaps/:id/approve',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(reviewShiftSwapSchema)],
+    },
+    rosterController.approveSwap.bind(rosterController)
+  );
+
+  // Reject swap request (Admin only)
+  app.post<{ Params: { id: string }; Body: ReviewShiftSwapDTO }>(
+    '/swaps/:id/reject',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(reviewShiftSwapSchema)],
+    },
+    rosterController.rejectSwap.bind(rosterController)
+  );
+
+  // Cancel own swap request
+  app.post<{ Params: { id: string } }>(
+    '/swaps/:id/cancel',
+    {
+      preHandler: [requireRole('PERSONNEL', 'ADMIN', 'SUPER_ADMIN')],
+    },
+    rosterController.cancelSwap.bind(rosterController)
+  );
+
+  // ========================================
+  // COVERAGE
+  // ========================================
+
+  // List coverage requirements (Admin only)
+  app.get(
+    '/coverage/requirements',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    rosterController.getRequirements.bind(rosterController)
+  );
+
+  // Create coverage requirement (Admin only)
+  app.post<{ Body: CreateCoverageRequirementDTO }>(
+    '/coverage/requirements',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createCoverageRequirementSchema)],
+    },
+    rosterController.createRequirement.bind(rosterController)
+  );
+
+  // Update coverage requirement (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateCoverageRequirementDTO }>(
+    '/coverage/requirements/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateCoverageRequirementSchema)],
+    },
+    rosterController.updateRequirement.bind(rosterController)
+  );
+
+  // Delete coverage requirement (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/coverage/requirements/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    rosterController.deleteRequirement.bind(rosterController)
+  );
+
+  // Periods rostered below the coverage requirements (Admin only)
+  app.get<{ Querystring: CoverageGapQuery }>(
+    '/coverage/gaps',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(coverageGapQuerySchema, 'query')],
+    },
+    rosterController.getCoverageGaps.bind(rosterController)
+  );
+
+  // ========================================
+  // EXPORT
+  // ========================================
+
+  // Roster and coverage gaps as an Excel workbook (Admin only)
+  app.get<{ Querystring: RosterExportQuery }>(
+    '/export',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(rosterExportQuerySchema, 'query')],
+    },
+    rosterController.exportRoster.bind(rosterController)
+  );
+}
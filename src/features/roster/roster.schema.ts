@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { PersonnelRole, ShiftStatus, ShiftSwapStatus } from '@prisma/client';
+import { TIME_OF_DAY_PATTERN, DATE_PATTERN } from './shift-time';
+
+const timeOfDay = z.string().regex(TIME_OF_DAY_PATTERN, 'Time must be in HH:mm format');
+const date = z.string().regex(DATE_PATTERN, 'Date must be in YYYY-MM-DD format');
+const dateTime = z.string().datetime({ offset: true });
+
+// ========================================
+// SHIFT TEMPLATES
+// ========================================
+
+export const createShiftTemplateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  color: z.string().max(20).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateShiftTemplateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  startTime: timeOfDay.optional(),
+  endTime: timeOfDay.optional(),
+  color: z.string().max(20).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const shiftTemplateListQuerySchema = z.object({
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+});
+
+// ========================================
+// SHIFTS
+// ========================================
+
+export const createShiftSchema = z
+  .object({
+    personnelId: z.string().min(1, 'Personnel ID is required'),
+    templateId: z.string().min(1).optional(),
+    date: date.optional(),
+    startsAt: dateTime.optional(),
+    endsAt: dateTime.optional(),
+    teamId: z.string().min(1).optional(),
+    barangayId: z.string().min(1).optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((data) => (data.templateId && data.date) || (data.startsAt && data.endsAt), {
+    message: 'Provide either templateId and date, or startsAt and endsAt',
+    path: ['templateId'],
+  });
+
+export const updateShiftSchema = z.object({
+  startsAt: dateTime.optional(),
+  endsAt: dateTime.optional(),
+  barangayId: z.string().min(1).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+});
+
+export const shiftListQuerySchema = z.object({
+  from: dateTime.or(date).optional(),
+  to: dateTime.or(date).optional(),
+  personnelId: z.string().optional(),
+  teamId: z.string().optional(),
+  barangayId: z.string().optional(),
+  status: z.nativeEnum(ShiftStatus).optional(),
+});
+
+export const cancelShiftSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// ========================================
+// WEEKLY TEAM ROSTER
+// ========================================
+
+export const rosterWeekQuerySchema = z.object({
+  weekStart: date.optional(),
+});
+
+export const assignRosterWeekSchema = z.object({
+  weekStart: date,
+  entries: z
+    .array(
+      z.object({
+        day: z.number().int().min(0).max(6),
+        templateId: z.string().min(1),
+        personnelIds: z.array(z.string().min(1)).min(1).max(200).optional(),
+      })
+    )
+    .min(1, 'At least one entry is required')
+    .max(100),
+  replaceExisting: z.boolean().optional(),
+});
+
+// ========================================
+// SWAP REQUESTS
+// ========================================
+
+export const createShiftSwapSchema = z.object({
+  shiftId: z.string().min(1, 'Shift ID is required'),
+  targetPersonnelId: z.string().min(1, 'Target personnel ID is required'),
+  targetShiftId: z.string().min(1).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export const reviewShiftSwapSchema = z.object({
+  notes: z.string().max(500).optional(),
+});
+
+export const shiftSwapListQuerySchema = z.object({
+  status: z.nativeEnum(ShiftSwapStatus).optional(),
+  personnelId: z.string().optional(),
+});
+
+// ========================================
+// COVERAGE
+// ========================================
+
+export const createCoverageRequirementSchema = z
+  .object({
+    barangayId: z.string().min(1).optional(),
+    role: z.nativeEnum(PersonnelRole).optional(),
+    minPersonnel: z.number().int().min(1).max(500),
+    startTime: timeOfDay.optional(),
+    endTime: timeOfDay.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Boolean(data.startTime) === Boolean(data.endTime), {
+    message: 'Provide both startTime and endTime, or neither',
+    path: ['startTime'],
+  });
+
+export const updateCoverageRequirementSchema = z.object({
+  minPersonnel: z.number().int().min(1).max(500).optional(),
+  startTime: timeOfDay.nullable().optional(),
+  endTime: timeOfDay.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const coverageGapQuerySchema = z.object({
+  from: dateTime.or(date).optional(),
+  to: dateTime.or(date).optional(),
+  barangayId: z.string().optional(),
+  role: z.nativeEnum(PersonnelRole).optional(),
+});
+
+export const rosterExportQuerySchema = z.object({
+  from: dateTime.or(date).optional(),
+  to: dateTime.or(date).optional(),
+  teamId: z.string().optional(),
+  barangayId: z.string().optional(),
+});
@@ -0,0 +1,451 @@
+import { PrismaClient, Prisma, ShiftStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError, ConflictError } from '../../core/errors';
+import { TeamsService } from '../teams/teams.service';
+import { ShiftTime } from './shift-time';
+import {
+  CreateShiftTemplateDTO,
+  UpdateShiftTemplateDTO,
+  ShiftTemplateListQuery,
+  CreateShiftDTO,
+  UpdateShiftDTO,
+  ShiftListQuery,
+  CancelShiftDTO,
+  AssignRosterWeekDTO,
+  AssignRosterWeekResult,
+  RosterSkippedShift,
+} from './roster.types';
+
+// Shifts that still count towards the roster
+export const OPEN_SHIFT_STATUSES: ShiftStatus[] = [ShiftStatus.SCHEDULED, ShiftStatus.ACTIVE];
+
+export const SHIFT_INCLUDE = {
+  personnel: {
+    select: {
+      id: true,
+      employeeId: true,
+      firstName: true,
+      lastName: true,
+      role: true,
+      status: true,
+    },
+  },
+  team: { select: { id: true, name: true } },
+  template: { select: { id: true, name: true, color: true } },
+  barangay: { select: { id: true, name: true } },
+} satisfies Prisma.ShiftInclude;
+
+export class RosterService {
+  private teams: TeamsService;
+
+  constructor(private prisma: PrismaClient, private io?: SocketIOServer) {
+    this.teams = new TeamsService(prisma);
+  }
+
+  // ========================================
+  // SHIFT TEMPLATES
+  // ========================================
+
+  async createTemplate(data: CreateShiftTemplateDTO) {
+    const existing = await this.prisma.shiftTemplate.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new ConflictError(`Shift template "${data.name}" already exists`);
+    }
+
+    return this.prisma.shiftTemplate.create({ data });
+  }
+
+  async getTemplates(query: ShiftTemplateListQuery) {
+    return this.prisma.shiftTemplate.findMany({
+      where: {
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+      },
+      orderBy: [{ startTime: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async getTemplateById(id: string) {
+    const template = await this.prisma.shiftTemplate.findUnique({ where: { id } });
+
+    if (!template) {
+      throw new NotFoundError('Shift template not found');
+    }
+
+    return template;
+  }
+
+  /**
+   * Changing the times does not move shifts already created from the template
+   */
+  async updateTemplate(id: string, data: UpdateShiftTemplateDTO) {
+    const template = await this.getTemplateById(id);
+
+    if (data.name && data.name !== template.name) {
+      const existing = await this.prisma.shiftTemplate.findUnique({ where: { name: data.name } });
+      if (existing) {
+        throw new ConflictError(`Shift template "${data.name}" already exists`);
+      }
+    }
+
+    return this.prisma.shiftTemplate.update({ where: { id }, data });
+  }
+
+  async deleteTemplate(id: string) {
+    await this.getTemplateById(id);
+    await this.prisma.shiftTemplate.delete({ where: { id } });
+    return { id };
+  }
+
+  // ========================================
+  // SHIFTS
+  // ========================================
+
+  async createShift(data: CreateShiftDTO, userId: string) {
+    const personnel = await this.prisma.personnel.findUnique({
+      where: { id: data.personnelId },
+      select: { id: true },
+    });
+
+    if (!personnel) {
+      throw new NotFoundError('Personnel not found');
+    }
+
+    const { startsAt, endsAt, templateId } = await this.resolveTimes(data);
+    this.assertValidRange(startsAt, endsAt);
+    await this.assertNoOverlap(data.personnelId, startsAt, endsAt);
+
+    const team = data.teamId
+      ? await this.prisma.team.findUnique({ where: { id: data.teamId }, select: { id: true, barangayId: true } })
+      : null;
+
+    if (data.teamId && !team) {
+      throw new NotFoundError('Team not found');
+    }
+
+    const shift = await this.prisma.shift.create({
+      data: {
+        personnelId: data.personnelId,
+        templateId,
+        teamId: team?.id,
+        // Shifts of a team cover its home barangay unless told otherwise
+        barangayId: data.barangayId ?? team?.barangayId ?? undefined,
+        startsAt,
+        endsAt,
+        notes: data.notes,
+        createdById: userId,
+      },
+      include: SHIFT_INCLUDE,
+    });
+
+    this.notify(shift.personnelId, 'roster:shift:created', shift);
+    return shift;
+  }
+
+  async getShifts(query: ShiftListQuery) {
+    const { from, to } = this.resolvePeriod(query.from, query.to);
+
+    return this.prisma.shift.findMany({
+      where: {
+        startsAt: { lt: to },
+        endsAt: { gt: from },
+        ...(query.personnelId && { personnelId: query.personnelId }),
+        ...(query.teamId && { teamId: query.teamId }),
+        ...(query.barangayId && { barangayId: query.barangayId }),
+        ...(query.status && { status: query.status }),
+      },
+      include: SHIFT_INCLUDE,
+      orderBy: [{ startsAt: 'asc' }, { personnel: { lastName: 'asc' } }],
+    });
+  }
+
+  async getShiftById(id: string) {
+    const shift = await this.prisma.shift.findUnique({
+      where: { id },
+      include: SHIFT_INCLUDE,
+    });
+
+    if (!shift) {
+      throw new NotFoundError('Shift not found');
+    }
+
+    return shift;
+  }
+
+  async updateShift(id: string, data: UpdateShiftDTO) {
+    const shift = await this.getShiftById(id);
+
+    if (shift.status !== ShiftStatus.SCHEDULED) {
+      throw new ValidationError(`Cannot change a shift that is ${shift.status.toLowerCase()}`);
+    }
+
+    const startsAt = data.startsAt ? new Date(data.startsAt) : shift.startsAt;
+    const endsAt = data.endsAt ? new Date(data.endsAt) : shift.endsAt;
+
+    if (data.startsAt || data.endsAt) {
+      this.assertValidRange(startsAt, endsAt);
+      await this.assertNoOverlap(shift.personnelId, startsAt, endsAt, [id]);
+    }
+
+    const updated = await this.prisma.shift.update({
+      where: { id },
+      data: {
+        startsAt,
+        endsAt,
+        ...(data.barangayId !== undefined && { barangayId: data.barangayId }),
+        ...(data.notes !== undefined && { notes: data.notes }),
+      },
+      include: SHIFT_INCLUDE,
+    });
+
+    this.notify(updated.personnelId, 'roster:shift:updated', updated);
+    return updated;
+  }
+
+  /**
+   * Cancelled shifts stay on the roster history. An active shift is cancelled
+   * without touching the personnel status, which is left to the person.
+   */
+  async cancelShift(id: string, data: CancelShiftDTO) {
+    const shift = await this.getShiftById(id);
+
+    if (!OPEN_SHIFT_STATUSES.includes(shift.status)) {
+      throw new ValidationError(`Shift is already ${shift.status.toLowerCase()}`);
+    }
+
+    const cancelled = await this.prisma.shift.update({
+      where: { id },
+      data: {
+        status: ShiftStatus.CANCELLED,
+        endedAt: shift.status === ShiftStatus.ACTIVE ? new Date() : undefined,
+        ...(data.reason && { notes: shift.notes ? `${shift.notes}\nCancelled: ${data.reason}` : `Cancelled: ${data.reason}` }),
+      },
+      include: SHIFT_INCLUDE,
+    });
+
+    this.notify(cancelled.personnelId, 'roster:shift:cancelled', cancelled);
+    return cancelled;
+  }
+
+  async deleteShift(id: string) {
+    const shift = await this.getShiftById(id);
+
+    if (shift.status === ShiftStatus.ACTIVE) {
+      throw new ValidationError('Cannot delete an active shift, cancel it instead');
+    }
+
+    await this.prisma.shift.delete({ where: { id } });
+    return { id };
+  }
+
+  /**
+   * Shifts of a personnel from now on, for the mobile app
+   */
+  async getUpcomingShifts(personnelId: string) {
+    const now = new Date();
+
+    return this.prisma.shift.findMany({
+      where: {
+        personnelId,
+        status: { in: OPEN_SHIFT_STATUSES },
+        endsAt: { gt: now },
+        startsAt: { lt: ShiftTime.addDays(now, CONSTANTS.ROSTER.DEFAULT_RANGE_DAYS * 2) },
+      },
+      include: SHIFT_INCLUDE,
+      orderBy: { startsAt: 'asc' },
+    });
+  }
+
+  // ========================================
+  // WEEKLY TEAM ROSTER
+  // ========================================
+
+  async getTeamWeek(teamId: string, weekStart?: string) {
+    const team = await this.teams.getTeamById(teamId);
+    const start = ShiftTime.weekStart(weekStart);
+    const end = ShiftTime.addDays(start, 7);
+
+    const shifts = await this.prisma.shift.findMany({
+      where: {
+        teamId,
+        status: { not: ShiftStatus.CANCELLED },
+        startsAt: { gte: start, lt: end },
+      },
+      include: SHIFT_INCLUDE,
+      orderBy: { startsAt: 'asc' },
+    });
+
+    const days = Array.from({ length: 7 }, (_, offset) => {
+      const date = ShiftTime.addDays(start, offset);
+      const next = ShiftTime.addDays(date, 1);
+
+      return {
+        date: ShiftTime.dateKey(date),
+        shifts: shifts.filter((shift) => shift.startsAt >= date && shift.startsAt < next),
+      };
+    });
+
+    return {
+      team: { id: team.id, name: team.name, barangay: team.barangay },
+      weekStart: ShiftTime.dateKey(start),
+      weekEnd: ShiftTime.dateKey(ShiftTime.addDays(start, 6)),
+      members: team.members.map((member) => member.personnel),
+      days,
+    };
+  }
+
+  /**
+   * Roster a team for a week from shift templates. Shifts that would overlap
+   * one the person already has are skipped and reported, not failed.
+   */
+  async assignTeamWeek(teamId: string, data: AssignRosterWeekDTO, userId: string): Promise<AssignRosterWeekResult> {
+    const team = await this.teams.getTeamById(teamId);
+    const memberIds = team.members.map((member) => member.personnel.id);
+    const start = ShiftTime.weekStart(data.weekStart);
+    const end = ShiftTime.addDays(start, 7);
+
+    const templateIds = Array.from(new Set(data.entries.map((entry) => entry.templateId)));
+    const templates = await this.prisma.shiftTemplate.findMany({ where: { id: { in: templateIds } } });
+
+    if (templates.length !== templateIds.length) {
+      throw new ValidationError('One or more shift templates not found');
+    }
+
+    data.entries.forEach((entry) => {
+      const outsiders = (entry.personnelIds ?? []).filter((id) => !memberIds.includes(id));
+      if (outsiders.length > 0) {
+        throw new ValidationError(`Personnel ${outsiders.join(', ')} are not members of ${team.name}`);
+      }
+    });
+
+    let cancelled = 0;
+    if (data.replaceExisting) {
+      const result = await this.prisma.shift.updateMany({
+        where: { teamId, status: ShiftStatus.SCHEDULED, startsAt: { gte: start, lt: end } },
+        data: { status: ShiftStatus.CANCELLED },
+      });
+      cancelled = result.count;
+    }
+
+    const skipped: RosterSkippedShift[] = [];
+    const planned: Prisma.ShiftCreateManyInput[] = [];
+
+    for (const entry of data.entries) {
+      const template = templates.find((t) => t.id === entry.templateId)!;
+      const date = ShiftTime.addDays(start, entry.day);
+      const { startsAt, endsAt } = ShiftTime.range(date, template.startTime, template.endTime);
+
+      for (const personnelId of entry.personnelIds ?? memberIds) {
+        const skip = { personnelId, date: ShiftTime.dateKey(date), templateId: template.id };
+
+        // Also check against the shifts planned earlier in this request
+        const clash = planned.some((shift) =>
+          shift.personnelId === personnelId && new Date(shift.startsAt) < endsAt && new Date(shift.endsAt) > startsAt
+        );
+        const overlap = clash ? null : await this.findOverlap(personnelId, startsAt, endsAt);
+
+        if (clash || overlap) {
+          skipped.push({ ...skip, reason: 'Overlaps another shift' });
+          continue;
+        }
+
+        planned.push({
+          personnelId,
+          teamId,
+          templateId: template.id,
+          barangayId: team.barangayId,
+          startsAt,
+          endsAt,
+          createdById: userId,
+        });
+      }
+    }
+
+    if (planned.length > 0) {
+      await this.prisma.shift.createMany({ data: planned });
+    }
+
+    const weekStart = ShiftTime.dateKey(start);
+    new Set(planned.map((shift) => shift.personnelId)).forEach((personnelId) => {
+      this.notify(personnelId, 'roster:week:published', { teamId, weekStart });
+    });
+
+    return { created: planned.length, cancelled, skipped };
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  /**
+   * An open shift of the personnel overlapping the given period
+   */
+  async findOverlap(personnelId: string, startsAt: Date, endsAt: Date, excludeIds: string[] = []) {
+    return this.prisma.shift.findFirst({
+      where: {
+        personnelId,
+        status: { in: OPEN_SHIFT_STATUSES },
+        startsAt: { lt: endsAt },
+        endsAt: { gt: startsAt },
+        ...(excludeIds.length > 0 && { id: { notIn: excludeIds } }),
+      },
+      select: { id: true, startsAt: true, endsAt: true },
+    });
+  }
+
+  async assertNoOverlap(personnelId: string, startsAt: Date, endsAt: Date, excludeIds: string[] = []) {
+    const overlap = await this.findOverlap(personnelId, startsAt, endsAt, excludeIds);
+
+    if (overlap) {
+      throw new ConflictError(
+        `Personnel already has a shift from ${overlap.startsAt.toISOString()} to ${overlap.endsAt.toISOString()}`
+      );
+    }
+  }
+
+  /**
+   * Period of a list, gap check or export; defaults to the next week
+   */
+  resolvePeriod(from?: string, to?: string): { from: Date; to: Date } {
+    const start = from ? ShiftTime.parse(from) : ShiftTime.startOfDay(new Date());
+    const end = to
+      ? ShiftTime.parse(to)
+      : ShiftTime.addDays(start, CONSTANTS.ROSTER.DEFAULT_RANGE_DAYS);
+
+    if (end <= start) {
+      throw new ValidationError('The end of the period must be after its start');
+    }
+
+    if (ShiftTime.daysBetween(start, end) > CONSTANTS.ROSTER.MAX_RANGE_DAYS) {
+      throw new ValidationError(`The period cannot be longer than ${CONSTANTS.ROSTER.MAX_RANGE_DAYS} days`);
+    }
+
+    return { from: start, to: end };
+  }
+
+  notify(personnelId: string, event: string, data: object) {
+    this.io?.to(`personnel:${personnelId}`).emit(event, data);
+  }
+
+  private async resolveTimes(data: CreateShiftDTO) {
+    if (data.templateId && data.date) {
+      const template = await this.getTemplateById(data.templateId);
+      return { ...ShiftTime.range(data.date, template.startTime, template.endTime), templateId: template.id };
+    }
+
+    // A template can still label a shift with custom times
+    if (data.templateId) await this.getTemplateById(data.templateId);
+
+    return { startsAt: new Date(data.startsAt!), endsAt: new Date(data.endsAt!), templateId: data.templateId };
+  }
+
+  private assertValidRange(startsAt: Date, endsAt: Date) {
+    if (endsAt <= startsAt) {
+      throw new ValidationError('A shift must end after it starts');
+    }
+
+    if (ShiftTime.hoursBetween(startsAt, endsAt) > CONSTANTS.ROSTER.MAX_SHIFT_HOURS) {
+      throw new ValidationError(`A shift cannot be longer than ${CONSTANTS.ROSTER.MAX_SHIFT_HOURS} hours`);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { PersonnelRole, ShiftStatus, ShiftSwapStatus } from '@prisma/client';
+
+// ========================================
+// SHIFT TEMPLATES
+// ========================================
+
+export interface CreateShiftTemplateDTO {
+  name: string;
+  description?: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, before startTime for overnight shifts
+  color?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateShiftTemplateDTO {
+  name?: string;
+  description?: string | null;
+  startTime?: string;
+  endTime?: string;
+  color?: string | null;
+  isActive?: boolean;
+}
+
+export interface ShiftTemplateListQuery {
+  isActive?: boolean;
+}
+
+// ========================================
+// SHIFTS
+// ========================================
+
+/**
+ * Either a template and a date, or explicit start and end times
+ */
+export interface CreateShiftDTO {
+  personnelId: string;
+  templateId?: string;
+  date?: string; // YYYY-MM-DD
+  startsAt?: string;
+  endsAt?: string;
+  teamId?: string;
+  barangayId?: string;
+  notes?: string;
+}
+
+export interface UpdateShiftDTO {
+  startsAt?: string;
+  endsAt?: string;
+  barangayId?: string | null;
+  notes?: string | null;
+}
+
+export interface ShiftListQuery {
+  from?: string;
+  to?: string;
+  personnelId?: string;
+  teamId?: string;
+  barangayId?: string;
+  status?: ShiftStatus;
+}
+
+export interface CancelShiftDTO {
+  reason?: string;
+}
+
+// ========================================
+// WEEKLY TEAM ROSTER
+// ========================================
+
+export interface RosterWeekQuery {
+  weekStart?: string; // Any date in the week, defaults to the current week
+}
+
+export interface RosterWeekEntry {
+  day: number; // 0 = Monday ... 6 = Sunday
+  templateId: string;
+  personnelIds?: string[]; // Defaults to every team member
+}
+
+export interface AssignRosterWeekDTO {
+  weekStart: string;
+  entries: RosterWeekEntry[];
+  replaceExisting?: boolean; // Cancel the team's scheduled shifts of the week first
+}
+
+export interface RosterSkippedShift {
+  personnelId: string;
+  date: string;
+  templateId: string;
+  reason: string;
+}
+
+export interface AssignRosterWeekResult {
+  created: number;
+  cancelled: number;
+  skipped: RosterSkippedShift[];
+}
+
+// ========================================
+// SWAP REQUESTS
+// ========================================
+
+export interface CreateShiftSwapDTO {
+  shiftId: string;
+  targetPersonnelId: string;
+  targetShiftId?: string; // Shift taken in return; without it the target covers the shift
+  reason?: string;
+}
+
+export interface ReviewShiftSwapDTO {
+  notes?: string;
+}
+
+export interface ShiftSwapListQuery {
+  status?: ShiftSwapStatus;
+  personnelId?: string;
+}
+
+// ========================================
+// COVERAGE
+// ========================================
+
+export interface CreateCoverageRequirementDTO {
+  barangayId?: string;
+  role?: PersonnelRole;
+  minPersonnel: number;
+  startTime?: string;
+  endTime?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateCoverageRequirementDTO {
+  minPersonnel?: number;
+  startTime?: string | null;
+  endTime?: string | null;
+  isActive?: boolean;
+}
+
+export interface CoverageGapQuery {
+  from?: string;
+  to?: string;
+  barangayId?: string;
+  role?: PersonnelRole;
+}
+
+export interface CoverageGap {
+  requirementId: string;
+  barangayId: string | null;
+  barangayName: string | null;
+  role: PersonnelRole | null;
+  minPersonnel: number;
+  scheduled: number; // Lowest number on shift during the gap
+  from: Date;
+  to: Date;
+}
+
+export interface RosterExportQuery {
+  from?: string;
+  to?: string;
+  teamId?: string;
+  barangayId?: string;
+}
+
+// The authenticated user; personnel may only act on their own shifts
+export interface RosterActor {
+  userId: string;
+  role: string;
+}
@@ -0,0 +1,155 @@
+import { PrismaClient, PersonnelStatus, ShiftStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../../core/utils/logger';
+import { DomainEventBus, domainEvents } from '../../core/events';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+
+// Off-duty personnel are put on duty when their shift starts
+const STARTS_FROM: PersonnelStatus[] = [PersonnelStatus.OFF_DUTY];
+
+// Personnel on an incident keep their status until they are done with it
+const ENDS_FROM: PersonnelStatus[] = [PersonnelStatus.ON_DUTY, PersonnelStatus.AVAILABLE, PersonnelStatus.ON_BREAK];
+
+const SHIFT_SELECT = {
+  id: true,
+  personnelId: true,
+  startsAt: true,
+  endsAt: true,
+  template: { select: { name: true } },
+  personnel: { select: { status: true } },
+} as const;
+
+/**
+ * Starts and ends rostered shifts on time, moving personnel ON_DUTY and
+ * OFF_DUTY with them. Run by the scheduler.
+ */
+export class ShiftAutomationService {
+  private auditService: AuditService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private io?: SocketIOServer,
+    private bus: DomainEventBus = domainEvents
+  ) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  async applyTransitions(now = new Date()) {
+    const started = await this.startDueShifts(now);
+    const ended = await this.endFinishedShifts(now);
+
+    if (started + ended > 0) {
+      logger.info(`[Roster] Started ${started} and ended ${ended} shifts`);
+    }
+
+    return { started, ended };
+  }
+
+  private async startDueShifts(now: Date): Promise<number> {
+    const due = await this.prisma.shift.findMany({
+      where: { status: ShiftStatus.SCHEDULED, startsAt: { lte: now }, endsAt: { gt: now } },
+      select: SHIFT_SELECT,
+    });
+
+    let started = 0;
+    for (const shift of due) {
+      // Guard against a concurrent run or a cancellation since the query
+      const { count } = await this.prisma.shift.updateMany({
+        where: { id: shift.id, status: ShiftStatus.SCHEDULED },
+        data: { status: ShiftStatus.ACTIVE, startedAt: now },
+      });
+      if (count === 0) continue;
+      started++;
+
+      const duty = shift.template?.name ?? 'Scheduled shift';
+      if (STARTS_FROM.includes(shift.personnel.status)) {
+        await this.setStatus(shift.personnelId, shift.personnel.status, PersonnelStatus.ON_DUTY, shift.id, duty);
+      }
+
+      this.io?.to(`personnel:${shift.personnelId}`).emit('roster:shift:started', {
+        shiftId: shift.id,
+        startsAt: shift.startsAt,
+        endsAt: shift.endsAt,
+        duty,
+      });
+    }
+
+    return started;
+  }
+
+  /**
+   * Shifts that never started, for example while the server was down, are
+   * closed without touching the personnel status
+   */
+  private async endFinishedShifts(now: Date): Promise<number> {
+    const finished = await this.prisma.shift.findMany({
+      where: { status: { in: [ShiftStatus.SCHEDULED, ShiftStatus.ACTIVE] }, endsAt: { lte: now } },
+      select: { ...SHIFT_SELECT, status: true },
+    });
+
+    let ended = 0;
+    for (const shift of finished) {
+      const { count } = await this.prisma.shift.updateMany({
+        where: { id: shift.id, status: shift.status },
+        data: { status: ShiftStatus.COMPLETED, endedAt: now },
+      });
+      if (count === 0) continue;
+      ended++;
+      if (shift.status !== ShiftStatus.ACTIVE) continue;
+
+      // Back-to-back shifts keep the person on duty
+      const next = await this.prisma.shift.findFirst({
+        where: {
+          personnelId: shift.personnelId,
+          status: { in: [ShiftStatus.SCHEDULED, ShiftStatus.ACTIVE] },
+          startsAt: { lte: now },
+          endsAt: { gt: now },
+        },
+        select: { id: true },
+      });
+
+      if (!next && ENDS_FROM.includes(shift.personnel.status)) {
+        await this.setStatus(shift.personnelId, shift.personnel.status, PersonnelStatus.OFF_DUTY, shift.id, null);
+      }
+
+      this.io?.to(`personnel:${shift.personnelId}`).emit('roster:shift:ended', {
+        shiftId: shift.id,
+        endsAt: shift.endsAt,
+      });
+    }
+
+    return ended;
+  }
+
+  private async setStatus(
+    personnelId: string,
+    oldStatus: PersonnelStatus,
+    status: PersonnelStatus,
+    shiftId: string,
+    currentDuty: string | null
+  ) {
+    await this.prisma.personnel.update({
+      where: { id: personnelId },
+      data: {
+        status,
+        isAvailable: status === PersonnelStatus.ON_DUTY,
+        currentDuty,
+      },
+    });
+
+    await this.auditService.createLog({
+      action: AuditAction.SHIFT_STATUS_APPLIED,
+      resourceType: 'PERSONNEL',
+      resourceId: personnelId,
+      details: { shiftId, field: 'status', oldValue: oldStatus, newValue: status },
+    });
+
+    this.bus.publish('PersonnelStatusChanged', {
+      personnelId,
+      status,
+      shiftId,
+      reason: currentDuty ?? 'Shift ended',
+    });
+  }
+}
@@ -0,0 +1,93 @@
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Date and time-of-day helpers for the roster. Times of day ("HH:mm") and
+ * dates ("YYYY-MM-DD") are in the server's local time zone.
+ */
+export class ShiftTime {
+  /**
+   * A YYYY-MM-DD date is local midnight, anything else an ISO date-time
+   */
+  static parse(value: string): Date {
+    return DATE_PATTERN.test(value) ? ShiftTime.startOfDay(value) : new Date(value);
+  }
+
+  static minutesOf(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Local midnight of a YYYY-MM-DD date
+   */
+  static startOfDay(date: string | Date): Date {
+    if (typeof date === 'string') {
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  /**
+   * Monday of the week the date falls in
+   */
+  static weekStart(date: string | Date = new Date()): Date {
+    const day = ShiftTime.startOfDay(date);
+    return ShiftTime.addDays(day, -((day.getDay() + 6) % 7));
+  }
+
+  static dateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Start and end of a template shift on a date. An end at or before the
+   * start runs into the next day.
+   */
+  static range(date: string | Date, startTime: string, endTime: string): { startsAt: Date; endsAt: Date } {
+    const day = ShiftTime.startOfDay(date);
+    const startsAt = ShiftTime.at(day, startTime);
+    let endsAt = ShiftTime.at(day, endTime);
+    if (endsAt <= startsAt) endsAt = ShiftTime.at(ShiftTime.addDays(day, 1), endTime);
+    return { startsAt, endsAt };
+  }
+
+  /**
+   * Whether a moment falls in a daily window. No window means the whole day.
+   */
+  static inWindow(moment: Date, startTime?: string | null, endTime?: string | null): boolean {
+    if (!startTime || !endTime) return true;
+
+    const minute = moment.getHours() * 60 + moment.getMinutes();
+    const start = ShiftTime.minutesOf(startTime);
+    const end = ShiftTime.minutesOf(endTime);
+
+    // A window like 22:00-06:00 wraps around midnight
+    return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+  }
+
+  static hoursBetween(from: Date, to: Date): number {
+    return (to.getTime() - from.getTime()) / (60 * MINUTE_MS);
+  }
+
+  static daysBetween(from: Date, to: Date): number {
+    return (to.getTime() - from.getTime()) / DAY_MS;
+  }
+
+  private static at(day: Date, time: string): Date {
+    const minutes = ShiftTime.minutesOf(time);
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+  }
+}
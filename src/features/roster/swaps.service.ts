@@ -0,0 +1,282 @@
+import { PrismaClient, Prisma, ShiftStatus, ShiftSwapStatus, PersonnelStatus } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { NotFoundError, ValidationError, ConflictError, ForbiddenError } from '../../core/errors';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/audit.types';
+import { RosterService } from './roster.service';
+import {
+  CreateShiftSwapDTO,
+  ReviewShiftSwapDTO,
+  ShiftSwapListQuery,
+  RosterActor,
+} from './roster.types';
+
+const SHIFT_SELECT = {
+  id: true,
+  personnelId: true,
+  startsAt: true,
+  endsAt: true,
+  status: true,
+  template: { select: { id: true, name: true } },
+} satisfies Prisma.ShiftSelect;
+
+const PERSON_SELECT = { id: true, employeeId: true, firstName: true, lastName: true } satisfies Prisma.PersonnelSelect;
+
+const SWAP_INCLUDE = {
+  shift: { select: SHIFT_SELECT },
+  targetShift: { select: SHIFT_SELECT },
+  requestedBy: { select: PERSON_SELECT },
+  targetPersonnel: { select: PERSON_SELECT },
+  reviewedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.ShiftSwapRequestInclude;
+
+const UNAVAILABLE_STATUSES: PersonnelStatus[] = [PersonnelStatus.INACTIVE, PersonnelStatus.SUSPENDED];
+
+/**
+ * Shift swaps between personnel. A swap only changes the roster once an
+ * admin approves it; both shifts are re-checked for overlaps at that point.
+ */
+export class ShiftSwapService {
+  private auditService: AuditService;
+
+  constructor(
+    private prisma: PrismaClient,
+    private roster: RosterService,
+    private io?: SocketIOServer
+  ) {
+    this.auditService = new AuditService(prisma);
+  }
+
+  async createSwap(data: CreateShiftSwapDTO, actor: RosterActor) {
+    const shift = await this.getSwappableShift(data.shiftId);
+
+    if (actor.role === 'PERSONNEL' && shift.personnelId !== actor.userId) {
+      throw new ForbiddenError('You can only swap your own shifts');
+    }
+
+    if (data.targetPersonnelId === shift.personnelId) {
+      throw new ValidationError('Cannot swap a shift with its own personnel');
+    }
+
+    const target = await this.prisma.personnel.findUnique({
+      where: { id: data.targetPersonnelId },
+      select: { id: true, status: true },
+    });
+
+    if (!target) {
+      throw new NotFoundError('Target personnel not found');
+    }
+
+    if (UNAVAILABLE_STATUSES.includes(target.status)) {
+      throw new ValidationError(`Target personnel is ${target.status.toLowerCase()}`);
+    }
+
+    if (data.targetShiftId) {
+      const targetShift = await this.getSwappableShift(data.targetShiftId);
+      if (targetShift.personnelId !== target.id) {
+        throw new ValidationError('The shift offered in return must belong to the target personnel');
+      }
+    }
+
+    const pending = await this.prisma.shiftSwapRequest.findFirst({
+      where: { shiftId: shift.id, status: ShiftSwapStatus.PENDING },
+      select: { id: true },
+    });
+
+    if (pending) {
+      throw new ConflictError('A swap request for this shift is already pending');
+    }
+
+    const swap = await this.prisma.shiftSwapRequest.create({
+      data: {
+        shiftId: shift.id,
+        requestedById: shift.personnelId,
+        targetPersonnelId: target.id,
+        targetShiftId: data.targetShiftId,
+        reason: data.reason,
+      },
+      include: SWAP_INCLUDE,
+    });
+
+    this.io?.to('admin').emit('roster:swap:requested', swap);
+    this.roster.notify(target.id, 'roster:swap:requested', swap);
+
+    return swap;
+  }
+
+  /**
+   * Personnel only see the swaps they requested or were asked to take
+   */
+  async getSwaps(query: ShiftSwapListQuery, actor: RosterActor) {
+    const personnelId = actor.role === 'PERSONNEL' ? actor.userId : query.personnelId;
+
+    return this.prisma.shiftSwapRequest.findMany({
+      where: {
+        ...(query.status && { status: query.status }),
+        ...(personnelId && { OR: [{ requestedById: personnelId }, { targetPersonnelId: personnelId }] }),
+      },
+      include: SWAP_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getSwapById(id: string) {
+    const swap = await this.prisma.shiftSwapRequest.findUnique({
+      where: { id },
+      include: SWAP_INCLUDE,
+    });
+
+    if (!swap) {
+      throw new NotFoundError('Swap request not found');
+    }
+
+    return swap;
+  }
+
+  async approveSwap(id: string, data: ReviewShiftSwapDTO, reviewerId: string) {
+    const swap = await this.getPendingSwap(id);
+    const shift = await this.getSwappableShift(swap.shiftId);
+    const targetShift = swap.targetShiftId ? await this.getSwappableShift(swap.targetShiftId) : null;
+
+    if (shift.personnelId !== swap.requestedById) {
+      throw new ConflictError('The shift has been reassigned since the swap was requested');
+    }
+
+    if (targetShift && targetShift.personnelId !== swap.targetPersonnelId) {
+      throw new ConflictError('The shift offered in return has been reassigned since the swap was requested');
+    }
+
+    const swapped = [shift.id, ...(targetShift ? [targetShift.id] : [])];
+    await this.roster.assertNoOverlap(swap.targetPersonnelId, shift.startsAt, shift.endsAt, swapped);
+    if (targetShift) {
+      await this.roster.assertNoOverlap(swap.requestedById, targetShift.startsAt, targetShift.endsAt, swapped);
+    }
+
+    const [approved] = await this.prisma.$transaction([
+      this.prisma.shiftSwapRequest.update({
+        where: { id },
+        data: {
+          status: ShiftSwapStatus.APPROVED,
+          reviewedById: reviewerId,
+          reviewedAt: new Date(),
+          reviewNotes: data.notes,
+        },
+        include: SWAP_INCLUDE,
+      }),
+      this.prisma.shift.update({
+        where: { id: shift.id },
+        data: { personnelId: swap.targetPersonnelId },
+      }),
+      ...(targetShift
+        ? [this.prisma.shift.update({ where: { id: targetShift.id }, data: { personnelId: swap.requestedById } })]
+        : []),
+      // Other requests for the same shifts no longer apply
+      this.prisma.shiftSwapRequest.updateMany({
+        where: {
+          id: { not: id },
+          status: ShiftSwapStatus.PENDING,
+          OR: [{ shiftId: { in: swapped } }, { targetShiftId: { in: swapped } }],
+        },
+        data: { status: ShiftSwapStatus.CANCELLED },
+      }),
+    ]);
+
+    await this.audit(AuditAction.SHIFT_SWAP_APPROVED, approved, reviewerId);
+    this.reviewed(approved);
+
+    return approved;
+  }
+
+  async rejectSwap(id: string, data: ReviewShiftSwapDTO, reviewerId: string) {
+    await this.getPendingSwap(id);
+
+    const rejected = await this.prisma.shiftSwapRequest.update({
+      where: { id },
+      data: {
+        status: ShiftSwapStatus.REJECTED,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        reviewNotes: data.notes,
+      },
+      include: SWAP_INCLUDE,
+    });
+
+    await this.audit(AuditAction.SHIFT_SWAP_REJECTED, rejected, reviewerId);
+    this.reviewed(rejected);
+
+    return rejected;
+  }
+
+  /**
+   * Withdrawn by the requester, or by an admin on their behalf
+   */
+  async cancelSwap(id: string, actor: RosterActor) {
+    const swap = await this.getPendingSwap(id);
+
+    if (actor.role === 'PERSONNEL' && swap.requestedById !== actor.userId) {
+      throw new ForbiddenError('Only the requester can cancel a swap request');
+    }
+
+    const cancelled = await this.prisma.shiftSwapRequest.update({
+      where: { id },
+      data: { status: ShiftSwapStatus.CANCELLED },
+      include: SWAP_INCLUDE,
+    });
+
+    this.reviewed(cancelled);
+    return cancelled;
+  }
+
+  private async getPendingSwap(id: string) {
+    const swap = await this.getSwapById(id);
+
+    if (swap.status !== ShiftSwapStatus.PENDING) {
+      throw new ValidationError(`Swap request is already ${swap.status.toLowerCase()}`);
+    }
+
+    return swap;
+  }
+
+  /**
+   * Only shifts that have not started yet can change hands
+   */
+  private async getSwappableShift(id: string) {
+    const shift = await this.prisma.shift.findUnique({ where: { id }, select: SHIFT_SELECT });
+
+    if (!shift) {
+      throw new NotFoundError('Shift not found');
+    }
+
+    if (shift.status !== ShiftStatus.SCHEDULED || shift.startsAt <= new Date()) {
+      throw new ValidationError('Only scheduled shifts that have not started can be swapped');
+    }
+
+    return shift;
+  }
+
+  private async audit(
+    action: AuditAction,
+    swap: Prisma.ShiftSwapRequestGetPayload<{ include: typeof SWAP_INCLUDE }>,
+    reviewerId: string
+  ) {
+    await this.auditService.createLog({
+      userId: reviewerId,
+      action,
+      resourceType: 'SHIFT',
+      resourceId: swap.shiftId,
+      details: {
+        swapRequestId: swap.id,
+        requestedById: swap.requestedById,
+        targetPersonnelId: swap.targetPersonnelId,
+        targetShiftId: swap.targetShiftId,
+        notes: swap.reviewNotes,
+      },
+    });
+  }
+
+  private reviewed(swap: { requestedById: string; targetPersonnelId: string }) {
+    this.io?.to('admin').emit('roster:swap:updated', swap);
+    this.roster.notify(swap.requestedById, 'roster:swap:updated', swap);
+    this.roster.notify(swap.targetPersonnelId, 'roster:swap:updated', swap);
+  }
+}
@@ -53,6 +53,7 @@ export class SearchController {
         status: request.query.status,
         priority: request.query.priority,
         type: request.query.type,
+        tags: request.query.tags,
         fromDate: request.query.fromDate,
         toDate: request.query.toDate,
       },
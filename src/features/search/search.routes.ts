@@ -2,12 +2,12 @@ import { FastifyInstance } from 'fastify';
 import { SearchController } from './search.controller';
 import { SearchService } from './search.service';
 import { GlobalSearchQuerystring, IncidentSearchQuerystring, PersonnelSearchQuerystring, BarangaySearchQuerystring, UserSearchQuerystring } from './search.types';
-import { prisma } from '../../config/database';
+import { reportingPrisma } from '../../config/database';
 import { validate, authMiddleware } from '../../core/middleware';
 import { searchQuerySchema } from './search.schema';
 
 export async function searchRoutes(app: FastifyInstance) {
-  const searchService = new SearchService(prisma);
+  const searchService = new SearchService(reportingPrisma);
   const searchController = new SearchController(searchService);
 
   // All routes require authentication
@@ -8,6 +8,7 @@ export const searchQuerySchema = z.object({
   priority: z.string().optional(),
   type: z.string().optional(),
   role: z.string().optional(),
+  tags: z.string().optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
   sortField: z.string().optional(),
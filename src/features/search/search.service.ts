@@ -10,6 +10,7 @@ import {
 } from './search.types';
 import { CONSTANTS } from '../../config/constants';
 import { PaginatedResponse } from '../../types';
+import { TagsService } from '../tags/tags.service';
 
 export class SearchService {
   constructor(private prisma: PrismaClient) {}
@@ -52,6 +53,7 @@ export class SearchService {
         { description: { contains: query.query, mode: 'insensitive' } },
         { address: { contains: query.query, mode: 'insensitive' } },
         { reporterName: { contains: query.query, mode: 'insensitive' } },
+        { tags: { some: { tag: { name: { contains: TagsService.normalize(query.query) } } } } },
       ],
     };
 
@@ -68,6 +70,10 @@ export class SearchService {
       where.type = query.filters.type;
     }
 
+    if (query.filters?.tags) {
+      where.AND = TagsService.buildFilter(query.filters.tags);
+    }
+
     if (query.filters?.fromDate || query.filters?.toDate) {
       where.reportedAt = {};
       if (query.filters.fromDate) {
@@ -108,6 +114,7 @@ export class SearchService {
       status: incident.status,
       address: incident.address,
       reportedAt: incident.reportedAt,
+      isArchived: !!incident.archivedAt,
       barangay: incident.barangay || undefined,
       highlights: this.highlightMatches(
         {
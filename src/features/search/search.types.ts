@@ -14,6 +14,8 @@ export interface SearchQuery {
     priority?: string;
     type?: string;
     role?: string;
+    // Comma-separated tag names, incidents only
+    tags?: string;
     fromDate?: string;
     toDate?: string;
   };
@@ -35,6 +37,8 @@ export interface IncidentSearchResult {
   status: string;
   address: string;
   reportedAt: Date;
+  // Archived incidents are still searched, flagged so clients can label them
+  isArchived: boolean;
   barangay?: {
     id: string;
     name: string;
@@ -125,6 +129,7 @@ export interface IncidentSearchQuerystring {
   status?: string;
   priority?: string;
   type?: string;
+  tags?: string;
   fromDate?: string;
   toDate?: string;
   sortField?: string;
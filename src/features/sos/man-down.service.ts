@@ -0,0 +1,110 @@
+import { PrismaClient, PersonnelStatus } from '@prisma/client';
+import { env } from '../../config/environment';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { GeoService } from '../../core/utils/geo';
+import { SosService, OPEN_SOS_STATUSES } from './sos.service';
+import { ManDownReason } from './sos.types';
+
+// Responders whose locations are watched for a man-down
+const WATCHED_STATUSES: PersonnelStatus[] = [PersonnelStatus.RESPONDING, PersonnelStatus.ON_SCENE];
+
+type Fix = { latitude: number; longitude: number; timestamp: Date };
+
+/**
+ * Raises a man-down alert when a RESPONDING or ON_SCENE responder's location
+ * stops updating, or every fix over the no-movement period stays within the
+ * movement radius. Watching starts when they were dispatched, or when their
+ * last alert was closed, so neither an old fix nor a resolved alert re-alerts.
+ */
+export class ManDownDetectionService {
+  private sosService: SosService;
+
+  constructor(private prisma: PrismaClient) {
+    this.sosService = new SosService(prisma);
+  }
+
+  async detect(): Promise<number> {
+    const now = Date.now();
+    const noLocationMs = parseInt(env.MAN_DOWN_NO_LOCATION_MINUTES) * 60 * 1000;
+    const noMovementMs = parseInt(env.MAN_DOWN_NO_MOVEMENT_MINUTES) * 60 * 1000;
+    const radiusMeters = parseFloat(env.MAN_DOWN_MOVEMENT_RADIUS_METERS);
+
+    const personnel = await this.prisma.personnel.findMany({
+      where: {
+        status: { in: WATCHED_STATUSES },
+        sosAlerts: { none: { status: { in: OPEN_SOS_STATUSES } } },
+      },
+      select: {
+        id: true,
+        // Enough history to find the fix at the start of the no-movement period
+        locations: {
+          where: { timestamp: { gte: new Date(now - noMovementMs - noLocationMs) } },
+          orderBy: { timestamp: 'desc' },
+          select: { latitude: true, longitude: true, timestamp: true },
+        },
+        assignments: { orderBy: { assignedAt: 'desc' }, take: 1, select: { assignedAt: true } },
+        incidentResponders: { orderBy: { acceptedAt: 'desc' }, take: 1, select: { acceptedAt: true } },
+        sosAlerts: { orderBy: { createdAt: 'desc' }, take: 1, select: { resolvedAt: true } },
+      },
+    });
+
+    let raised = 0;
+
+    for (const person of personnel) {
+      const watchedSince = Math.max(
+        person.assignments[0]?.assignedAt.getTime() ?? 0,
+        person.incidentResponders[0]?.acceptedAt.getTime() ?? 0,
+        person.sosAlerts[0]?.resolvedAt?.getTime() ?? 0
+      );
+
+      const reason = this.evaluate(person.locations, watchedSince, now, {
+        noLocationMs,
+        noMovementMs,
+        radiusMeters,
+      });
+      if (!reason) continue;
+
+      try {
+        const alert = await this.sosService.raiseManDown(person.id, reason);
+        if (alert) raised++;
+      } catch (error) {
+        logger.error(`[ManDown] Failed to raise alert for ${person.id}:`, error);
+      }
+    }
+
+    if (raised > 0) {
+      logger.warn(`[ManDown] Raised ${raised} man-down alerts`);
+    }
+
+    return raised;
+  }
+
+  /**
+   * `fixes` are newest first
+   */
+  private evaluate(
+    fixes: Fix[],
+    watchedSince: number,
+    now: number,
+    limits: { noLocationMs: number; noMovementMs: number; radiusMeters: number }
+  ): ManDownReason | null {
+    const lastHeard = Math.max(fixes[0]?.timestamp.getTime() ?? 0, watchedSince);
+    if (now - lastHeard > limits.noLocationMs) {
+      return 'NO_LOCATION';
+    }
+
+    const windowStart = now - limits.noMovementMs;
+    if (watchedSince > windowStart) return null;
+
+    const inWindow = fixes.filter((fix) => fix.timestamp.getTime() >= windowStart);
+    const anchor = fixes.find((fix) => fix.timestamp.getTime() < windowStart);
+    if (!anchor || inWindow.length < CONSTANTS.SOS.MAN_DOWN_MIN_FIXES) return null;
+
+    const moved = inWindow.some(
+      (fix) => GeoService.distanceMeters(anchor.latitude, anchor.longitude, fix.latitude, fix.longitude) > limits.radiusMeters
+    );
+
+    return moved ? null : 'NO_MOVEMENT';
+  }
+}
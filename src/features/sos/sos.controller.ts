@@ -0,0 +1,107 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { SosService } from './sos.service';
+import { RaiseSosDTO, ResolveSosDTO, SosListQuery } from './sos.types';
+import { SuccessResponse } from '../../types';
+
+export class SosController {
+  constructor(private sosService: SosService) {}
+
+  async raise(
+    request: FastifyRequest<{ Body: RaiseSosDTO }>,
+    reply: FastifyReply
+  ) {
+    const alert = await this.sosService.raise(request.user!.userId, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: alert,
+      message: 'SOS raised; help has been alerted',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getAlerts(
+    request: FastifyRequest<{ Querystring: SosListQuery }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.sosService.getAlerts(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getActiveAlerts(_request: FastifyRequest, reply: FastifyReply) {
+    const alerts = await this.sosService.getActiveAlerts();
+
+    const response: SuccessResponse = {
+      success: true,
+      data: alerts,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getAlertById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const alert = await this.sosService.getAlertById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: alert,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async acknowledge(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const alert = await this.sosService.acknowledge(request.params.id, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: alert,
+      message: 'SOS acknowledged',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async resolve(
+    request: FastifyRequest<{ Params: { id: string }; Body: ResolveSosDTO }>,
+    reply: FastifyReply
+  ) {
+    const alert = await this.sosService.resolve(request.params.id, request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: alert,
+      message: 'SOS resolved',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async cancel(
+    request: FastifyRequest<{ Params: { id: string }; Body: ResolveSosDTO }>,
+    reply: FastifyReply
+  ) {
+    const alert = await this.sosService.cancel(request.params.id, request.user!, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: alert,
+      message: 'SOS cancelled',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
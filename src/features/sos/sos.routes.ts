@@ -0,0 +1,78 @@
+import { FastifyInstance } from 'fastify';
+import { SosController } from './sos.controller';
+import { SosService } from './sos.service';
+import { RaiseSosDTO, ResolveSosDTO, SosListQuery } from './sos.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import { raiseSosSchema, resolveSosSchema, sosListQuerySchema } from './sos.schema';
+
+export async function sosRoutes(app: FastifyInstance) {
+  const sosService = new SosService(prisma);
+  const sosController = new SosController(sosService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // Raise an SOS: REST fallback for the personnel:sos socket event (Personnel only)
+  app.post<{ Body: RaiseSosDTO }>(
+    '/',
+    {
+      preHandler: [requireRole('PERSONNEL'), validate(raiseSosSchema)],
+    },
+    sosController.raise.bind(sosController)
+  );
+
+  // List alerts (Admin only)
+  app.get<{ Querystring: SosListQuery }>(
+    '/',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(sosListQuerySchema, 'query')],
+    },
+    sosController.getAlerts.bind(sosController)
+  );
+
+  // Open alerts (Admin only, MUST be before /:id)
+  app.get(
+    '/active',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    sosController.getActiveAlerts.bind(sosController)
+  );
+
+  // Get alert (Admin only)
+  app.get<{ Params: { id: string } }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    sosController.getAlertById.bind(sosController)
+  );
+
+  // Acknowledge (Admin only)
+  app.post<{ Params: { id: string } }>(
+    '/:id/acknowledge',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    sosController.acknowledge.bind(sosController)
+  );
+
+  // Resolve (Admin only)
+  app.post<{ Params: { id: string }; Body: ResolveSosDTO }>(
+    '/:id/resolve',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(resolveSosSchema)],
+    },
+    sosController.resolve.bind(sosController)
+  );
+
+  // Stand down: the responder's own alert, or any alert for admins
+  app.post<{ Params: { id: string }; Body: ResolveSosDTO }>(
+    '/:id/cancel',
+    {
+      preHandler: [requireRole('PERSONNEL', 'ADMIN', 'SUPER_ADMIN'), validate(resolveSosSchema)],
+    },
+    sosController.cancel.bind(sosController)
+  );
+}
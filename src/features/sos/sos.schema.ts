@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { SosStatus, SosTrigger } from '@prisma/client';
+
+export const raiseSosSchema = z
+  .object({
+    incidentId: z.string().min(1).optional(),
+    message: z.string().max(500).optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    accuracy: z.number().min(0).optional(),
+  })
+  .refine((data) => (data.latitude === undefined) === (data.longitude === undefined), {
+    message: 'Latitude and longitude must be sent together',
+    path: ['latitude'],
+  });
+
+export const resolveSosSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+export const cancelSosSchema = resolveSosSchema.extend({
+  alertId: z.string().min(1, 'Alert is required'),
+});
+
+export const sosListQuerySchema = z.object({
+  page: z.string().transform(Number).pipe(z.number().min(1)).optional(),
+  limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional(),
+  status: z.nativeEnum(SosStatus).optional(),
+  trigger: z.nativeEnum(SosTrigger).optional(),
+  personnelId: z.string().optional(),
+  incidentId: z.string().optional(),
+});
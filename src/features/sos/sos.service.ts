@@ -0,0 +1,408 @@
+import { PrismaClient, Prisma, IncidentStatus, SosStatus, SosTrigger } from '@prisma/client';
+import { CONSTANTS } from '../../config/constants';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../core/errors';
+import { PersonnelService } from '../personnel/personnel.service';
+import { DomainEventBus, DomainEventMap, domainEvents } from '../../core/events';
+import {
+  RaiseSosDTO,
+  ResolveSosDTO,
+  SosListQuery,
+  SosActor,
+  SosAlertEvent,
+  ManDownReason,
+} from './sos.types';
+
+const ALERT_INCLUDE = {
+  personnel: { select: { id: true, employeeId: true, firstName: true, lastName: true, phone: true } },
+  incident: { select: { id: true, incidentNumber: true, title: true } },
+  acknowledgedBy: { select: { id: true, firstName: true, lastName: true } },
+  resolvedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.SosAlertInclude;
+
+type SosAlertWithRelations = Prisma.SosAlertGetPayload<{ include: typeof ALERT_INCLUDE }>;
+
+// Alerts still needing attention; a responder has at most one
+export const OPEN_SOS_STATUSES: SosStatus[] = [SosStatus.ACTIVE, SosStatus.ACKNOWLEDGED];
+
+// Incidents in these statuses are not linked to new alerts
+const CLOSED_INCIDENT_STATUSES: IncidentStatus[] = [
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+const MAN_DOWN_MESSAGES: Record<ManDownReason, string> = {
+  NO_LOCATION: 'Location stopped updating',
+  NO_MOVEMENT: 'No movement detected',
+};
+
+/**
+ * Responder distress alerts, published as Sos* domain events. Alerts carry
+ * the responder's latest location and go to admins and everyone on the same
+ * incident as a critical event recipients must acknowledge.
+ */
+export class SosService {
+  private personnelService: PersonnelService;
+
+  constructor(private prisma: PrismaClient, private bus: DomainEventBus = domainEvents) {
+    this.personnelService = new PersonnelService(prisma);
+  }
+
+  /**
+   * Raise an SOS. Pressing it again while an alert is open escalates that
+   * alert with the newest location instead of opening another.
+   */
+  async raise(
+    personnelId: string,
+    data: RaiseSosDTO,
+    source: DomainEventMap['PersonnelLocationUpdated']['source'] = 'api'
+  ) {
+    if (data.incidentId) {
+      await this.assertOnIncident(personnelId, data.incidentId);
+    }
+
+    if (data.latitude !== undefined && data.longitude !== undefined) {
+      await this.personnelService.updateLocation(
+        personnelId,
+        { latitude: data.latitude, longitude: data.longitude, accuracy: data.accuracy },
+        source
+      );
+    }
+
+    const location = await this.getLatestLocation(personnelId);
+    const open = await this.prisma.sosAlert.findFirst({
+      where: { personnelId, status: { in: OPEN_SOS_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (open) {
+      const escalated = await this.prisma.sosAlert.update({
+        where: { id: open.id },
+        data: {
+          trigger: SosTrigger.MANUAL,
+          message: data.message ?? open.message,
+          incidentId: open.incidentId ?? data.incidentId,
+          ...this.locationFields(location),
+        },
+        include: ALERT_INCLUDE,
+      });
+
+      this.bus.publish('SosRaised', {
+        alert: this.toEvent(escalated),
+        recipientIds: await this.getRecipientIds(escalated),
+        escalated: true,
+      });
+      return escalated;
+    }
+
+    const incidentId = data.incidentId ?? (await this.getCurrentIncidentId(personnelId));
+    return this.open(personnelId, SosTrigger.MANUAL, incidentId, data.message ?? null);
+  }
+
+  /**
+   * Raised by man-down detection; skipped when the responder already has an
+   * open alert
+   */
+  async raiseManDown(personnelId: string, reason: ManDownReason) {
+    const open = await this.prisma.sosAlert.count({
+      where: { personnelId, status: { in: OPEN_SOS_STATUSES } },
+    });
+    if (open > 0) return null;
+
+    const incidentId = await this.getCurrentIncidentId(personnelId);
+    return this.open(personnelId, reason, incidentId, MAN_DOWN_MESSAGES[reason]);
+  }
+
+  async getAlerts(query: SosListQuery) {
+    const page = query.page || 1;
+    const limit = query.limit || CONSTANTS.DEFAULT_PAGE_SIZE;
+
+    const where: Prisma.SosAlertWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.trigger && { trigger: query.trigger }),
+      ...(query.personnelId && { personnelId: query.personnelId }),
+      ...(query.incidentId && { incidentId: query.incidentId }),
+    };
+
+    const [total, alerts] = await Promise.all([
+      this.prisma.sosAlert.count({ where }),
+      this.prisma.sosAlert.findMany({
+        where,
+        include: ALERT_INCLUDE,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      data: alerts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Open alerts, unacknowledged first
+   */
+  async getActiveAlerts() {
+    return this.prisma.sosAlert.findMany({
+      where: { status: { in: OPEN_SOS_STATUSES } },
+      include: ALERT_INCLUDE,
+      orderBy: [{ status: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async getAlertById(id: string) {
+    const alert = await this.prisma.sosAlert.findUnique({
+      where: { id },
+      include: ALERT_INCLUDE,
+    });
+
+    if (!alert) {
+      throw new NotFoundError('SOS alert not found');
+    }
+
+    return alert;
+  }
+
+  /**
+   * An admin has seen the alert and is sending help; the responder is told
+   */
+  async acknowledge(id: string, userId: string) {
+    const alert = await this.getAlertById(id);
+
+    if (alert.status !== SosStatus.ACTIVE) {
+      throw new ValidationError(`SOS alert is already ${alert.status.toLowerCase()}`);
+    }
+
+    const acknowledged = await this.prisma.sosAlert.update({
+      where: { id },
+      data: { status: SosStatus.ACKNOWLEDGED, acknowledgedById: userId, acknowledgedAt: new Date() },
+      include: ALERT_INCLUDE,
+    });
+
+    this.bus.publish('SosAcknowledged', {
+      alert: this.toEvent(acknowledged),
+      recipientIds: await this.getRecipientIds(acknowledged, true),
+      acknowledgedBy: userId,
+    });
+    return acknowledged;
+  }
+
+  async resolve(id: string, data: ResolveSosDTO, userId: string) {
+    const alert = await this.getAlertById(id);
+    this.assertOpen(alert.status);
+
+    const resolved = await this.prisma.sosAlert.update({
+      where: { id },
+      data: {
+        status: SosStatus.RESOLVED,
+        resolvedById: userId,
+        resolvedAt: new Date(),
+        resolutionNotes: data.notes,
+      },
+      include: ALERT_INCLUDE,
+    });
+
+    this.bus.publish('SosResolved', {
+      alert: this.toEvent(resolved),
+      recipientIds: await this.getRecipientIds(resolved, true),
+      resolvedBy: userId,
+      notes: data.notes,
+    });
+    return resolved;
+  }
+
+  /**
+   * The responder stands the alert down (false alarm, or OK after a man-down check)
+   */
+  async cancel(id: string, actor: SosActor, data: ResolveSosDTO = {}) {
+    const alert = await this.getAlertById(id);
+
+    if (actor.role === 'PERSONNEL' && alert.personnelId !== actor.userId) {
+      throw new ForbiddenError('You can only cancel your own SOS alerts');
+    }
+    this.assertOpen(alert.status);
+
+    const cancelled = await this.prisma.sosAlert.update({
+      where: { id },
+      data: { status: SosStatus.CANCELLED, resolvedAt: new Date(), resolutionNotes: data.notes },
+      include: ALERT_INCLUDE,
+    });
+
+    this.bus.publish('SosCancelled', {
+      alert: this.toEvent(cancelled),
+      recipientIds: await this.getRecipientIds(cancelled, true),
+      cancelledBy: { role: actor.role === 'PERSONNEL' ? 'PERSONNEL' : 'ADMIN', id: actor.userId },
+      notes: data.notes,
+    });
+    return cancelled;
+  }
+
+  private async open(personnelId: string, trigger: SosTrigger, incidentId: string | null, message: string | null) {
+    const location = await this.getLatestLocation(personnelId);
+
+    const alert = await this.prisma.sosAlert.create({
+      data: { personnelId, incidentId, trigger, message, ...this.locationFields(location) },
+      include: ALERT_INCLUDE,
+    });
+
+    const name = `${alert.personnel.firstName} ${alert.personnel.lastName}`;
+
+    if (incidentId) {
+      await this.prisma.incidentUpdate.create({
+        data: {
+          incidentId,
+          personnelId,
+          message: trigger === SosTrigger.MANUAL
+            ? `SOS raised by ${name}`
+            : `Man-down alert for ${name}: ${MAN_DOWN_MESSAGES[trigger]}`,
+          updateType: 'INFO',
+          metadata: { sosAlertId: alert.id, trigger },
+        },
+      });
+    }
+
+    this.bus.publish('SosRaised', {
+      alert: this.toEvent(alert),
+      recipientIds: await this.getRecipientIds(alert),
+      escalated: false,
+    });
+    return alert;
+  }
+
+  /**
+   * Personnel told of an alert besides admins: the others on the incident.
+   * Man-down alerts and status changes also go to the responder, whose app
+   * can stand a false alarm down.
+   */
+  private async getRecipientIds(
+    alert: SosAlertWithRelations,
+    statusChanged = false
+  ): Promise<string[]> {
+    const recipients = new Set<string>();
+
+    if (alert.incidentId) {
+      const personnelIds = await this.getIncidentPersonnelIds(alert.incidentId);
+      personnelIds
+        .filter((id) => id !== alert.personnelId)
+        .forEach((id) => recipients.add(id));
+    }
+
+    if (statusChanged || alert.trigger !== SosTrigger.MANUAL) {
+      recipients.add(alert.personnelId);
+    }
+
+    return Array.from(recipients);
+  }
+
+  private toEvent(alert: SosAlertWithRelations): SosAlertEvent {
+    return {
+      alertId: alert.id,
+      trigger: alert.trigger,
+      status: alert.status,
+      priority: 'CRITICAL',
+      personnel: alert.personnel,
+      incident: alert.incident,
+      message: alert.message,
+      location: alert.latitude !== null && alert.longitude !== null && alert.locationAt
+        ? {
+            latitude: alert.latitude,
+            longitude: alert.longitude,
+            accuracy: alert.accuracy,
+            timestamp: alert.locationAt,
+          }
+        : null,
+      acknowledgedBy: alert.acknowledgedBy,
+      raisedAt: alert.createdAt,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async getLatestLocation(personnelId: string) {
+    return this.prisma.personnelLocation.findFirst({
+      where: { personnelId },
+      orderBy: { timestamp: 'desc' },
+      select: { latitude: true, longitude: true, accuracy: true, timestamp: true },
+    });
+  }
+
+  private locationFields(location: Awaited<ReturnType<SosService['getLatestLocation']>>) {
+    return location
+      ? {
+          latitude: location.latitude,
+          longitude: location.longitude,
+          accuracy: location.accuracy,
+          locationAt: location.timestamp,
+        }
+      : {};
+  }
+
+  /**
+   * The open incident the responder most recently joined or was assigned to
+   */
+  private async getCurrentIncidentId(personnelId: string): Promise<string | null> {
+    const open = { status: { notIn: CLOSED_INCIDENT_STATUSES } };
+
+    const [responder, assignment] = await Promise.all([
+      this.prisma.incidentResponder.findFirst({
+        where: { personnelId, leftAt: null, incident: open },
+        orderBy: { acceptedAt: 'desc' },
+        select: { incidentId: true, acceptedAt: true },
+      }),
+      this.prisma.incidentAssignment.findFirst({
+        where: { personnelId, completedAt: null, incident: open },
+        orderBy: { assignedAt: 'desc' },
+        select: { incidentId: true, assignedAt: true },
+      }),
+    ]);
+
+    if (responder && (!assignment || responder.acceptedAt >= assignment.assignedAt)) {
+      return responder.incidentId;
+    }
+
+    return assignment?.incidentId ?? null;
+  }
+
+  private async getIncidentPersonnelIds(incidentId: string): Promise<string[]> {
+    const [assignments, responders] = await Promise.all([
+      this.prisma.incidentAssignment.findMany({ where: { incidentId }, select: { personnelId: true } }),
+      this.prisma.incidentResponder.findMany({ where: { incidentId, leftAt: null }, select: { personnelId: true } }),
+    ]);
+
+    return Array.from(new Set([...assignments, ...responders].map((row) => row.personnelId)));
+  }
+
+  private async assertOnIncident(personnelId: string, incidentId: string) {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { id: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    const [assignment, responder] = await Promise.all([
+      this.prisma.incidentAssignment.findFirst({ where: { incidentId, personnelId } }),
+      this.prisma.incidentResponder.findFirst({ where: { incidentId, personnelId } }),
+    ]);
+
+    if (!assignment && !responder) {
+      throw new ForbiddenError('You are not part of this incident');
+    }
+  }
+
+  private assertOpen(status: SosStatus) {
+    if (!OPEN_SOS_STATUSES.includes(status)) {
+      throw new ValidationError(`SOS alert is already ${status.toLowerCase()}`);
+    }
+  }
+}
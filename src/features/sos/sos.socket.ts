@@ -0,0 +1,43 @@
+import { PrismaClient } from '@prisma/client';
+import { Socket } from 'socket.io';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { handleSocketEvent, RateLimitCheck } from '../../core/utils/socket-handler';
+import { AppError, ForbiddenError } from '../../core/errors';
+import { SosService } from './sos.service';
+import { raiseSosSchema, cancelSosSchema } from './sos.schema';
+
+/**
+ * `personnel:sos` raises a distress alert and `personnel:sos:cancel` stands
+ * it down. Both are for personnel; admins work alerts through the REST API.
+ */
+export function registerSosHandlers(
+  socket: Socket,
+  prisma: PrismaClient,
+  checkRateLimit: RateLimitCheck
+) {
+  const { userId, role } = socket.data;
+  const sosService = new SosService(prisma);
+
+  const assertPersonnel = () => {
+    if (role !== 'PERSONNEL') {
+      throw new ForbiddenError('Unauthorized action');
+    }
+  };
+
+  handleSocketEvent(socket, 'personnel:sos', raiseSosSchema, async (data) => {
+    assertPersonnel();
+    if (!checkRateLimit(userId, 'sos', CONSTANTS.SOS.ALERTS_PER_MINUTE, 60000)) {
+      throw new AppError('Rate limit exceeded', 429);
+    }
+
+    const alert = await sosService.raise(userId, data, 'websocket');
+    logger.warn(`[WebSocket] SOS raised by ${userId} (alert ${alert.id})`);
+    return alert;
+  });
+
+  handleSocketEvent(socket, 'personnel:sos:cancel', cancelSosSchema, async ({ alertId, ...data }) => {
+    assertPersonnel();
+    return sosService.cancel(alertId, { userId, role }, data);
+  });
+}
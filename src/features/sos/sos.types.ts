@@ -0,0 +1,56 @@
+import { SosStatus, SosTrigger } from '@prisma/client';
+
+/**
+ * A distress call from a responder. The position sent with it is stored as
+ * their latest location; without one, the last recorded location is used.
+ */
+export interface RaiseSosDTO {
+  incidentId?: string;
+  message?: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+export interface ResolveSosDTO {
+  notes?: string;
+}
+
+export interface SosListQuery {
+  page?: number;
+  limit?: number;
+  status?: SosStatus;
+  trigger?: SosTrigger;
+  personnelId?: string;
+  incidentId?: string;
+}
+
+export interface SosActor {
+  userId: string;
+  role: string;
+}
+
+/**
+ * Emitted as personnel:sos:alert when an alert is raised or escalated, and
+ * as personnel:sos:updated when it is acknowledged, resolved or cancelled
+ */
+export interface SosAlertEvent {
+  alertId: string;
+  trigger: SosTrigger;
+  status: SosStatus;
+  priority: 'CRITICAL';
+  personnel: { id: string; employeeId: string; firstName: string; lastName: string; phone: string };
+  incident: { id: string; incidentNumber: string; title: string } | null;
+  message: string | null;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    timestamp: Date;
+  } | null;
+  acknowledgedBy: { id: string; firstName: string; lastName: string } | null;
+  raisedAt: Date;
+  timestamp: string;
+}
+
+export type ManDownReason = Exclude<SosTrigger, 'MANUAL'>;
@@ -0,0 +1,85 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { TagsService } from './tags.service';
+import {
+  CreateTagDTO,
+  UpdateTagDTO,
+  TagListQuery,
+} from './tags.types';
+import { SuccessResponse } from '../../types';
+
+export class TagsController {
+  constructor(private tagsService: TagsService) {}
+
+  async createTag(
+    request: FastifyRequest<{ Body: CreateTagDTO }>,
+    reply: FastifyReply
+  ) {
+    const tag = await this.tagsService.createTag(request.body, request.user!.userId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: tag,
+      message: 'Tag created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getTags(
+    request: FastifyRequest<{ Querystring: TagListQuery }>,
+    reply: FastifyReply
+  ) {
+    const tags = await this.tagsService.getTags(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: tags,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getTagById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const tag = await this.tagsService.getTagById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: tag,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateTag(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateTagDTO }>,
+    reply: FastifyReply
+  ) {
+    const tag = await this.tagsService.updateTag(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: tag,
+      message: 'Tag updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteTag(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.tagsService.deleteTag(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Tag deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
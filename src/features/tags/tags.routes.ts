@@ -0,0 +1,62 @@
+import { FastifyInstance } from 'fastify';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import {
+  CreateTagDTO,
+  UpdateTagDTO,
+  TagListQuery,
+} from './tags.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createTagSchema,
+  updateTagSchema,
+  tagListQuerySchema,
+} from './tags.schema';
+
+export async function tagsRoutes(app: FastifyInstance) {
+  const tagsService = new TagsService(prisma);
+  const tagsController = new TagsController(tagsService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // List tags (curated tags first)
+  app.get<{ Querystring: TagListQuery }>(
+    '/',
+    {
+      preHandler: [validate(tagListQuerySchema, 'query')],
+    },
+    tagsController.getTags.bind(tagsController)
+  );
+
+  // Get tag by ID
+  app.get('/:id', tagsController.getTagById.bind(tagsController));
+
+  // Create curated tag (Admin only)
+  app.post<{ Body: CreateTagDTO }>(
+    '/',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createTagSchema)],
+    },
+    tagsController.createTag.bind(tagsController)
+  );
+
+  // Update tag (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateTagDTO }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateTagSchema)],
+    },
+    tagsController.updateTag.bind(tagsController)
+  );
+
+  // Delete tag (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    tagsController.deleteTag.bind(tagsController)
+  );
+}
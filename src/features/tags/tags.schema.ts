@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+const tagNameSchema = z.string()
+  .trim()
+  .min(1, 'Tag name is required')
+  .max(50, 'Tag name must be at most 50 characters')
+  .regex(/^[^,:]+$/, 'Tag name cannot contain commas or colons');
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #ff0000');
+
+export const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: colorSchema.optional(),
+  description: z.string().max(200).optional(),
+});
+
+export const updateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: colorSchema.nullable().optional(),
+  description: z.string().max(200).nullable().optional(),
+  isCurated: z.boolean().optional(),
+});
+
+export const tagListQuerySchema = z.object({
+  search: z.string().optional(),
+  isCurated: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+});
+
+export const addIncidentTagsSchema = z.object({
+  tags: z.array(tagNameSchema).min(1, 'At least one tag is required').max(20),
+});
@@ -0,0 +1,151 @@
+import { PrismaClient } from '@prisma/client';
+import { NotFoundError, ConflictError } from '../../core/errors';
+import { CreateTagDTO, UpdateTagDTO, TagListQuery } from './tags.types';
+
+export class TagsService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Tags are matched case-insensitively, so names are stored lowercase
+   */
+  static normalize(name: string): string {
+    return name.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Admin-created tags are curated; free-form tags come from tagging incidents
+   */
+  async createTag(data: CreateTagDTO, userId: string) {
+    const name = TagsService.normalize(data.name);
+    const existing = await this.prisma.tag.findUnique({ where: { name } });
+
+    if (existing) {
+      throw new ConflictError(`Tag "${name}" already exists`);
+    }
+
+    return this.prisma.tag.create({
+      data: { ...data, name, isCurated: true, createdById: userId },
+    });
+  }
+
+  async getTags(query: TagListQuery) {
+    return this.prisma.tag.findMany({
+      where: {
+        ...(query.search && { name: { contains: TagsService.normalize(query.search) } }),
+        ...(query.isCurated !== undefined && { isCurated: query.isCurated }),
+      },
+      include: { _count: { select: { incidents: true } } },
+      orderBy: [{ isCurated: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  async getTagById(id: string) {
+    const tag = await this.prisma.tag.findUnique({
+      where: { id },
+      include: { _count: { select: { incidents: true } } },
+    });
+
+    if (!tag) {
+      throw new NotFoundError('Tag not found');
+    }
+
+    return tag;
+  }
+
+  async updateTag(id: string, data: UpdateTagDTO) {
+    const tag = await this.getTagById(id);
+    const name = data.name ? TagsService.normalize(data.name) : undefined;
+
+    if (name && name !== tag.name) {
+      const existing = await this.prisma.tag.findUnique({ where: { name } });
+      if (existing) {
+        throw new ConflictError(`Tag "${name}" already exists`);
+      }
+    }
+
+    return this.prisma.tag.update({
+      where: { id },
+      data: { ...data, ...(name && { name }) },
+    });
+  }
+
+  /**
+   * Removes the tag from every incident it was applied to
+   */
+  async deleteTag(id: string) {
+    await this.getTagById(id);
+    await this.prisma.tag.delete({ where: { id } });
+    return { id };
+  }
+
+  async getIncidentTags(incidentId: string) {
+    const rows = await this.prisma.incidentTag.findMany({
+      where: { incidentId },
+      include: { tag: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return rows.map((row) => ({ ...row.tag, addedAt: row.createdAt, addedById: row.addedById }));
+  }
+
+  /**
+   * Apply tags by name, creating free-form tags that do not exist yet.
+   * Tags already on the incident are left as they are.
+   */
+  async addIncidentTags(incidentId: string, names: string[], userId: string) {
+    const incident = await this.prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { id: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident not found');
+    }
+
+    const normalized = Array.from(new Set(names.map(TagsService.normalize)));
+
+    const tags = await Promise.all(
+      normalized.map((name) =>
+        this.prisma.tag.upsert({
+          where: { name },
+          create: { name, createdById: userId },
+          update: {},
+        })
+      )
+    );
+
+    await this.prisma.incidentTag.createMany({
+      data: tags.map((tag) => ({ incidentId, tagId: tag.id, addedById: userId })),
+      skipDuplicates: true,
+    });
+
+    return this.getIncidentTags(incidentId);
+  }
+
+  async removeIncidentTag(incidentId: string, tagId: string) {
+    const row = await this.prisma.incidentTag.findUnique({
+      where: { incidentId_tagId: { incidentId, tagId } },
+    });
+
+    if (!row) {
+      throw new NotFoundError('Tag is not applied to this incident');
+    }
+
+    await this.prisma.incidentTag.delete({
+      where: { incidentId_tagId: { incidentId, tagId } },
+    });
+
+    return this.getIncidentTags(incidentId);
+  }
+
+  /**
+   * Incidents carrying every one of the given comma-separated tag names
+   */
+  static buildFilter(raw: string) {
+    return raw
+      .split(',')
+      .map(TagsService.normalize)
+      .filter(Boolean)
+      .map((name) => ({ tags: { some: { tag: { name } } } }));
+  }
+}
@@ -0,0 +1,22 @@
+export interface CreateTagDTO {
+  name: string;
+  color?: string;
+  description?: string;
+}
+
+export interface UpdateTagDTO {
+  name?: string;
+  color?: string | null;
+  description?: string | null;
+  isCurated?: boolean;
+}
+
+export interface TagListQuery {
+  search?: string;
+  isCurated?: boolean;
+}
+
+export interface AddIncidentTagsDTO {
+  // Tag names; unknown names are created as free-form tags
+  tags: string[];
+}
@@ -0,0 +1,111 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { TeamsService } from './teams.service';
+import { CreateTeamDTO, UpdateTeamDTO, TeamListQuery, TeamMembersDTO } from './teams.types';
+import { SuccessResponse } from '../../types';
+
+export class TeamsController {
+  constructor(private teamsService: TeamsService) {}
+
+  async createTeam(
+    request: FastifyRequest<{ Body: CreateTeamDTO }>,
+    reply: FastifyReply
+  ) {
+    const team = await this.teamsService.createTeam(request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: team,
+      message: 'Team created successfully',
+    };
+
+    return reply.status(201).send(response);
+  }
+
+  async getTeams(
+    request: FastifyRequest<{ Querystring: TeamListQuery }>,
+    reply: FastifyReply
+  ) {
+    const teams = await this.teamsService.getTeams(request.query);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: teams,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async getTeamById(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const team = await this.teamsService.getTeamById(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: team,
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async updateTeam(
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateTeamDTO }>,
+    reply: FastifyReply
+  ) {
+    const team = await this.teamsService.updateTeam(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: team,
+      message: 'Team updated successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async deleteTeam(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) {
+    const result = await this.teamsService.deleteTeam(request.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: result,
+      message: 'Team deleted successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async addMembers(
+    request: FastifyRequest<{ Params: { id: string }; Body: TeamMembersDTO }>,
+    reply: FastifyReply
+  ) {
+    const team = await this.teamsService.addMembers(request.params.id, request.body);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: team,
+      message: 'Team members added successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+
+  async removeMember(
+    request: FastifyRequest<{ Params: { id: string; personnelId: string } }>,
+    reply: FastifyReply
+  ) {
+    const team = await this.teamsService.removeMember(request.params.id, request.params.personnelId);
+
+    const response: SuccessResponse = {
+      success: true,
+      data: team,
+      message: 'Team member removed successfully',
+    };
+
+    return reply.status(200).send(response);
+  }
+}
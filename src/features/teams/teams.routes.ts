@@ -0,0 +1,77 @@
+import { FastifyInstance } from 'fastify';
+import { TeamsController } from './teams.controller';
+import { TeamsService } from './teams.service';
+import { CreateTeamDTO, UpdateTeamDTO, TeamListQuery, TeamMembersDTO } from './teams.types';
+import { prisma } from '../../config/database';
+import { validate, authMiddleware, requireRole } from '../../core/middleware';
+import {
+  createTeamSchema,
+  updateTeamSchema,
+  teamListQuerySchema,
+  teamMembersSchema,
+} from './teams.schema';
+
+export async function teamsRoutes(app: FastifyInstance) {
+  const teamsService = new TeamsService(prisma);
+  const teamsController = new TeamsController(teamsService);
+
+  // All routes require authentication
+  app.addHook('preHandler', authMiddleware);
+
+  // List teams
+  app.get<{ Querystring: TeamListQuery }>(
+    '/',
+    {
+      preHandler: [validate(teamListQuerySchema, 'query')],
+    },
+    teamsController.getTeams.bind(teamsController)
+  );
+
+  // Get team with its members
+  app.get('/:id', teamsController.getTeamById.bind(teamsController));
+
+  // Create team (Admin only)
+  app.post<{ Body: CreateTeamDTO }>(
+    '/',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(createTeamSchema)],
+    },
+    teamsController.createTeam.bind(teamsController)
+  );
+
+  // Update team (Admin only)
+  app.put<{ Params: { id: string }; Body: UpdateTeamDTO }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(updateTeamSchema)],
+    },
+    teamsController.updateTeam.bind(teamsController)
+  );
+
+  // Delete team (Admin only)
+  app.delete<{ Params: { id: string } }>(
+    '/:id',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    teamsController.deleteTeam.bind(teamsController)
+  );
+
+  // Add members (Admin only)
+  app.post<{ Params: { id: string }; Body: TeamMembersDTO }>(
+    '/:id/members',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN'), validate(teamMembersSchema)],
+    },
+    teamsController.addMembers.bind(teamsController)
+  );
+
+  // Remove member (Admin only)
+  app.delete<{ Params: { id: string; personnelId: string } }>(
+    '/:id/members/:personnelId',
+    {
+      preHandler: [requireRole('ADMIN', 'SUPER_ADMIN')],
+    },
+    teamsController.removeMember.bind(teamsController)
+  );
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { TeamStatus } from '@prisma/client';
+
+export const createTeamSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  barangayId: z.string().min(1).optional(),
+  leaderId: z.string().min(1).optional(),
+  status: z.nativeEnum(TeamStatus).optional(),
+  memberIds: z.array(z.string().min(1)).max(200).optional(),
+});
+
+export const updateTeamSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  barangayId: z.string().min(1).nullable().optional(),
+  leaderId: z.string().min(1).nullable().optional(),
+  status: z.nativeEnum(TeamStatus).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const teamListQuerySchema = z.object({
+  barangayId: z.string().optional(),
+  status: z.nativeEnum(TeamStatus).optional(),
+  isActive: z.string().transform((val) => val === 'true').pipe(z.boolean()).optional(),
+  search: z.string().optional(),
+});
+
+export const teamMembersSchema = z.object({
+  personnelIds: z.array(z.string().min(1)).min(1, 'At least one personnel is required').max(200),
+});
@@ -0,0 +1,263 @@
+import { PrismaClient, Prisma, PersonnelStatus, TeamStatus, IncidentStatus } from '@prisma/client';
+import { NotFoundError, ValidationError, ConflictError } from '../../core/errors';
+import { CreateTeamDTO, UpdateTeamDTO, TeamListQuery, TeamMembersDTO } from './teams.types';
+
+const MEMBER_SELECT = {
+  id: true,
+  joinedAt: true,
+  personnel: {
+    select: {
+      id: true,
+      employeeId: true,
+      firstName: true,
+      lastName: true,
+      role: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.TeamMemberSelect;
+
+// Incidents in these statuses no longer keep a team DEPLOYED
+export const CLOSED_INCIDENT_STATUSES: IncidentStatus[] = [
+  IncidentStatus.RESOLVED,
+  IncidentStatus.CLOSED,
+  IncidentStatus.CANCELLED,
+  IncidentStatus.SPAM,
+  IncidentStatus.MERGED,
+];
+
+const LEADER_SELECT = { id: true, employeeId: true, firstName: true, lastName: true } satisfies Prisma.PersonnelSelect;
+
+// Same statuses individual assignment accepts
+const ASSIGNABLE_STATUSES: PersonnelStatus[] = [PersonnelStatus.AVAILABLE, PersonnelStatus.ON_DUTY, PersonnelStatus.ON_BREAK];
+
+export class TeamsService {
+  constructor(private prisma: PrismaClient) {}
+
+  async createTeam(data: CreateTeamDTO) {
+    const { memberIds = [], ...team } = data;
+    const members = team.leaderId ? [team.leaderId, ...memberIds] : memberIds;
+
+    await this.assertNameAvailable(team.name);
+    if (team.barangayId) await this.assertBarangayExists(team.barangayId);
+    if (members.length) await this.assertPersonnelExist(members);
+
+    return this.prisma.team.create({
+      data: {
+        ...team,
+        ...(members.length && {
+          members: { create: Array.from(new Set(members)).map((personnelId) => ({ personnelId })) },
+        }),
+      },
+      include: this.include(),
+    });
+  }
+
+  async getTeams(query: TeamListQuery) {
+    return this.prisma.team.findMany({
+      where: {
+        ...(query.barangayId && { barangayId: query.barangayId }),
+        ...(query.status && { status: query.status }),
+        ...(query.isActive !== undefined && { isActive: query.isActive }),
+        ...(query.search && { name: { contains: query.search, mode: 'insensitive' } }),
+      },
+      include: {
+        barangay: { select: { id: true, name: true } },
+        leader: { select: LEADER_SELECT },
+        _count: { select: { members: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getTeamById(id: string) {
+    const team = await this.prisma.team.findUnique({
+      where: { id },
+      include: this.include(),
+    });
+
+    if (!team) {
+      throw new NotFoundError('Team not found');
+    }
+
+    return team;
+  }
+
+  async updateTeam(id: string, data: UpdateTeamDTO) {
+    const team = await this.getTeamById(id);
+
+    if (data.name && data.name !== team.name) await this.assertNameAvailable(data.name);
+    if (data.barangayId) await this.assertBarangayExists(data.barangayId);
+
+    if (data.leaderId && data.leaderId !== team.leaderId) {
+      await this.assertPersonnelExist([data.leaderId]);
+
+      const [, updated] = await this.prisma.$transaction([
+        this.prisma.teamMember.createMany({
+          data: [{ teamId: id, personnelId: data.leaderId }],
+          skipDuplicates: true,
+        }),
+        this.prisma.team.update({ where: { id }, data, include: this.include() }),
+      ]);
+      return updated;
+    }
+
+    return this.prisma.team.update({
+      where: { id },
+      data,
+      include: this.include(),
+    });
+  }
+
+  /**
+   * Shifts of the team are kept, they just lose the team reference
+   */
+  async deleteTeam(id: string) {
+    await this.getTeamById(id);
+    await this.prisma.team.delete({ where: { id } });
+    return { id };
+  }
+
+  async addMembers(id: string, data: TeamMembersDTO) {
+    await this.getTeamById(id);
+    await this.assertPersonnelExist(data.personnelIds);
+
+    await this.prisma.teamMember.createMany({
+      data: data.personnelIds.map((personnelId) => ({ teamId: id, personnelId })),
+      skipDuplicates: true,
+    });
+
+    return this.getTeamById(id);
+  }
+
+  /**
+   * Removing the leader leaves the team without one
+   */
+  async removeMember(id: string, personnelId: string) {
+    const { count } = await this.prisma.teamMember.deleteMany({
+      where: { teamId: id, personnelId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('Personnel is not a member of this team');
+    }
+
+    await this.prisma.team.updateMany({
+      where: { id, leaderId: personnelId },
+      data: { leaderId: null },
+    });
+
+    return this.getTeamById(id);
+  }
+
+  /**
+   * IDs of the team's members, used to roster the whole team at once
+   */
+  async getMemberIds(id: string): Promise<string[]> {
+    const team = await this.prisma.team.findUnique({
+      where: { id },
+      select: { members: { select: { personnelId: true } } },
+    });
+
+    if (!team) {
+      throw new NotFoundError('Team not found');
+    }
+
+    return team.members.map((member) => member.personnelId);
+  }
+
+  /**
+   * Members who can be sent to an incident right now. Inactive and off-duty
+   * teams cannot be dispatched.
+   */
+  async getAssignableMembers(id: string) {
+    const team = await this.prisma.team.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        isActive: true,
+        members: {
+          where: { personnel: { status: { in: ASSIGNABLE_STATUSES } } },
+          select: { personnelId: true },
+        },
+      },
+    });
+
+    if (!team) {
+      throw new NotFoundError('Team not found');
+    }
+
+    if (!team.isActive || team.status === TeamStatus.OFF_DUTY) {
+      throw new ValidationError(`Team "${team.name}" is not available for dispatch`);
+    }
+
+    if (team.members.length === 0) {
+      throw new ValidationError(`Team "${team.name}" has no available members`);
+    }
+
+    return {
+      id: team.id,
+      name: team.name,
+      personnelIds: team.members.map((member) => member.personnelId),
+    };
+  }
+
+  /**
+   * Marks a team deployed once it has been sent to an incident
+   */
+  async markDeployed(id: string) {
+    await this.prisma.team.update({
+      where: { id },
+      data: { status: TeamStatus.DEPLOYED },
+    });
+  }
+
+  /**
+   * Return DEPLOYED teams sent to the incident to AVAILABLE, unless they are
+   * still on another open incident
+   */
+  async releaseFromIncident(incidentId: string): Promise<number> {
+    const { count } = await this.prisma.team.updateMany({
+      where: {
+        status: TeamStatus.DEPLOYED,
+        assignments: { some: { incidentId } },
+        NOT: { assignments: { some: { incident: { status: { notIn: CLOSED_INCIDENT_STATUSES } } } } },
+      },
+      data: { status: TeamStatus.AVAILABLE },
+    });
+
+    return count;
+  }
+
+  private include() {
+    return {
+      barangay: { select: { id: true, name: true } },
+      leader: { select: LEADER_SELECT },
+      members: { select: MEMBER_SELECT, orderBy: { joinedAt: 'asc' as const } },
+    };
+  }
+
+  private async assertNameAvailable(name: string) {
+    const existing = await this.prisma.team.findUnique({ where: { name } });
+    if (existing) {
+      throw new ConflictError(`Team "${name}" already exists`);
+    }
+  }
+
+  private async assertBarangayExists(barangayId: string) {
+    const barangay = await this.prisma.barangay.findUnique({ where: { id: barangayId }, select: { id: true } });
+    if (!barangay) {
+      throw new NotFoundError('Barangay not found');
+    }
+  }
+
+  private async assertPersonnelExist(personnelIds: string[]) {
+    const ids = Array.from(new Set(personnelIds));
+    const count = await this.prisma.personnel.count({ where: { id: { in: ids } } });
+    if (count !== ids.length) {
+      throw new ValidationError('One or more personnel not found');
+    }
+  }
+}
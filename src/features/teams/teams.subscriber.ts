@@ -0,0 +1,17 @@
+import { PrismaClient } from '@prisma/client';
+import { DomainEventBus } from '../../core/events';
+import { TeamsService, CLOSED_INCIDENT_STATUSES } from './teams.service';
+
+/**
+ * Teams marked DEPLOYED on assignment go back to AVAILABLE when their
+ * incident closes
+ */
+export function registerTeamsSubscriber(bus: DomainEventBus, prisma: PrismaClient): () => void {
+  const teamsService = new TeamsService(prisma);
+
+  return bus.subscribe('IncidentStatusChanged', async ({ payload }) => {
+    if (CLOSED_INCIDENT_STATUSES.includes(payload.status)) {
+      await teamsService.releaseFromIncident(payload.incidentId);
+    }
+  });
+}
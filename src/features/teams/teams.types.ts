@@ -0,0 +1,30 @@
+import { TeamStatus } from '@prisma/client';
+
+export interface CreateTeamDTO {
+  name: string;
+  description?: string;
+  barangayId?: string;
+  leaderId?: string; // Added as a member if not listed
+  status?: TeamStatus;
+  memberIds?: string[];
+}
+
+export interface UpdateTeamDTO {
+  name?: string;
+  description?: string | null;
+  barangayId?: string | null;
+  leaderId?: string | null;
+  status?: TeamStatus;
+  isActive?: boolean;
+}
+
+export interface TeamListQuery {
+  barangayId?: string;
+  status?: TeamStatus;
+  isActive?: boolean;
+  search?: string;
+}
+
+export interface TeamMembersDTO {
+  personnelIds: string[];
+}
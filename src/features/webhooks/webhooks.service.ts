@@ -0,0 +1,69 @@
+import { createHmac, randomUUID } from 'crypto';
+import { env } from '../../config/environment';
+import { CONSTANTS } from '../../config/constants';
+import { logger } from '../../core/utils/logger';
+import { DomainEvent, DomainEventName } from '../../core/events';
+
+/**
+ * Posts domain events to the endpoints in WEBHOOK_URLS. Bodies are signed
+ * with HMAC-SHA256 of WEBHOOK_SECRET in the X-ERA-Signature header.
+ */
+export class WebhooksService {
+  private endpoints: string[];
+  private events: string[];
+
+  constructor() {
+    this.endpoints = this.parseList(env.WEBHOOK_URLS);
+    this.events = this.parseList(env.WEBHOOK_EVENTS);
+  }
+
+  isEnabled(): boolean {
+    return this.endpoints.length > 0;
+  }
+
+  subscribesTo(type: DomainEventName): boolean {
+    return this.events.includes(type);
+  }
+
+  async deliver(event: DomainEvent) {
+    const body = JSON.stringify({
+      id: randomUUID(),
+      type: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      data: event.payload,
+    });
+
+    await Promise.all(this.endpoints.map((url) => this.post(url, event.type, body)));
+  }
+
+  // Failed deliveries are logged and not retried
+  private async post(url: string, type: DomainEventName, body: string) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-ERA-Event': type,
+    };
+
+    if (env.WEBHOOK_SECRET) {
+      headers['X-ERA-Signature'] = `sha256=${createHmac('sha256', env.WEBHOOK_SECRET).update(body).digest('hex')}`;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(CONSTANTS.WEBHOOKS.TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        logger.warn(`[Webhooks] ${type} to ${url} failed with status ${response.status}`);
+      }
+    } catch (error) {
+      logger.warn(`[Webhooks] ${type} to ${url} failed:`, error);
+    }
+  }
+
+  private parseList(value?: string): string[] {
+    return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  }
+}
@@ -0,0 +1,18 @@
+import { DomainEventBus } from '../../core/events';
+import { logger } from '../../core/utils/logger';
+import { WebhooksService } from './webhooks.service';
+
+export function registerWebhooksSubscriber(bus: DomainEventBus): () => void {
+  const webhooksService = new WebhooksService();
+
+  if (!webhooksService.isEnabled()) {
+    return () => undefined;
+  }
+
+  logger.info('[Webhooks] Forwarding domain events to configured endpoints');
+
+  return bus.subscribeAll(async (event) => {
+    if (!webhooksService.subscribesTo(event.type)) return;
+    await webhooksService.deliver(event);
+  });
+}
@@ -43,8 +43,8 @@ export async function corsPlugin(app: FastifyInstance) {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Origin', 'X-Requested-With', 'Accept'],
-    exposedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Origin', 'X-Requested-With', 'Accept', 'If-Match'],
+    exposedHeaders: ['Content-Type', 'Authorization', 'ETag'],
   });
   
   logger.info(`[CORS] Configured with allowed origins: ${allowedOrigins.join(', ')}`);
@@ -0,0 +1,34 @@
+import { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import { domainEvents } from '../core/events';
+import { registerRealtimeSubscriber } from '../features/realtime/realtime.subscriber';
+import { registerNotificationsSubscriber } from '../features/notifications/notifications.subscriber';
+import { registerAuditSubscriber } from '../features/audit/audit.subscriber';
+import { registerWebhooksSubscriber } from '../features/webhooks/webhooks.subscriber';
+import { registerFleetSubscriber } from '../features/fleet/fleet.subscriber';
+import { registerTeamsSubscriber } from '../features/teams/teams.subscriber';
+
+/**
+ * Subscribe WebSocket broadcasting, notifications, audit logging, webhooks,
+ * presence, fleet tracking and team status to the domain events published by the services
+ */
+export async function domainEventsPluginAsync(app: FastifyInstance) {
+  const unsubscribers = [
+    registerRealtimeSubscriber(domainEvents, app.io),
+    registerNotificationsSubscriber(domainEvents, app.prisma),
+    registerAuditSubscriber(domainEvents, app.prisma),
+    registerWebhooksSubscriber(domainEvents),
+    app.presence.watchLocations(domainEvents),
+    registerFleetSubscriber(domainEvents, app.prisma, app.io),
+    registerTeamsSubscriber(domainEvents, app.prisma),
+  ];
+
+  app.addHook('onClose', async () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  });
+}
+
+export const domainEventsPlugin = fp(domainEventsPluginAsync, {
+  name: 'domain-events',
+  dependencies: ['prisma', 'websocket'],
+});
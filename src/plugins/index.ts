@@ -6,3 +6,5 @@ export { multipartPlugin } from './multipart.plugin';
 export { staticPlugin } from './static.plugin';
 export { rateLimitPlugin } from './rate-limit.plugin';
 export { prismaPlugin } from './prisma.plugin';
+export { schedulerPlugin } from './scheduler.plugin';
+export { domainEventsPlugin } from './domain-events.plugin';
@@ -3,6 +3,7 @@ import fp from 'fastify-plugin';
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../core/utils/logger';
 import { applyEncryptionMiddleware } from '../core/middleware/encryption.middleware';
+import { applySoftDeleteMiddleware } from '../core/middleware/soft-delete.middleware';
 
 // Extend Fastify instance type
 declare module 'fastify' {
@@ -20,10 +21,16 @@ export async function prismaPluginAsync(app: FastifyInstance) {
   applyEncryptionMiddleware(prisma);
   logger.info('Data encryption middleware applied');
 
+  // Hide soft-deleted incidents from regular reads
+  applySoftDeleteMiddleware(prisma);
+
   // Test the connection
   await prisma.$connect();
   logger.info('Database connected successfully');
 
+  // Keep the archive tables and reporting views in step with migrations
+  await prisma.$executeRaw`SELECT "archive"."sync"()`;
+
   // Decorate Fastify instance with Prisma client
   app.decorate('prisma', prisma);
 
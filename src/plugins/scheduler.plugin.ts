@@ -0,0 +1,93 @@
+import { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import { env } from '../config/environment';
+import { logger } from '../core/utils/logger';
+import { SlaService } from '../features/incidents/sla.service';
+import { IncidentArchiveService } from '../features/incidents/archive.service';
+import { ShiftAutomationService } from '../features/roster/shift-automation.service';
+import { CertificationsService } from '../features/certifications/certifications.service';
+import { ManDownDetectionService } from '../features/sos/man-down.service';
+
+/**
+ * Run a job on an interval, skipping ticks while the previous run is still going
+ */
+function scheduleJob(name: string, intervalMs: number, job: () => Promise<unknown>): NodeJS.Timeout {
+  let running = false;
+
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await job();
+    } catch (error) {
+      logger.error(`[Scheduler] ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
+
+export async function schedulerPluginAsync(app: FastifyInstance) {
+  const timers: NodeJS.Timeout[] = [];
+
+  if (env.SLA_MONITOR_ENABLED === 'true') {
+    const slaService = new SlaService(app.prisma, app.io);
+    const intervalMs = parseInt(env.SLA_CHECK_INTERVAL_MS);
+
+    timers.push(scheduleJob('SLA monitor', intervalMs, () => slaService.checkBreaches()));
+    logger.info(`[Scheduler] SLA monitor running every ${intervalMs / 1000}s`);
+  }
+
+  if (env.INCIDENT_ARCHIVE_ENABLED === 'true') {
+    const archiveService = new IncidentArchiveService(app.prisma);
+    const intervalMs = parseInt(env.INCIDENT_ARCHIVE_INTERVAL_MS);
+
+    timers.push(scheduleJob('Incident archive', intervalMs, () => archiveService.archiveClosedIncidents()));
+    logger.info(`[Scheduler] Incident archive running every ${intervalMs / 1000}s`);
+  }
+
+  if (env.ROSTER_AUTOMATION_ENABLED === 'true') {
+    const shiftAutomation = new ShiftAutomationService(app.prisma, app.io);
+    const intervalMs = parseInt(env.ROSTER_CHECK_INTERVAL_MS);
+
+    timers.push(scheduleJob('Shift automation', intervalMs, () => shiftAutomation.applyTransitions()));
+    logger.info(`[Scheduler] Shift automation running every ${intervalMs / 1000}s`);
+  }
+
+  if (env.CERTIFICATION_REMINDER_ENABLED === 'true') {
+    const certificationsService = new CertificationsService(app.prisma, app.io);
+    const intervalMs = parseInt(env.CERTIFICATION_REMINDER_INTERVAL_MS);
+
+    timers.push(scheduleJob('Certification reminders', intervalMs, () => certificationsService.sendExpiryReminders()));
+    logger.info(`[Scheduler] Certification reminders running every ${intervalMs / 1000}s`);
+  }
+
+  if (env.MAN_DOWN_DETECTION_ENABLED === 'true') {
+    const manDown = new ManDownDetectionService(app.prisma);
+    const intervalMs = parseInt(env.MAN_DOWN_CHECK_INTERVAL_MS);
+
+    timers.push(scheduleJob('Man-down detection', intervalMs, () => manDown.detect()));
+    logger.info(`[Scheduler] Man-down detection running every ${intervalMs / 1000}s`);
+  }
+
+  // Always on: the event log is bounded by pruning
+  const redeliveryMs = parseInt(env.REALTIME_REDELIVERY_INTERVAL_MS);
+  timers.push(scheduleJob('Realtime redelivery', redeliveryMs, () => app.realtimeEvents.redeliver(redeliveryMs)));
+
+  const pruneMs = parseInt(env.REALTIME_EVENT_PRUNE_INTERVAL_MS);
+  timers.push(scheduleJob('Realtime event prune', pruneMs, () => app.realtimeEvents.prune()));
+  logger.info(`[Scheduler] Critical event redelivery every ${redeliveryMs / 1000}s`);
+
+  const presenceMs = parseInt(env.PRESENCE_CHECK_INTERVAL_MS);
+  timers.push(scheduleJob('Stale location check', presenceMs, () => app.presence.checkStaleLocations()));
+
+  app.addHook('onClose', async () => {
+    timers.forEach((timer) => clearInterval(timer));
+  });
+}
+
+export const schedulerPlugin = fp(schedulerPluginAsync, {
+  name: 'scheduler',
+  dependencies: ['prisma', 'websocket'],
+});
@@ -5,6 +5,12 @@ import { env } from '../config/environment';
 import { logger } from '../core/utils/logger';
 import { JWTService } from '../core/utils/jwt';
 import { DatabaseMonitor } from '../core/utils/database-monitor';
+import { registerIncidentChatHandlers } from '../features/incidents/chat.socket';
+import { registerSosHandlers } from '../features/sos/sos.socket';
+import { RealtimeEventLogService } from '../features/realtime/event-log.service';
+import { registerRealtimeHandlers } from '../features/realtime/realtime.socket';
+import { PersonnelService } from '../features/personnel/personnel.service';
+import { PresenceService } from '../features/personnel/presence.service';
 
 import { PrismaClient } from '@prisma/client';
 
@@ -117,8 +123,18 @@ export async function websocketPluginAsync(app: FastifyInstance & { prisma: Pris
     }
   });
 
+  const personnelService = new PersonnelService(app.prisma);
+  const presence = new PresenceService(app.prisma, io);
+
+  // Sequence and log room broadcasts so reconnecting clients can catch up
+  const eventLog = new RealtimeEventLogService(app.prisma, io);
+  await eventLog.init();
+  eventLog.attach();
+
   // Store io instance and database monitor
   app.decorate('io', io);
+  app.decorate('realtimeEvents', eventLog);
+  app.decorate('presence', presence);
 
   // Connection handler with enhanced logging and error handling
   io.on('connection', (socket) => {
@@ -139,9 +155,14 @@ export async function websocketPluginAsync(app: FastifyInstance & { prisma: Pris
       logger.info(`[WebSocket] Personnel ${userId} joined room`);
     } else if (['ADMIN', 'SUPER_ADMIN', 'USER'].includes(role)) {
       socket.join('admin');
+      socket.join(`user:${userId}`); // Targeted events such as @mentions
       logger.info(`[WebSocket] Admin ${userId} joined admin room`);
     }
 
+    // Track who is online, on which device, and when they were last heard from
+    presence.connect(socket);
+    socket.conn.on('packet', () => presence.touch(socket.id));
+
     // Rate limiting for location updates with per-user tracking
     const userRateLimit = new Map();
     
@@ -161,6 +182,16 @@ export async function websocketPluginAsync(app: FastifyInstance & { prisma: Pris
       return true;
     }
 
+    // Incident chat rooms, receipts and typing indicators
+    const incidentRoomsJoined = registerIncidentChatHandlers(io, socket, app.prisma, checkRateLimit);
+
+    // Replay after reconnect and acks for critical events; replays wait for the incident rooms
+    eventLog.trackRooms(socket, incidentRoomsJoined);
+    registerRealtimeHandlers(socket, eventLog);
+
+    // Responder distress alerts
+    registerSosHandlers(socket, app.prisma, checkRateLimit);
+
     // Enhanced location updates with better validation
     socket.on('personnel:location', async (data) => {
       try {
@@ -218,45 +249,23 @@ export async function websocketPluginAsync(app: FastifyInstance & { prisma: Pris
           return socket.emit('error', { message: 'Personnel ID mismatch' });
         }
 
-        const locationUpdate = {
-          personnelId: userId,
-          latitude,
-          longitude,
-          accuracy: accuracy || null,
-          timestamp: timestamp ? new Date(timestamp) : new Date(),
-          source: 'websocket'
-        };
+        const recordedAt = timestamp ? new Date(timestamp) : new Date();
 
         logger.debug(`[WebSocket] Location update from ${userId}:`, {
           latitude,
           longitude,
           accuracy,
-          timestamp: locationUpdate.timestamp
+          timestamp: recordedAt
         });
 
-        // Broadcast only to admin room with enhanced payload
-        const broadcastData = {
-          ...locationUpdate,
-          metadata: {
-            connectionId,
-            timestamp: new Date().toISOString()
-          }
-        };
-        
-        io.to('admin').emit('personnel:location:updated', broadcastData);
-
-        // Store in database with error handling
+        // Stored through PersonnelService; the admin broadcast follows from PersonnelLocationUpdated
         try {
-          await app.prisma.personnelLocation.create({
-            data: {
-              personnelId: userId,
-              latitude: locationUpdate.latitude,
-              longitude: locationUpdate.longitude,
-              accuracy: locationUpdate.accuracy,
-              timestamp: locationUpdate.timestamp,
-            },
-          });
-          
+          await personnelService.updateLocation(
+            userId,
+            { latitude, longitude, accuracy: accuracy || undefined, timestamp: recordedAt },
+            'websocket'
+          );
+
           logger.debug(`[WebSocket] Location stored for ${userId}`);
         } catch (dbError) {
           logger.error(`[WebSocket] Failed to store location for ${userId}:`, dbError);
@@ -431,6 +440,7 @@ export async function websocketPluginAsync(app: FastifyInstance & { prisma: Pris
     // Connection cleanup
     socket.on('disconnect', (reason) => {
       logger.info(`[WebSocket] Client disconnected: ${connectionId}, User: ${email}, Reason: ${reason}`);
+      void presence.disconnect(socket);
       
       // Clean up rate limit data
       for (const key of userRateLimit.keys()) {
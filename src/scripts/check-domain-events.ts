@@ -0,0 +1,84 @@
+import { PrismaClient, IncidentStatus, IncidentType, PersonnelStatus } from '@prisma/client';
+import { DomainEventBus, recordDomainEvents } from '../core/events';
+import { IncidentsService } from '../features/incidents/incidents.service';
+import { logger } from '../core/utils/logger';
+
+/**
+ * Check that incident service calls publish the domain events their
+ * subscribers rely on. Runs against the configured database with a
+ * throwaway incident, which is deleted afterwards; the responder used is
+ * put back to their previous status.
+ *
+ * Usage: npm run events:check
+ */
+export async function checkDomainEvents() {
+  const prisma = new PrismaClient();
+
+  // A private bus, so none of the application's subscribers run
+  const bus = new DomainEventBus();
+  const incidents = new IncidentsService(prisma, undefined, bus);
+
+  const admin = await prisma.user.findFirst({ where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true } });
+  const responder = await prisma.personnel.findFirst({ where: { status: PersonnelStatus.AVAILABLE } });
+
+  if (!admin || !responder) {
+    await prisma.$disconnect();
+    throw new Error('Needs an active admin and an AVAILABLE personnel record');
+  }
+
+  const incident = await prisma.incident.create({
+    data: {
+      incidentNumber: `EVENTS-CHECK-${Date.now()}`,
+      type: IncidentType.OTHER,
+      status: IncidentStatus.REPORTED,
+      title: 'Domain event check',
+      description: 'Created by check-domain-events; safe to delete',
+      latitude: 0,
+      longitude: 0,
+      address: 'N/A',
+      reporterName: 'Domain event check',
+      reporterPhone: 'N/A',
+      createdById: admin.id,
+    },
+  });
+
+  try {
+    // The first responder starts the response, then joins it
+    const joined = await recordDomainEvents(bus, () => incidents.joinIncidentResponse(incident.id, responder.id));
+    joined.events.assertPublished('IncidentStatusChanged', 'ResponderJoined');
+
+    const [responderJoined] = joined.events.payloads('ResponderJoined');
+    if (responderJoined.personnelId !== responder.id || !responderJoined.isPrimaryResponder) {
+      throw new Error(`Unexpected ResponderJoined payload: ${JSON.stringify(responderJoined)}`);
+    }
+    logger.info('joinIncidentResponse publishes ResponderJoined');
+
+    const arrived = await recordDomainEvents(bus, () =>
+      incidents.updateStatus(incident.id, { status: IncidentStatus.ARRIVED }, { role: 'ADMIN', id: admin.id })
+    );
+    arrived.events.assertPublished('IncidentStatusChanged', 'IncidentUpdated');
+
+    const [statusChanged] = arrived.events.payloads('IncidentStatusChanged');
+    if (statusChanged.previousStatus !== IncidentStatus.RESPONDING || statusChanged.status !== IncidentStatus.ARRIVED) {
+      throw new Error(`Unexpected IncidentStatusChanged payload: ${JSON.stringify(statusChanged)}`);
+    }
+    logger.info('updateStatus publishes IncidentStatusChanged');
+  } finally {
+    await prisma.incident.delete({ where: { id: incident.id } });
+    await prisma.personnel.update({ where: { id: responder.id }, data: { status: responder.status } });
+    await prisma.$disconnect();
+  }
+}
+
+// CLI runner
+if (require.main === module) {
+  checkDomainEvents()
+    .then(() => {
+      logger.info('Domain event check passed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Domain event check failed:', error);
+      process.exit(1);
+    });
+}
@@ -78,6 +78,20 @@ export async function migrateExistingData() {
       }
     }
 
+    // Migrate IncidentReporterContact phone numbers
+    logger.info('Migrating IncidentReporterContact phone numbers...');
+    const reporterContacts = await prisma.incidentReporterContact.findMany({
+      select: { id: true, phone: true }
+    });
+    for (const contact of reporterContacts) {
+      if (contact.phone && !encryptionService.isEncrypted(contact.phone)) {
+        await prisma.incidentReporterContact.update({
+          where: { id: contact.id },
+          data: { phone: encryptionService.encrypt(contact.phone) }
+        });
+      }
+    }
+
     logger.info('Data encryption migration completed successfully');
 
   } catch (error) {
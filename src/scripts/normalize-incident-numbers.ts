@@ -0,0 +1,92 @@
+import { PrismaClient } from '@prisma/client';
+import { IncidentNumberService } from '../features/incidents/incident-number.service';
+import { logger } from '../core/utils/logger';
+
+/**
+ * Renumber existing incidents into the INCIDENT_NUMBER_FORMAT sequence, ordered by
+ * creation time within each year, and reset the per-year sequences to match.
+ * Run this once after deploying the incident number sequence.
+ *
+ * Usage: npm run incidents:normalize-numbers -- [--dry-run]
+ */
+export async function normalizeIncidentNumbers(options: { dryRun?: boolean } = {}) {
+  const prisma = new PrismaClient();
+
+  logger.info(`Starting incident number normalisation${options.dryRun ? ' (dry run)' : ''}...`);
+
+  try {
+    const incidents = await prisma.incident.findMany({
+      select: { id: true, incidentNumber: true, createdAt: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    // Group by year, keeping creation order
+    const byYear = new Map<number, typeof incidents>();
+    for (const incident of incidents) {
+      const year = incident.createdAt.getFullYear();
+      byYear.set(year, [...(byYear.get(year) || []), incident]);
+    }
+
+    let changed = 0;
+
+    for (const [year, yearIncidents] of byYear) {
+      const renumbered = yearIncidents.map((incident, index) => ({
+        ...incident,
+        newNumber: IncidentNumberService.format(year, index + 1),
+      }));
+      const toChange = renumbered.filter((i) => i.newNumber !== i.incidentNumber);
+
+      toChange.forEach((i) => logger.info(`${year}: ${i.incidentNumber} → ${i.newNumber}`));
+      changed += toChange.length;
+
+      if (options.dryRun) continue;
+
+      // Move through temporary numbers first so swaps never hit the unique constraint
+      await prisma.$transaction([
+        ...toChange.map((i) =>
+          prisma.incident.update({
+            where: { id: i.id },
+            data: { incidentNumber: `TMP-${i.id}` },
+          })
+        ),
+        ...toChange.map((i) =>
+          prisma.incident.update({
+            where: { id: i.id },
+            data: { incidentNumber: i.newNumber },
+          })
+        ),
+        prisma.incidentSequence.upsert({
+          where: { year },
+          create: { year, lastValue: yearIncidents.length },
+          update: { lastValue: yearIncidents.length },
+        }),
+      ]);
+    }
+
+    logger.info(
+      `Incident number normalisation completed: ${changed} of ${incidents.length} incident(s) ${
+        options.dryRun ? 'would be renumbered' : 'renumbered'
+      }`
+    );
+
+    return { checked: incidents.length, changed };
+  } catch (error) {
+    logger.error('Incident number normalisation failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// CLI runner
+if (require.main === module) {
+  normalizeIncidentNumbers({ dryRun: process.argv.includes('--dry-run') })
+    .then(() => {
+      logger.info('Normalisation script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Normalisation script failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,75 @@
+import { PrismaClient } from '@prisma/client';
+import { BarangaysService } from '../features/barangays/barangays.service';
+import { logger } from '../core/utils/logger';
+
+/**
+ * Re-assign existing incidents to barangays using the current coverage polygons.
+ * Run this after barangay coverage areas are added or changed.
+ *
+ * Usage: npm run barangays:reassign -- [--dry-run]
+ */
+export async function reassignIncidentBarangays(options: { dryRun?: boolean } = {}) {
+  const prisma = new PrismaClient();
+  const barangaysService = new BarangaysService(prisma);
+
+  logger.info(`Starting incident barangay re-assignment${options.dryRun ? ' (dry run)' : ''}...`);
+
+  try {
+    const barangays = await barangaysService.getLocatableBarangays();
+    if (barangays.length === 0) {
+      logger.warn('No active barangays found, nothing to do');
+      return { checked: 0, changed: 0 };
+    }
+
+    const incidents = await prisma.incident.findMany({
+      select: { id: true, incidentNumber: true, latitude: true, longitude: true, barangayId: true },
+    });
+
+    let changed = 0;
+
+    for (const incident of incidents) {
+      const location = barangaysService.matchBarangay(barangays, incident.latitude, incident.longitude);
+      const barangayId = location.barangay?.id ?? null;
+
+      if (barangayId === incident.barangayId) continue;
+
+      changed++;
+      logger.info(
+        `${incident.incidentNumber}: ${incident.barangayId ?? 'none'} → ${barangayId ?? 'none'} (${location.method})`
+      );
+
+      if (!options.dryRun) {
+        await prisma.incident.update({
+          where: { id: incident.id },
+          data: { barangayId },
+        });
+      }
+    }
+
+    logger.info(
+      `Incident barangay re-assignment completed: ${changed} of ${incidents.length} incident(s) ${
+        options.dryRun ? 'would change' : 'changed'
+      }`
+    );
+
+    return { checked: incidents.length, changed };
+  } catch (error) {
+    logger.error('Incident barangay re-assignment failed:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// CLI runner
+if (require.main === module) {
+  reassignIncidentBarangays({ dryRun: process.argv.includes('--dry-run') })
+    .then(() => {
+      logger.info('Re-assignment script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      logger.error('Re-assignment script failed:', error);
+      process.exit(1);
+    });
+}
@@ -1,5 +1,7 @@
 import { Server as SocketIOServer } from 'socket.io';
 import '@fastify/jwt';
+import type { RealtimeEventLogService } from '../features/realtime/event-log.service';
+import type { PresenceService } from '../features/personnel/presence.service';
 
 declare module '@fastify/jwt' {
   interface FastifyJWT {
@@ -19,6 +21,8 @@ declare module '@fastify/jwt' {
 declare module 'fastify' {
   interface FastifyInstance {
     io: SocketIOServer;
+    realtimeEvents: RealtimeEventLogService;
+    presence: PresenceService;
   }
 
   interface FastifyRequest {